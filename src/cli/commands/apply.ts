@@ -0,0 +1,312 @@
+/**
+ * Apply command - Execute a plan file created by `retell plan`.
+ *
+ * Every entry is re-planned and every remote fingerprint re-fetched before
+ * anything is changed. If local files, metadata or the remote agents differ
+ * from what was planned, nothing is applied and a new plan is required.
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import * as readline from 'readline';
+import {
+  AgentController,
+  RetellClientService,
+  WorkspaceConfigService,
+} from '@heya/retell.controllers';
+import type { WorkspaceConfig } from '@heya/retell.controllers';
+import { handleError } from '../errors/cli-error-handler';
+import { AgentInheritance } from '../utils/agent-inheritance';
+import {
+  DeploymentPlanner,
+  type DeploymentPlan,
+  type PlanAction,
+  type PlanEntry,
+} from '../utils/deployment-plan';
+import { ConversationFlowManager } from '../utils/conversation-flow';
+import { CustomLlmManager } from '../utils/custom-llm';
+import { KnowledgeBaseManager } from '../utils/knowledge-base';
+import { LlmAgentManager } from '../utils/llm-agent';
+import { OperationHistory } from '../utils/operation-history';
+import { CliOutput } from '../utils/output';
+
+export const applyCommand = new Command('apply')
+  .description('Apply a plan file created by retell plan')
+  .argument('<plan-file>', 'Plan file written by retell plan')
+  .option('-y, --yes', 'Skip confirmation prompt', false)
+  .addOption(CliOutput.option())
+  .action(async (planFile: string, options: ApplyOptions) => {
+    try {
+      await executeApply(planFile, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+type ApplyOptions = {
+  yes: boolean;
+};
+
+/**
+ * `--output json` data
+ */
+type ApplyJson = {
+  workspace: string;
+  planFile: string;
+  applied: Array<{ agent: string; action: PlanAction; agentId: string }>;
+};
+
+async function executeApply(planFile: string, options: ApplyOptions): Promise<void> {
+  const planResult = await DeploymentPlanner.read(path.resolve(planFile));
+  if (!planResult.success) {
+    throw planResult.error;
+  }
+  const plan = planResult.value;
+  const actions = plan.entries.filter((entry) => entry.action !== 'no-op');
+
+  console.log(`\nApplying ${planFile} to ${plan.workspace} (planned ${plan.created_at})...\n`);
+
+  if (actions.length === 0) {
+    console.log('✓ Plan contains no changes.\n');
+    CliOutput.result<ApplyJson>({ workspace: plan.workspace, planFile, applied: [] });
+    return;
+  }
+  if (!options.yes && CliOutput.isJson()) {
+    throw new Error('Use --yes with --output json; apply cannot ask for confirmation.');
+  }
+
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(plan.workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+  const workspaceConfig = workspaceConfigResult.value;
+
+  // 1. Refuse if anything changed since the plan was made
+  console.log('Checking for changes since planning...');
+  const problems = await verifyPlan(plan, actions, workspaceConfig);
+  if (problems.length > 0) {
+    console.log('');
+    for (const problem of problems) {
+      console.log(`  ✗ ${problem}`);
+    }
+    throw new Error(
+      `State changed since the plan was created. Run 'retell plan -w ${plan.workspace}' again.`
+    );
+  }
+  console.log('✓ Local and remote state match the plan\n');
+
+  for (const entry of actions) {
+    console.log(`  ${entry.action.padEnd(6)} ${entry.agent} (${entry.reason})`);
+  }
+  console.log('');
+
+  if (!options.yes) {
+    const confirmed = await confirmApply(actions.length, plan.workspace);
+    if (!confirmed) {
+      console.log('\nApply cancelled.');
+      return;
+    }
+    console.log('');
+  }
+
+  // 2. Execute in plan order, stopping at the first failure
+  const applied: ApplyJson['applied'] = [];
+  for (const entry of actions) {
+    try {
+      const agentId = await applyEntry(plan, entry, workspaceConfig);
+      applied.push({ agent: entry.agent, action: entry.action, agentId });
+    } catch (error) {
+      const remaining = actions.length - applied.length - 1;
+      console.log(`\n✗ ${entry.agent}: ${error instanceof Error ? error.message : String(error)}`);
+      throw new Error(
+        `Apply stopped after ${applied.length} of ${actions.length} change(s)` +
+          (remaining > 0 ? `; ${remaining} not attempted` : '') +
+          `. Run 'retell plan -w ${plan.workspace}' to see what is left.`
+      );
+    }
+  }
+
+  console.log(`\n✓ Applied ${applied.length} change(s) to ${plan.workspace}\n`);
+  CliOutput.result<ApplyJson>({ workspace: plan.workspace, planFile, applied });
+}
+
+/**
+ * Re-plan each entry and re-fetch remote fingerprints, returning one message
+ * per difference from the plan.
+ */
+async function verifyPlan(
+  plan: DeploymentPlan,
+  actions: ReadonlyArray<PlanEntry>,
+  workspaceConfig: WorkspaceConfig
+): Promise<string[]> {
+  const modeResult = await WorkspaceConfigService.getMode();
+  const mode = modeResult.success ? modeResult.value : 'single-production';
+  const agentsPath = path.resolve(plan.agents_path);
+  const client = new RetellClientService(workspaceConfig);
+
+  const problems: string[] = [];
+  for (const entry of actions) {
+    const currentResult = await DeploymentPlanner.planAgent(
+      agentsPath,
+      entry.agent,
+      plan.workspace,
+      mode
+    );
+    if (!currentResult.success) {
+      problems.push(currentResult.error.message);
+      continue;
+    }
+    const changes = DeploymentPlanner.compareEntries(entry, currentResult.value);
+
+    if (entry.remote !== null && entry.agent_id !== null) {
+      const remoteResult = await DeploymentPlanner.fetchRemote(
+        client,
+        entry.agent_id,
+        entry.llm_id
+      );
+      if (!remoteResult.success) {
+        changes.push(remoteResult.error.message);
+      } else {
+        changes.push(...DeploymentPlanner.compareRemote(entry.remote, remoteResult.value));
+      }
+    }
+
+    problems.push(...changes.map((change) => `${entry.agent}: ${change}`));
+  }
+  return problems;
+}
+
+/**
+ * Apply one entry, returning the agent ID it created, updated or deleted
+ */
+async function applyEntry(
+  plan: DeploymentPlan,
+  entry: PlanEntry,
+  workspaceConfig: WorkspaceConfig
+): Promise<string> {
+  const agentPath = path.resolve(plan.agents_path, entry.agent);
+  const before = await OperationHistory.readSyncState(agentPath, plan.workspace);
+  const recordHistory = async (success: boolean, summary: string): Promise<void> => {
+    const after = await OperationHistory.readSyncState(agentPath, plan.workspace);
+    await OperationHistory.record({
+      action: entry.action === 'delete' ? 'delete' : 'push',
+      agent: entry.agent,
+      workspace: plan.workspace,
+      success,
+      before_hash: before.config_hash,
+      after_hash: after.config_hash,
+      retell_version: after.retell_version,
+      summary: `apply: ${summary}`,
+    });
+  };
+
+  if (entry.action === 'delete') {
+    const flowClient = ConversationFlowManager.createClient(workspaceConfig);
+    const flowIdResult =
+      entry.llm_id === null && entry.agent_id !== null
+        ? await ConversationFlowManager.lookupFlowId(flowClient, entry.agent_id)
+        : null;
+    const result = await new AgentController().delete(entry.agent, {
+      workspace: plan.workspace,
+      agentsPath: plan.agents_path,
+    });
+    if (!result.success) {
+      await recordHistory(false, result.error.message);
+      throw result.error;
+    }
+    if (flowIdResult?.success === true && flowIdResult.value !== null) {
+      const flowDeleteResult = await ConversationFlowManager.deleteFlow(
+        flowClient,
+        flowIdResult.value
+      );
+      if (!flowDeleteResult.success) {
+        console.warn(`  Warning: Failed to delete conversation flow ${flowIdResult.value}`);
+      }
+    }
+    await recordHistory(true, `Deleted ${result.value.agentId}`);
+    console.log(`✓ Deleted ${entry.agent} (${result.value.agentId})`);
+    return result.value.agentId;
+  }
+
+  const isFlowAgent = await ConversationFlowManager.isFlowAgent(agentPath);
+  if (isFlowAgent || (await CustomLlmManager.isCustomLlmAgent(agentPath))) {
+    const engineResult = isFlowAgent
+      ? await ConversationFlowManager.push(workspaceConfig, {
+          agentPath,
+          workspace: plan.workspace,
+        })
+      : await CustomLlmManager.push(workspaceConfig, { agentPath, workspace: plan.workspace });
+    if (!engineResult.success) {
+      await recordHistory(false, engineResult.error.message);
+      throw engineResult.error;
+    }
+    await recordHistory(true, entry.action === 'create' ? 'Created' : 'Config');
+    console.log(
+      `✓ ${entry.action === 'create' ? 'Created' : 'Updated'} ${entry.agent} (${engineResult.value.agentId})`
+    );
+    return engineResult.value.agentId;
+  }
+
+  const pushResult = await LlmAgentManager.push({
+    agentsPath: plan.agents_path,
+    agentName: entry.agent,
+    workspace: plan.workspace,
+    promptsPath: plan.prompts_path,
+  });
+  if (!pushResult.success) {
+    await recordHistory(false, pushResult.error.message);
+    throw pushResult.error;
+  }
+  const summary: string[] = [entry.action === 'create' ? 'Created' : 'Config'];
+
+  // Sync even without planned KB changes, as push does: a new LLM still has
+  // to be linked to a knowledge base uploaded earlier.
+  const hasKbResult = await KnowledgeBaseManager.hasKnowledgeBase(agentPath, plan.workspace);
+  if (!hasKbResult.success) {
+    await recordHistory(false, `${summary.join(' + ')}, KB sync failed`);
+    throw hasKbResult.error;
+  }
+  if (hasKbResult.value) {
+    const configResult = await AgentInheritance.load(agentPath, plan.workspace);
+    if (!configResult.success) {
+      await recordHistory(false, `${summary.join(' + ')}, KB sync failed`);
+      throw new Error(`Failed to load agent config: ${configResult.error.message}`);
+    }
+    const kbResult = await KnowledgeBaseManager.push(workspaceConfig, {
+      agentName: entry.agent,
+      agentPath,
+      workspace: plan.workspace,
+      configuredIds: configResult.value.llm_config.knowledge_base_ids,
+    });
+    if (!kbResult.success) {
+      await recordHistory(false, `${summary.join(' + ')}, KB sync failed`);
+      throw new Error(`Knowledge base sync failed: ${kbResult.error.message}`);
+    }
+    const { added, updated, removed } = kbResult.value.plan;
+    const kbFiles = added.length + updated.length + removed.length;
+    if (kbFiles > 0) {
+      summary.push(`KB (${kbFiles} file${kbFiles === 1 ? '' : 's'})`);
+    }
+  }
+
+  await recordHistory(true, summary.join(' + '));
+  console.log(
+    `✓ ${entry.action === 'create' ? 'Created' : 'Updated'} ${entry.agent} (${pushResult.value.agentId})`
+  );
+  return pushResult.value.agentId;
+}
+
+async function confirmApply(count: number, workspace: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`Apply ${count} change(s) to ${workspace}? (yes/no): `, (answer) => {
+      rl.close();
+      const normalized = answer.trim().toLowerCase();
+      resolve(normalized === 'yes' || normalized === 'y');
+    });
+  });
+}
@@ -1,25 +1,42 @@
 /**
  * Audit command - Detect duplicates, orphaned resources, and sync issues.
+ *
+ * Orphaned resources are LLMs and conversation flows that no agent in the
+ * workspace uses. Phone numbers are checked for bindings to deleted or
+ * untracked agents and to agent versions that are not published.
  */
 
 import { Command } from 'commander';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import Table from 'cli-table3';
-import type { WorkspaceType, LlmId } from '@heya/retell.controllers';
+import type Retell from 'retell-sdk';
+import type { WorkspaceType, LlmId, Result } from '@heya/retell.controllers';
 import {
-  AgentConfigLoader,
   MetadataManager,
   WorkspaceConfigService,
   RetellClientService,
+  createAgentId,
+  Ok,
 } from '@heya/retell.controllers';
 import { handleError } from '../errors/cli-error-handler';
+import { AgentInheritance } from '../utils/agent-inheritance';
+import { ConversationFlowManager } from '../utils/conversation-flow';
+import { CustomLlmManager } from '../utils/custom-llm';
+import { CliOutput } from '../utils/output';
+import {
+  PhoneConfig,
+  type PhoneAgentBinding,
+  type PhoneBindingIssue,
+  type PhoneBindingIssueKind,
+} from '../utils/phone-config';
 
 export const auditCommand = new Command('audit')
   .description('Audit agents for duplicates, orphaned resources, and sync issues')
   .option('-w, --workspace <workspace>', 'Workspace to audit (staging or production)', 'staging')
   .option('-p, --path <path>', 'Path to agents directory', './agents')
   .option('--fix', 'Attempt to fix issues (removes orphaned resources)', false)
+  .addOption(CliOutput.option())
   .action(async (options: AuditOptions) => {
     try {
       await executeAudit(options);
@@ -46,6 +63,7 @@ type WorkspaceAgent = {
   agent_id: string;
   agent_name?: string;
   llm_id?: string;
+  conversation_flow_id?: string;
 };
 
 type AuditResults = {
@@ -54,9 +72,34 @@ type AuditResults = {
   localNotInWorkspace: LocalAgentData[];
   workspaceNotLocal: WorkspaceAgent[];
   orphanedLlms: string[];
+  orphanedFlows: string[];
+  phoneBindings: PhoneBindingIssue[];
   issues: string[];
 };
 
+/**
+ * `--output json` data. The command still exits 1 when issueCount > 0.
+ */
+type AuditJson = {
+  workspace: WorkspaceType;
+  issueCount: number;
+  duplicateAgentIds: Array<{ agentId: string; directories: string[] }>;
+  duplicateAgentNames: Array<{ agentName: string; directories: string[] }>;
+  localNotInWorkspace: Array<{ directory: string; agentName: string; agentId: string | null }>;
+  workspaceNotLocal: Array<{ agentId: string; agentName: string | null }>;
+  orphanedLlms: string[];
+  orphanedFlows: string[];
+  phoneBindings: Array<{
+    phoneNumber: string;
+    direction: 'inbound' | 'outbound';
+    agentId: string;
+    agentVersion: number | null;
+    issue: PhoneBindingIssueKind;
+  }>;
+  /** Resources deleted by --fix */
+  deleted: { llms: string[]; flows: string[] };
+};
+
 async function executeAudit(options: AuditOptions): Promise<void> {
   const agentsPath = path.resolve(options.path);
   const workspace = options.workspace as WorkspaceType;
@@ -77,18 +120,47 @@ async function executeAudit(options: AuditOptions): Promise<void> {
   // Fetch workspace agents
   const workspaceAgents = await fetchWorkspaceAgents(client);
 
-  // Fetch all LLMs in workspace
+  // Fetch all LLMs and conversation flows in workspace
   const workspaceLlms = await fetchWorkspaceLlms(client);
+  const flowClient = ConversationFlowManager.createClient(workspaceConfig);
+  const flowsResult = await ConversationFlowManager.listFlowIds(flowClient);
+  if (!flowsResult.success) {
+    throw flowsResult.error;
+  }
+
+  // Fetch phone number bindings and the published versions of pinned agents
+  const bindingsResult = await PhoneConfig.listBindings(client);
+  if (!bindingsResult.success) {
+    throw new Error(`Failed to list phone numbers: ${bindingsResult.error.message}`);
+  }
+  const publishedVersions = await fetchPublishedVersions(
+    client,
+    bindingsResult.value,
+    workspaceAgents
+  );
 
   // Perform audit
-  const results = performAudit(localAgents, workspaceAgents, workspaceLlms);
+  const results = performAudit(
+    localAgents,
+    workspaceAgents,
+    workspaceLlms,
+    flowsResult.value,
+    bindingsResult.value,
+    publishedVersions
+  );
 
   // Display results
-  displayResults(results, workspace);
+  if (!CliOutput.isJson()) {
+    displayResults(results, workspace);
+  }
 
   // Fix issues if requested
+  const deleted: AuditJson['deleted'] = { llms: [], flows: [] };
   if (options.fix && results.orphanedLlms.length > 0) {
-    await fixOrphanedLlms(client, results.orphanedLlms);
+    deleted.llms = await fixOrphanedLlms(client, results.orphanedLlms);
+  }
+  if (options.fix && results.orphanedFlows.length > 0) {
+    deleted.flows = await fixOrphanedFlows(flowClient, results.orphanedFlows);
   }
 
   // Exit with error if issues found
@@ -97,7 +169,41 @@ async function executeAudit(options: AuditOptions): Promise<void> {
     results.duplicateAgentNames.size +
     results.localNotInWorkspace.length +
     results.workspaceNotLocal.length +
-    results.orphanedLlms.length;
+    results.orphanedLlms.length +
+    results.orphanedFlows.length +
+    results.phoneBindings.length;
+
+  CliOutput.result<AuditJson>({
+    workspace,
+    issueCount: totalIssues,
+    duplicateAgentIds: [...results.duplicateAgentIds].map(([agentId, directories]) => ({
+      agentId,
+      directories,
+    })),
+    duplicateAgentNames: [...results.duplicateAgentNames].map(([agentName, directories]) => ({
+      agentName,
+      directories,
+    })),
+    localNotInWorkspace: results.localNotInWorkspace.map((agent) => ({
+      directory: agent.dirName,
+      agentName: agent.agentName,
+      agentId: agent.agentId,
+    })),
+    workspaceNotLocal: results.workspaceNotLocal.map((agent) => ({
+      agentId: agent.agent_id,
+      agentName: agent.agent_name ?? null,
+    })),
+    orphanedLlms: results.orphanedLlms,
+    orphanedFlows: results.orphanedFlows,
+    phoneBindings: results.phoneBindings.map((binding) => ({
+      phoneNumber: binding.phone_number,
+      direction: binding.direction,
+      agentId: binding.agent_id,
+      agentVersion: binding.version,
+      issue: binding.issue,
+    })),
+    deleted,
+  });
 
   if (totalIssues > 0) {
     console.log(`\n⚠ Found ${totalIssues} issue(s)\n`);
@@ -131,8 +237,15 @@ async function gatherLocalAgents(
   for (const dirName of agentDirs) {
     const agentPath = path.join(agentsPath, dirName);
 
-    // Load agent config
-    const configResult = await AgentConfigLoader.load(agentPath);
+    // Load agent config (agent.json of conversation-flow and custom-llm agents is not an AgentConfig)
+    let configResult: Result<{ agent_name: string }, Error>;
+    if (await ConversationFlowManager.isFlowAgent(agentPath)) {
+      configResult = await loadFlowAgentName(agentPath);
+    } else if (await CustomLlmManager.isCustomLlmAgent(agentPath)) {
+      configResult = await CustomLlmManager.load(agentPath);
+    } else {
+      configResult = await AgentInheritance.load(agentPath);
+    }
     if (!configResult.success) {
       console.warn(`⚠ Skipping ${dirName}: ${configResult.error.message}`);
       continue;
@@ -155,6 +268,17 @@ async function gatherLocalAgents(
   return localAgents;
 }
 
+async function loadFlowAgentName(
+  agentPath: string
+): Promise<Result<{ agent_name: string }, Error>> {
+  const flowResult = await ConversationFlowManager.load(agentPath);
+  if (!flowResult.success) {
+    return flowResult;
+  }
+  const name = flowResult.value.config['agent_name'];
+  return Ok({ agent_name: typeof name === 'string' ? name : path.basename(agentPath) });
+}
+
 /**
  * Fetch all agents from workspace
  */
@@ -170,12 +294,14 @@ async function fetchWorkspaceAgents(client: RetellClientService): Promise<Worksp
       agent_name?: string;
       response_engine?: {
         llm_id?: string;
+        conversation_flow_id?: string;
       };
     }>
   ).map((agent) => ({
     agent_id: agent.agent_id,
     agent_name: agent.agent_name,
     llm_id: agent.response_engine?.llm_id,
+    conversation_flow_id: agent.response_engine?.conversation_flow_id,
   }));
 }
 
@@ -191,13 +317,45 @@ async function fetchWorkspaceLlms(client: RetellClientService): Promise<string[]
   return (listResult.value as Array<{ llm_id: string }>).map((llm) => llm.llm_id);
 }
 
+/**
+ * Published versions of each existing agent that a phone number pins to a version
+ */
+async function fetchPublishedVersions(
+  client: RetellClientService,
+  bindings: PhoneAgentBinding[],
+  workspaceAgents: WorkspaceAgent[]
+): Promise<Map<string, Set<number>>> {
+  const workspaceAgentIds = new Set(workspaceAgents.map((a) => a.agent_id));
+  const pinnedAgentIds = new Set(
+    bindings
+      .filter((binding) => binding.version !== null && workspaceAgentIds.has(binding.agent_id))
+      .map((binding) => binding.agent_id)
+  );
+
+  const publishedVersions = new Map<string, Set<number>>();
+  for (const agentId of pinnedAgentIds) {
+    const versionsResult = await client.getAgentVersions(createAgentId(agentId));
+    if (!versionsResult.success) {
+      throw new Error(`Failed to get versions of ${agentId}: ${versionsResult.error.message}`);
+    }
+    publishedVersions.set(
+      agentId,
+      new Set(versionsResult.value.filter((v) => v.is_published).map((v) => v.version))
+    );
+  }
+  return publishedVersions;
+}
+
 /**
  * Perform the audit analysis
  */
 function performAudit(
   localAgents: LocalAgentData[],
   workspaceAgents: WorkspaceAgent[],
-  workspaceLlms: string[]
+  workspaceLlms: string[],
+  workspaceFlows: string[],
+  phoneBindings: PhoneAgentBinding[],
+  publishedVersions: Map<string, Set<number>>
 ): AuditResults {
   const results: AuditResults = {
     duplicateAgentIds: new Map(),
@@ -205,6 +363,8 @@ function performAudit(
     localNotInWorkspace: [],
     workspaceNotLocal: [],
     orphanedLlms: [],
+    orphanedFlows: [],
+    phoneBindings: [],
     issues: [],
   };
 
@@ -260,9 +420,29 @@ function performAudit(
     }
   }
 
+  // Check for orphaned conversation flows (flows not used by any agent)
+  results.orphanedFlows = ConversationFlowManager.findOrphanedFlows(
+    workspaceFlows,
+    workspaceAgents.map((a) => a.conversation_flow_id ?? null)
+  );
+
+  // Check phone numbers for dangling and mismatched bindings
+  results.phoneBindings = PhoneConfig.checkBindings(
+    phoneBindings,
+    workspaceAgentIds,
+    new Set(localAgents.flatMap((a) => (a.agentId !== null ? [a.agentId] : []))),
+    publishedVersions
+  );
+
   return results;
 }
 
+const PHONE_ISSUE_LABELS: Record<PhoneBindingIssueKind, string> = {
+  'deleted-agent': 'Agent not in workspace (deleted)',
+  'untracked-agent': 'Agent not tracked locally',
+  'unpublished-version': 'Pinned version is not published',
+};
+
 /**
  * Display audit results
  */
@@ -344,21 +524,62 @@ function displayResults(results: AuditResults, workspace: WorkspaceType): void {
     console.log('\nFix: Run with --fix to delete orphaned LLMs.\n');
   }
 
+  // Orphaned conversation flows
+  if (results.orphanedFlows.length > 0) {
+    hasIssues = true;
+    console.log(`🗑 Orphaned conversation flows in ${workspace} (not attached to any agent):\n`);
+    const table = new Table({
+      head: ['Conversation Flow ID'],
+      colWidths: [50],
+    });
+    for (const flowId of results.orphanedFlows) {
+      table.push([flowId]);
+    }
+    console.log(table.toString());
+    console.log('\nFix: Run with --fix to delete orphaned conversation flows.\n');
+  }
+
+  // Phone numbers with broken bindings
+  if (results.phoneBindings.length > 0) {
+    hasIssues = true;
+    console.log(`📞 Phone numbers in ${workspace} with broken agent bindings:\n`);
+    const table = new Table({
+      head: ['Phone Number', 'Direction', 'Agent ID', 'Version', 'Issue'],
+      colWidths: [18, 11, 32, 9, 40],
+    });
+    for (const binding of results.phoneBindings) {
+      table.push([
+        binding.phone_number,
+        binding.direction,
+        binding.agent_id,
+        binding.version ?? 'latest',
+        PHONE_ISSUE_LABELS[binding.issue],
+      ]);
+    }
+    console.log(table.toString());
+    console.log(
+      '\nFix: Rebind the numbers with `retell phone apply` or `retell phone update`, ' +
+        'or publish the pinned version.\n'
+    );
+  }
+
   if (!hasIssues) {
     console.log('✓ All checks passed');
   }
 }
 
 /**
- * Delete orphaned LLMs
+ * Delete orphaned LLMs. Returns the IDs that were deleted.
  */
-async function fixOrphanedLlms(client: RetellClientService, llmIds: string[]): Promise<void> {
+async function fixOrphanedLlms(client: RetellClientService, llmIds: string[]): Promise<string[]> {
   console.log(`\nDeleting ${llmIds.length} orphaned LLM(s)...\n`);
 
+  const deleted: string[] = [];
   for (const llmId of llmIds) {
     try {
       const result = await client.deleteLlm(llmId as LlmId);
       if (result.success) {
+        deleted.push(llmId);
         console.log(`✓ Deleted LLM: ${llmId}`);
       } else {
         console.error(`✗ Failed to delete LLM ${llmId}: ${result.error.message}`);
@@ -369,4 +590,24 @@ async function fixOrphanedLlms(client: RetellClientService, llmIds: string[]): P
       );
     }
   }
+  return deleted;
+}
+
+/**
+ * Delete orphaned conversation flows. Returns the IDs that were deleted.
+ */
+async function fixOrphanedFlows(client: Retell, flowIds: string[]): Promise<string[]> {
+  console.log(`\nDeleting ${flowIds.length} orphaned conversation flow(s)...\n`);
+
+  const deleted: string[] = [];
+  for (const flowId of flowIds) {
+    const result = await ConversationFlowManager.deleteFlow(client, flowId);
+    if (result.success) {
+      deleted.push(flowId);
+      console.log(`✓ Deleted conversation flow: ${flowId}`);
+    } else {
+      console.error(`✗ Failed to delete conversation flow ${flowId}: ${result.error.message}`);
+    }
+  }
+  return deleted;
 }
@@ -0,0 +1,347 @@
+/**
+ * Call history commands.
+ *
+ * Provides commands for:
+ * - Listing recent calls by agent, time range and disconnection reason
+ * - Showing a call with its analysis and transcript
+ * - Exporting calls with their post-call analysis to JSONL or CSV
+ *
+ * Agents are named by their local directory and resolved to the agent ID
+ * pushed to the workspace (see AgentIndex).
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Command } from 'commander';
+import type Retell from 'retell-sdk';
+import { WorkspaceConfigService } from '@heya/retell.controllers';
+import type { WorkspaceType } from '@heya/retell.controllers';
+import { handleError } from '../errors/cli-error-handler';
+import { AgentIndex } from '../utils/agent-index';
+import {
+  CallHistory,
+  type CallExportFormat,
+  type CallFilter,
+  type CallRecord,
+} from '../utils/call-history';
+import { CliOutput } from '../utils/output';
+
+// ============================================================================
+// Main calls command group
+// ============================================================================
+
+export const callsCommand = new Command('calls').description(
+  'List, inspect and export call history'
+);
+
+/**
+ * Options shared by calls list and calls export
+ */
+function addFilterOptions(command: Command, defaultLimit: string): Command {
+  return command
+    .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
+    .option('-p, --path <path>', 'Path to agents directory', './agents')
+    .option('--agent <names...>', 'Only calls to these agents (local directory names)')
+    .option('--since <time>', 'Calls started after this time (e.g. 24h, 7d, 2025-01-31)')
+    .option('--until <time>', 'Calls started before this time (e.g. 1h, 2025-02-01)')
+    .option('--reason <reasons...>', 'Only calls with these disconnection reasons')
+    .option('-n, --limit <count>', 'Maximum number of calls, most recent first', defaultLimit);
+}
+
+// ============================================================================
+// Subcommand: calls list
+// ============================================================================
+
+addFilterOptions(callsCommand.command('list').description('List recent calls'), '50')
+  .addOption(CliOutput.option())
+  .action(async (options: CallsListOptions) => {
+    try {
+      await executeCallsList(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: calls get
+// ============================================================================
+
+callsCommand
+  .command('get')
+  .description('Show a call with its analysis and transcript')
+  .argument('<call-id>', 'Call ID')
+  .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .addOption(CliOutput.option())
+  .action(async (callId: string, options: CallsGetOptions) => {
+    try {
+      await executeCallsGet(callId, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: calls export
+// ============================================================================
+
+addFilterOptions(
+  callsCommand
+    .command('export')
+    .description('Export calls with transcripts and post-call analysis to JSONL or CSV'),
+  '1000'
+)
+  .option('--format <format>', `Export format (${CallHistory.FORMATS.join(' or ')})`, 'jsonl')
+  .option('-o, --out <file>', 'Write to this file instead of stdout')
+  .action(async (options: CallsExportOptions) => {
+    try {
+      await executeCallsExport(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type CallsFilterOptions = {
+  workspace: WorkspaceType;
+  path: string;
+  agent?: string[];
+  since?: string;
+  until?: string;
+  reason?: string[];
+  limit: string;
+};
+
+type CallsListOptions = CallsFilterOptions;
+
+type CallsGetOptions = {
+  workspace: WorkspaceType;
+  path: string;
+};
+
+type CallsExportOptions = CallsFilterOptions & {
+  format: string;
+  out?: string;
+};
+
+type CallsListJson = {
+  readonly workspace: WorkspaceType;
+  readonly calls: ReadonlyArray<CallRecord>;
+};
+
+type CallsGetJson = {
+  readonly workspace: WorkspaceType;
+  readonly call: CallRecord;
+};
+
+// ============================================================================
+// Command Implementations
+// ============================================================================
+
+/**
+ * Retell client for a workspace and the agent IDs pushed to it, by directory name
+ */
+async function connect(
+  workspace: WorkspaceType,
+  agentsPath: string
+): Promise<{ client: Retell; agentIds: Map<string, string> }> {
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+
+  const modeResult = await WorkspaceConfigService.getMode();
+  const mode = modeResult.success ? modeResult.value : 'single-production';
+
+  const agentsResult = await AgentIndex.agentIds(path.resolve(agentsPath), workspace, mode);
+  if (!agentsResult.success) {
+    throw agentsResult.error;
+  }
+
+  return {
+    client: CallHistory.createClient(workspaceConfigResult.value),
+    agentIds: agentsResult.value,
+  };
+}
+
+/**
+ * Turn the shared filter options into a CallFilter
+ */
+function parseFilter(
+  options: CallsFilterOptions,
+  agentIds: ReadonlyMap<string, string>
+): CallFilter {
+  const limit = parseInt(options.limit, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new Error(`Invalid --limit: ${options.limit}`);
+  }
+
+  let ids: string[] | undefined;
+  if (options.agent !== undefined) {
+    const unknown = options.agent.filter((name) => !agentIds.has(name));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Agent(s) not pushed to ${options.workspace}: ${unknown.join(', ')}. ` +
+          `Use the directory names under ${options.path}.`
+      );
+    }
+    ids = options.agent.map((name) => agentIds.get(name) ?? name);
+  }
+
+  let since: number | undefined;
+  if (options.since !== undefined) {
+    const result = CallHistory.parseTime(options.since);
+    if (!result.success) {
+      throw result.error;
+    }
+    since = result.value;
+  }
+
+  let until: number | undefined;
+  if (options.until !== undefined) {
+    const result = CallHistory.parseTime(options.until);
+    if (!result.success) {
+      throw result.error;
+    }
+    until = result.value;
+  }
+
+  if (since !== undefined && until !== undefined && since > until) {
+    throw new Error('--since must be before --until');
+  }
+
+  return {
+    limit,
+    ...(ids !== undefined && { agentIds: ids }),
+    ...(since !== undefined && { since }),
+    ...(until !== undefined && { until }),
+    ...(options.reason !== undefined && { disconnectionReasons: options.reason }),
+  };
+}
+
+/**
+ * Fetch the calls matching the filter options as records
+ */
+async function fetchRecords(options: CallsFilterOptions): Promise<CallRecord[]> {
+  const { client, agentIds } = await connect(options.workspace, options.path);
+  const filter = parseFilter(options, agentIds);
+
+  const result = await CallHistory.list(client, filter);
+  if (!result.success) {
+    throw result.error;
+  }
+  const agentNames = AgentIndex.names(agentIds);
+  return result.value.map((call) => CallHistory.toRecord(call, agentNames));
+}
+
+/**
+ * List recent calls
+ */
+async function executeCallsList(options: CallsListOptions): Promise<void> {
+  const records = await fetchRecords(options);
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<CallsListJson>({ workspace: options.workspace, calls: records });
+    return;
+  }
+
+  console.log(`\nCalls in ${options.workspace} (${records.length} shown, most recent first):\n`);
+  if (records.length === 0) {
+    console.log('No calls found.\n');
+    return;
+  }
+
+  for (const record of records) {
+    console.log(
+      [
+        record.start_time ?? '(not started)',
+        record.call_id,
+        record.agent ?? record.agent_id,
+        CallHistory.formatDuration(record.duration_ms),
+        record.disconnection_reason ?? record.call_status,
+        record.user_sentiment ?? '',
+      ]
+        .join('  ')
+        .trimEnd()
+    );
+  }
+  console.log('');
+}
+
+/**
+ * Show one call
+ */
+async function executeCallsGet(callId: string, options: CallsGetOptions): Promise<void> {
+  const { client, agentIds } = await connect(options.workspace, options.path);
+
+  const result = await CallHistory.get(client, callId);
+  if (!result.success) {
+    throw result.error;
+  }
+  const record = CallHistory.toRecord(result.value, AgentIndex.names(agentIds));
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<CallsGetJson>({ workspace: options.workspace, call: record });
+    return;
+  }
+
+  console.log(`\nCall ${record.call_id}:\n`);
+  console.log(
+    'Agent:',
+    record.agent !== null ? `${record.agent} (${record.agent_id})` : record.agent_id
+  );
+  console.log('Agent Version:', record.agent_version ?? 'n/a');
+  console.log('Type:', record.call_type);
+  console.log('Status:', record.call_status);
+  if (record.direction !== null) {
+    console.log('Direction:', record.direction);
+    console.log('From:', record.from_number ?? 'n/a');
+    console.log('To:', record.to_number ?? 'n/a');
+  }
+  console.log('Started:', record.start_time ?? 'n/a');
+  console.log('Ended:', record.end_time ?? 'n/a');
+  console.log('Duration:', CallHistory.formatDuration(record.duration_ms));
+  console.log('Disconnection Reason:', record.disconnection_reason ?? 'n/a');
+
+  console.log('\nAnalysis:');
+  console.log('  Sentiment:', record.user_sentiment ?? 'n/a');
+  console.log('  Successful:', record.call_successful ?? 'n/a');
+  console.log('  Voicemail:', record.in_voicemail ?? 'n/a');
+  console.log('  Summary:', record.call_summary ?? 'n/a');
+  for (const [field, value] of Object.entries(record.custom_analysis_data)) {
+    console.log(`  ${field}:`, JSON.stringify(value));
+  }
+
+  console.log('\nTranscript:');
+  console.log(
+    record.transcript !== null && record.transcript !== '' ? record.transcript : '(none)'
+  );
+  console.log('');
+}
+
+/**
+ * Export calls to a file or stdout
+ */
+async function executeCallsExport(options: CallsExportOptions): Promise<void> {
+  if (!CallHistory.FORMATS.includes(options.format as CallExportFormat)) {
+    throw new Error(
+      `Invalid --format: ${options.format}. Expected one of: ${CallHistory.FORMATS.join(', ')}`
+    );
+  }
+
+  const records = await fetchRecords(options);
+  const content = CallHistory.format(records, options.format as CallExportFormat);
+
+  if (options.out === undefined) {
+    if (content !== '') {
+      console.log(content.replace(/\n$/, ''));
+    }
+    return;
+  }
+
+  await fs.writeFile(path.resolve(options.out), content, 'utf-8');
+  console.log(`✓ Exported ${records.length} call(s) to ${options.out}`);
+}
@@ -1,5 +1,9 @@
 /**
  * Delete command - Delete agent from Retell workspaces and local filesystem.
+ *
+ * The conversation flow of a conversation-flow agent is deleted with it.
+ * Phone numbers still bound to the agent are listed as a warning in the
+ * deletion plan; they are not unbound.
  */
 
 import { Command } from 'commander';
@@ -16,6 +20,10 @@ import {
 } from '@heya/retell.controllers';
 import type { WorkspaceType } from '@heya/retell.controllers';
 import { handleError } from '../errors/cli-error-handler';
+import { ConversationFlowManager } from '../utils/conversation-flow';
+import { OperationHistory } from '../utils/operation-history';
+import { PhoneConfig, type PhoneAgentBinding } from '../utils/phone-config';
+import { CliOutput } from '../utils/output';
 
 export const deleteCommand = new Command('delete')
   .description('Delete agent from Retell workspaces and local filesystem')
@@ -29,6 +37,7 @@ export const deleteCommand = new Command('delete')
   .option('--local-only', 'Delete only local files, keep remote agents', false)
   .option('--by-id', 'Treat argument as agent ID instead of agent name (requires -w)', false)
   .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .addOption(CliOutput.option())
   .action(async (agentNameOrId: string, options: DeleteOptions) => {
     try {
       if (options.byId) {
@@ -50,6 +59,22 @@ type DeleteOptions = {
   path: string;
 };
 
+/**
+ * `--output json` data
+ */
+type DeleteJson = {
+  agent: string;
+  workspaces: Array<{
+    workspace: WorkspaceType;
+    agentId: string;
+    deleted: boolean;
+    error: string | null;
+    /** Phone numbers still bound to the agent; they are not unbound */
+    boundNumbers: string[];
+  }>;
+  localDeleted: boolean;
+};
+
 async function executeDelete(agentName: string, options: DeleteOptions): Promise<void> {
   console.log(`\nDeleting agent '${agentName}'...\n`);
 
@@ -82,7 +107,10 @@ async function executeDelete(agentName: string, options: DeleteOptions): Promise
     workspace: WorkspaceType;
     agentId: string | null;
     llmId: string | null;
+    flowId: string | null;
     kbId: string | null;
+    configHash: string | null;
+    boundNumbers: PhoneAgentBinding[];
   }> = [];
 
   for (const workspace of workspacesToDelete) {
@@ -93,14 +121,24 @@ async function executeDelete(agentName: string, options: DeleteOptions): Promise
         workspace,
         agentId: metadata.agent_id,
         llmId: metadata.llm_id,
+        flowId:
+          metadata.agent_id !== null && metadata.llm_id === null
+            ? await lookupFlowId(workspace, metadata.agent_id)
+            : null,
         kbId: metadata.kb_id,
+        configHash: metadata.config_hash,
+        boundNumbers:
+          metadata.agent_id !== null ? await lookupBoundNumbers(workspace, metadata.agent_id) : [],
       });
     } else {
       workspaceData.push({
         workspace,
         agentId: null,
         llmId: null,
+        flowId: null,
         kbId: null,
+        configHash: null,
+        boundNumbers: [],
       });
     }
   }
@@ -116,9 +154,13 @@ async function executeDelete(agentName: string, options: DeleteOptions): Promise
         if (data.llmId) {
           console.log(`  LLM: ${data.llmId} (will NOT be deleted - may be shared)`);
         }
+        if (data.flowId !== null) {
+          console.log(`  Conversation Flow: ${data.flowId} (will also be deleted)`);
+        }
         if (data.kbId) {
           console.log(`  Knowledge Base: ${data.kbId} (will NOT be deleted - may be shared)`);
         }
+        warnAboutBoundNumbers(data.boundNumbers);
       } else {
         console.log(`  No agent found in ${data.workspace}`);
       }
@@ -139,10 +181,12 @@ async function executeDelete(agentName: string, options: DeleteOptions): Promise
 
   if (remoteAgentsToDelete.length === 0 && !willDeleteLocal) {
     console.log('Nothing to delete. Agent not found in any workspace or locally.');
+    CliOutput.result<DeleteJson>({ agent: agentName, workspaces: [], localDeleted: false });
     return;
   }
 
   // Confirmation prompt
+  assertConfirmable(options);
   if (!options.yes) {
     const confirmed = await confirmDeletion(
       agentName,
@@ -159,6 +203,7 @@ async function executeDelete(agentName: string, options: DeleteOptions): Promise
 
   // Delete from remote workspaces using controller
   const controller = new AgentController();
+  const deleted: DeleteJson['workspaces'] = [];
 
   if (!options.localOnly) {
     for (const data of workspaceData) {
@@ -173,7 +218,30 @@ async function executeDelete(agentName: string, options: DeleteOptions): Promise
           console.error(`  Failed to delete: ${result.error.message}`);
         } else {
           console.log(`  Deleted agent ${result.value.agentId} from ${data.workspace}`);
+          if (data.flowId !== null) {
+            await deleteFlow(data.workspace, data.flowId);
+          }
         }
+        deleted.push({
+          workspace: data.workspace,
+          agentId: data.agentId,
+          deleted: result.success,
+          error: result.success ? null : result.error.message,
+          boundNumbers: data.boundNumbers.map((binding) => binding.phone_number),
+        });
+
+        await OperationHistory.record({
+          action: 'delete',
+          agent: agentName,
+          workspace: data.workspace,
+          success: result.success,
+          before_hash: data.configHash,
+          after_hash: null,
+          retell_version: null,
+          summary: result.success
+            ? `Deleted agent ${data.agentId}`
+            : `Failed to delete agent ${data.agentId}: ${result.error.message}`,
+        });
       }
     }
   }
@@ -191,6 +259,79 @@ async function executeDelete(agentName: string, options: DeleteOptions): Promise
   if (willDeleteLocal) {
     console.log('Deleted local agent directory');
   }
+  CliOutput.result<DeleteJson>({
+    agent: agentName,
+    workspaces: deleted,
+    localDeleted: willDeleteLocal,
+  });
+}
+
+/**
+ * The confirmation prompt would mix into the JSON document on stdout
+ */
+function assertConfirmable(options: DeleteOptions): void {
+  if (!options.yes && CliOutput.isJson()) {
+    throw new Error('Use --yes with --output json; delete cannot ask for confirmation.');
+  }
+}
+
+/**
+ * Phone numbers routed to an agent. Empty when the numbers cannot be listed.
+ */
+async function lookupBoundNumbers(
+  workspace: WorkspaceType,
+  agentId: string
+): Promise<PhoneAgentBinding[]> {
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(workspace);
+  if (!workspaceConfigResult.success) {
+    return [];
+  }
+  const result = await PhoneConfig.listBindings(
+    new RetellClientService(workspaceConfigResult.value)
+  );
+  return result.success ? result.value.filter((binding) => binding.agent_id === agentId) : [];
+}
+
+function warnAboutBoundNumbers(bindings: PhoneAgentBinding[]): void {
+  if (bindings.length === 0) {
+    return;
+  }
+  console.warn(`  ⚠ Phone numbers still bound to this agent (their calls will fail):`);
+  for (const binding of bindings) {
+    console.warn(`      ${binding.phone_number} (${binding.direction})`);
+  }
+  console.warn('    Rebind them first with `retell phone apply` or `retell phone update`.');
+}
+
+/**
+ * Conversation flow used by a remote agent, or null for LLM agents and
+ * agents that can no longer be fetched.
+ */
+async function lookupFlowId(workspace: WorkspaceType, agentId: string): Promise<string | null> {
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(workspace);
+  if (!workspaceConfigResult.success) {
+    return null;
+  }
+  const result = await ConversationFlowManager.lookupFlowId(
+    ConversationFlowManager.createClient(workspaceConfigResult.value),
+    agentId
+  );
+  return result.success ? result.value : null;
+}
+
+async function deleteFlow(workspace: WorkspaceType, flowId: string): Promise<void> {
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(workspace);
+  const result = workspaceConfigResult.success
+    ? await ConversationFlowManager.deleteFlow(
+        ConversationFlowManager.createClient(workspaceConfigResult.value),
+        flowId
+      )
+    : workspaceConfigResult;
+  if (!result.success) {
+    console.warn(`  Warning: Failed to delete conversation flow ${flowId}`);
+  } else {
+    console.log(`  Deleted conversation flow ${flowId}`);
+  }
 }
 
 async function checkAgentExists(agentPath: string): Promise<boolean> {
@@ -283,6 +424,7 @@ async function executeDeleteById(agentId: string, options: DeleteOptions): Promi
   const llmId = (
     (agent as Record<string, unknown>)['response_engine'] as Record<string, unknown> | undefined
   )?.['llm_id'] as string | undefined;
+  const flowId = ConversationFlowManager.getFlowId(agent as Record<string, unknown>);
 
   console.log('Deletion Plan:\n');
   console.log(`${options.workspace.toUpperCase()} Workspace:`);
@@ -291,9 +433,18 @@ async function executeDeleteById(agentId: string, options: DeleteOptions): Promi
   if (llmId) {
     console.log(`  LLM: ${llmId} (will also be deleted)`);
   }
+  if (flowId !== null) {
+    console.log(`  Conversation Flow: ${flowId} (will also be deleted)`);
+  }
+  const bindingsResult = await PhoneConfig.listBindings(client);
+  const boundNumbers = bindingsResult.success
+    ? bindingsResult.value.filter((binding) => binding.agent_id === agentId)
+    : [];
+  warnAboutBoundNumbers(boundNumbers);
   console.log();
 
   // Confirmation prompt
+  assertConfirmable(options);
   if (!options.yes) {
     const confirmed = await confirmDeletionById(agentId, agentName, options.workspace);
     if (!confirmed) {
@@ -314,6 +465,17 @@ async function executeDeleteById(agentId: string, options: DeleteOptions): Promi
 
   console.log(`  Deleted agent ${agentId}`);
 
+  await OperationHistory.record({
+    action: 'delete',
+    agent: agentName,
+    workspace: options.workspace,
+    success: true,
+    before_hash: null,
+    after_hash: null,
+    retell_version: null,
+    summary: `Deleted agent ${agentId} by ID`,
+  });
+
   // Delete the LLM if exists
   if (llmId) {
     console.log(`Deleting LLM...`);
@@ -325,7 +487,26 @@ async function executeDeleteById(agentId: string, options: DeleteOptions): Promi
     }
   }
 
+  // Delete the conversation flow if exists
+  if (flowId !== null) {
+    console.log(`Deleting conversation flow...`);
+    await deleteFlow(options.workspace, flowId);
+  }
+
   console.log('\nDeletion complete!\n');
+  CliOutput.result<DeleteJson>({
+    agent: agentName,
+    workspaces: [
+      {
+        workspace: options.workspace,
+        agentId,
+        deleted: true,
+        error: null,
+        boundNumbers: boundNumbers.map((binding) => binding.phone_number),
+      },
+    ],
+    localDeleted: false,
+  });
 }
 
 async function confirmDeletionById(
@@ -7,21 +7,29 @@
  * 3. Shows field-level conflicts
  * 4. Shows prompt conflicts with text diff
  * 5. Offers resolution strategies
+ *
+ * Conversation-flow agents are compared field by field, including each flow
+ * node; custom-llm agents compare their fields and the workspace's WebSocket URL.
  */
 
 import { Command } from 'commander';
+import * as fs from 'fs/promises';
 import * as path from 'path';
-import type { WorkspaceType } from '@heya/retell.controllers';
+import type { OrchestrationMode, WorkspaceConfig, WorkspaceType } from '@heya/retell.controllers';
 import {
-  AgentConfigLoader,
   MetadataManager,
   WorkspaceConfigService,
   RetellClientService,
   ConflictDetector,
   ConflictResolver,
 } from '@heya/retell.controllers';
-import type { ResolutionStrategy } from '@heya/retell.controllers';
+import type { AgentConfig, FieldConflict, ResolutionStrategy } from '@heya/retell.controllers';
 import { handleError } from '../errors/cli-error-handler';
+import { AgentInheritance } from '../utils/agent-inheritance';
+import { ConfigInterpolator } from '../utils/config-interpolation';
+import { ConversationFlowManager, type FlowDifference } from '../utils/conversation-flow';
+import { CustomLlmManager } from '../utils/custom-llm';
+import { CliOutput } from '../utils/output';
 
 export const diffCommand = new Command('diff')
   .description('Show differences between local and remote agent configurations')
@@ -35,6 +43,7 @@ export const diffCommand = new Command('diff')
   .option('--prompts <path>', 'Path to prompts directory', './prompts')
   .option('--full', 'Show full prompts instead of preview', false)
   .option('--resolve <strategy>', 'Auto-resolve conflicts (use-local, use-remote, manual)')
+  .addOption(CliOutput.option())
   .action(async (agentName: string, options: DiffOptions) => {
     try {
       await executeDiff(agentName, options);
@@ -51,6 +60,27 @@ type DiffOptions = {
   resolve?: ResolutionStrategy;
 };
 
+/**
+ * `--output json` data. Conversation-flow and custom-llm differences use the
+ * same fieldConflicts shape, with the flow path (e.g. "nodes.start.instruction")
+ * as both field and path.
+ */
+type DiffJson = {
+  agent: string;
+  workspace: WorkspaceType;
+  agentId: string;
+  hasConflict: boolean;
+  localHash: string | null;
+  remoteHash: string | null;
+  storedHash: string | null;
+  syncedAt: string | null;
+  fieldConflicts: ReadonlyArray<FieldConflict>;
+  promptConflict: { localPrompt: string; remotePrompt: string } | null;
+  resolution: Resolution | null;
+};
+
+type Resolution = { strategy: ResolutionStrategy; message: string };
+
 async function executeDiff(agentName: string, options: DiffOptions): Promise<void> {
   console.log(`\nChecking for conflicts: '${agentName}' in ${options.workspace}...\n`);
 
@@ -69,13 +99,28 @@ async function executeDiff(agentName: string, options: DiffOptions): Promise<voi
   const workspaceConfig = workspaceConfigResult.value;
   const client = new RetellClientService(workspaceConfig);
 
+  if (await ConversationFlowManager.isFlowAgent(agentPath)) {
+    await executeFlowDiff(agentName, agentPath, workspaceConfig, mode, options);
+    return;
+  }
+  if (await CustomLlmManager.isCustomLlmAgent(agentPath)) {
+    await executeCustomLlmDiff(agentName, agentPath, workspaceConfig, mode, options);
+    return;
+  }
+
   // 2. Load local agent config
   console.log('Loading local configuration...');
-  const configResult = await AgentConfigLoader.load(agentPath);
+  const configResult = await AgentInheritance.load(agentPath, options.workspace);
   if (!configResult.success) {
     throw new Error(`Failed to load agent config: ${configResult.error.message}`);
   }
-  const localConfig = configResult.value;
+  const committedConfig = configResult.value;
+  // Compare what push would send, placeholders resolved
+  const interpolatedResult = await ConfigInterpolator.interpolate(committedConfig);
+  if (!interpolatedResult.success) {
+    throw new Error(`Failed to load agent config: ${interpolatedResult.error.message}`);
+  }
+  const localConfig = interpolatedResult.value;
 
   // 3. Load metadata to get agent_id and stored hash
   const metadataResult = await MetadataManager.read(agentPath, options.workspace, mode);
@@ -124,6 +169,39 @@ async function executeDiff(agentName: string, options: DiffOptions): Promise<voi
 
   const detection = conflictResult.value;
 
+  if (CliOutput.isJson()) {
+    const resolution =
+      detection.hasConflict && options.resolve
+        ? await resolveConflicts(
+            committedConfig,
+            remoteAgentConfig,
+            remoteLlmConfig,
+            options.resolve,
+            agentPath
+          )
+        : null;
+    CliOutput.result<DiffJson>({
+      agent: agentName,
+      workspace: options.workspace,
+      agentId: metadata.agent_id,
+      hasConflict: detection.hasConflict,
+      localHash: detection.hasConflict ? detection.localHash : null,
+      remoteHash: detection.hasConflict ? detection.remoteHash : null,
+      storedHash: metadata.config_hash,
+      syncedAt: metadata.last_sync,
+      fieldConflicts: detection.hasConflict ? detection.fieldConflicts : [],
+      promptConflict:
+        detection.hasConflict && detection.promptConflict
+          ? {
+              localPrompt: detection.promptConflict.localPrompt,
+              remotePrompt: detection.promptConflict.remotePrompt,
+            }
+          : null,
+      resolution,
+    });
+    return;
+  }
+
   // 7. Display results
   if (!detection.hasConflict) {
     console.log('✅ No conflicts detected.');
@@ -163,19 +241,15 @@ async function executeDiff(agentName: string, options: DiffOptions): Promise<voi
   if (options.resolve) {
     console.log(`\nApplying resolution strategy: ${options.resolve}\n`);
 
-    const resolutionResult = await ConflictResolver.resolve(
-      localConfig,
+    const resolution = await resolveConflicts(
+      committedConfig,
       remoteAgentConfig,
       remoteLlmConfig,
       options.resolve,
       agentPath
     );
 
-    if (!resolutionResult.success) {
-      throw new Error(`Failed to resolve conflicts: ${resolutionResult.error.message}`);
-    }
-
-    console.log(resolutionResult.value.message);
+    console.log(resolution.message);
   } else {
     // Show resolution instructions
     console.log('\n📝 Resolution Options:\n');
@@ -192,3 +266,230 @@ async function executeDiff(agentName: string, options: DiffOptions): Promise<voi
     console.log(`     retell push ${agentName} -w ${options.workspace}\n`);
   }
 }
+
+async function resolveConflicts(
+  localConfig: AgentConfig,
+  remoteAgentConfig: unknown,
+  remoteLlmConfig: unknown,
+  strategy: ResolutionStrategy,
+  agentPath: string
+): Promise<Resolution> {
+  const resolutionResult = await ConflictResolver.resolve(
+    localConfig,
+    remoteAgentConfig,
+    remoteLlmConfig,
+    strategy,
+    agentPath
+  );
+
+  if (!resolutionResult.success) {
+    throw new Error(`Failed to resolve conflicts: ${resolutionResult.error.message}`);
+  }
+
+  if (strategy === 'use-remote') {
+    await restorePlaceholders(agentPath, localConfig);
+  }
+
+  const { message } = resolutionResult.value;
+  return { strategy, message };
+}
+
+/**
+ * Put `${env:...}` and `${secret:...}` placeholders back into the agent.json
+ * written from the remote config, so resolved values are not committed.
+ */
+async function restorePlaceholders(agentPath: string, committedConfig: AgentConfig): Promise<void> {
+  const configPath = path.join(agentPath, 'agent.json');
+  const written = JSON.parse(await fs.readFile(configPath, 'utf-8')) as Record<string, unknown>;
+  const { config, fields } = await ConfigInterpolator.restore(written, committedConfig);
+  if (fields.length === 0) {
+    return;
+  }
+  await fs.writeFile(configPath, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+  console.log(`Kept placeholders in agent.json: ${fields.join(', ')}`);
+}
+
+/**
+ * Compare a conversation-flow agent (agent.json plus flow file) with Retell.
+ */
+async function executeFlowDiff(
+  agentName: string,
+  agentPath: string,
+  workspaceConfig: WorkspaceConfig,
+  mode: OrchestrationMode,
+  options: DiffOptions
+): Promise<void> {
+  if (options.resolve) {
+    throw new Error(
+      '--resolve is not supported for conversation-flow agents.\n' +
+        `Use 'retell pull ${agentName} --force' or 'retell push ${agentName} --force' instead.`
+    );
+  }
+
+  console.log('Loading local configuration...');
+  const localResult = await ConversationFlowManager.load(agentPath);
+  if (!localResult.success) {
+    throw new Error(`Failed to load agent config: ${localResult.error.message}`);
+  }
+  const local = localResult.value;
+
+  const metadataResult = await MetadataManager.read(agentPath, options.workspace, mode);
+  if (!metadataResult.success || !metadataResult.value.agent_id) {
+    throw new Error(`Agent not found in ${options.workspace}. Run 'retell push' first.`);
+  }
+  const metadata = metadataResult.value;
+
+  console.log(`Fetching ${options.workspace} configuration from Retell...`);
+  const client = ConversationFlowManager.createClient(workspaceConfig);
+  const remoteResult = await ConversationFlowManager.fetchRemote(client, metadata.agent_id);
+  if (!remoteResult.success) {
+    throw new Error(`Failed to fetch agent from Retell: ${remoteResult.error.message}`);
+  }
+  const remote = ConversationFlowManager.toLocal(remoteResult.value, local.flowFile);
+
+  console.log('Analyzing differences...\n');
+  const differences = ConversationFlowManager.diff(local, remote);
+  const localHash = ConversationFlowManager.calculateHash(local);
+  const remoteHash = ConversationFlowManager.calculateHash(remote);
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<DiffJson>({
+      ...differencesJson(agentName, options.workspace, metadata, differences),
+      localHash: localHash.success ? localHash.value : null,
+      remoteHash: remoteHash.success ? remoteHash.value : null,
+    });
+    return;
+  }
+
+  if (differences.length === 0) {
+    console.log('✅ No conflicts detected.');
+    console.log('Local agent and conversation flow match the workspace.');
+    console.log(`\nLast synced: ${metadata.last_sync ?? 'Unknown'}`);
+    return;
+  }
+
+  console.log('⚠️  Differences Detected\n');
+  console.log(`Local Config Hash:  ${localHash.success ? localHash.value : 'unknown'}`);
+  console.log(`Remote Config Hash: ${remoteHash.success ? remoteHash.value : 'unknown'}`);
+  console.log(`Stored Hash:        ${metadata.config_hash ?? 'None'}\n`);
+
+  for (const difference of differences) {
+    console.log(formatDifference(difference, options.full));
+  }
+
+  console.log('\n📝 Resolution Options:\n');
+  console.log('  1. Use local changes:');
+  console.log(`     retell push ${agentName} -w ${options.workspace} --force\n`);
+  console.log('  2. Use remote changes:');
+  console.log(`     retell pull ${agentName} -w ${options.workspace} --force\n`);
+}
+
+async function executeCustomLlmDiff(
+  agentName: string,
+  agentPath: string,
+  workspaceConfig: WorkspaceConfig,
+  mode: OrchestrationMode,
+  options: DiffOptions
+): Promise<void> {
+  if (options.resolve) {
+    throw new Error(
+      '--resolve is not supported for custom-llm agents.\n' +
+        `Use 'retell pull ${agentName} --force' or 'retell push ${agentName} --force' instead.`
+    );
+  }
+
+  console.log('Loading local configuration...');
+  const localResult = await CustomLlmManager.load(agentPath);
+  if (!localResult.success) {
+    throw new Error(`Failed to load agent config: ${localResult.error.message}`);
+  }
+  const local = localResult.value;
+
+  const metadataResult = await MetadataManager.read(agentPath, options.workspace, mode);
+  if (!metadataResult.success || !metadataResult.value.agent_id) {
+    throw new Error(`Agent not found in ${options.workspace}. Run 'retell push' first.`);
+  }
+  const metadata = metadataResult.value;
+
+  console.log(`Fetching ${options.workspace} configuration from Retell...`);
+  const client = new RetellClientService(workspaceConfig);
+  const agentResult = await client.getAgent(metadata.agent_id);
+  if (!agentResult.success) {
+    throw new Error(`Failed to fetch agent from Retell: ${agentResult.error.message}`);
+  }
+
+  console.log('Analyzing differences...\n');
+  const differences = CustomLlmManager.diff(
+    local,
+    agentResult.value as Record<string, unknown>,
+    options.workspace,
+    workspaceConfig.id
+  );
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<DiffJson>(
+      differencesJson(agentName, options.workspace, metadata, differences)
+    );
+    return;
+  }
+
+  if (differences.length === 0) {
+    console.log('✅ No conflicts detected.');
+    console.log('Local agent matches the workspace.');
+    console.log(`\nLast synced: ${metadata.last_sync ?? 'Unknown'}`);
+    return;
+  }
+
+  console.log('⚠️  Differences Detected\n');
+  console.log(`Stored Hash: ${metadata.config_hash ?? 'None'}\n`);
+
+  for (const difference of differences) {
+    console.log(formatDifference(difference, options.full));
+  }
+
+  console.log('\n📝 Resolution Options:\n');
+  console.log('  1. Use local changes:');
+  console.log(`     retell push ${agentName} -w ${options.workspace} --force\n`);
+  console.log('  2. Use remote changes:');
+  console.log(`     retell pull ${agentName} -w ${options.workspace} --force\n`);
+}
+
+/**
+ * JSON data for conversation-flow and custom-llm differences
+ */
+function differencesJson(
+  agentName: string,
+  workspace: WorkspaceType,
+  metadata: { agent_id: string | null; config_hash: string | null; last_sync: string | null },
+  differences: ReadonlyArray<FlowDifference>
+): DiffJson {
+  return {
+    agent: agentName,
+    workspace,
+    agentId: metadata.agent_id ?? '',
+    hasConflict: differences.length > 0,
+    localHash: null,
+    remoteHash: null,
+    storedHash: metadata.config_hash,
+    syncedAt: metadata.last_sync,
+    fieldConflicts: differences.map((difference) => ({
+      field: difference.path,
+      path: difference.path,
+      localValue: difference.local,
+      remoteValue: difference.remote,
+    })),
+    promptConflict: null,
+    resolution: null,
+  };
+}
+
+function formatDifference(difference: FlowDifference, full: boolean): string {
+  const format = (value: unknown): string => {
+    if (value === undefined) {
+      return '(not set)';
+    }
+    const text = JSON.stringify(value);
+    return full || text.length <= 80 ? text : `${text.slice(0, 77)}...`;
+  };
+  return `  ${difference.path}\n    local:  ${format(difference.local)}\n    remote: ${format(difference.remote)}`;
+}
@@ -0,0 +1,139 @@
+/**
+ * Explain command - Show an agent's effective config and where each field
+ * came from.
+ *
+ * An agent's effective config is agent.json merged over the base agents or
+ * templates it `extends`, then the workspace's overrides (with -w). This
+ * command lists every leaf field of that config with the file (or files, for
+ * merged arrays) that set it.
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import { handleError } from '../errors/cli-error-handler';
+import { AgentInheritance } from '../utils/agent-inheritance';
+import { CliOutput } from '../utils/output';
+
+export const explainCommand = new Command('explain')
+  .description('Show the effective agent config and which file set each field')
+  .argument('<agent-name>', 'Name of the agent to explain')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option(
+    '-w, --workspace <workspace>',
+    'Include overrides for this workspace (staging, production or a multi-production key)'
+  )
+  .option('--field <path>', 'Only show fields under this dot path (e.g. llm_config)')
+  .addOption(CliOutput.option())
+  .action(async (agentName: string, options: ExplainOptions) => {
+    try {
+      await executeExplain(agentName, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+type ExplainOptions = {
+  path: string;
+  workspace?: string;
+  field?: string;
+};
+
+type ExplainedField = {
+  /** Dot path of the field */
+  field: string;
+  value: unknown;
+  /** Files that set the field, relative to the project root */
+  sources: ReadonlyArray<string>;
+};
+
+/**
+ * `--output json` data
+ */
+type ExplainJson = {
+  agent: string;
+  workspace: string | null;
+  /** Files from the root base to the agent's own agent.json, then the workspace override */
+  chain: ReadonlyArray<string>;
+  fields: ExplainedField[];
+  /** Effective config, as hashed and pushed */
+  config: Record<string, unknown>;
+};
+
+const MAX_VALUE_WIDTH = 60;
+
+async function executeExplain(agentName: string, options: ExplainOptions): Promise<void> {
+  const agentPath = path.resolve(options.path, agentName);
+  const resolvedResult = await AgentInheritance.resolve(agentPath, options.workspace);
+  if (!resolvedResult.success) {
+    throw resolvedResult.error;
+  }
+  const { config, chain, sources } = resolvedResult.value;
+
+  const fields = flatten(config, '')
+    .filter(
+      ({ field }) =>
+        options.field === undefined ||
+        field === options.field ||
+        field.startsWith(`${options.field}.`)
+    )
+    .map(({ field, value }) => ({ field, value, sources: sources.get(field) ?? [] }));
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<ExplainJson>({
+      agent: agentName,
+      workspace: options.workspace ?? null,
+      chain,
+      fields,
+      config,
+    });
+    return;
+  }
+
+  console.log(`\nAgent: ${agentName}`);
+  if (options.workspace !== undefined) {
+    console.log(`Workspace: ${options.workspace}`);
+  }
+  console.log(`Chain: ${chain.join(' → ')}\n`);
+
+  if (fields.length === 0) {
+    console.log(
+      options.field !== undefined ? `No fields under '${options.field}'.\n` : 'No fields.\n'
+    );
+    return;
+  }
+
+  const fieldWidth = Math.max('FIELD'.length, ...fields.map(({ field }) => field.length));
+  const sourceWidth = Math.max(
+    'SOURCE'.length,
+    ...fields.map((entry) => entry.sources.join(', ').length)
+  );
+  console.log(`${'FIELD'.padEnd(fieldWidth)}  ${'SOURCE'.padEnd(sourceWidth)}  VALUE`);
+  for (const entry of fields) {
+    console.log(
+      `${entry.field.padEnd(fieldWidth)}  ${entry.sources.join(', ').padEnd(sourceWidth)}  ${formatValue(entry.value)}`
+    );
+  }
+  console.log('');
+}
+
+/**
+ * Leaf fields of a config in key order. Arrays and empty objects are leaves.
+ */
+function flatten(value: unknown, prefix: string): Array<{ field: string; value: unknown }> {
+  if (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).length > 0
+  ) {
+    return Object.entries(value).flatMap(([key, item]) =>
+      flatten(item, prefix === '' ? key : `${prefix}.${key}`)
+    );
+  }
+  return prefix === '' ? [] : [{ field: prefix, value }];
+}
+
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > MAX_VALUE_WIDTH ? `${text.slice(0, MAX_VALUE_WIDTH - 3)}...` : text;
+}
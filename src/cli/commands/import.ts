@@ -0,0 +1,255 @@
+/**
+ * Import command - Create local agent directories for agents that so far only
+ * exist in a Retell workspace (e.g. built in the Retell console).
+ *
+ * Unlike pull, import needs no existing metadata: it lists the workspace,
+ * writes agents/<slug>/agent.json and the workspace metadata so the agent can
+ * be pushed, pulled and diffed like any other.
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import type { AgentConfig, WorkspaceType } from '@heya/retell.controllers';
+import {
+  MetadataManager,
+  WorkspaceConfigService,
+  RetellClientService,
+  HashCalculator,
+  createAgentId,
+  createLlmId,
+  now,
+} from '@heya/retell.controllers';
+import { handleError } from '../errors/cli-error-handler';
+import { AgentImporter, type ImportTarget } from '../utils/agent-import';
+import { OperationHistory } from '../utils/operation-history';
+import { CliOutput } from '../utils/output';
+import { transformRetellToLocal } from '../utils/retell-transform';
+
+export const importCommand = new Command('import')
+  .description('Import agents from a Retell workspace into new local agent directories')
+  .option('-w, --workspace <workspace>', 'Source workspace (staging or production)', 'staging')
+  .option('--all', 'Import every agent in the workspace', false)
+  .option('--agent-id <id>', 'Import a single agent by ID')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--dry-run', 'Show what would be imported without writing files', false)
+  .addOption(CliOutput.option())
+  .action(async (options: ImportOptions) => {
+    try {
+      await executeImport(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+type ImportOptions = {
+  workspace: WorkspaceType;
+  all: boolean;
+  agentId?: string;
+  path: string;
+  dryRun: boolean;
+};
+
+/**
+ * `--output json` data. With --dry-run, `imported` lists what would be imported.
+ */
+type ImportJson = {
+  workspace: WorkspaceType;
+  dryRun: boolean;
+  imported: Array<{
+    agentId: string;
+    agentName: string | null;
+    directory: string;
+    renamed: boolean;
+  }>;
+  skipped: Array<{ agentId: string; agentName: string | null; reason: string }>;
+  failed: Array<{ agentId: string; agentName: string | null; error: string }>;
+};
+
+async function executeImport(options: ImportOptions): Promise<void> {
+  if (options.all === (options.agentId !== undefined)) {
+    throw new Error('Specify either --all or --agent-id <id>');
+  }
+  if (options.workspace !== 'staging' && options.workspace !== 'production') {
+    throw new Error(
+      `Invalid workspace: ${options.workspace as string}. Use staging or production.`
+    );
+  }
+
+  console.log(`\nImporting agents from ${options.workspace}...\n`);
+
+  const modeResult = await WorkspaceConfigService.getMode();
+  const mode = modeResult.success ? modeResult.value : 'single-production';
+
+  // 1. Load workspace config
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(options.workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+  const client = new RetellClientService(workspaceConfigResult.value);
+
+  // 2. List agents in the workspace
+  console.log('Listing agents in Retell...');
+  const listResult = await client.listAgents();
+  if (!listResult.success) {
+    throw new Error(`Failed to list agents: ${listResult.error.message}`);
+  }
+  let remoteAgents = AgentImporter.summarize(listResult.value);
+  if (options.agentId !== undefined) {
+    remoteAgents = remoteAgents.filter((agent) => agent.agent_id === options.agentId);
+    if (remoteAgents.length === 0) {
+      throw new Error(`Agent ${options.agentId} not found in ${options.workspace}`);
+    }
+  }
+  console.log(`✓ Found ${remoteAgents.length} agent(s)\n`);
+
+  // 3. Choose directories, skipping agents that are already tracked locally
+  const agentsPath = path.resolve(options.path);
+  const existing = await AgentImporter.scanExisting(agentsPath, options.workspace, mode);
+  const { targets, skipped } = AgentImporter.assignDirectories(remoteAgents, existing);
+
+  for (const skip of skipped) {
+    console.log(`  - Skipping ${skip.agent.agent_name ?? skip.agent.agent_id}: ${skip.reason}`);
+  }
+  if (skipped.length > 0) {
+    console.log('');
+  }
+
+  const importJson: ImportJson = {
+    workspace: options.workspace,
+    dryRun: options.dryRun,
+    imported: [],
+    skipped: skipped.map((skip) => ({
+      agentId: skip.agent.agent_id,
+      agentName: skip.agent.agent_name,
+      reason: skip.reason,
+    })),
+    failed: [],
+  };
+
+  if (targets.length === 0) {
+    console.log('Nothing to import.\n');
+    CliOutput.result(importJson);
+    return;
+  }
+
+  if (options.dryRun) {
+    console.log('Would import:');
+    for (const target of targets) {
+      console.log(`  ${describeTarget(target)}`);
+    }
+    console.log('\nDry run - no files written.\n');
+    CliOutput.result<ImportJson>({ ...importJson, imported: targets.map(toImportedJson) });
+    return;
+  }
+
+  // 4. Write agent.json and metadata for each agent
+  for (const target of targets) {
+    try {
+      await importAgent(client, target, agentsPath, options.workspace);
+      importJson.imported.push(toImportedJson(target));
+      console.log(`✓ ${describeTarget(target)}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      importJson.failed.push({
+        agentId: target.agent.agent_id,
+        agentName: target.agent.agent_name,
+        error: message,
+      });
+      console.log(`✗ ${target.agent.agent_name ?? target.agent.agent_id}: ${message}`);
+    }
+  }
+
+  const imported = importJson.imported.length;
+  console.log(`\n✓ Imported ${imported} of ${targets.length} agent(s) into ${options.path}`);
+  if (CliOutput.isJson()) {
+    // The failures are in the result; exit 1 without an error document
+    CliOutput.result(importJson);
+    if (imported < targets.length) {
+      process.exit(1);
+    }
+    return;
+  }
+  if (imported < targets.length) {
+    throw new Error(`${targets.length - imported} agent(s) failed to import`);
+  }
+  console.log(`  Run 'retell status' to verify they are in sync.\n`);
+}
+
+function toImportedJson(target: ImportTarget): ImportJson['imported'][number] {
+  return {
+    agentId: target.agent.agent_id,
+    agentName: target.agent.agent_name,
+    directory: target.directory,
+    renamed: target.renamed,
+  };
+}
+
+async function importAgent(
+  client: RetellClientService,
+  target: ImportTarget,
+  agentsPath: string,
+  workspace: WorkspaceType
+): Promise<void> {
+  const { agent } = target;
+  if (agent.llm_id === null) {
+    throw new Error('Agent has no LLM');
+  }
+
+  // Fetch full configs; list responses may omit fields
+  const agentResult = await client.getAgent(createAgentId(agent.agent_id));
+  if (!agentResult.success) {
+    throw new Error(`Failed to fetch agent: ${agentResult.error.message}`);
+  }
+  const remoteAgent = agentResult.value as Record<string, unknown>;
+
+  const llmResult = await client.getLlm(createLlmId(agent.llm_id));
+  if (!llmResult.success) {
+    throw new Error(`Failed to fetch LLM: ${llmResult.error.message}`);
+  }
+  const remoteLlm = llmResult.value as Record<string, unknown>;
+
+  const agentPath = path.join(agentsPath, target.directory);
+  await fs.mkdir(agentPath, { recursive: true });
+
+  const agentJsonPath = path.join(agentPath, 'agent.json');
+  const localConfig = transformRetellToLocal(remoteAgent, remoteLlm);
+  await fs.writeFile(agentJsonPath, JSON.stringify(localConfig, null, 2) + '\n', 'utf-8');
+
+  // Hash the file as written so status/diff compute the same value later
+  const savedConfig = JSON.parse(await fs.readFile(agentJsonPath, 'utf-8')) as AgentConfig;
+  const hashResult = HashCalculator.calculateAgentHash(savedConfig);
+  if (!hashResult.success) {
+    throw new Error(`Failed to hash imported config: ${hashResult.error.message}`);
+  }
+
+  const retellVersion =
+    typeof remoteAgent['version'] === 'number' ? remoteAgent['version'] : agent.version;
+  const updateResult = await MetadataManager.update(agentPath, workspace, {
+    agent_id: createAgentId(agent.agent_id),
+    llm_id: createLlmId(agent.llm_id),
+    config_hash: hashResult.value,
+    last_sync: now(),
+    retell_version: retellVersion,
+  });
+  if (!updateResult.success) {
+    throw new Error(`Failed to write metadata: ${updateResult.error.message}`);
+  }
+
+  await OperationHistory.record({
+    action: 'import',
+    agent: target.directory,
+    workspace,
+    success: true,
+    before_hash: null,
+    after_hash: hashResult.value,
+    retell_version: retellVersion,
+    summary: `Imported ${agent.agent_id}`,
+  });
+}
+
+function describeTarget(target: ImportTarget): string {
+  const name = target.agent.agent_name ?? target.agent.agent_id;
+  const note = target.renamed ? ' (name taken, suffix added)' : '';
+  return `${name} → ${target.directory}/${note}`;
+}
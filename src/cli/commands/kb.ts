@@ -0,0 +1,528 @@
+/**
+ * Knowledge base management commands.
+ *
+ * Provides commands for:
+ * - Adding files to an agent's knowledge/ directory
+ * - Listing local and uploaded knowledge base files per workspace
+ * - Removing files locally and (optionally) from a workspace
+ * - Pushing changed files to a workspace knowledge base
+ *
+ * Uploads are incremental: `.kb-meta.json` tracks the hash of every file
+ * uploaded to each workspace, so only new or changed files are sent.
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as readline from 'readline';
+import { AgentConfigLoader, WorkspaceConfigService } from '@heya/retell.controllers';
+import type { WorkspaceType } from '@heya/retell.controllers';
+import { handleError } from '../errors/cli-error-handler';
+import { AgentInheritance } from '../utils/agent-inheritance';
+import { KnowledgeBaseManager, type KbFileEntry, type KbSyncPlan } from '../utils/knowledge-base';
+import { CliOutput } from '../utils/output';
+
+// ============================================================================
+// Main kb command group
+// ============================================================================
+
+export const kbCommand = new Command('kb').description('Manage agent knowledge bases');
+
+// ============================================================================
+// Subcommand: kb add
+// ============================================================================
+
+kbCommand
+  .command('add')
+  .description("Add files to an agent's knowledge base (uploaded on next push)")
+  .argument('<agent-name>', 'Name of the agent')
+  .argument('<files...>', 'Files to add')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .addOption(CliOutput.option())
+  .action(async (agentName: string, files: string[], options: KbOptions) => {
+    try {
+      await executeKbAdd(agentName, files, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: kb list
+// ============================================================================
+
+kbCommand
+  .command('list')
+  .description('List knowledge base files and their sync status')
+  .argument('<agent-name>', 'Name of the agent')
+  .argument('[workspace]', 'Only show this workspace (staging or production)')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .addOption(CliOutput.option())
+  .action(async (agentName: string, workspace: WorkspaceType | undefined, options: KbOptions) => {
+    try {
+      await executeKbList(agentName, workspace, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: kb remove
+// ============================================================================
+
+kbCommand
+  .command('remove')
+  .description("Remove a file from an agent's knowledge base")
+  .argument('<agent-name>', 'Name of the agent')
+  .argument('<file>', 'File name in the knowledge/ directory')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--remote', 'Also delete from the workspace now instead of on next push', false)
+  .option(
+    '-w, --workspace <workspace>',
+    'Workspace for --remote (staging or production)',
+    'staging'
+  )
+  .option('-y, --yes', 'Skip confirmation prompt', false)
+  .addOption(CliOutput.option())
+  .action(async (agentName: string, file: string, options: KbRemoveOptions) => {
+    try {
+      await executeKbRemove(agentName, file, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: kb push
+// ============================================================================
+
+kbCommand
+  .command('push')
+  .description('Upload changed knowledge base files and link the knowledge base to the LLM')
+  .argument('<agent-name>', 'Name of the agent')
+  .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--dry-run', 'Show what would be uploaded without making changes', false)
+  .addOption(CliOutput.option())
+  .action(async (agentName: string, options: KbPushOptions) => {
+    try {
+      await executeKbPush(agentName, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type KbOptions = {
+  path: string;
+};
+
+type KbRemoveOptions = KbOptions & {
+  remote: boolean;
+  workspace: WorkspaceType;
+  yes: boolean;
+};
+
+type KbPushOptions = KbOptions & {
+  workspace: WorkspaceType;
+  dryRun: boolean;
+};
+
+/**
+ * File names a sync adds, updates, removes or leaves alone
+ */
+type KbPlanJson = {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: string[];
+};
+
+/**
+ * `--output json` data for each subcommand
+ */
+type KbAddJson = {
+  agent: string;
+  files: Array<{ name: string; size_bytes: number; replaced: boolean }>;
+};
+
+type KbListJson = {
+  agent: string;
+  localFiles: Array<{ name: string; hash: string; size_bytes: number; modified: string }>;
+  workspaces: Array<{
+    workspace: string;
+    kbId: string | null;
+    files: Record<string, KbFileEntry>;
+    pending: KbPlanJson;
+  }>;
+};
+
+type KbRemoveJson = {
+  agent: string;
+  file: string;
+  /** Workspace the file was deleted from, with --remote */
+  workspace: WorkspaceType | null;
+  deletedRemote: boolean;
+  removedLocal: boolean;
+};
+
+type KbPushJson = {
+  agent: string;
+  workspace: WorkspaceType;
+  dryRun: boolean;
+  kbId: string | null;
+  created: boolean;
+  llmId: string | null;
+  linked: boolean;
+  changes: KbPlanJson;
+};
+
+// ============================================================================
+// Implementations
+// ============================================================================
+
+async function executeKbAdd(agentName: string, files: string[], options: KbOptions): Promise<void> {
+  const agentPath = path.resolve(options.path, agentName);
+  await assertAgentExists(agentPath, agentName);
+
+  const knowledgeDir = KnowledgeBaseManager.getKnowledgeDir(agentPath);
+  await fs.mkdir(knowledgeDir, { recursive: true });
+
+  console.log(`\nAdding files to ${agentName} knowledge base...\n`);
+
+  const added: KbAddJson['files'] = [];
+  for (const file of files) {
+    const source = path.resolve(file);
+    const name = path.basename(source);
+
+    if (name.startsWith('.')) {
+      throw new Error(`Hidden files cannot be added to the knowledge base: ${name}`);
+    }
+
+    const stats = await fs.stat(source).catch(() => null);
+    if (stats === null || !stats.isFile()) {
+      throw new Error(`File not found: ${file}`);
+    }
+
+    const destination = path.join(knowledgeDir, name);
+    const replaced = await fs
+      .access(destination)
+      .then(() => true)
+      .catch(() => false);
+
+    if (source !== destination) {
+      await fs.copyFile(source, destination);
+    }
+
+    console.log(`  ${replaced ? '~' : '+'} ${name} (${formatSize(stats.size)})`);
+    added.push({ name, size_bytes: stats.size, replaced });
+  }
+
+  console.log(`\nRun 'retell kb push ${agentName} -w staging' to upload.`);
+  CliOutput.result<KbAddJson>({ agent: agentName, files: added });
+}
+
+async function executeKbList(
+  agentName: string,
+  workspace: WorkspaceType | undefined,
+  options: KbOptions
+): Promise<void> {
+  const agentPath = path.resolve(options.path, agentName);
+
+  const filesResult = await KnowledgeBaseManager.listLocalFiles(agentPath);
+  if (!filesResult.success) {
+    throw filesResult.error;
+  }
+  const metaResult = await KnowledgeBaseManager.readMeta(agentPath);
+  if (!metaResult.success) {
+    throw metaResult.error;
+  }
+
+  const localFiles = filesResult.value;
+  const meta = metaResult.value;
+  const workspaces = workspace !== undefined ? [workspace] : Object.keys(meta);
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<KbListJson>({
+      agent: agentName,
+      localFiles: localFiles.map((file) => ({
+        name: file.name,
+        hash: file.hash,
+        size_bytes: file.size_bytes,
+        modified: file.modified.toISOString(),
+      })),
+      workspaces: workspaces.map((workspaceKey) => ({
+        workspace: workspaceKey,
+        kbId: meta[workspaceKey]?.kb_id ?? null,
+        files: { ...(meta[workspaceKey]?.files ?? {}) },
+        pending: toPlanJson(KnowledgeBaseManager.plan(localFiles, meta[workspaceKey])),
+      })),
+    });
+    return;
+  }
+
+  console.log(`\nKnowledge Base: ${agentName}\n`);
+
+  console.log('Local Files:');
+  if (localFiles.length === 0) {
+    console.log('  (none)');
+  }
+  for (const file of localFiles) {
+    console.log(
+      `  ${file.name.padEnd(24)} ${formatSize(file.size_bytes).padEnd(8)} modified ${formatAge(file.modified)}`
+    );
+  }
+
+  for (const workspaceKey of workspaces) {
+    const state = meta[workspaceKey];
+    const title = workspaceKey.charAt(0).toUpperCase() + workspaceKey.slice(1);
+
+    const kbLabel = state !== undefined && state.kb_id !== null ? ` (${state.kb_id})` : '';
+    console.log(`\n${title} Files${kbLabel}:`);
+    const entries = Object.entries(state?.files ?? {});
+    if (entries.length === 0) {
+      console.log('  (none)');
+    }
+    for (const [name, entry] of entries) {
+      console.log(
+        `  ${name.padEnd(24)} ${formatSize(entry.size_bytes).padEnd(8)} synced ${formatAge(new Date(entry.last_sync))}`
+      );
+    }
+
+    const plan = KnowledgeBaseManager.plan(localFiles, state);
+    if (KnowledgeBaseManager.hasChanges(plan)) {
+      console.log(`  Pending: ${formatPlanSummary(plan)}`);
+    }
+  }
+}
+
+async function executeKbRemove(
+  agentName: string,
+  file: string,
+  options: KbRemoveOptions
+): Promise<void> {
+  const agentPath = path.resolve(options.path, agentName);
+  const name = path.basename(file);
+  const localPath = path.join(KnowledgeBaseManager.getKnowledgeDir(agentPath), name);
+
+  let deletedRemote = false;
+  if (options.remote) {
+    if (!options.yes && CliOutput.isJson()) {
+      throw new Error('Use --yes with --output json; kb remove cannot ask for confirmation.');
+    }
+    if (!options.yes) {
+      const confirmed = await confirm(
+        `\nThis will delete '${name}' from the ${options.workspace} knowledge base.\nContinue? (yes/no): `
+      );
+      if (!confirmed) {
+        console.log('\nCancelled.');
+        return;
+      }
+    }
+
+    const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(options.workspace);
+    if (!workspaceConfigResult.success) {
+      throw workspaceConfigResult.error;
+    }
+
+    const removeResult = await KnowledgeBaseManager.removeRemoteFile(
+      KnowledgeBaseManager.createClient(workspaceConfigResult.value),
+      agentPath,
+      options.workspace,
+      name
+    );
+    if (!removeResult.success) {
+      throw removeResult.error;
+    }
+
+    deletedRemote = removeResult.value;
+    if (removeResult.value) {
+      console.log(`\n✓ Deleted ${name} from ${options.workspace}`);
+    } else {
+      console.log(`\n${name} was not uploaded to ${options.workspace}`);
+    }
+  }
+
+  let removedLocal = false;
+  try {
+    await fs.unlink(localPath);
+    removedLocal = true;
+    console.log(`✓ Removed local file ${name}`);
+  } catch {
+    if (!options.remote) {
+      throw new Error(`Knowledge base file not found: ${name}`);
+    }
+  }
+
+  if (!options.remote) {
+    console.log(`\nRun 'retell kb push ${agentName}' to remove it from the workspace.`);
+  }
+  CliOutput.result<KbRemoveJson>({
+    agent: agentName,
+    file: name,
+    workspace: options.remote ? options.workspace : null,
+    deletedRemote,
+    removedLocal,
+  });
+}
+
+async function executeKbPush(agentName: string, options: KbPushOptions): Promise<void> {
+  const agentPath = path.resolve(options.path, agentName);
+  await assertAgentExists(agentPath, agentName);
+
+  console.log(
+    `\n${options.dryRun ? 'Planning' : 'Pushing'} knowledge base for '${agentName}' to ${options.workspace}...\n`
+  );
+
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(options.workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+
+  const configResult = await AgentInheritance.load(agentPath, options.workspace);
+  if (!configResult.success) {
+    throw new Error(`Failed to load agent config: ${configResult.error.message}`);
+  }
+
+  const pushResult = await KnowledgeBaseManager.push(workspaceConfigResult.value, {
+    agentName,
+    agentPath,
+    workspace: options.workspace,
+    configuredIds: configResult.value.llm_config.knowledge_base_ids,
+    dryRun: options.dryRun,
+  });
+  if (!pushResult.success) {
+    throw pushResult.error;
+  }
+
+  const { plan, kbId, created, llmId, linked } = pushResult.value;
+  if (CliOutput.isJson()) {
+    CliOutput.result<KbPushJson>({
+      agent: agentName,
+      workspace: options.workspace,
+      dryRun: options.dryRun,
+      kbId,
+      created,
+      llmId,
+      linked,
+      changes: toPlanJson(plan),
+    });
+    return;
+  }
+  displayPlan(plan);
+
+  if (options.dryRun) {
+    console.log('\nDry run - no changes made.');
+    return;
+  }
+
+  if (!KnowledgeBaseManager.hasChanges(plan)) {
+    console.log(`\n✓ Knowledge base is already in sync with ${options.workspace}`);
+  } else {
+    console.log(
+      `\n✓ Knowledge base ${created ? 'created' : 'updated'}${kbId !== null ? `: ${kbId}` : ''}`
+    );
+  }
+
+  if (llmId === null) {
+    console.log(
+      `\nAgent is not in ${options.workspace} yet. Run 'retell push ${agentName}' to link it.`
+    );
+  } else if (linked) {
+    console.log(`✓ Linked knowledge base to LLM ${llmId}`);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Print a file-level summary of a sync plan
+ */
+function displayPlan(plan: KbSyncPlan): void {
+  for (const file of plan.added) {
+    console.log(`  + ${file.name} (${formatSize(file.size_bytes)})`);
+  }
+  for (const file of plan.updated) {
+    console.log(`  ~ ${file.name} (${formatSize(file.size_bytes)})`);
+  }
+  for (const name of plan.removed) {
+    console.log(`  - ${name}`);
+  }
+  if (!KnowledgeBaseManager.hasChanges(plan)) {
+    console.log(`  (no changes, ${plan.unchanged.length} file(s) up to date)`);
+  }
+}
+
+function toPlanJson(plan: KbSyncPlan): KbPlanJson {
+  return {
+    added: plan.added.map((file) => file.name),
+    updated: plan.updated.map((file) => file.name),
+    removed: [...plan.removed],
+    unchanged: [...plan.unchanged],
+  };
+}
+
+function formatPlanSummary(plan: KbSyncPlan): string {
+  return [
+    plan.added.length > 0 ? `${plan.added.length} new` : null,
+    plan.updated.length > 0 ? `${plan.updated.length} modified` : null,
+    plan.removed.length > 0 ? `${plan.removed.length} deleted` : null,
+  ]
+    .filter((part): part is string => part !== null)
+    .join(', ');
+}
+
+async function assertAgentExists(agentPath: string, agentName: string): Promise<void> {
+  if (!(await AgentConfigLoader.exists(agentPath))) {
+    throw new Error(`Agent not found: ${agentName} (no agent.json in ${agentPath})`);
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes}B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)}KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+function formatAge(date: Date): string {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (Number.isNaN(minutes)) {
+    return 'unknown';
+  }
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  }
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+}
+
+function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      const normalized = answer.toLowerCase().trim();
+      resolve(normalized === 'yes' || normalized === 'y');
+    });
+  });
+}
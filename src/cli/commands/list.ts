@@ -6,14 +6,14 @@ import { Command } from 'commander';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import Table from 'cli-table3';
-import {
-  AgentController,
-  AgentConfigLoader,
-  MetadataManager,
-  HashCalculator,
-} from '@heya/retell.controllers';
+import { AgentController, MetadataManager, HashCalculator } from '@heya/retell.controllers';
 import type { WorkspaceType } from '@heya/retell.controllers';
 import { handleError } from '../errors/cli-error-handler';
+import { AgentInheritance } from '../utils/agent-inheritance';
+import { AgentHasher } from '../utils/agent-hash';
+import { ConversationFlowManager } from '../utils/conversation-flow';
+import { CustomLlmManager } from '../utils/custom-llm';
+import { CliOutput } from '../utils/output';
 
 export const listCommand = new Command('list')
   .description('List agents from workspace or local')
@@ -23,6 +23,7 @@ export const listCommand = new Command('list')
     'local'
   )
   .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .addOption(CliOutput.option())
   .action(async (options: ListOptions) => {
     try {
       await executeList(options);
@@ -48,6 +49,25 @@ type LocalAgentInfo = {
 
 type SyncStatus = 'in-sync' | 'out-of-sync' | 'never-synced' | 'error';
 
+/**
+ * `--output json` data. Local agents carry their sync status per workspace;
+ * workspace agents are as listed by Retell.
+ */
+type ListJson =
+  | {
+      workspace: 'local';
+      agents: Array<
+        Omit<LocalAgentInfo, 'stagingSync' | 'productionSync'> & {
+          staging: SyncStatus;
+          production: SyncStatus;
+        }
+      >;
+    }
+  | {
+      workspace: WorkspaceType;
+      agents: Array<{ agentId: string; agentName: string | null; llmId: string | null }>;
+    };
+
 async function executeList(options: ListOptions): Promise<void> {
   const agentsPath = path.resolve(options.path);
 
@@ -68,6 +88,7 @@ async function listLocalAgents(agentsPath: string): Promise<void> {
   try {
     await fs.access(agentsPath);
   } catch {
+    CliOutput.result<ListJson>({ workspace: 'local', agents: [] });
     console.error(`Agents directory not found: ${agentsPath}`);
     return;
   }
@@ -77,6 +98,7 @@ async function listLocalAgents(agentsPath: string): Promise<void> {
   const agentDirs = entries.filter((e) => e.isDirectory()).map((e) => e.name);
 
   if (agentDirs.length === 0) {
+    CliOutput.result<ListJson>({ workspace: 'local', agents: [] });
     console.log('No agents found in agents/ directory');
     return;
   }
@@ -91,6 +113,18 @@ async function listLocalAgents(agentsPath: string): Promise<void> {
     }
   }
 
+  if (CliOutput.isJson()) {
+    CliOutput.result<ListJson>({
+      workspace: 'local',
+      agents: agents.map(({ stagingSync, productionSync, ...agent }) => ({
+        ...agent,
+        staging: stagingSync,
+        production: productionSync,
+      })),
+    });
+    return;
+  }
+
   if (agents.length === 0) {
     console.log('No valid agents found');
     return;
@@ -126,26 +160,33 @@ async function loadLocalAgentInfo(
   agentName: string
 ): Promise<LocalAgentInfo | null> {
   try {
+    if (await ConversationFlowManager.isFlowAgent(agentPath)) {
+      return await loadFlowAgentInfo(agentPath, agentName);
+    }
+    if (await CustomLlmManager.isCustomLlmAgent(agentPath)) {
+      return await loadCustomLlmAgentInfo(agentPath, agentName);
+    }
+
     // Load agent config
-    const configResult = await AgentConfigLoader.load(agentPath);
+    const configResult = await AgentInheritance.load(agentPath);
     if (!configResult.success) {
       console.warn(`⚠ Skipping ${agentName}: ${configResult.error.message}`);
       return null;
     }
     const config = configResult.value;
 
-    // Calculate current hash
-    const hashResult = HashCalculator.calculateAgentHash(config);
-    if (!hashResult.success) {
+    // Calculate current hash as each workspace sees it (with its overrides)
+    const stagingHash = await AgentHasher.hashLocal(agentPath, 'staging');
+    const productionHash = await AgentHasher.hashLocal(agentPath, 'production');
+    if (!stagingHash.success || !productionHash.success) {
       return null;
     }
-    const currentHash = hashResult.value;
 
     // Check staging sync
-    const stagingSync = await checkSyncStatus(agentPath, 'staging', currentHash);
+    const stagingSync = await checkSyncStatus(agentPath, 'staging', stagingHash.value);
 
     // Check production sync
-    const productionSync = await checkSyncStatus(agentPath, 'production', currentHash);
+    const productionSync = await checkSyncStatus(agentPath, 'production', productionHash.value);
 
     return {
       name: agentName,
@@ -164,6 +205,71 @@ async function loadLocalAgentInfo(
   }
 }
 
+/**
+ * Load information about a local conversation-flow agent
+ */
+async function loadFlowAgentInfo(
+  agentPath: string,
+  agentName: string
+): Promise<LocalAgentInfo | null> {
+  const flowResult = await ConversationFlowManager.load(agentPath);
+  if (!flowResult.success) {
+    console.warn(`⚠ Skipping ${agentName}: ${flowResult.error.message}`);
+    return null;
+  }
+  const { config, flow } = flowResult.value;
+
+  const hashResult = await AgentHasher.hashLocal(agentPath);
+  if (!hashResult.success) {
+    return null;
+  }
+  const currentHash = hashResult.value;
+
+  const modelChoice = flow['model_choice'] as Record<string, unknown> | undefined;
+  const text = (value: unknown): string => (typeof value === 'string' ? value : '-');
+
+  return {
+    name: agentName,
+    agentName: text(config['agent_name']),
+    voiceId: text(config['voice_id']),
+    language: text(config['language']),
+    model: typeof modelChoice?.['model'] === 'string' ? modelChoice['model'] : 'conversation-flow',
+    stagingSync: await checkSyncStatus(agentPath, 'staging', currentHash),
+    productionSync: await checkSyncStatus(agentPath, 'production', currentHash),
+  };
+}
+
+/**
+ * Load information about a local custom-llm agent
+ */
+async function loadCustomLlmAgentInfo(
+  agentPath: string,
+  agentName: string
+): Promise<LocalAgentInfo | null> {
+  const configResult = await CustomLlmManager.load(agentPath);
+  if (!configResult.success) {
+    console.warn(`⚠ Skipping ${agentName}: ${configResult.error.message}`);
+    return null;
+  }
+  const config = configResult.value;
+
+  const hashResult = CustomLlmManager.calculateHash(config);
+  if (!hashResult.success) {
+    return null;
+  }
+  const currentHash = hashResult.value;
+
+  return {
+    name: agentName,
+    agentName: config.agent_name,
+    voiceId: config.voice_id,
+    language: config.language,
+    model: CustomLlmManager.ENGINE_TYPE,
+    stagingSync: await checkSyncStatus(agentPath, 'staging', currentHash),
+    productionSync: await checkSyncStatus(agentPath, 'production', currentHash),
+  };
+}
+
 /**
  * Check sync status for a workspace
  */
@@ -220,6 +326,18 @@ async function listWorkspaceAgents(workspace: WorkspaceType): Promise<void> {
 
   const agents = result.value;
 
+  if (CliOutput.isJson()) {
+    CliOutput.result<ListJson>({
+      workspace,
+      agents: agents.map((agent) => ({
+        agentId: agent.agentId,
+        agentName: agent.agentName || null,
+        llmId: agent.llmId || null,
+      })),
+    });
+    return;
+  }
+
   if (agents.length === 0) {
     console.log(`No agents found in ${workspace} workspace`);
     return;
@@ -0,0 +1,116 @@
+/**
+ * Logs command - Show the local operation history.
+ *
+ * Every mutating command (push, pull, version publish/rollback, delete, sync,
+ * release, phone update, import) appends an entry to .retell/history.jsonl. This
+ * command reads it back, newest first.
+ */
+
+import { Command } from 'commander';
+import { handleError } from '../errors/cli-error-handler';
+import { OperationHistory, type HistoryEntry } from '../utils/operation-history';
+import { CliOutput } from '../utils/output';
+
+export const logsCommand = new Command('logs')
+  .description('Show local history of pushes, pulls, releases and other changes')
+  .argument('[agent-name]', 'Name of the agent (omit with --all)')
+  .option('--all', 'Show history for all agents', false)
+  .option('-n, --limit <count>', 'Maximum number of entries to show', '20')
+  .option('-w, --workspace <workspace>', 'Only show entries for this workspace')
+  .option('--action <action>', `Only show this action (${OperationHistory.ACTIONS.join(', ')})`)
+  .option('-v, --verbose', 'Show user, config hashes and Retell version', false)
+  .addOption(CliOutput.option())
+  .action(async (agentName: string | undefined, options: LogsOptions) => {
+    try {
+      await executeLogs(agentName, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+type LogsOptions = {
+  all: boolean;
+  limit: string;
+  workspace?: string;
+  action?: string;
+  verbose: boolean;
+};
+
+/**
+ * `--output json` data
+ */
+type LogsJson = {
+  /** Agent the history is for, or null with --all */
+  agent: string | null;
+  entries: HistoryEntry[];
+};
+
+async function executeLogs(agentName: string | undefined, options: LogsOptions): Promise<void> {
+  if (agentName === undefined && !options.all) {
+    throw new Error('Specify an agent name or use --all');
+  }
+
+  const limit = parseInt(options.limit, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new Error(`Invalid --limit: ${options.limit}`);
+  }
+
+  if (
+    options.action !== undefined &&
+    !OperationHistory.ACTIONS.includes(options.action as HistoryEntry['action'])
+  ) {
+    throw new Error(
+      `Invalid --action: ${options.action}. Expected one of: ${OperationHistory.ACTIONS.join(', ')}`
+    );
+  }
+
+  const result = await OperationHistory.read({
+    agent: options.all ? undefined : agentName,
+    workspace: options.workspace,
+    action: options.action,
+    limit,
+  });
+  if (!result.success) {
+    throw result.error;
+  }
+
+  const entries = result.value;
+  if (CliOutput.isJson()) {
+    CliOutput.result<LogsJson>({ agent: options.all ? null : (agentName ?? null), entries });
+    return;
+  }
+
+  console.log(`\nSync History: ${options.all ? 'all agents' : agentName}\n`);
+
+  if (entries.length === 0) {
+    console.log('No operations recorded.\n');
+    return;
+  }
+
+  for (const entry of entries) {
+    console.log(formatEntry(entry, options.all));
+    if (options.verbose) {
+      console.log(`    by ${entry.user ?? 'unknown'}`);
+      console.log(`    hash: ${shortHash(entry.before_hash)} → ${shortHash(entry.after_hash)}`);
+      console.log(`    retell version: ${entry.retell_version ?? 'n/a'}`);
+    }
+  }
+  console.log('');
+}
+
+/**
+ * Format one entry as a table row, e.g.
+ * 2025-11-14 12:30:00  PUSH     staging     ✅ Config + KB (2 files)
+ */
+function formatEntry(entry: HistoryEntry, showAgent: boolean): string {
+  const when = entry.timestamp.replace('T', ' ').substring(0, 19);
+  const action = entry.action.toUpperCase().padEnd(13);
+  const workspace = entry.workspace.padEnd(12);
+  const agent = showAgent ? `${(entry.agent ?? '-').padEnd(24)} ` : '';
+  const status = entry.success ? '✅' : '❌';
+  return `${when}  ${action}${agent}${workspace}${status} ${entry.summary}`;
+}
+
+function shortHash(hash: string | null): string {
+  return hash === null ? 'none' : hash.replace(/^sha256:/, '').substring(0, 12);
+}
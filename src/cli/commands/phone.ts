@@ -8,12 +8,21 @@
  * - Getting phone number details
  * - Updating phone number configuration
  * - Deleting phone numbers
+ * - Applying the bindings in phones.json (see PhoneConfig)
+ * - Listing SIP trunks and rotating their credentials (see SipTrunkInventory)
  */
 
+import * as path from 'path';
 import { Command } from 'commander';
 import { RetellClientService, WorkspaceConfigService } from '@heya/retell.controllers';
 import type { WorkspaceType } from '@heya/retell.controllers';
 import { handleError } from '../errors/cli-error-handler';
+import { AgentIndex } from '../utils/agent-index';
+import { OperationHistory } from '../utils/operation-history';
+import { CliOutput } from '../utils/output';
+import { PhoneConfig, type PhoneFieldChange, type PhonePlan } from '../utils/phone-config';
+import { SipTrunkInventory, type SipTrunk } from '../utils/sip-trunk';
+import { readStdin } from '../utils/stdin';
 
 // ============================================================================
 // Main phone command group
@@ -80,6 +89,7 @@ phoneCommand
   .description('List all phone numbers in workspace')
   .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
   .option('--json', 'Output as JSON', false)
+  .addOption(CliOutput.option())
   .action(async (options: ListPhoneOptions) => {
     try {
       await executeListPhones(options);
@@ -98,6 +108,7 @@ phoneCommand
   .argument('<phone-number>', 'Phone number in E.164 format')
   .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
   .option('--json', 'Output as JSON', false)
+  .addOption(CliOutput.option())
   .action(async (phoneNumber: string, options: GetPhoneOptions) => {
     try {
       await executeGetPhone(phoneNumber, options);
@@ -147,6 +158,66 @@ phoneCommand
     }
   });
 
+// ============================================================================
+// Subcommand: phone apply
+// ============================================================================
+
+phoneCommand
+  .command('apply')
+  .description('Bind phone numbers to agents as declared in phones.json')
+  .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
+  .option('-f, --file <path>', 'Phone bindings file', PhoneConfig.DEFAULT_FILE)
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--dry-run', 'Show the plan without updating any number', false)
+  .addOption(CliOutput.option())
+  .action(async (options: ApplyPhonesOptions) => {
+    try {
+      await executeApplyPhones(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand group: phone trunk
+// ============================================================================
+
+const trunkCommand = phoneCommand
+  .command('trunk')
+  .description('Manage SIP trunks shared by imported numbers');
+
+trunkCommand
+  .command('list')
+  .description('List imported numbers grouped by SIP trunk termination URI')
+  .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
+  .addOption(CliOutput.option())
+  .action(async (options: TrunkListOptions) => {
+    try {
+      await executeTrunkList(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+trunkCommand
+  .command('rotate')
+  .description('Re-import every number on a SIP trunk with new auth credentials')
+  .argument('<termination-uri>', 'SIP trunk termination URI (as shown by phone trunk list)')
+  .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
+  .option('--username <username>', 'New SIP trunk auth username (default: keep current)')
+  .option(
+    '--password-env <var>',
+    'Environment variable holding the new password (default: read it from stdin)'
+  )
+  .option('-y, --yes', 'Skip confirmation', false)
+  .action(async (terminationUri: string, options: TrunkRotateOptions) => {
+    try {
+      await executeTrunkRotate(terminationUri, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
 // ============================================================================
 // Type Definitions
 // ============================================================================
@@ -200,6 +271,40 @@ type DeletePhoneOptions = {
   yes: boolean;
 };
 
+type ApplyPhonesOptions = {
+  workspace: WorkspaceType;
+  file: string;
+  path: string;
+  dryRun: boolean;
+};
+
+type TrunkListOptions = {
+  workspace: WorkspaceType;
+};
+
+type TrunkRotateOptions = {
+  workspace: WorkspaceType;
+  username?: string;
+  passwordEnv?: string;
+  yes: boolean;
+};
+
+/**
+ * `phone trunk list --output json` data
+ */
+type TrunkListJson = {
+  workspace: WorkspaceType;
+  trunks: SipTrunk[];
+};
+
+/**
+ * `phone apply --output json` data
+ */
+type ApplyPhonesJson = PhonePlan & {
+  dry_run: boolean;
+  applied: string[];
+};
+
 // ============================================================================
 // Command Implementations
 // ============================================================================
@@ -368,6 +473,10 @@ async function executeListPhones(options: ListPhoneOptions): Promise<void> {
 
   const phoneNumbers = result.value as Array<Record<string, unknown>>;
 
+  if (CliOutput.isJson()) {
+    CliOutput.result({ workspace: options.workspace, phoneNumbers });
+    return;
+  }
   if (options.json) {
     console.log(JSON.stringify(phoneNumbers, null, 2));
     return;
@@ -418,6 +527,10 @@ async function executeGetPhone(phoneNumber: string, options: GetPhoneOptions): P
 
   const number = result.value as Record<string, unknown>;
 
+  if (CliOutput.isJson()) {
+    CliOutput.result({ workspace: options.workspace, phoneNumber: number });
+    return;
+  }
   if (options.json) {
     console.log(JSON.stringify(number, null, 2));
     return;
@@ -511,6 +624,17 @@ async function executeUpdatePhone(phoneNumber: string, options: UpdatePhoneOptio
     throw result.error;
   }
 
+  await OperationHistory.record({
+    action: 'phone-update',
+    agent: null,
+    workspace: options.workspace,
+    success: true,
+    before_hash: null,
+    after_hash: null,
+    retell_version: null,
+    summary: `${phoneNumber}: ${Object.keys(updateRequest).join(', ')}`,
+  });
+
   console.log('✓ Phone number updated successfully!\n');
   console.log('Updated fields:');
   for (const [key, value] of Object.entries(updateRequest)) {
@@ -518,7 +642,8 @@ async function executeUpdatePhone(phoneNumber: string, options: UpdatePhoneOptio
   }
 
   console.log('\nNote: To update SIP trunk configuration (termination URI or credentials),');
-  console.log('you must delete and re-import the number.');
+  console.log("you must delete and re-import the number ('retell phone trunk rotate' does");
+  console.log('this for every number on a trunk).');
 }
 
 /**
@@ -554,3 +679,281 @@ async function executeDeletePhone(phoneNumber: string, options: DeletePhoneOptio
 
   console.log('✓ Phone number deleted successfully!');
 }
+
+/**
+ * Plan phones.json against the workspace and update the numbers that differ
+ */
+async function executeApplyPhones(options: ApplyPhonesOptions): Promise<void> {
+  const phonesResult = await PhoneConfig.load(path.resolve(options.file));
+  if (!phonesResult.success) {
+    throw phonesResult.error;
+  }
+
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(options.workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+  const client = new RetellClientService(workspaceConfigResult.value);
+
+  const modeResult = await WorkspaceConfigService.getMode();
+  const mode = modeResult.success ? modeResult.value : 'single-production';
+
+  const agentsResult = await AgentIndex.agentIds(
+    path.resolve(options.path),
+    options.workspace,
+    mode
+  );
+  if (!agentsResult.success) {
+    throw agentsResult.error;
+  }
+
+  const planResult = await PhoneConfig.plan(
+    phonesResult.value,
+    options.workspace,
+    agentsResult.value,
+    client
+  );
+  if (!planResult.success) {
+    throw planResult.error;
+  }
+  const plan = planResult.value;
+  const updates = plan.entries.filter((entry) => entry.action === 'update');
+  const missing = plan.entries.filter((entry) => entry.action === 'missing');
+
+  if (!CliOutput.isJson()) {
+    displayPhonePlan(plan, options.file);
+  }
+
+  const applied: string[] = [];
+  if (!options.dryRun) {
+    for (const entry of updates) {
+      const update = PhoneConfig.toUpdate(entry);
+      const result = await client.updatePhoneNumber(entry.phone_number, update);
+      if (!result.success) {
+        throw new Error(
+          `Failed to update ${entry.phone_number} after ${applied.length} of ${updates.length} ` +
+            `update(s): ${result.error.message}`
+        );
+      }
+      await OperationHistory.record({
+        action: 'phone-update',
+        agent: null,
+        workspace: options.workspace,
+        success: true,
+        before_hash: null,
+        after_hash: null,
+        retell_version: null,
+        summary: `${entry.phone_number}: ${Object.keys(update).join(', ')} (${options.file})`,
+      });
+      applied.push(entry.phone_number);
+    }
+  }
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<ApplyPhonesJson>({ ...plan, dry_run: options.dryRun, applied });
+  } else if (options.dryRun) {
+    console.log(`Dry run: ${updates.length} number(s) would be updated.\n`);
+  } else if (updates.length > 0) {
+    console.log(`✓ Updated ${applied.length} number(s) in ${options.workspace}\n`);
+  } else {
+    console.log(`✓ Phone numbers in ${options.workspace} match ${options.file}\n`);
+  }
+
+  if (missing.length > 0) {
+    process.exit(1);
+  }
+}
+
+function displayPhonePlan(plan: PhonePlan, file: string): void {
+  console.log(`\nPhone numbers in ${plan.workspace} against ${file}:\n`);
+  if (plan.entries.length === 0) {
+    console.log(`  No numbers are declared for ${plan.workspace}.`);
+  }
+  for (const entry of plan.entries) {
+    const icon = entry.action === 'update' ? '~' : entry.action === 'missing' ? '✗' : '✓';
+    console.log(`  ${icon} ${entry.phone_number}  ${entry.reason}`);
+    for (const change of entry.changes) {
+      console.log(
+        `      ${change.field}: ${formatPhoneValue(plan, change.from)} → ${formatPhoneValue(plan, change.to)}`
+      );
+    }
+  }
+  if (plan.unmanaged.length > 0) {
+    console.log(`\n  Not in ${file} (left as is): ${plan.unmanaged.join(', ')}`);
+  }
+  console.log('');
+}
+
+/**
+ * A planned value, with the local agent name after agent IDs
+ */
+function formatPhoneValue(plan: PhonePlan, value: PhoneFieldChange['to']): string {
+  if (value === null) {
+    return 'none';
+  }
+  const agentName = typeof value === 'string' ? plan.agent_names[value] : undefined;
+  return agentName !== undefined ? `${value} (${agentName})` : JSON.stringify(value);
+}
+
+/**
+ * List imported numbers by SIP trunk
+ */
+async function executeTrunkList(options: TrunkListOptions): Promise<void> {
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(options.workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+  const client = new RetellClientService(workspaceConfigResult.value);
+
+  const result = await client.listPhoneNumbers();
+  if (!result.success) {
+    throw result.error;
+  }
+  const trunks = SipTrunkInventory.group(result.value as Array<Record<string, unknown>>);
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<TrunkListJson>({ workspace: options.workspace, trunks });
+    return;
+  }
+
+  console.log(`\nSIP trunks in ${options.workspace} (${trunks.length} total):\n`);
+  if (trunks.length === 0) {
+    console.log('No imported phone numbers found.');
+    return;
+  }
+
+  for (const trunk of trunks) {
+    console.log('─'.repeat(60));
+    console.log('Termination URI:', trunk.termination_uri);
+    console.log(
+      'Auth Username:',
+      trunk.usernames.map((username) => username ?? '(none)').join(', ')
+    );
+    if (trunk.usernames.length > 1) {
+      console.log('  ⚠ Numbers on this trunk use different usernames');
+    }
+    console.log(`Numbers (${trunk.phone_numbers.length}):`, trunk.phone_numbers.join(', '));
+    console.log();
+  }
+}
+
+/**
+ * Delete and re-import every number on a trunk with new credentials
+ */
+async function executeTrunkRotate(
+  terminationUri: string,
+  options: TrunkRotateOptions
+): Promise<void> {
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(options.workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+  const client = new RetellClientService(workspaceConfigResult.value);
+
+  const listResult = await client.listPhoneNumbers();
+  if (!listResult.success) {
+    throw listResult.error;
+  }
+  const numbers = SipTrunkInventory.numbersOn(
+    listResult.value as Array<Record<string, unknown>>,
+    terminationUri
+  );
+  if (numbers.length === 0) {
+    throw new Error(
+      `No phone numbers in ${options.workspace} use termination URI ${terminationUri}. ` +
+        `Run 'retell phone trunk list -w ${options.workspace}' to see trunks.`
+    );
+  }
+
+  // Re-importing a number bound to a deleted agent would fail after deleting it
+  const agentsResult = await client.listAgents();
+  if (!agentsResult.success) {
+    throw agentsResult.error;
+  }
+  const agentIds = new Set(
+    (agentsResult.value as Array<{ agent_id: string }>).map((agent) => agent.agent_id)
+  );
+  const dangling = PhoneConfig.bindingsOf(numbers).filter(
+    (binding) => !agentIds.has(binding.agent_id)
+  );
+  if (dangling.length > 0) {
+    throw new Error(
+      `Cannot rotate: ${dangling
+        .map((binding) => `${binding.phone_number} (${binding.direction})`)
+        .join(', ')} bound to agents that no longer exist. ` +
+        `Rebind them first; 'retell audit -w ${options.workspace}' lists them.`
+    );
+  }
+
+  console.log(`\nRotating credentials of ${terminationUri} in ${options.workspace}:\n`);
+  for (const number of numbers) {
+    console.log(`  ${String(number['phone_number'])}`);
+  }
+  console.log('');
+
+  if (!options.yes) {
+    console.log(
+      `⚠️  Each number is deleted and imported again with the new credentials, keeping its`
+    );
+    console.log('agent bindings, nickname and webhook. Calls to a number fail while it is');
+    console.log('being re-imported.\n');
+    console.log('Use --yes flag to confirm rotation.');
+    return;
+  }
+
+  const password = await readTrunkPassword(options.passwordEnv);
+  const credentials = { username: options.username, password };
+
+  let rotated = 0;
+  for (const number of numbers) {
+    const phoneNumber = String(number['phone_number']);
+    const request = SipTrunkInventory.reimportRequest(number, credentials);
+
+    const deleteResult = await client.deletePhoneNumber(phoneNumber);
+    if (!deleteResult.success) {
+      throw new Error(
+        `Failed to delete ${phoneNumber} after rotating ${rotated} of ${numbers.length} ` +
+          `number(s): ${deleteResult.error.message}`
+      );
+    }
+    const importResult = await client.importPhoneNumber(request);
+    if (!importResult.success) {
+      const { sip_trunk_auth_password: _password, ...settings } = request;
+      console.error(`\n✗ ${phoneNumber} was deleted but could not be imported again.`);
+      console.error('  Re-import it with these settings and the new password:');
+      console.error(`  ${JSON.stringify(settings)}`);
+      throw new Error(`Failed to re-import ${phoneNumber}: ${importResult.error.message}`);
+    }
+
+    await OperationHistory.record({
+      action: 'phone-update',
+      agent: null,
+      workspace: options.workspace,
+      success: true,
+      before_hash: null,
+      after_hash: null,
+      retell_version: null,
+      summary: `${phoneNumber}: rotated SIP trunk credentials (${terminationUri})`,
+    });
+    rotated++;
+    console.log(`✓ ${phoneNumber}`);
+  }
+
+  console.log(`\n✓ Rotated credentials of ${rotated} number(s) on ${terminationUri}`);
+  console.log('Update the password at your SIP trunk provider if you have not already.\n');
+}
+
+/**
+ * The new trunk password, from the named environment variable or stdin
+ */
+async function readTrunkPassword(passwordEnv: string | undefined): Promise<string> {
+  const password = passwordEnv !== undefined ? process.env[passwordEnv] : await readStdin();
+  if (password === undefined || password === '') {
+    throw new Error(
+      passwordEnv !== undefined
+        ? `Environment variable ${passwordEnv} is not set`
+        : 'No password given. Pipe it to stdin or use --password-env <var>.'
+    );
+  }
+  return password;
+}
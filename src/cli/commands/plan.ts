@@ -0,0 +1,193 @@
+/**
+ * Plan command - Preview the changes `retell apply` would make to a workspace.
+ *
+ * Compares every agent directory with its workspace metadata and writes the
+ * result to a plan file. Agents that will be updated or deleted also record a
+ * fingerprint of their remote state so apply can detect concurrent changes.
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import { RetellClientService, WorkspaceConfigService } from '@heya/retell.controllers';
+import type { WorkspaceType } from '@heya/retell.controllers';
+import { handleError } from '../errors/cli-error-handler';
+import { GitChangeDetector } from '../utils/git-changes';
+import { CliOutput } from '../utils/output';
+import {
+  DeploymentPlanner,
+  type DeploymentPlan,
+  type PlanAction,
+  type PlanEntry,
+  type PlanSummary,
+} from '../utils/deployment-plan';
+
+export const planCommand = new Command('plan')
+  .description('Preview create/update/delete actions for all agents and save them to a plan file')
+  .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
+  .option('-o, --out <file>', 'Plan file to write', DeploymentPlanner.DEFAULT_FILE)
+  .option('--since <git-ref>', 'Only plan agents affected by files changed since this git ref')
+  .addOption(CliOutput.option())
+  .action(async (options: PlanOptions) => {
+    try {
+      await executePlan(options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+type PlanOptions = {
+  workspace: WorkspaceType;
+  path: string;
+  prompts: string;
+  out: string;
+  since?: string;
+};
+
+/**
+ * `--output json` data
+ */
+type PlanJson = {
+  workspace: WorkspaceType;
+  /** Plan file written, or null when there is nothing to apply */
+  file: string | null;
+  summary: PlanSummary;
+  entries: ReadonlyArray<PlanEntry>;
+};
+
+const ACTION_SYMBOLS: Record<PlanAction, string> = {
+  create: '+',
+  update: '~',
+  delete: '-',
+  'no-op': ' ',
+};
+
+async function executePlan(options: PlanOptions): Promise<void> {
+  if (options.workspace !== 'staging' && options.workspace !== 'production') {
+    throw new Error(
+      `Invalid workspace: ${options.workspace as string}. Use staging or production.`
+    );
+  }
+
+  console.log(`\nPlanning changes for ${options.workspace}...\n`);
+
+  const modeResult = await WorkspaceConfigService.getMode();
+  const mode = modeResult.success ? modeResult.value : 'single-production';
+
+  const agentsPath = path.resolve(options.path);
+  let only: string[] | undefined;
+  if (options.since !== undefined) {
+    const affectedResult = await GitChangeDetector.affectedAgents(
+      options.since,
+      agentsPath,
+      path.resolve(options.prompts)
+    );
+    if (!affectedResult.success) {
+      throw affectedResult.error;
+    }
+    only = affectedResult.value.map((agent) => agent.name);
+    console.log(
+      `Agents affected since ${options.since}: ${only.length > 0 ? only.join(', ') : 'none'}\n`
+    );
+  }
+
+  const entriesResult = await DeploymentPlanner.planAll(agentsPath, options.workspace, mode, only);
+  if (!entriesResult.success) {
+    throw entriesResult.error;
+  }
+
+  const entries = await addRemoteFingerprints(entriesResult.value, options.workspace);
+
+  const plan: DeploymentPlan = {
+    version: DeploymentPlanner.FILE_VERSION,
+    created_at: new Date().toISOString(),
+    workspace: options.workspace,
+    agents_path: options.path,
+    prompts_path: options.prompts,
+    entries,
+  };
+
+  if (!CliOutput.isJson()) {
+    displayPlan(plan);
+  }
+  const planJson: PlanJson = {
+    workspace: options.workspace,
+    file: null,
+    summary: DeploymentPlanner.summarize(plan.entries),
+    entries: plan.entries,
+  };
+
+  if (!DeploymentPlanner.hasChanges(plan)) {
+    console.log(`\n✓ No changes. ${options.workspace} is up to date.\n`);
+    CliOutput.result(planJson);
+    return;
+  }
+
+  const writeResult = await DeploymentPlanner.write(path.resolve(options.out), plan);
+  if (!writeResult.success) {
+    throw writeResult.error;
+  }
+
+  console.log(`\n✓ Saved plan to ${options.out}`);
+  console.log(`  Run 'retell apply ${options.out}' to apply exactly these changes.\n`);
+  CliOutput.result<PlanJson>({ ...planJson, file: options.out });
+}
+
+/**
+ * Fetch the remote fingerprint for every agent that apply will modify.
+ */
+async function addRemoteFingerprints(
+  entries: PlanEntry[],
+  workspace: WorkspaceType
+): Promise<PlanEntry[]> {
+  const remoteEntries = entries.filter(
+    (entry) => (entry.action === 'update' || entry.action === 'delete') && entry.agent_id !== null
+  );
+  if (remoteEntries.length === 0) {
+    return entries;
+  }
+
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+  const client = new RetellClientService(workspaceConfigResult.value);
+
+  console.log(`Fetching remote state for ${remoteEntries.length} agent(s)...\n`);
+
+  const result: PlanEntry[] = [];
+  for (const entry of entries) {
+    if (!remoteEntries.includes(entry) || entry.agent_id === null) {
+      result.push(entry);
+      continue;
+    }
+    const remoteResult = await DeploymentPlanner.fetchRemote(client, entry.agent_id, entry.llm_id);
+    if (!remoteResult.success) {
+      throw new Error(`${entry.agent}: ${remoteResult.error.message}`);
+    }
+    result.push({ ...entry, remote: remoteResult.value });
+  }
+  return result;
+}
+
+function displayPlan(plan: DeploymentPlan): void {
+  if (plan.entries.length === 0) {
+    console.log('No agents found.');
+    return;
+  }
+
+  const nameWidth = Math.max(5, ...plan.entries.map((entry) => entry.agent.length));
+
+  console.log(`  ${'ACTION'.padEnd(8)} ${'AGENT'.padEnd(nameWidth)}  DETAILS`);
+  for (const entry of plan.entries) {
+    const action = `${ACTION_SYMBOLS[entry.action]} ${entry.action}`;
+    console.log(`  ${action.padEnd(8)} ${entry.agent.padEnd(nameWidth)}  ${entry.reason}`);
+  }
+
+  const summary = DeploymentPlanner.summarize(plan.entries);
+  console.log(
+    `\nPlan: ${summary.create} to create, ${summary.update} to update, ` +
+      `${summary.delete} to delete, ${summary['no-op']} unchanged.`
+  );
+}
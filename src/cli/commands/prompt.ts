@@ -0,0 +1,743 @@
+/**
+ * Prompt management commands.
+ *
+ * Provides commands for working with composable prompt sections
+ * (`llm_config.prompt_config.sections`):
+ * - Building/showing the final prompt sent to Retell
+ * - Editing and creating section files
+ * - Finding which agents use a section
+ * - Adding/removing sections from an agent
+ * - Listing and validating sections
+ *
+ * The final prompt is built with AgentTransformer, the same code path
+ * `retell push` uses, so the output matches what is deployed. Agents are read
+ * with their `extends` bases merged in; add and remove only write the
+ * prompt_config keys they change back to the agent's own agent.json.
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import * as readline from 'readline';
+import { spawnSync } from 'child_process';
+import { AgentConfigSchema, AgentTransformer } from '@heya/retell.controllers';
+import type { AgentConfig, PromptConfig } from '@heya/retell.controllers';
+import { handleError } from '../errors/cli-error-handler';
+import { PromptSectionIndex } from '../utils/prompt-sections';
+import { AgentValidator } from '../utils/agent-validator';
+import { AgentInheritance } from '../utils/agent-inheritance';
+import { ConfigInterpolator } from '../utils/config-interpolation';
+import { CliOutput } from '../utils/output';
+
+// ============================================================================
+// Main prompt command group
+// ============================================================================
+
+export const promptCommand = new Command('prompt').description('Manage composable prompt sections');
+
+// ============================================================================
+// Subcommand: prompt build (alias: show)
+// ============================================================================
+
+promptCommand
+  .command('build')
+  .alias('show')
+  .description('Build the final prompt for an agent, exactly as it will be sent to Retell')
+  .argument('<agent-name>', 'Name of the agent')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
+  .option('-o, --out <file>', 'Save the final prompt to a file instead of stdout')
+  .addOption(CliOutput.option())
+  .action(async (agentName: string, options: BuildPromptOptions) => {
+    try {
+      await executeBuildPrompt(agentName, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: prompt edit
+// ============================================================================
+
+promptCommand
+  .command('edit')
+  .description('Open a prompt section file in $EDITOR')
+  .argument('<section-id>', 'Section ID (e.g., base/greeting)')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
+  .action(async (sectionId: string, options: SectionOptions) => {
+    try {
+      await executeEditSection(sectionId, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: prompt usage
+// ============================================================================
+
+promptCommand
+  .command('usage')
+  .description('Show which agents use a prompt section')
+  .argument('<section-id>', 'Section ID (e.g., base/greeting)')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
+  .action(async (sectionId: string, options: SectionOptions) => {
+    try {
+      await executeSectionUsage(sectionId, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: prompt add
+// ============================================================================
+
+promptCommand
+  .command('add')
+  .description('Add a prompt section to an agent')
+  .argument('<agent-name>', 'Name of the agent')
+  .argument('<section-id>', 'Section ID (e.g., customer-service/escalation)')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
+  .option('--position <index>', 'Insert at specific position (default: append)')
+  .option('-y, --yes', 'Skip confirmation prompt', false)
+  .action(async (agentName: string, sectionId: string, options: AddSectionOptions) => {
+    try {
+      await executeAddSection(agentName, sectionId, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: prompt remove
+// ============================================================================
+
+promptCommand
+  .command('remove')
+  .description('Remove a prompt section from an agent')
+  .argument('<agent-name>', 'Name of the agent')
+  .argument('<section-id>', 'Section ID (e.g., base/closing)')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
+  .option('-y, --yes', 'Skip confirmation prompt', false)
+  .action(async (agentName: string, sectionId: string, options: RemoveSectionOptions) => {
+    try {
+      await executeRemoveSection(agentName, sectionId, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: prompt create
+// ============================================================================
+
+promptCommand
+  .command('create')
+  .description('Create a new prompt section file')
+  .argument('<section-id>', 'Section ID (e.g., sales/qualification)')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
+  .option('--no-edit', 'Do not open the new file in $EDITOR')
+  .action(async (sectionId: string, options: CreateSectionOptions) => {
+    try {
+      await executeCreateSection(sectionId, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: prompt list
+// ============================================================================
+
+promptCommand
+  .command('list')
+  .description('List available prompt sections')
+  .argument('[directory]', 'Only list sections in this directory (e.g., base)')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
+  .action(async (directory: string | undefined, options: SectionOptions) => {
+    try {
+      await executeListSections(directory, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: prompt validate
+// ============================================================================
+
+promptCommand
+  .command('validate')
+  .description('Validate that prompt sections exist and all variables are defined')
+  .argument('[agent-name]', 'Name of the agent (omit with --all)')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
+  .option('--all', 'Validate all agents', false)
+  .action(async (agentName: string | undefined, options: ValidatePromptOptions) => {
+    try {
+      await executeValidatePrompt(agentName, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+type SectionOptions = {
+  path: string;
+  prompts: string;
+};
+
+type BuildPromptOptions = SectionOptions & {
+  out?: string;
+};
+
+/**
+ * `--output json` data
+ */
+type PromptBuildJson = {
+  agent: string;
+  sections: readonly string[];
+  variables: Record<string, string>;
+  /** Section IDs replaced by prompt_config.overrides */
+  overrides: string[];
+  characters: number;
+  prompt: string;
+};
+
+type AddSectionOptions = SectionOptions & {
+  position?: string;
+  yes: boolean;
+};
+
+type RemoveSectionOptions = SectionOptions & {
+  yes: boolean;
+};
+
+type CreateSectionOptions = {
+  prompts: string;
+  edit: boolean;
+};
+
+type ValidatePromptOptions = SectionOptions & {
+  all: boolean;
+};
+
+// ============================================================================
+// Implementations
+// ============================================================================
+
+async function executeBuildPrompt(agentName: string, options: BuildPromptOptions): Promise<void> {
+  const agentPath = path.resolve(options.path, agentName);
+  const promptsPath = path.resolve(options.prompts);
+
+  const config = await loadAgentConfig(agentPath);
+  const promptConfig = config.llm_config.prompt_config;
+
+  const prompt = await buildFinalPrompt(config, promptsPath);
+
+  if (options.out !== undefined) {
+    await fs.writeFile(path.resolve(options.out), prompt, 'utf-8');
+  }
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<PromptBuildJson>({
+      agent: agentName,
+      sections: promptConfig?.sections ?? [],
+      variables: promptConfig?.variables ?? {},
+      overrides: Object.keys(promptConfig?.overrides ?? {}),
+      characters: prompt.length,
+      prompt,
+    });
+    return;
+  }
+
+  console.log(`\nBuilding prompt for: ${agentName}\n`);
+
+  if (promptConfig === undefined) {
+    console.log('Using general_prompt (no prompt_config sections)\n');
+  } else {
+    displayPromptConfig(promptConfig);
+  }
+
+  if (options.out !== undefined) {
+    console.log(`✓ Final prompt (${prompt.length} chars) written to ${options.out}`);
+    return;
+  }
+
+  const rule = '━'.repeat(50);
+  console.log(`Final Prompt (${prompt.length} chars):`);
+  console.log(rule);
+  console.log(prompt);
+  console.log(rule);
+}
+
+async function executeEditSection(sectionId: string, options: SectionOptions): Promise<void> {
+  const promptsPath = path.resolve(options.prompts);
+  assertValidSectionId(sectionId);
+
+  if (!(await PromptSectionIndex.exists(promptsPath, sectionId))) {
+    throw new Error(
+      `Prompt section not found: ${sectionId}\n` +
+        `Create it with 'retell prompt create ${sectionId}'.`
+    );
+  }
+
+  const sectionPath = PromptSectionIndex.getSectionPath(promptsPath, sectionId);
+  console.log(`\nEditing: ${path.relative(process.cwd(), sectionPath)}\n`);
+  openInEditor(sectionPath);
+  console.log('File saved.\n');
+
+  const users = await getSectionUsers(path.resolve(options.path), sectionId);
+  if (users.length === 0) {
+    console.log('This section is not used by any agents.');
+    return;
+  }
+
+  console.log('This section is used by:');
+  for (const user of users) {
+    console.log(`  - ${user}`);
+  }
+  console.log(`\nRun 'retell push <agent-name>' to deploy the updated prompt.`);
+}
+
+async function executeSectionUsage(sectionId: string, options: SectionOptions): Promise<void> {
+  const promptsPath = path.resolve(options.prompts);
+  assertValidSectionId(sectionId);
+
+  const sectionPath = PromptSectionIndex.getSectionPath(promptsPath, sectionId);
+  const exists = await PromptSectionIndex.exists(promptsPath, sectionId);
+
+  console.log(`\nSection: ${sectionId}`);
+  console.log(`Path: ${path.relative(process.cwd(), sectionPath)}${exists ? '' : ' (missing)'}\n`);
+
+  const users = await getSectionUsers(path.resolve(options.path), sectionId);
+  if (users.length === 0) {
+    console.log('Not used by any agents.');
+    return;
+  }
+
+  console.log('Used by:');
+  for (const user of users) {
+    console.log(`  ${user}`);
+  }
+}
+
+async function executeAddSection(
+  agentName: string,
+  sectionId: string,
+  options: AddSectionOptions
+): Promise<void> {
+  const agentPath = path.resolve(options.path, agentName);
+  const promptsPath = path.resolve(options.prompts);
+  assertValidSectionId(sectionId);
+
+  const config = await loadAgentConfig(agentPath);
+  const promptConfig = config.llm_config.prompt_config;
+
+  if (promptConfig === undefined) {
+    throw new Error(
+      `Agent '${agentName}' uses general_prompt instead of prompt_config.\n` +
+        'Convert it to prompt_config sections before adding sections.'
+    );
+  }
+
+  if (!(await PromptSectionIndex.exists(promptsPath, sectionId))) {
+    throw new Error(
+      `Prompt section not found: ${sectionId}\n` +
+        `Create it with 'retell prompt create ${sectionId}'.`
+    );
+  }
+
+  const sections = [...(promptConfig.sections ?? [])];
+  if (sections.includes(sectionId)) {
+    throw new Error(`Agent '${agentName}' already uses section '${sectionId}'`);
+  }
+
+  let position = sections.length;
+  if (options.position !== undefined) {
+    position = Number(options.position);
+    if (!Number.isInteger(position) || position < 0 || position > sections.length) {
+      throw new Error(`Invalid position: ${options.position} (expected 0-${sections.length})`);
+    }
+  }
+  sections.splice(position, 0, sectionId);
+
+  const updatedConfig = withPromptConfig(config, { ...promptConfig, sections });
+  await previewAndSave(
+    agentName,
+    agentPath,
+    promptsPath,
+    updatedConfig,
+    sections,
+    options.yes,
+    (own) => ({
+      ...own,
+      sections,
+    })
+  );
+}
+
+async function executeRemoveSection(
+  agentName: string,
+  sectionId: string,
+  options: RemoveSectionOptions
+): Promise<void> {
+  const agentPath = path.resolve(options.path, agentName);
+  const promptsPath = path.resolve(options.prompts);
+
+  const config = await loadAgentConfig(agentPath);
+  const promptConfig = config.llm_config.prompt_config;
+  const sections = [...(promptConfig?.sections ?? [])];
+
+  if (promptConfig === undefined || !sections.includes(sectionId)) {
+    throw new Error(`Agent '${agentName}' does not use section '${sectionId}'`);
+  }
+
+  const remaining = sections.filter((s) => s !== sectionId);
+
+  // Drop the override for the removed section so it doesn't linger unused
+  const overrides = Object.fromEntries(
+    Object.entries(promptConfig.overrides ?? {}).filter(([id]) => id !== sectionId)
+  );
+
+  const updatedPromptConfig: PromptConfig = {
+    ...promptConfig,
+    sections: remaining,
+    ...(promptConfig.overrides !== undefined ? { overrides } : {}),
+  };
+
+  const updatedConfig = withPromptConfig(config, updatedPromptConfig);
+  await previewAndSave(
+    agentName,
+    agentPath,
+    promptsPath,
+    updatedConfig,
+    remaining,
+    options.yes,
+    (own) => {
+      const ownOverrides = own['overrides'];
+      return {
+        ...own,
+        sections: remaining,
+        ...(isObject(ownOverrides) && {
+          overrides: Object.fromEntries(
+            Object.entries(ownOverrides).filter(([id]) => id !== sectionId)
+          ),
+        }),
+      };
+    }
+  );
+}
+
+async function executeCreateSection(
+  sectionId: string,
+  options: CreateSectionOptions
+): Promise<void> {
+  const promptsPath = path.resolve(options.prompts);
+  assertValidSectionId(sectionId);
+
+  if (await PromptSectionIndex.exists(promptsPath, sectionId)) {
+    throw new Error(`Prompt section already exists: ${sectionId}`);
+  }
+
+  const sectionPath = PromptSectionIndex.getSectionPath(promptsPath, sectionId);
+  await fs.mkdir(path.dirname(sectionPath), { recursive: true });
+  await fs.writeFile(sectionPath, '', 'utf-8');
+
+  console.log(`\n✓ Created ${path.relative(process.cwd(), sectionPath)}`);
+
+  if (options.edit && getEditor() !== undefined) {
+    openInEditor(sectionPath);
+  }
+
+  console.log(`\nAdd it to an agent with 'retell prompt add <agent-name> ${sectionId}'.`);
+}
+
+async function executeListSections(
+  directory: string | undefined,
+  options: SectionOptions
+): Promise<void> {
+  const promptsPath = path.resolve(options.prompts);
+
+  const sectionsResult = await PromptSectionIndex.listSections(promptsPath, directory);
+  if (!sectionsResult.success) {
+    throw new Error(`Failed to list prompt sections: ${sectionsResult.error.message}`);
+  }
+  const sections = sectionsResult.value;
+
+  if (sections.length === 0) {
+    console.log('\nNo prompt sections found.');
+    return;
+  }
+
+  const usageResult = await PromptSectionIndex.findUsage(path.resolve(options.path));
+  const usage = usageResult.success ? usageResult.value : new Map<string, string[]>();
+
+  console.log('\nAvailable Prompt Sections:');
+
+  let currentGroup: string | undefined;
+  for (const sectionId of sections) {
+    const separator = sectionId.lastIndexOf('/');
+    const group = separator === -1 ? '' : sectionId.slice(0, separator + 1);
+    const file = `${sectionId.slice(separator + 1)}.txt`;
+
+    if (group !== currentGroup) {
+      console.log(group === '' ? '' : `\n${group}`);
+      currentGroup = group;
+    }
+
+    const count = usage.get(sectionId)?.length ?? 0;
+    const usedBy = count === 0 ? '(not used)' : `(used by ${count} agent${count === 1 ? '' : 's'})`;
+    console.log(`  ${file.padEnd(26)}${usedBy}`);
+  }
+}
+
+async function executeValidatePrompt(
+  agentName: string | undefined,
+  options: ValidatePromptOptions
+): Promise<void> {
+  const promptsPath = path.resolve(options.prompts);
+  const agentsPath = path.resolve(options.path);
+
+  let agentNames: string[];
+  if (options.all) {
+    const agentsResult = await PromptSectionIndex.loadAgents(agentsPath);
+    if (!agentsResult.success) {
+      throw new Error(`Failed to load agents: ${agentsResult.error.message}`);
+    }
+    agentNames = agentsResult.value.map((agent) => agent.name);
+  } else if (agentName !== undefined) {
+    agentNames = [agentName];
+  } else {
+    throw new Error('Specify an agent name or use --all');
+  }
+
+  let totalErrors = 0;
+  let totalWarnings = 0;
+
+  for (const name of agentNames) {
+    console.log(`\nValidating: ${name}\n`);
+
+    const config = await loadAgentConfig(path.join(agentsPath, name));
+    const { errors, warnings } = await AgentValidator.validatePrompt(config, promptsPath);
+
+    if (errors.length === 0 && warnings.length === 0) {
+      console.log('✅ All sections exist');
+      console.log('✅ All variables defined');
+    }
+    for (const warning of warnings) {
+      console.log(`⚠️  ${warning}`);
+    }
+    for (const error of errors) {
+      console.log(`❌ ${error}`);
+    }
+
+    totalErrors += errors.length;
+    totalWarnings += warnings.length;
+  }
+
+  console.log(`\nWarnings: ${totalWarnings}`);
+  console.log(`Errors: ${totalErrors}`);
+
+  if (totalErrors > 0) {
+    throw new Error(`Prompt validation failed with ${totalErrors} error(s)`);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Dot path `array_merge` uses for an agent's prompt sections */
+const SECTIONS_FIELD = 'llm_config.prompt_config.sections';
+
+/**
+ * Effective agent config, with any `extends` bases merged in
+ */
+async function loadAgentConfig(agentPath: string): Promise<AgentConfig> {
+  const configResult = await AgentInheritance.load(agentPath);
+  if (!configResult.success) {
+    throw new Error(`Failed to load agent config: ${configResult.error.message}`);
+  }
+  return configResult.value;
+}
+
+/**
+ * Build the final prompt using the same transformation as push.
+ */
+async function buildFinalPrompt(config: AgentConfig, promptsPath: string): Promise<string> {
+  const llmResult = await AgentTransformer.transformToLlm(config, promptsPath);
+  if (!llmResult.success) {
+    throw llmResult.error;
+  }
+  return llmResult.value.general_prompt ?? '';
+}
+
+function displayPromptConfig(promptConfig: PromptConfig): void {
+  const sections = promptConfig.sections ?? [];
+  console.log('Sections:');
+  sections.forEach((sectionId, index) => {
+    console.log(`  ${index + 1}. ${sectionId}`);
+  });
+
+  const variables = Object.entries(promptConfig.variables ?? {});
+  if (variables.length > 0) {
+    console.log('\nVariables:');
+    for (const [name, value] of variables) {
+      console.log(`  ${name}: ${value}`);
+    }
+  }
+
+  const overrides = Object.keys(promptConfig.overrides ?? {});
+  if (overrides.length > 0) {
+    console.log('\nOverrides:');
+    for (const sectionId of overrides) {
+      console.log(`  ${sectionId}: Custom text applied`);
+    }
+  }
+
+  console.log('');
+}
+
+function withPromptConfig(config: AgentConfig, promptConfig: PromptConfig): AgentConfig {
+  return {
+    ...config,
+    llm_config: {
+      ...config.llm_config,
+      prompt_config: promptConfig,
+    },
+  };
+}
+
+/**
+ * Show the updated sections and prompt preview, confirm, validate the updated
+ * effective config, then apply updatePromptConfig to the prompt_config of
+ * agent.json as written. Fields inherited through `extends` stay in the base.
+ */
+async function previewAndSave(
+  agentName: string,
+  agentPath: string,
+  promptsPath: string,
+  updatedConfig: AgentConfig,
+  sections: ReadonlyArray<string>,
+  skipConfirmation: boolean,
+  updatePromptConfig: (own: JsonObject) => JsonObject
+): Promise<void> {
+  const agentFile = path.join(agentPath, 'agent.json');
+  const raw = JSON.parse(await fs.readFile(agentFile, 'utf-8')) as JsonObject;
+  const arrayMerge = raw[AgentInheritance.ARRAY_MERGE_KEY];
+  const sectionsStrategy = isObject(arrayMerge) ? arrayMerge[SECTIONS_FIELD] : undefined;
+  if (sectionsStrategy !== undefined && sectionsStrategy !== 'replace') {
+    throw new Error(
+      `Agent '${agentName}' merges ${SECTIONS_FIELD} with its base ` +
+        `(array_merge: ${String(sectionsStrategy)}).\n` +
+        `Edit ${agentName}/agent.json directly to change its sections.`
+    );
+  }
+
+  const prompt = await buildFinalPrompt(updatedConfig, promptsPath);
+
+  console.log(`\nUpdated sections for '${agentName}':`);
+  sections.forEach((sectionId, index) => {
+    console.log(`  ${index + 1}. ${sectionId}`);
+  });
+
+  const preview = prompt.length > 500 ? `${prompt.slice(0, 500)}...` : prompt;
+  console.log(`\nPrompt preview (${prompt.length} chars):`);
+  console.log(preview);
+
+  if (!skipConfirmation) {
+    const confirmed = await confirm('\nSave changes to agent.json? (yes/no): ');
+    if (!confirmed) {
+      console.log('\nCancelled.');
+      return;
+    }
+  }
+
+  const validationResult = AgentConfigSchema.safeParse(
+    ConfigInterpolator.withStandIns(updatedConfig)
+  );
+  if (!validationResult.success) {
+    const errors = validationResult.error.errors
+      .map((e) => `  - ${e.path.join('.')}: ${e.message}`)
+      .join('\n');
+    throw new Error(`Validation failed:\n${errors}`);
+  }
+
+  const llmConfig = isObject(raw['llm_config']) ? raw['llm_config'] : {};
+  const ownPromptConfig = isObject(llmConfig['prompt_config']) ? llmConfig['prompt_config'] : {};
+  const updatedRaw = {
+    ...raw,
+    llm_config: { ...llmConfig, prompt_config: updatePromptConfig(ownPromptConfig) },
+  };
+  await fs.writeFile(agentFile, JSON.stringify(updatedRaw, null, 2) + '\n', 'utf-8');
+
+  console.log(`\n✓ Updated ${agentName}/agent.json`);
+  console.log(`\nNote: Run 'retell push ${agentName}' to sync changes to Retell workspace.`);
+}
+
+async function getSectionUsers(agentsPath: string, sectionId: string): Promise<string[]> {
+  const usageResult = await PromptSectionIndex.findUsage(agentsPath);
+  if (!usageResult.success) {
+    return [];
+  }
+  return usageResult.value.get(sectionId) ?? [];
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function assertValidSectionId(sectionId: string): void {
+  if (!PromptSectionIndex.isValidSectionId(sectionId)) {
+    throw new Error(
+      `Invalid section ID: ${sectionId}\n` +
+        'Use a path relative to the prompts directory without extension (e.g., base/greeting).'
+    );
+  }
+}
+
+function getEditor(): string | undefined {
+  const editor = process.env['VISUAL'] ?? process.env['EDITOR'];
+  return editor !== undefined && editor.trim() !== '' ? editor : undefined;
+}
+
+function openInEditor(filePath: string): void {
+  const editor = getEditor() ?? 'vi';
+  // Editors are often configured with arguments, e.g. EDITOR="code --wait"
+  const [command = editor, ...args] = editor.trim().split(/\s+/);
+  const result = spawnSync(command, [...args, filePath], { stdio: 'inherit' });
+  if (result.error !== undefined) {
+    throw new Error(`Failed to open editor '${editor}': ${result.error.message}`);
+  }
+  if (result.status !== 0) {
+    throw new Error(`Editor '${editor}' exited with code ${result.status ?? 'unknown'}`);
+  }
+}
+
+function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      const normalized = answer.toLowerCase().trim();
+      resolve(normalized === 'yes' || normalized === 'y');
+    });
+  });
+}
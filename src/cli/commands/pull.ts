@@ -1,26 +1,57 @@
 /**
  * Pull command - Pull agent configs from Retell workspace to local.
+ *
+ * For agents composed from prompt sections, the remote general_prompt is
+ * mapped back onto the sections so prompt_config survives the pull; edited
+ * sections are written back to their section file or an override.
+ * Conversation-flow agents get agent.json and their flow file rewritten;
+ * custom-llm agents get agent.json with the pulled workspace's WebSocket URL.
  */
 
 import { Command } from 'commander';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import type { WorkspaceType, AgentConfig } from '@heya/retell.controllers';
+import type {
+  WorkspaceType,
+  AgentConfig,
+  MetadataFile,
+  PromptConfig,
+  WorkspaceConfig,
+} from '@heya/retell.controllers';
 import {
+  AgentConfigLoader,
   MetadataManager,
   WorkspaceConfigService,
   RetellClientService,
   HashCalculator,
+  PromptSectionMapper,
   now,
 } from '@heya/retell.controllers';
 import { handleError } from '../errors/cli-error-handler';
+import { AgentInheritance } from '../utils/agent-inheritance';
+import { ConfigInterpolator } from '../utils/config-interpolation';
+import { Redactor } from '../utils/redaction';
+import { ConversationFlowManager } from '../utils/conversation-flow';
+import { CustomLlmManager } from '../utils/custom-llm';
+import { OperationHistory } from '../utils/operation-history';
+import { CliOutput } from '../utils/output';
+import { PromptReverser } from '../utils/prompt-reverse';
+import { PromptSectionIndex } from '../utils/prompt-sections';
+import { transformRetellToLocal } from '../utils/retell-transform';
 
 export const pullCommand = new Command('pull')
   .description('Pull agent configuration from Retell workspace to local')
   .argument('<agent-name>', 'Name of the agent to pull')
   .option('-w, --workspace <workspace>', 'Source workspace (staging or production)', 'staging')
   .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
   .option('-f, --force', 'Force pull even if local has changes', false)
+  .option(
+    '--flatten-prompt',
+    'Replace prompt_config with the remote general_prompt if it cannot be mapped to sections',
+    false
+  )
+  .addOption(CliOutput.option())
   .action(async (agentName: string, options: PullOptions) => {
     try {
       await executePull(agentName, options);
@@ -32,7 +63,28 @@ export const pullCommand = new Command('pull')
 type PullOptions = {
   workspace: WorkspaceType;
   path: string;
+  prompts: string;
   force: boolean;
+  flattenPrompt: boolean;
+};
+
+/**
+ * `--output json` data
+ */
+type PullJson = {
+  agent: string;
+  workspace: WorkspaceType;
+  engine: 'retell-llm' | 'conversation-flow' | 'custom-llm';
+  agentId: string;
+  retellVersion: number | null;
+  /** Hash stored before the pull */
+  previousHash: string | null;
+  /** Hash of the pulled files; null if they could not be hashed */
+  configHash: string | null;
+  /** Paths written, relative to the agent directory */
+  files: string[];
+  /** Prompt section files updated from the remote prompt */
+  promptSectionsUpdated: number;
 };
 
 async function executePull(agentName: string, options: PullOptions): Promise<void> {
@@ -40,6 +92,22 @@ async function executePull(agentName: string, options: PullOptions): Promise<voi
 
   const agentPath = path.resolve(options.path, agentName);
 
+  // Writing the remote config would flatten the agent's base into its agent.json
+  if (await AgentInheritance.isInheriting(agentPath)) {
+    throw new Error(
+      `Agent '${agentName}' extends a base agent or template and cannot be pulled.\n` +
+        `Run 'retell diff ${agentName} -w ${options.workspace}' and edit agent.json or its base instead.`
+    );
+  }
+  // ...or copy the workspace's overrides into the agent.json every workspace shares
+  if (await AgentInheritance.hasOverride(agentPath, options.workspace)) {
+    throw new Error(
+      `Agent '${agentName}' has overrides for ${options.workspace} and cannot be pulled from it.\n` +
+        `Run 'retell diff ${agentName} -w ${options.workspace}' and edit agent.json or ` +
+        `overrides/${options.workspace}.json instead.`
+    );
+  }
+
   // 1. Load workspace config
   const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(options.workspace);
   if (!workspaceConfigResult.success) {
@@ -58,7 +126,7 @@ async function executePull(agentName: string, options: PullOptions): Promise<voi
   }
   const metadata = metadataResult.value;
 
-  if (!metadata.agent_id || !metadata.llm_id) {
+  if (!metadata.agent_id) {
     throw new Error(
       `Agent metadata incomplete in ${options.workspace}. Run 'retell push' to sync.`
     );
@@ -72,6 +140,27 @@ async function executePull(agentName: string, options: PullOptions): Promise<voi
   }
   const remoteAgent = agentResult.value as Record<string, unknown>;
 
+  if (ConversationFlowManager.getFlowId(remoteAgent) !== null) {
+    await pullFlowAgent(
+      agentName,
+      agentPath,
+      metadata.agent_id,
+      metadata,
+      workspaceConfig,
+      options
+    );
+    return;
+  }
+  if (CustomLlmManager.isCustomLlmConfig(remoteAgent)) {
+    await pullCustomLlmAgent(agentName, agentPath, remoteAgent, metadata, options);
+    return;
+  }
+  if (!metadata.llm_id) {
+    throw new Error(
+      `Agent metadata incomplete in ${options.workspace}. Run 'retell push' to sync.`
+    );
+  }
+
   // 4. Fetch LLM config from Retell
   console.log('Fetching LLM config from Retell...');
   const llmResult = await client.getLlm(metadata.llm_id);
@@ -113,15 +202,20 @@ async function executePull(agentName: string, options: PullOptions): Promise<voi
     }
   }
 
-  // 7. Ensure agent directory exists
+  // 7. Keep prompt sections, writing remote edits back to section files or overrides
+  const updatedSections = await restorePromptSections(agentName, agentPath, localConfig, options);
+
+  // 8. Ensure agent directory exists
   await fs.mkdir(agentPath, { recursive: true });
 
-  // 8. Save to local
+  // 9. Save to local, keeping `${env:...}` and `${secret:...}` placeholders
   const agentJsonPath = path.join(agentPath, 'agent.json');
-  await fs.writeFile(agentJsonPath, JSON.stringify(localConfig, null, 2) + '\n', 'utf-8');
+  const pulledConfig = await keepPlaceholders(agentJsonPath, localConfig);
+  await fs.writeFile(agentJsonPath, JSON.stringify(pulledConfig, null, 2) + '\n', 'utf-8');
   console.log(`✓ Saved agent config to ${agentJsonPath}`);
+  warnAboutSecrets(pulledConfig);
 
-  // 9. Update metadata with new hash
+  // 10. Update metadata with new hash
   // Important: Read the file back and parse it to compute hash consistently
   // This ensures the stored hash matches what status/diff will compute later
   const savedContent = await fs.readFile(agentJsonPath, 'utf-8');
@@ -135,117 +229,343 @@ async function executePull(agentName: string, options: PullOptions): Promise<voi
     console.log(`✓ Updated ${options.workspace} metadata`);
   }
 
+  await OperationHistory.record({
+    action: 'pull',
+    agent: agentName,
+    workspace: options.workspace,
+    success: true,
+    before_hash: metadata.config_hash,
+    after_hash: newHashResult.success ? newHashResult.value : null,
+    retell_version:
+      typeof remoteAgent['version'] === 'number' ? remoteAgent['version'] : metadata.retell_version,
+    summary: updatedSections > 0 ? `Config + prompt sections (${updatedSections})` : 'Config',
+  });
+
+  CliOutput.result<PullJson>({
+    agent: agentName,
+    workspace: options.workspace,
+    engine: 'retell-llm',
+    agentId: metadata.agent_id,
+    retellVersion:
+      typeof remoteAgent['version'] === 'number' ? remoteAgent['version'] : metadata.retell_version,
+    previousHash: metadata.config_hash,
+    configHash: newHashResult.success ? newHashResult.value : null,
+    files: ['agent.json'],
+    promptSectionsUpdated: updatedSections,
+  });
+
   console.log(`\n✓ Successfully pulled agent '${agentName}' from ${options.workspace}\n`);
 }
 
 /**
- * Transform Retell API format back to our local agent.json format.
+ * Pull a conversation-flow agent: agent.json and the flow file it names.
+ * Local changes to either file block the pull unless --force is given.
  */
-function transformRetellToLocal(
-  agent: Record<string, unknown>,
-  llm: Record<string, unknown>
-): Record<string, unknown> {
-  // Extract agent-level fields
-  const localConfig: Record<string, unknown> = {
-    agent_name: agent['agent_name'],
-    voice_id: agent['voice_id'],
-    language: agent['language'],
-  };
+async function pullFlowAgent(
+  agentName: string,
+  agentPath: string,
+  agentId: string,
+  metadata: MetadataFile,
+  workspaceConfig: WorkspaceConfig,
+  options: PullOptions
+): Promise<void> {
+  console.log('Fetching conversation flow from Retell...');
+  const client = ConversationFlowManager.createClient(workspaceConfig);
+  const remoteResult = await ConversationFlowManager.fetchRemote(client, agentId);
+  if (!remoteResult.success) {
+    throw new Error(`Failed to fetch conversation flow: ${remoteResult.error.message}`);
+  }
+  const remote = remoteResult.value;
 
-  // Add optional agent fields
-  if (agent['voice_temperature'] !== undefined) {
-    localConfig['voice_temperature'] = agent['voice_temperature'];
-  }
-  if (agent['voice_speed'] !== undefined) {
-    localConfig['voice_speed'] = agent['voice_speed'];
-  }
-  if (agent['responsiveness'] !== undefined) {
-    localConfig['responsiveness'] = agent['responsiveness'];
-  }
-  if (agent['interruption_sensitivity'] !== undefined) {
-    localConfig['interruption_sensitivity'] = agent['interruption_sensitivity'];
-  }
-  if (agent['enable_backchannel'] !== undefined) {
-    localConfig['enable_backchannel'] = agent['enable_backchannel'];
-  }
-  if (agent['backchannel_frequency'] !== undefined) {
-    localConfig['backchannel_frequency'] = agent['backchannel_frequency'];
-  }
-  if (agent['backchannel_words'] !== undefined) {
-    localConfig['backchannel_words'] = agent['backchannel_words'];
-  }
-  if (agent['reminder_trigger_ms'] !== undefined) {
-    localConfig['reminder_trigger_ms'] = agent['reminder_trigger_ms'];
-  }
-  if (agent['reminder_max_count'] !== undefined) {
-    localConfig['reminder_max_count'] = agent['reminder_max_count'];
-  }
-  if (agent['ambient_sound'] !== undefined) {
-    localConfig['ambient_sound'] = agent['ambient_sound'];
-  }
-  if (agent['ambient_sound_volume'] !== undefined) {
-    localConfig['ambient_sound_volume'] = agent['ambient_sound_volume'];
-  }
-  if (agent['pronunciation_dictionary'] !== undefined) {
-    localConfig['pronunciation_dictionary'] = agent['pronunciation_dictionary'];
-  }
-  if (agent['normalize_for_speech'] !== undefined) {
-    localConfig['normalize_for_speech'] = agent['normalize_for_speech'];
-  }
-  if (agent['end_call_after_silence_ms'] !== undefined) {
-    localConfig['end_call_after_silence_ms'] = agent['end_call_after_silence_ms'];
-  }
-  if (agent['max_call_duration_ms'] !== undefined) {
-    localConfig['max_call_duration_ms'] = agent['max_call_duration_ms'];
-  }
-  if (agent['enable_voicemail_detection'] !== undefined) {
-    localConfig['enable_voicemail_detection'] = agent['enable_voicemail_detection'];
-  }
-  if (agent['voicemail_message'] !== undefined) {
-    localConfig['voicemail_message'] = agent['voicemail_message'];
-  }
-  if (agent['voicemail_detection_timeout_ms'] !== undefined) {
-    localConfig['voicemail_detection_timeout_ms'] = agent['voicemail_detection_timeout_ms'];
+  // Keep the flow file name of the existing local agent
+  const existingResult = await ConversationFlowManager.load(agentPath);
+  const flowFile = existingResult.success
+    ? existingResult.value.flowFile
+    : ConversationFlowManager.DEFAULT_FLOW_FILE;
+
+  if (!options.force && existingResult.success && metadata.config_hash) {
+    const existingHashResult = ConversationFlowManager.calculateHash(existingResult.value);
+    if (
+      existingHashResult.success &&
+      !HashCalculator.compareHashes(existingHashResult.value, metadata.config_hash)
+    ) {
+      throw new Error(
+        `Local agent '${agentName}' has unsaved changes.\n` +
+          `Use --force to overwrite local changes, or push changes first.`
+      );
+    }
   }
-  if (agent['post_call_analysis_data'] !== undefined) {
-    localConfig['post_call_analysis_data'] = agent['post_call_analysis_data'];
+
+  const local = ConversationFlowManager.toLocal(remote, flowFile);
+  const writeResult = await ConversationFlowManager.write(agentPath, local);
+  if (!writeResult.success) {
+    throw writeResult.error;
   }
-  if (agent['webhook_url'] !== undefined) {
-    localConfig['webhook_url'] = agent['webhook_url'];
+  console.log(`✓ Saved agent config and ${flowFile} to ${agentPath}`);
+
+  // Hash what was written so status/diff compute the same value later
+  const savedResult = await ConversationFlowManager.load(agentPath);
+  const newHashResult = savedResult.success
+    ? ConversationFlowManager.calculateHash(savedResult.value)
+    : null;
+  if (newHashResult?.success === true) {
+    await MetadataManager.update(agentPath, options.workspace, {
+      config_hash: newHashResult.value,
+      last_sync: now(),
+    });
+    console.log(`✓ Updated ${options.workspace} metadata`);
   }
 
-  // Build llm_config from LLM response
-  const llmConfig: Record<string, unknown> = {
-    model: llm['model'],
-  };
+  await OperationHistory.record({
+    action: 'pull',
+    agent: agentName,
+    workspace: options.workspace,
+    success: true,
+    before_hash: metadata.config_hash,
+    after_hash: newHashResult?.success === true ? newHashResult.value : null,
+    retell_version:
+      typeof remote.agent['version'] === 'number'
+        ? remote.agent['version']
+        : metadata.retell_version,
+    summary: 'Config + conversation flow',
+  });
 
-  if (llm['model_temperature'] !== undefined) {
-    llmConfig['temperature'] = llm['model_temperature'];
-  }
-  if (llm['general_prompt'] !== undefined) {
-    llmConfig['general_prompt'] = llm['general_prompt'];
-  }
-  if (llm['begin_message'] !== undefined) {
-    llmConfig['begin_message'] = llm['begin_message'];
+  CliOutput.result<PullJson>({
+    agent: agentName,
+    workspace: options.workspace,
+    engine: 'conversation-flow',
+    agentId,
+    retellVersion:
+      typeof remote.agent['version'] === 'number'
+        ? remote.agent['version']
+        : metadata.retell_version,
+    previousHash: metadata.config_hash,
+    configHash: newHashResult?.success === true ? newHashResult.value : null,
+    files: ['agent.json', flowFile],
+    promptSectionsUpdated: 0,
+  });
+
+  console.log(`\n✓ Successfully pulled agent '${agentName}' from ${options.workspace}\n`);
+}
+
+/**
+ * Pull a custom-llm agent. Only the pulled workspace's llm_websocket_url is
+ * replaced; URLs configured for other workspaces are kept.
+ */
+async function pullCustomLlmAgent(
+  agentName: string,
+  agentPath: string,
+  remoteAgent: Record<string, unknown>,
+  metadata: MetadataFile,
+  options: PullOptions
+): Promise<void> {
+  const existingResult = await CustomLlmManager.load(agentPath);
+
+  if (!options.force && existingResult.success && metadata.config_hash) {
+    const existingHashResult = CustomLlmManager.calculateHash(existingResult.value);
+    if (
+      existingHashResult.success &&
+      !HashCalculator.compareHashes(existingHashResult.value, metadata.config_hash)
+    ) {
+      throw new Error(
+        `Local agent '${agentName}' has unsaved changes.\n` +
+          `Use --force to overwrite local changes, or push changes first.`
+      );
+    }
   }
-  if (llm['general_tools'] !== undefined) {
-    llmConfig['general_tools'] = llm['general_tools'];
+
+  const localConfig = CustomLlmManager.toLocal(
+    remoteAgent,
+    options.workspace,
+    existingResult.success ? existingResult.value : null
+  );
+  await fs.mkdir(agentPath, { recursive: true });
+  const agentJsonPath = path.join(agentPath, 'agent.json');
+  await fs.writeFile(agentJsonPath, JSON.stringify(localConfig, null, 2) + '\n', 'utf-8');
+  console.log(`✓ Saved agent config to ${agentJsonPath}`);
+
+  // Hash what was written so status/diff compute the same value later
+  const savedResult = await CustomLlmManager.load(agentPath);
+  const newHashResult = savedResult.success
+    ? CustomLlmManager.calculateHash(savedResult.value)
+    : null;
+  if (newHashResult?.success === true) {
+    await MetadataManager.update(agentPath, options.workspace, {
+      config_hash: newHashResult.value,
+      last_sync: now(),
+    });
+    console.log(`✓ Updated ${options.workspace} metadata`);
   }
-  if (llm['states'] !== undefined) {
-    llmConfig['states'] = llm['states'];
+
+  await OperationHistory.record({
+    action: 'pull',
+    agent: agentName,
+    workspace: options.workspace,
+    success: true,
+    before_hash: metadata.config_hash,
+    after_hash: newHashResult?.success === true ? newHashResult.value : null,
+    retell_version:
+      typeof remoteAgent['version'] === 'number' ? remoteAgent['version'] : metadata.retell_version,
+    summary: 'Config (custom LLM)',
+  });
+
+  CliOutput.result<PullJson>({
+    agent: agentName,
+    workspace: options.workspace,
+    engine: 'custom-llm',
+    agentId: metadata.agent_id ?? '',
+    retellVersion:
+      typeof remoteAgent['version'] === 'number' ? remoteAgent['version'] : metadata.retell_version,
+    previousHash: metadata.config_hash,
+    configHash: newHashResult?.success === true ? newHashResult.value : null,
+    files: ['agent.json'],
+    promptSectionsUpdated: 0,
+  });
+
+  console.log(`\n✓ Successfully pulled agent '${agentName}' from ${options.workspace}\n`);
+}
+
+/**
+ * Warn when a pulled config holds credentials, so they are replaced with
+ * placeholders before agent.json is committed
+ */
+function warnAboutSecrets(config: Record<string, unknown>): void {
+  const fields = Redactor.findSecretFields(config);
+  if (fields.length === 0) {
+    return;
+  }
+  console.warn(`⚠️  agent.json contains credentials in: ${fields.join(', ')}`);
+  console.warn(
+    "   Replace them with ${secret:NAME} placeholders ('retell secrets set NAME') before committing."
+  );
+}
+
+/**
+ * The pulled config with the placeholder strings from the current agent.json
+ * put back, so values resolved at push time are not written to the repo
+ */
+async function keepPlaceholders(
+  agentJsonPath: string,
+  pulled: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  let committed: Record<string, unknown>;
+  try {
+    committed = JSON.parse(await fs.readFile(agentJsonPath, 'utf-8')) as Record<string, unknown>;
+  } catch {
+    return pulled;
+  }
+  const { config, fields } = await ConfigInterpolator.restore(pulled, committed);
+  if (fields.length > 0) {
+    console.log(`✓ Kept placeholders in ${fields.join(', ')}`);
+  }
+  return config;
+}
+
+/**
+ * Map the remote general_prompt onto the local agent's prompt sections.
+ * On success localConfig gets prompt_config instead of general_prompt.
+ * Returns the number of sections updated from the remote prompt.
+ */
+async function restorePromptSections(
+  agentName: string,
+  agentPath: string,
+  localConfig: Record<string, unknown>,
+  options: PullOptions
+): Promise<number> {
+  const existingResult = await AgentConfigLoader.load(agentPath);
+  const promptConfig = existingResult.success
+    ? existingResult.value.llm_config.prompt_config
+    : undefined;
+  const llmConfig = localConfig['llm_config'] as Record<string, unknown>;
+  const remotePrompt = llmConfig['general_prompt'];
+  if (promptConfig === undefined || (promptConfig.sections ?? []).length === 0) {
+    return 0;
+  }
+  if (typeof remotePrompt !== 'string') {
+    localConfig['llm_config'] = replaceGeneralPrompt(llmConfig, promptConfig);
+    return 0;
   }
-  if (llm['starting_state'] !== undefined) {
-    llmConfig['starting_state'] = llm['starting_state'];
+
+  const promptsPath = path.resolve(options.prompts);
+  const sectionsResult = await PromptReverser.renderSections(promptsPath, promptConfig);
+  const match = sectionsResult.success
+    ? PromptReverser.match(sectionsResult.value, remotePrompt)
+    : ({ status: 'unmatched', reason: sectionsResult.error.message } as const);
+
+  if (match.status === 'exact') {
+    console.log(`✓ Remote prompt matches prompt sections (${promptConfig.sections?.length ?? 0})`);
+    localConfig['llm_config'] = replaceGeneralPrompt(llmConfig, promptConfig);
+    return 0;
   }
-  if (llm['inbound_dynamic_variables_webhook_url'] !== undefined) {
-    llmConfig['inbound_dynamic_variables_webhook_url'] =
-      llm['inbound_dynamic_variables_webhook_url'];
+
+  if (match.status === 'unmatched') {
+    if (!options.flattenPrompt) {
+      throw new Error(
+        `Cannot map the remote prompt onto prompt sections: ${match.reason}.\n` +
+          `Use --flatten-prompt to replace prompt_config with the remote general_prompt.`
+      );
+    }
+    console.log(`⚠ Cannot map the remote prompt onto prompt sections: ${match.reason}`);
+    console.log('  Replacing prompt_config with the remote general_prompt (--flatten-prompt)');
+    return 0;
   }
-  if (llm['knowledge_base_ids'] !== undefined) {
-    llmConfig['knowledge_base_ids'] = llm['knowledge_base_ids'];
+
+  const usageResult = await PromptSectionIndex.findUsage(path.resolve(options.path));
+  const usage = usageResult.success ? usageResult.value : new Map<string, string[]>();
+  const overrides: Record<string, string> = { ...(promptConfig.overrides ?? {}) };
+
+  console.log(`\nRemote prompt changed in ${match.changes.length} section(s):\n`);
+  for (const detected of match.changes) {
+    const reversedResult = await PromptReverser.reverseVariables(
+      promptsPath,
+      promptConfig,
+      detected
+    );
+    if (!reversedResult.success) {
+      throw reversedResult.error;
+    }
+    const change = reversedResult.value;
+    const sectionId = change.section.sectionId;
+
+    console.log(
+      PromptSectionMapper.generateSectionDiff({
+        sectionId,
+        localContent: change.section.rendered,
+        remoteContent: change.remoteContent,
+        hasChanges: true,
+      })
+    );
+
+    if (PromptReverser.chooseTarget(change, agentName, usage) === 'override') {
+      overrides[sectionId] = change.template;
+      console.log(`✓ Saved as override for '${sectionId}' in agent.json\n`);
+    } else {
+      const sectionPath = PromptSectionIndex.getSectionPath(promptsPath, sectionId);
+      await fs.writeFile(sectionPath, change.template, 'utf-8');
+      console.log(`✓ Updated ${path.relative(process.cwd(), sectionPath)}\n`);
+    }
   }
 
-  localConfig['llm_config'] = llmConfig;
+  localConfig['llm_config'] = replaceGeneralPrompt(llmConfig, {
+    ...promptConfig,
+    ...(Object.keys(overrides).length > 0 ? { overrides } : {}),
+  });
+  return match.changes.length;
+}
 
-  return localConfig;
+/**
+ * Swap general_prompt for prompt_config, keeping the key position in agent.json.
+ */
+function replaceGeneralPrompt(
+  llmConfig: Record<string, unknown>,
+  promptConfig: PromptConfig
+): Record<string, unknown> {
+  if (!('general_prompt' in llmConfig)) {
+    return { ...llmConfig, prompt_config: promptConfig };
+  }
+  return Object.fromEntries(
+    Object.entries(llmConfig).map(([key, value]) =>
+      key === 'general_prompt' ? ['prompt_config', promptConfig] : [key, value]
+    )
+  );
 }
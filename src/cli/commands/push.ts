@@ -1,23 +1,60 @@
 /**
  * Push command - Push local agent configs to Retell workspace.
- * This is a thin wrapper around the AgentController.
+ * LLM agents are pushed through LlmAgentManager, a thin wrapper around the
+ * AgentController; conversation-flow agents are pushed through
+ * ConversationFlowManager and custom-llm agents through CustomLlmManager.
+ *
+ * With --all, --changed or --since, agents are pushed in parallel through
+ * BulkRunner, which backs off on rate limits and keeps going past failed agents.
  */
 
 import { Command } from 'commander';
-import { AgentController, VersionController } from '@heya/retell.controllers';
-import type { WorkspaceType } from '@heya/retell.controllers';
-import { handleError } from '../errors/cli-error-handler';
+import * as path from 'path';
+import Table from 'cli-table3';
+import {
+  VersionController,
+  WorkspaceConfigService,
+  HashCalculator,
+  MetadataManager,
+} from '@heya/retell.controllers';
+import type { Hash, WorkspaceType } from '@heya/retell.controllers';
+import { CLIError, handleError, toCLIError } from '../errors/cli-error-handler';
+import { AgentIndex } from '../utils/agent-index';
+import { AgentInheritance } from '../utils/agent-inheritance';
+import { AgentHasher } from '../utils/agent-hash';
+import { BulkRunner } from '../utils/bulk-runner';
+import { GitChangeDetector } from '../utils/git-changes';
+import { KnowledgeBaseManager } from '../utils/knowledge-base';
+import { ConversationFlowManager } from '../utils/conversation-flow';
+import { CustomLlmManager } from '../utils/custom-llm';
+import { LlmAgentManager } from '../utils/llm-agent';
+import { OperationHistory } from '../utils/operation-history';
+import { CliOutput, type JsonErrorDetails } from '../utils/output';
 
 export const pushCommand = new Command('push')
   .description('Push local agent configuration to Retell workspace')
-  .argument('<agent-name>', 'Name of the agent to push')
+  .argument('[agent-name]', 'Name of the agent to push (omit with --all, --changed or --since)')
   .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
   .option('-f, --force', 'Force push even if already in sync', false)
   .option('-p, --path <path>', 'Path to agents directory', './agents')
   .option('--prompts <path>', 'Path to prompts directory', './prompts')
   .option('--publish', 'Publish after pushing (creates immutable version)', false)
   .option('--validate-version', 'Validate version before push (warns on drift)', false)
-  .action(async (agentName: string, options: PushOptions) => {
+  .option('--all', 'Push every agent in the agents directory', false)
+  .option('--changed', 'Push only agents whose local config differs from the workspace', false)
+  .option('--since <git-ref>', 'Push only agents affected by files changed since this git ref')
+  .option(
+    '--concurrency <count>',
+    'Agents to push in parallel with --all, --changed or --since',
+    String(BulkRunner.DEFAULT_CONCURRENCY)
+  )
+  .option(
+    '--max-retries <count>',
+    'Retries per agent after a rate limit with --all, --changed or --since',
+    String(BulkRunner.DEFAULT_MAX_RETRIES)
+  )
+  .addOption(CliOutput.option())
+  .action(async (agentName: string | undefined, options: PushOptions) => {
     try {
       await executePush(agentName, options);
     } catch (error) {
@@ -32,13 +69,116 @@ type PushOptions = {
   prompts: string;
   publish: boolean;
   validateVersion: boolean;
+  all: boolean;
+  changed: boolean;
+  since?: string;
+  concurrency: string;
+  maxRetries: string;
 };
 
-async function executePush(agentName: string, options: PushOptions): Promise<void> {
+/**
+ * `--output json` data. Fields that do not apply to the agent's response
+ * engine are null, as are the flow ID and WebSocket URL when nothing was pushed.
+ */
+type PushJson = PushOutcome & {
+  agent: string;
+  workspace: WorkspaceType;
+  /** Knowledge base files added, updated or removed; null when the agent has none */
+  knowledgeBaseChanges: number | null;
+  published: { publishedVersion: number; newDraftVersion: number } | null;
+  /** Set when the push succeeded but --publish failed */
+  publishError: string | null;
+};
+
+/**
+ * What pushing the agent config did
+ */
+type PushOutcome = {
+  engine: 'retell-llm' | 'conversation-flow' | 'custom-llm';
+  /** False when the agent was already in sync */
+  pushed: boolean;
+  agentId: string;
+  llmId: string | null;
+  conversationFlowId: string | null;
+  llmWebsocketUrl: string | null;
+  configHash: string;
+  syncedAt: string | null;
+};
+
+/**
+ * `--output json` data for --all, --changed and --since, one entry per selected agent
+ */
+type BulkPushJson = {
+  workspace: WorkspaceType;
+  selection: BulkSelection;
+  /** The --since git ref */
+  since: string | null;
+  concurrency: number;
+  agents: BulkPushAgentJson[];
+  summary: Record<BulkPushStatus, number>;
+};
+
+type BulkSelection = 'all' | 'changed' | 'since';
+
+/** publish-failed: the config was pushed but --publish failed */
+type BulkPushStatus = 'pushed' | 'unchanged' | 'publish-failed' | 'failed';
+
+type BulkPushAgentJson = {
+  agent: string;
+  status: BulkPushStatus;
+  /** 1 unless the push was retried after a rate limit */
+  attempts: number;
+  result: PushJson | null;
+  error: JsonErrorDetails | null;
+};
+
+async function executePush(agentName: string | undefined, options: PushOptions): Promise<void> {
+  const selections = [
+    options.all ? 'all' : null,
+    options.changed ? 'changed' : null,
+    options.since !== undefined ? 'since' : null,
+  ].filter((selection): selection is BulkSelection => selection !== null);
+
+  if (selections.length > 1) {
+    throw new Error('Use only one of --all, --changed or --since');
+  }
+  const [selection] = selections;
+  if (selection !== undefined) {
+    if (agentName !== undefined) {
+      throw new Error(`Specify an agent name or --${selection}, not both`);
+    }
+    await executeBulkPush(selection, options);
+    return;
+  }
+  if (agentName === undefined) {
+    throw new Error('Specify an agent name, --all, --changed or --since');
+  }
+
+  CliOutput.result<PushJson>(await pushAgent(agentName, options));
+}
+
+/**
+ * Push a single agent and return what happened
+ */
+async function pushAgent(agentName: string, options: PushOptions): Promise<PushJson> {
   console.log(`\nPushing agent '${agentName}' to ${options.workspace}...\n`);
 
-  const agentController = new AgentController();
   const versionController = new VersionController();
+  const agentPath = path.resolve(options.path, agentName);
+  const before = await OperationHistory.readSyncState(agentPath, options.workspace);
+  const recordHistory = async (success: boolean, summary: string): Promise<void> => {
+    const after = await OperationHistory.readSyncState(agentPath, options.workspace);
+    await OperationHistory.record({
+      action: 'push',
+      agent: agentName,
+      workspace: options.workspace,
+      success,
+      before_hash: before.config_hash,
+      after_hash: after.config_hash,
+      retell_version: after.retell_version,
+      summary,
+    });
+  };
 
   // 1. Validate version before push if requested
   if (options.validateVersion) {
@@ -75,14 +215,333 @@ async function executePush(agentName: string, options: PushOptions): Promise<voi
   }
 
   // 2. Perform the push
-  const result = await agentController.push(agentName, {
+  const isFlowAgent = await ConversationFlowManager.isFlowAgent(agentPath);
+  const isCustomLlmAgent = await CustomLlmManager.isCustomLlmAgent(agentPath);
+  let outcome: PushOutcome;
+  if (isFlowAgent) {
+    outcome = await pushFlowAgent(agentPath, options, recordHistory);
+  } else if (isCustomLlmAgent) {
+    outcome = await pushCustomLlmAgent(agentPath, options, recordHistory);
+  } else {
+    outcome = await pushLlmAgent(agentName, options, recordHistory);
+  }
+  const summary: string[] = [outcome.pushed ? 'Config' : 'Config unchanged'];
+
+  // 3. Upload changed knowledge base files and link the knowledge base to the LLM.
+  //    Conversation flows reference knowledge bases in their flow file instead,
+  //    and custom LLMs have no Retell LLM to link to.
+  let kbChanges: number | null = null;
+  if (!isFlowAgent && !isCustomLlmAgent) {
+    try {
+      kbChanges = await pushKnowledgeBase(agentName, options);
+      if (kbChanges !== null && kbChanges > 0) {
+        summary.push(`KB (${kbChanges} file${kbChanges === 1 ? '' : 's'})`);
+      }
+    } catch (error) {
+      await recordHistory(false, `${summary.join(' + ')}, KB sync failed`);
+      throw error;
+    }
+  }
+
+  // 4. Publish if requested
+  let published: PushJson['published'] = null;
+  let publishError: string | null = null;
+  if (options.publish) {
+    console.log('\nPublishing agent...');
+    const publishResult = await versionController.publish(agentName, {
+      workspace: options.workspace,
+      agentsPath: options.path,
+    });
+
+    if (!publishResult.success) {
+      console.log(`\n⚠ Push succeeded but publish failed: ${publishResult.error.message}`);
+      summary.push('publish failed');
+      publishError = publishResult.error.message;
+    } else {
+      const { publishedVersion, newDraftVersion } = publishResult.value;
+      published = { publishedVersion, newDraftVersion };
+      console.log(`✓ Published version ${publishedVersion}`);
+      console.log(`  New draft version: ${newDraftVersion}`);
+      summary.push(`published v${publishedVersion}`);
+    }
+  }
+
+  await recordHistory(true, summary.join(' + '));
+
+  return {
+    agent: agentName,
     workspace: options.workspace,
-    force: options.force,
+    ...outcome,
+    knowledgeBaseChanges: kbChanges,
+    published,
+    publishError,
+  };
+}
+
+/**
+ * Push every agent (--all), every agent out of sync with the workspace
+ * (--changed) or every agent affected by git changes (--since), then print a
+ * per-agent report. Throws after the report if any agent failed, with the
+ * first failed agent's error code.
+ */
+async function executeBulkPush(selection: BulkSelection, options: PushOptions): Promise<void> {
+  const concurrency = parseInt(options.concurrency, 10);
+  if (isNaN(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid --concurrency: ${options.concurrency}`);
+  }
+  const maxRetries = parseInt(options.maxRetries, 10);
+  if (isNaN(maxRetries) || maxRetries < 0) {
+    throw new Error(`Invalid --max-retries: ${options.maxRetries}`);
+  }
+
+  const agentsPath = path.resolve(options.path);
+  const agentsResult = await AgentIndex.list(agentsPath);
+  if (!agentsResult.success) {
+    throw agentsResult.error;
+  }
+  const allAgents = agentsResult.value;
+  let agents = allAgents;
+  if (selection === 'changed') {
+    agents = await filterChanged(agentsPath, allAgents, options.workspace);
+  } else if (selection === 'since') {
+    agents = await filterAffected(agentsPath, allAgents, options.since ?? '', options.prompts);
+  }
+  const since = options.since ?? null;
+
+  if (agents.length === 0) {
+    const messages: Record<BulkSelection, string> = {
+      all: `No agents found in ${options.path}`,
+      changed: `All agents are in sync with ${options.workspace}.`,
+      since: `No agents affected since ${since}.`,
+    };
+    console.log(`\n${messages[selection]}\n`);
+    CliOutput.result<BulkPushJson>({
+      workspace: options.workspace,
+      selection,
+      since,
+      concurrency,
+      agents: [],
+      summary: summarize([]),
+    });
+    return;
+  }
+
+  console.log(
+    `\nPushing ${agents.length} agent(s) to ${options.workspace} (concurrency ${concurrency})...`
+  );
+
+  const results = await BulkRunner.run(agents, (agent) => pushAgent(agent, options), {
+    concurrency,
+    maxRetries,
+    baseDelayMs: BulkRunner.DEFAULT_BASE_DELAY_MS,
+    onRetry: (agent, attempt, delayMs) => {
+      console.log(
+        `\n⚠ Rate limited pushing '${agent}', retrying in ${delayMs / 1000}s (retry ${attempt}/${maxRetries})`
+      );
+    },
+  });
+
+  const errors: CLIError[] = [];
+  const report: BulkPushAgentJson[] = results.map((result) => {
+    if (!result.success) {
+      const error = toCLIError(result.error);
+      errors.push(error);
+      return {
+        agent: result.item,
+        status: 'failed',
+        attempts: result.attempts,
+        result: null,
+        error: {
+          code: error.code,
+          message: error.message,
+          hint: error.hint ?? null,
+          exitCode: error.exitCode,
+        },
+      };
+    }
+    const pushed = result.value;
+    return {
+      agent: result.item,
+      status:
+        pushed.publishError !== null ? 'publish-failed' : pushed.pushed ? 'pushed' : 'unchanged',
+      attempts: result.attempts,
+      result: pushed,
+      error: null,
+    };
+  });
+  const summary = summarize(report);
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<BulkPushJson>({
+      workspace: options.workspace,
+      selection,
+      since,
+      concurrency,
+      agents: report,
+      summary,
+    });
+  } else {
+    displayReport(report, summary, options.workspace);
+  }
+
+  const failed = summary.failed + summary['publish-failed'];
+  if (failed > 0) {
+    throw new CLIError(
+      `${failed} of ${report.length} agent(s) failed to push to ${options.workspace}`,
+      1,
+      'See the push report above for each failed agent',
+      errors[0]?.code ?? 'VERSION_PUBLISH_ERROR'
+    );
+  }
+}
+
+/**
+ * Agents whose local config hash differs from the one stored for the
+ * workspace, including agents never pushed there and agents whose config
+ * fails to load (so the push reports why).
+ */
+async function filterChanged(
+  agentsPath: string,
+  agents: string[],
+  workspace: WorkspaceType
+): Promise<string[]> {
+  const modeResult = await WorkspaceConfigService.getMode();
+  const mode = modeResult.success ? modeResult.value : 'single-production';
+
+  const changed: string[] = [];
+  for (const agent of agents) {
+    const agentPath = path.join(agentsPath, agent);
+    const hashResult = await AgentHasher.hashLocal(agentPath, workspace);
+    const metadataResult = await MetadataManager.read(agentPath, workspace, mode);
+    const storedHash: Hash | null = metadataResult.success
+      ? metadataResult.value.config_hash
+      : null;
+    if (
+      !hashResult.success ||
+      storedHash === null ||
+      !HashCalculator.compareHashes(hashResult.value, storedHash)
+    ) {
+      changed.push(agent);
+    }
+  }
+  return changed;
+}
+
+/**
+ * Agents affected by files changed since --since: files in the agent
+ * directory or prompt sections the agent composes
+ */
+async function filterAffected(
+  agentsPath: string,
+  agents: string[],
+  since: string,
+  promptsPath: string
+): Promise<string[]> {
+  const affectedResult = await GitChangeDetector.affectedAgents(
+    since,
+    agentsPath,
+    path.resolve(promptsPath)
+  );
+  if (!affectedResult.success) {
+    throw affectedResult.error;
+  }
+
+  if (affectedResult.value.length > 0) {
+    console.log(`\nAgents affected since ${since}:`);
+  }
+  for (const agent of affectedResult.value) {
+    console.log(`  ${agent.name}: ${agent.files.join(', ')}`);
+  }
+  return affectedResult.value.map((agent) => agent.name).filter((name) => agents.includes(name));
+}
+
+function summarize(report: BulkPushAgentJson[]): Record<BulkPushStatus, number> {
+  const summary: Record<BulkPushStatus, number> = {
+    pushed: 0,
+    unchanged: 0,
+    'publish-failed': 0,
+    failed: 0,
+  };
+  for (const entry of report) {
+    summary[entry.status]++;
+  }
+  return summary;
+}
+
+function displayReport(
+  report: BulkPushAgentJson[],
+  summary: Record<BulkPushStatus, number>,
+  workspace: WorkspaceType
+): void {
+  console.log(`\nPush report (${workspace}):\n`);
+
+  const table = new Table({
+    head: ['Agent', 'Result', 'Attempts', 'Details'],
+    colWidths: [25, 16, 10, 60],
+    wordWrap: true,
+  });
+
+  for (const entry of report) {
+    table.push([entry.agent, formatStatus(entry.status), entry.attempts, formatDetails(entry)]);
+  }
+
+  console.log(table.toString());
+  console.log(
+    `\n${summary.pushed} pushed, ${summary.unchanged} unchanged, ` +
+      `${summary['publish-failed']} publish failed, ${summary.failed} failed\n`
+  );
+}
+
+function formatStatus(status: BulkPushStatus): string {
+  switch (status) {
+    case 'pushed':
+      return '✓ pushed';
+    case 'unchanged':
+      return '- unchanged';
+    case 'publish-failed':
+      return '⚠ publish failed';
+    case 'failed':
+      return '✗ failed';
+  }
+}
+
+function formatDetails(entry: BulkPushAgentJson): string {
+  if (entry.error !== null) {
+    return entry.error.message;
+  }
+  if (entry.result === null) {
+    return '';
+  }
+  if (entry.result.publishError !== null) {
+    return entry.result.publishError;
+  }
+  if (entry.result.published !== null) {
+    return `${entry.result.agentId}, published v${entry.result.published.publishedVersion}`;
+  }
+  return entry.result.agentId;
+}
+
+type RecordHistory = (success: boolean, summary: string) => Promise<void>;
+
+/**
+ * Push an LLM agent through LlmAgentManager, which also sends the agent.json
+ * fields AgentController does not forward.
+ */
+async function pushLlmAgent(
+  agentName: string,
+  options: PushOptions,
+  recordHistory: RecordHistory
+): Promise<PushOutcome> {
+  const result = await LlmAgentManager.push({
     agentsPath: options.path,
+    agentName,
+    workspace: options.workspace,
+    force: options.force,
     promptsPath: options.prompts,
   });
 
   if (!result.success) {
+    await recordHistory(false, result.error.message);
     throw result.error;
   }
 
@@ -99,21 +558,163 @@ async function executePush(agentName: string, options: PushOptions): Promise<voi
   console.log(`  Config hash: ${configHash.substring(0, 16)}...`);
   console.log(`  Synced at: ${syncedAt}`);
 
-  // 3. Publish if requested
-  if (options.publish) {
-    console.log('\nPublishing agent...');
-    const publishResult = await versionController.publish(agentName, {
-      workspace: options.workspace,
-      agentsPath: options.path,
-    });
+  return {
+    engine: 'retell-llm',
+    pushed: created,
+    agentId,
+    llmId,
+    conversationFlowId: null,
+    llmWebsocketUrl: null,
+    configHash,
+    syncedAt,
+  };
+}
 
-    if (!publishResult.success) {
-      console.log(`\n⚠ Push succeeded but publish failed: ${publishResult.error.message}`);
-      return;
-    }
+/**
+ * Push a conversation-flow agent: the flow file and the agent fields.
+ * AgentController only handles LLM agents.
+ */
+async function pushFlowAgent(
+  agentPath: string,
+  options: PushOptions,
+  recordHistory: RecordHistory
+): Promise<PushOutcome> {
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(options.workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+
+  const result = await ConversationFlowManager.push(workspaceConfigResult.value, {
+    agentPath,
+    workspace: options.workspace,
+    force: options.force,
+  });
+  if (!result.success) {
+    await recordHistory(false, result.error.message);
+    throw result.error;
+  }
+
+  const { agentId, flowId, configHash, pushed } = result.value;
+
+  if (pushed) {
+    console.log(`✓ Push to ${options.workspace} completed successfully!`);
+  } else {
+    console.log(`✓ Agent is already in sync with ${options.workspace}`);
+  }
+
+  console.log(`  Agent ID: ${agentId}`);
+  if (flowId !== null) {
+    console.log(`  Conversation flow ID: ${flowId}`);
+  }
+  console.log(`  Config hash: ${configHash.substring(0, 16)}...`);
+
+  return {
+    engine: 'conversation-flow',
+    pushed,
+    agentId,
+    llmId: null,
+    conversationFlowId: flowId,
+    llmWebsocketUrl: null,
+    configHash,
+    syncedAt: null,
+  };
+}
+
+/**
+ * Push a custom-llm agent with the workspace's llm_websocket_url.
+ */
+async function pushCustomLlmAgent(
+  agentPath: string,
+  options: PushOptions,
+  recordHistory: RecordHistory
+): Promise<PushOutcome> {
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(options.workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+
+  const result = await CustomLlmManager.push(workspaceConfigResult.value, {
+    agentPath,
+    workspace: options.workspace,
+    force: options.force,
+  });
+  if (!result.success) {
+    await recordHistory(false, result.error.message);
+    throw result.error;
+  }
+
+  const { agentId, llmWebsocketUrl, configHash, pushed } = result.value;
+
+  if (pushed) {
+    console.log(`✓ Push to ${options.workspace} completed successfully!`);
+  } else {
+    console.log(`✓ Agent is already in sync with ${options.workspace}`);
+  }
+
+  console.log(`  Agent ID: ${agentId}`);
+  if (llmWebsocketUrl !== null) {
+    console.log(`  LLM WebSocket URL: ${llmWebsocketUrl}`);
+  }
+  console.log(`  Config hash: ${configHash.substring(0, 16)}...`);
+
+  return {
+    engine: 'custom-llm',
+    pushed,
+    agentId,
+    llmId: null,
+    conversationFlowId: null,
+    llmWebsocketUrl,
+    configHash,
+    syncedAt: null,
+  };
+}
+
+/**
+ * Incrementally sync the agent's knowledge/ directory to the workspace.
+ * Skipped for agents that have no knowledge base files and nothing uploaded.
+ * Returns the number of files added, updated or removed, or null when skipped.
+ */
+async function pushKnowledgeBase(agentName: string, options: PushOptions): Promise<number | null> {
+  const agentPath = path.resolve(options.path, agentName);
+
+  const hasKbResult = await KnowledgeBaseManager.hasKnowledgeBase(agentPath, options.workspace);
+  if (!hasKbResult.success) {
+    throw hasKbResult.error;
+  }
+  if (!hasKbResult.value) {
+    return null;
+  }
+
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(options.workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+  const configResult = await AgentInheritance.load(agentPath, options.workspace);
+  if (!configResult.success) {
+    throw new Error(`Failed to load agent config: ${configResult.error.message}`);
+  }
+
+  const kbResult = await KnowledgeBaseManager.push(workspaceConfigResult.value, {
+    agentName,
+    agentPath,
+    workspace: options.workspace,
+    configuredIds: configResult.value.llm_config.knowledge_base_ids,
+  });
+  if (!kbResult.success) {
+    throw new Error(`Push succeeded but knowledge base sync failed: ${kbResult.error.message}`);
+  }
 
-    const { publishedVersion, newDraftVersion } = publishResult.value;
-    console.log(`✓ Published version ${publishedVersion}`);
-    console.log(`  New draft version: ${newDraftVersion}`);
+  const { plan, kbId, linked } = kbResult.value;
+  if (KnowledgeBaseManager.hasChanges(plan)) {
+    console.log(
+      `✓ Knowledge base synced: ${plan.added.length} added, ${plan.updated.length} updated, ${plan.removed.length} removed`
+    );
+  } else {
+    console.log('✓ Knowledge base already in sync');
+  }
+  if (kbId !== null) {
+    console.log(`  Knowledge base ID: ${kbId}${linked ? ' (linked to LLM)' : ''}`);
   }
+
+  return plan.added.length + plan.updated.length + plan.removed.length;
 }
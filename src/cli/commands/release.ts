@@ -0,0 +1,671 @@
+/**
+ * Release command - Promote a staging-tested agent configuration to production.
+ *
+ * This command:
+ * 1. Verifies staging and production workspaces are configured
+ * 2. Refuses to release when the local config differs from what staging has
+ * 3. Shows the configuration diff between staging and production
+ * 4. Pushes the config to production through LlmAgentManager, as push does, or
+ *    the conversation-flow / custom-llm manager for agents on those engines
+ * 5. Uploads changed knowledge base files to production (retell-llm agents)
+ * 6. Writes a release record under releases/
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import * as readline from 'readline';
+import {
+  VersionController,
+  MetadataManager,
+  HashCalculator,
+  WorkspaceConfigService,
+  RetellClientService,
+  ConflictDetector,
+  PromptBuilder,
+  VariableResolver,
+} from '@heya/retell.controllers';
+import type {
+  AgentConfig,
+  MetadataFile,
+  OrchestrationMode,
+  WorkspaceConfig,
+} from '@heya/retell.controllers';
+import { handleError } from '../errors/cli-error-handler';
+import { AgentHasher } from '../utils/agent-hash';
+import { AgentInheritance } from '../utils/agent-inheritance';
+import { ConfigInterpolator } from '../utils/config-interpolation';
+import { ReleaseRecorder, type ReleaseChange } from '../utils/release-record';
+import { KnowledgeBaseManager, type KbSyncPlan } from '../utils/knowledge-base';
+import { OperationHistory } from '../utils/operation-history';
+import { ConversationFlowManager } from '../utils/conversation-flow';
+import { CustomLlmManager } from '../utils/custom-llm';
+import { LlmAgentManager } from '../utils/llm-agent';
+import { CliOutput } from '../utils/output';
+
+export const releaseCommand = new Command('release')
+  .description('Release staging configuration to production')
+  .argument('<agent-name>', 'Name of the agent to release')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
+  .option('--releases <path>', 'Path to release records directory', './releases')
+  .option('--config-only', 'Only release agent config', false)
+  .option('--kb-only', 'Only release knowledge base', false)
+  .option('-m, --message <message>', 'Add a release note')
+  .option('--publish', 'Publish production after release (creates immutable version)', false)
+  .option('-y, --yes', 'Skip confirmation prompt', false)
+  .addOption(CliOutput.option())
+  .action(async (agentName: string, options: ReleaseOptions) => {
+    try {
+      await executeRelease(agentName, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+type ReleaseOptions = {
+  path: string;
+  prompts: string;
+  releases: string;
+  configOnly: boolean;
+  kbOnly: boolean;
+  message?: string;
+  publish: boolean;
+  yes: boolean;
+};
+
+/**
+ * `--output json` data
+ */
+type ReleaseJson = {
+  agent: string;
+  agentId: string | null;
+  configReleased: boolean;
+  kbReleased: boolean;
+  changes: ReleaseChange[];
+  promptChanged: boolean;
+  /**
+   * Knowledge base file names released, or null with --config-only and for
+   * conversation-flow and custom-llm agents
+   */
+  kbChanges: { added: string[]; updated: string[]; removed: string[] } | null;
+  previousVersion: number | null;
+  publishedVersion: number | null;
+  /** Release record written under --releases, or null if writing it failed */
+  record: string | null;
+};
+
+type AgentEngine = 'retell-llm' | 'conversation-flow' | 'custom-llm';
+
+/**
+ * Local config compared with the agent deployed in a workspace
+ */
+type RemoteComparison = {
+  hasConflict: boolean;
+  differences: Array<{ field: string; local: unknown; remote: unknown }>;
+  promptChanged: boolean;
+};
+
+async function executeRelease(agentName: string, options: ReleaseOptions): Promise<void> {
+  console.log(`\nReleasing ${agentName}: staging → production\n`);
+
+  if (options.configOnly && options.kbOnly) {
+    throw new Error('Cannot specify both --config-only and --kb-only');
+  }
+
+  const agentPath = path.resolve(options.path, agentName);
+  const promptsPath = path.resolve(options.prompts);
+  const engine = await detectEngine(agentPath);
+  if (options.kbOnly && engine !== 'retell-llm') {
+    throw new Error(
+      `--kb-only is not supported for ${engine} agents; they have no knowledge base to release`
+    );
+  }
+
+  const modeResult = await WorkspaceConfigService.getMode();
+  const mode = modeResult.success ? modeResult.value : 'single-production';
+
+  // 1. Pre-flight: both workspaces must be configured
+  const stagingWorkspaceResult = await WorkspaceConfigService.getWorkspace('staging');
+  if (!stagingWorkspaceResult.success) {
+    throw stagingWorkspaceResult.error;
+  }
+  const productionWorkspaceResult = await WorkspaceConfigService.getWorkspace('production');
+  if (!productionWorkspaceResult.success) {
+    throw productionWorkspaceResult.error;
+  }
+
+  // 2. Load local config as each workspace sees it (they differ only by overrides).
+  //    Conversation-flow and custom-llm agents are loaded by their managers.
+  let stagingConfig: AgentConfig | null = null;
+  let localConfig: AgentConfig | null = null;
+  if (engine === 'retell-llm') {
+    const configResult = await AgentInheritance.load(agentPath, 'staging');
+    if (!configResult.success) {
+      throw new Error(`Failed to load agent config: ${configResult.error.message}`);
+    }
+    stagingConfig = configResult.value;
+    const productionConfigResult = await AgentInheritance.load(agentPath, 'production');
+    if (!productionConfigResult.success) {
+      throw new Error(`Failed to load agent config: ${productionConfigResult.error.message}`);
+    }
+    localConfig = productionConfigResult.value;
+  }
+
+  const hashResult = await AgentHasher.hashLocal(agentPath, 'staging');
+  if (!hashResult.success) {
+    throw new Error(`Failed to calculate config hash: ${hashResult.error.message}`);
+  }
+  const localHash = hashResult.value;
+
+  // 3. Staging must exist and match local, both by metadata and by remote content
+  const stagingMetadata = await readSyncedMetadata(agentPath, 'staging', mode, engine);
+  if (stagingMetadata === null) {
+    throw new Error(
+      `Agent '${agentName}' has not been pushed to staging.\n` +
+        `Run 'retell push ${agentName} -w staging' first.`
+    );
+  }
+
+  console.log('Staging Status:');
+  if (!HashCalculator.compareHashes(localHash, stagingMetadata.config_hash)) {
+    throw new Error(
+      `Local config differs from staging. Refusing to release.\n` +
+        `Run 'retell push ${agentName} -w staging' and test before releasing.`
+    );
+  }
+
+  const stagingComparison = await detectAgainstRemote(
+    engine,
+    agentPath,
+    stagingConfig,
+    stagingWorkspaceResult.value,
+    stagingMetadata,
+    promptsPath
+  );
+  if (stagingComparison.hasConflict) {
+    for (const difference of stagingComparison.differences) {
+      console.log(
+        `  ${difference.field}: ${formatValue(difference.remote)} → ${formatValue(difference.local)}`
+      );
+    }
+    if (stagingComparison.promptChanged) {
+      console.log('  llm_config.general_prompt: modified');
+    }
+    throw new Error(
+      `Staging workspace has changed since the last push. Refusing to release.\n` +
+        `Run 'retell diff ${agentName} -w staging' to inspect the changes.`
+    );
+  }
+  console.log('  ✅ In sync with local');
+  console.log(`  Last sync: ${stagingMetadata.last_sync ?? 'unknown'}`);
+  console.log(
+    `  Agent: ${stagingMetadata.agent_id} (version ${stagingMetadata.retell_version ?? 'unknown'})\n`
+  );
+
+  // 4. Production status and diff
+  const productionMetadata = await readSyncedMetadata(agentPath, 'production', mode, engine);
+  let changes: ReleaseChange[] = [];
+  let promptChanged = false;
+
+  console.log('Production Status:');
+  if (productionMetadata === null) {
+    console.log('  Not yet released - production agent will be created\n');
+  } else {
+    const productionComparison = await detectAgainstRemote(
+      engine,
+      agentPath,
+      localConfig,
+      productionWorkspaceResult.value,
+      productionMetadata,
+      promptsPath
+    );
+    console.log(
+      `  Agent: ${productionMetadata.agent_id} (version ${productionMetadata.retell_version ?? 'unknown'})`
+    );
+    console.log(`  Last release: ${productionMetadata.last_sync ?? 'unknown'}\n`);
+
+    if (productionComparison.hasConflict) {
+      changes = toReleaseChanges(productionComparison);
+      promptChanged = productionComparison.promptChanged;
+    }
+  }
+
+  if (localConfig !== null) {
+    await displayVariablesSummary(localConfig, promptsPath);
+  }
+
+  if (!options.kbOnly) {
+    console.log('Configuration Diff (staging → production):');
+    if (productionMetadata !== null && changes.length === 0 && !promptChanged) {
+      console.log('  (no changes)');
+    }
+    for (const change of changes) {
+      console.log(
+        `  ${change.field}: ${formatValue(change.production)} → ${formatValue(change.staging)}`
+      );
+    }
+    if (promptChanged) {
+      console.log('  llm_config.general_prompt: modified');
+    }
+    console.log('');
+  }
+
+  // Conversation flows reference knowledge bases in their flow file, and
+  // custom LLMs have no Retell LLM to link one to
+  let kbPlan: KbSyncPlan | null = null;
+  if (!options.configOnly && engine === 'retell-llm') {
+    kbPlan = await planKnowledgeBaseRelease(agentName, agentPath);
+    console.log('Knowledge Base Diff (staging → production):');
+    if (!KnowledgeBaseManager.hasChanges(kbPlan)) {
+      console.log('  (no changes)');
+    }
+    for (const file of kbPlan.added) {
+      console.log(`  + ${file.name}`);
+    }
+    for (const file of kbPlan.updated) {
+      console.log(`  ~ ${file.name}`);
+    }
+    for (const name of kbPlan.removed) {
+      console.log(`  - ${name}`);
+    }
+    console.log('');
+  }
+
+  // 5. Confirmation
+  if (!options.yes && CliOutput.isJson()) {
+    throw new Error('Use --yes with --output json; release cannot ask for confirmation.');
+  }
+  if (!options.yes) {
+    const target = productionMetadata?.agent_id ?? 'new agent';
+    const confirmed = await confirmRelease(`This will update production agent: ${target}`);
+    if (!confirmed) {
+      console.log('\nRelease cancelled.');
+      return;
+    }
+  }
+
+  console.log('');
+
+  // 6. Release config via the controller (enforces staging-first in production)
+  let configReleased = false;
+  let releasedMetadata = productionMetadata;
+  if (!options.kbOnly && engine !== 'retell-llm') {
+    const engineResult =
+      engine === 'conversation-flow'
+        ? await ConversationFlowManager.push(productionWorkspaceResult.value, {
+            agentPath,
+            workspace: 'production',
+          })
+        : await CustomLlmManager.push(productionWorkspaceResult.value, {
+            agentPath,
+            workspace: 'production',
+          });
+    if (!engineResult.success) {
+      throw engineResult.error;
+    }
+
+    configReleased = engineResult.value.pushed;
+    console.log(`✅ Production agent updated: ${engineResult.value.agentId}`);
+    releasedMetadata = await readSyncedMetadata(agentPath, 'production', mode, engine);
+  } else if (!options.kbOnly) {
+    const pushResult = await LlmAgentManager.push({
+      agentsPath: options.path,
+      agentName,
+      workspace: 'production',
+      promptsPath: options.prompts,
+    });
+
+    if (!pushResult.success) {
+      throw pushResult.error;
+    }
+
+    configReleased = pushResult.value.created || changes.length > 0 || promptChanged;
+    console.log(`✅ Production agent updated: ${pushResult.value.agentId}`);
+    console.log(`✅ Production LLM updated: ${pushResult.value.llmId}`);
+    releasedMetadata = await readSyncedMetadata(agentPath, 'production', mode, engine);
+  }
+
+  // 7. Knowledge base
+  let kbReleased = false;
+  if (
+    kbPlan !== null &&
+    localConfig !== null &&
+    (KnowledgeBaseManager.hasChanges(kbPlan) || configReleased)
+  ) {
+    const kbResult = await KnowledgeBaseManager.push(productionWorkspaceResult.value, {
+      agentName,
+      agentPath,
+      workspace: 'production',
+      configuredIds: localConfig.llm_config.knowledge_base_ids,
+    });
+    if (!kbResult.success) {
+      throw new Error(`Knowledge base release failed: ${kbResult.error.message}`);
+    }
+
+    kbReleased = KnowledgeBaseManager.hasChanges(kbResult.value.plan);
+    if (kbReleased) {
+      console.log(`✅ Production knowledge base updated: ${kbResult.value.kbId ?? 'unknown'}`);
+    }
+  }
+
+  // 8. Publish if requested
+  let publishedVersion: number | null = null;
+  if (options.publish && !options.kbOnly) {
+    const versionController = new VersionController();
+    const publishResult = await versionController.publish(agentName, {
+      workspace: 'production',
+      agentsPath: options.path,
+    });
+    if (!publishResult.success) {
+      console.log(`\n⚠ Release succeeded but publish failed: ${publishResult.error.message}`);
+    } else {
+      publishedVersion = publishResult.value.publishedVersion;
+      console.log(`✅ Published version ${publishedVersion}`);
+    }
+  }
+
+  // 9. Release record
+  const releasedAt = new Date().toISOString();
+  const recordResult = await ReleaseRecorder.write(path.resolve(options.releases), {
+    agent: agentName,
+    released_at: releasedAt,
+    released_by: OperationHistory.getCurrentUser(),
+    message: options.message ?? null,
+    config_released: configReleased,
+    kb_released: kbReleased,
+    staging: toSnapshot(stagingMetadata),
+    production: {
+      ...toSnapshot(releasedMetadata),
+      previous_version: productionMetadata?.retell_version ?? null,
+      published_version: publishedVersion,
+    },
+    changes,
+  });
+
+  const released = [configReleased ? 'Config' : null, kbReleased ? 'KB' : null].filter(
+    (part): part is string => part !== null
+  );
+  await OperationHistory.record({
+    action: 'release',
+    agent: agentName,
+    workspace: 'production',
+    success: true,
+    before_hash: productionMetadata?.config_hash ?? null,
+    after_hash: releasedMetadata?.config_hash ?? null,
+    retell_version: publishedVersion ?? releasedMetadata?.retell_version ?? null,
+    summary:
+      (released.length > 0 ? released.join(' + ') : 'No changes') +
+      (publishedVersion !== null ? ` + published v${publishedVersion}` : ''),
+  });
+
+  if (!recordResult.success) {
+    console.warn(`\n⚠ Failed to write release record: ${recordResult.error.message}`);
+  } else {
+    console.log(`\nRelease logged: ${path.relative(process.cwd(), recordResult.value)}\n`);
+  }
+
+  CliOutput.result<ReleaseJson>({
+    agent: agentName,
+    agentId: releasedMetadata?.agent_id ?? null,
+    configReleased,
+    kbReleased,
+    changes,
+    promptChanged,
+    kbChanges:
+      kbPlan === null
+        ? null
+        : {
+            added: kbPlan.added.map((file) => file.name),
+            updated: kbPlan.updated.map((file) => file.name),
+            removed: [...kbPlan.removed],
+          },
+    previousVersion: productionMetadata?.retell_version ?? null,
+    publishedVersion,
+    record: recordResult.success ? path.relative(process.cwd(), recordResult.value) : null,
+  });
+}
+
+async function detectEngine(agentPath: string): Promise<AgentEngine> {
+  if (await ConversationFlowManager.isFlowAgent(agentPath)) {
+    return 'conversation-flow';
+  }
+  if (await CustomLlmManager.isCustomLlmAgent(agentPath)) {
+    return 'custom-llm';
+  }
+  return 'retell-llm';
+}
+
+/**
+ * Read metadata for a workspace, returning null unless the agent has been
+ * pushed there. Only retell-llm agents record an LLM ID.
+ */
+async function readSyncedMetadata(
+  agentPath: string,
+  workspace: 'staging' | 'production',
+  mode: OrchestrationMode,
+  engine: AgentEngine
+): Promise<MetadataFile | null> {
+  const metadataResult = await MetadataManager.read(agentPath, workspace, mode);
+  if (!metadataResult.success) {
+    return null;
+  }
+  const metadata = metadataResult.value;
+  if (!metadata.agent_id || (engine === 'retell-llm' && !metadata.llm_id)) {
+    return null;
+  }
+  return metadata;
+}
+
+/**
+ * Compare the local agent against the one currently deployed in a workspace.
+ * retell-llm configs (localConfig) are compared with placeholders resolved;
+ * conversation-flow and custom-llm agents are loaded and compared by their
+ * managers.
+ */
+async function detectAgainstRemote(
+  engine: AgentEngine,
+  agentPath: string,
+  localConfig: AgentConfig | null,
+  workspaceConfig: WorkspaceConfig,
+  metadata: MetadataFile,
+  promptsPath: string
+): Promise<RemoteComparison> {
+  const { workspace } = metadata;
+  if (!metadata.agent_id) {
+    throw new Error(`Metadata for ${workspace} is incomplete`);
+  }
+
+  if (engine === 'conversation-flow') {
+    const localResult = await ConversationFlowManager.load(agentPath);
+    if (!localResult.success) {
+      throw new Error(`Failed to load agent config: ${localResult.error.message}`);
+    }
+    const remoteResult = await ConversationFlowManager.fetchRemote(
+      ConversationFlowManager.createClient(workspaceConfig),
+      metadata.agent_id
+    );
+    if (!remoteResult.success) {
+      throw new Error(`Failed to fetch ${workspace} agent: ${remoteResult.error.message}`);
+    }
+    const remote = ConversationFlowManager.toLocal(remoteResult.value, localResult.value.flowFile);
+    return fromDifferences(ConversationFlowManager.diff(localResult.value, remote));
+  }
+
+  const client = new RetellClientService(workspaceConfig);
+  const agentResult = await client.getAgent(metadata.agent_id);
+  if (!agentResult.success) {
+    throw new Error(`Failed to fetch ${workspace} agent: ${agentResult.error.message}`);
+  }
+
+  if (engine === 'custom-llm') {
+    const localResult = await CustomLlmManager.load(agentPath);
+    if (!localResult.success) {
+      throw new Error(`Failed to load agent config: ${localResult.error.message}`);
+    }
+    return fromDifferences(
+      CustomLlmManager.diff(
+        localResult.value,
+        agentResult.value as Record<string, unknown>,
+        workspace,
+        workspaceConfig.id
+      )
+    );
+  }
+
+  if (localConfig === null || !metadata.llm_id) {
+    throw new Error(`Metadata for ${workspace} is incomplete`);
+  }
+  const llmResult = await client.getLlm(metadata.llm_id);
+  if (!llmResult.success) {
+    throw new Error(`Failed to fetch ${workspace} LLM: ${llmResult.error.message}`);
+  }
+
+  const resolvedResult = await ConfigInterpolator.interpolate(localConfig);
+  if (!resolvedResult.success) {
+    throw resolvedResult.error;
+  }
+
+  const detectionResult = await ConflictDetector.detect(
+    resolvedResult.value,
+    agentResult.value,
+    llmResult.value,
+    metadata.config_hash,
+    promptsPath
+  );
+  if (!detectionResult.success) {
+    throw new Error(`Failed to compare configurations: ${detectionResult.error.message}`);
+  }
+
+  const detection = detectionResult.value;
+  if (!detection.hasConflict) {
+    return { hasConflict: false, differences: [], promptChanged: false };
+  }
+  return {
+    hasConflict: true,
+    differences: detection.fieldConflicts.map((conflict) => ({
+      field: conflict.path,
+      local: conflict.localValue,
+      remote: conflict.remoteValue,
+    })),
+    promptChanged: detection.promptConflict !== undefined,
+  };
+}
+
+function fromDifferences(
+  differences: ReadonlyArray<{ path: string; local: unknown; remote: unknown }>
+): RemoteComparison {
+  return {
+    hasConflict: differences.length > 0,
+    differences: differences.map(({ path: field, local, remote }) => ({ field, local, remote })),
+    promptChanged: false,
+  };
+}
+
+function toReleaseChanges(comparison: RemoteComparison): ReleaseChange[] {
+  return comparison.differences.map((difference) => ({
+    field: difference.field,
+    staging: difference.local,
+    production: difference.remote,
+  }));
+}
+
+function toSnapshot(metadata: MetadataFile | null): {
+  agent_id: string | null;
+  llm_id: string | null;
+  config_hash: string | null;
+  retell_version: number | null;
+} {
+  return {
+    agent_id: metadata?.agent_id ?? null,
+    llm_id: metadata?.llm_id ?? null,
+    config_hash: metadata?.config_hash ?? null,
+    retell_version: metadata?.retell_version ?? null,
+  };
+}
+
+/**
+ * Show which variables production callers will need to provide
+ */
+async function displayVariablesSummary(config: AgentConfig, promptsPath: string): Promise<void> {
+  const promptConfig = config.llm_config.prompt_config;
+  if (!promptConfig) {
+    return;
+  }
+
+  const promptResult = await PromptBuilder.build(promptsPath, promptConfig);
+  if (!promptResult.success) {
+    return;
+  }
+
+  const variables = VariableResolver.categorize(promptResult.value, promptConfig);
+
+  console.log('Variables Summary (Staging):');
+  console.log(`  Static variables: ${variables.static.length}`);
+  console.log(`  Override variables: ${variables.override.length}`);
+  for (const variable of variables.override) {
+    console.log(`    ⚠ ${variable.name}: OVERRIDE`);
+  }
+  console.log(
+    `  Dynamic variables: ${variables.dynamic.length}` +
+      (variables.dynamic.length > 0 ? ` (${variables.dynamic.map((v) => v.name).join(', ')})` : '')
+  );
+  console.log(`  System variables: ${variables.system.length}\n`);
+
+  if (variables.override.length > 0) {
+    console.log(
+      `⚠️  Production will have ${variables.override.length} override variable(s) that must be provided when initiating calls\n`
+    );
+  }
+}
+
+/**
+ * Plan the production knowledge base update from local files.
+ * Local files must already be uploaded to staging so production gets exactly
+ * what was tested there.
+ */
+async function planKnowledgeBaseRelease(agentName: string, agentPath: string): Promise<KbSyncPlan> {
+  const filesResult = await KnowledgeBaseManager.listLocalFiles(agentPath);
+  if (!filesResult.success) {
+    throw filesResult.error;
+  }
+  const metaResult = await KnowledgeBaseManager.readMeta(agentPath);
+  if (!metaResult.success) {
+    throw metaResult.error;
+  }
+
+  const stagingPlan = KnowledgeBaseManager.plan(filesResult.value, metaResult.value['staging']);
+  if (KnowledgeBaseManager.hasChanges(stagingPlan)) {
+    throw new Error(
+      `Local knowledge base files differ from staging. Refusing to release.\n` +
+        `Run 'retell kb push ${agentName} -w staging' and test before releasing, or use --config-only.`
+    );
+  }
+
+  return KnowledgeBaseManager.plan(filesResult.value, metaResult.value['production']);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '(none)';
+  }
+  if (typeof value === 'string') {
+    return value.length > 40 ? `${value.substring(0, 37)}...` : value;
+  }
+  const json = JSON.stringify(value);
+  return json.length > 40 ? `${json.substring(0, 37)}...` : json;
+}
+
+async function confirmRelease(message: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${message}\nContinue? (yes/no): `, (answer) => {
+      rl.close();
+      const normalized = answer.trim().toLowerCase();
+      resolve(normalized === 'yes' || normalized === 'y');
+    });
+  });
+}
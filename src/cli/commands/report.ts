@@ -0,0 +1,244 @@
+/**
+ * Report command - Compare an agent's calls across its versions.
+ *
+ * Fetches the agent's calls in a date range and aggregates durations,
+ * sentiment, success and post-call analysis per agent version (see
+ * CallReport), with each version's publish state from the version history,
+ * to judge whether a new version improved outcomes.
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import { VersionController, WorkspaceConfigService } from '@heya/retell.controllers';
+import type { WorkspaceType } from '@heya/retell.controllers';
+import { handleError } from '../errors/cli-error-handler';
+import { AgentInheritance } from '../utils/agent-inheritance';
+import { CallHistory } from '../utils/call-history';
+import {
+  CallReport,
+  type AnalysisFieldSpec,
+  type AnalysisFieldSummary,
+  type VersionCallReport,
+} from '../utils/call-report';
+import { CliOutput } from '../utils/output';
+
+export const reportCommand = new Command('report')
+  .description('Aggregate call outcomes and post-call analysis by agent version')
+  .argument('<agent-name>', 'Name of the agent')
+  .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--since <time>', 'Calls started after this time (e.g. 7d, 2025-01-31)', '30d')
+  .option('--until <time>', 'Calls started before this time (default: now)')
+  .option('-n, --limit <count>', 'Maximum number of calls, most recent first', '10000')
+  .addOption(CliOutput.option())
+  .action(async (agentName: string, options: ReportOptions) => {
+    try {
+      await executeReport(agentName, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+type ReportOptions = {
+  workspace: WorkspaceType;
+  path: string;
+  since: string;
+  until?: string;
+  limit: string;
+};
+
+type ReportJson = {
+  readonly agent: string;
+  readonly agentId: string;
+  readonly workspace: WorkspaceType;
+  readonly since: string;
+  readonly until: string | null;
+  readonly publishedVersion: number | null;
+  readonly calls: number;
+  readonly versions: ReadonlyArray<VersionCallReport>;
+};
+
+async function executeReport(agentName: string, options: ReportOptions): Promise<void> {
+  const limit = parseInt(options.limit, 10);
+  if (isNaN(limit) || limit < 1) {
+    throw new Error(`Invalid --limit: ${options.limit}`);
+  }
+  const sinceResult = CallHistory.parseTime(options.since);
+  if (!sinceResult.success) {
+    throw sinceResult.error;
+  }
+  const untilResult =
+    options.until !== undefined ? CallHistory.parseTime(options.until) : undefined;
+  if (untilResult !== undefined && !untilResult.success) {
+    throw untilResult.error;
+  }
+  const since = sinceResult.value;
+  const until = untilResult?.value;
+  if (until !== undefined && since > until) {
+    throw new Error('--since must be before --until');
+  }
+
+  const historyResult = await new VersionController().getVersionHistory(agentName, {
+    workspace: options.workspace,
+    agentsPath: options.path,
+  });
+  if (!historyResult.success) {
+    throw historyResult.error;
+  }
+  const history = historyResult.value;
+
+  const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(options.workspace);
+  if (!workspaceConfigResult.success) {
+    throw workspaceConfigResult.error;
+  }
+  const callsResult = await CallHistory.list(
+    CallHistory.createClient(workspaceConfigResult.value),
+    {
+      agentIds: [history.agentId],
+      since,
+      ...(until !== undefined && { until }),
+      limit,
+    }
+  );
+  if (!callsResult.success) {
+    throw callsResult.error;
+  }
+  const agentNames = new Map([[String(history.agentId), agentName]]);
+  const records = callsResult.value.map((call) => CallHistory.toRecord(call, agentNames));
+
+  const versions = CallReport.byVersion(
+    records,
+    history.versions,
+    await loadDeclaredFields(path.resolve(options.path, agentName), options.workspace)
+  );
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<ReportJson>({
+      agent: agentName,
+      agentId: history.agentId,
+      workspace: options.workspace,
+      since: new Date(since).toISOString(),
+      until: until !== undefined ? new Date(until).toISOString() : null,
+      publishedVersion: history.publishedVersion,
+      calls: records.length,
+      versions,
+    });
+    return;
+  }
+
+  const range = `${new Date(since).toISOString()} → ${until !== undefined ? new Date(until).toISOString() : 'now'}`;
+  console.log(`\nCall report: ${agentName} in ${options.workspace}`);
+  console.log(`Range: ${range}`);
+  console.log(
+    `Calls: ${records.length}${records.length === limit ? ` (limited to ${limit})` : ''}`
+  );
+  console.log(`Published version: ${history.publishedVersion ?? 'none'}\n`);
+
+  if (records.length === 0) {
+    console.log('No calls in this range.\n');
+    return;
+  }
+
+  displayVersionTable(versions);
+  displayAnalysis(versions);
+}
+
+/**
+ * The agent's post_call_analysis_data fields. Without a loadable agent.json
+ * the report types fields by their values instead.
+ */
+async function loadDeclaredFields(
+  agentPath: string,
+  workspace: WorkspaceType
+): Promise<AnalysisFieldSpec[]> {
+  const configResult = await AgentInheritance.load(agentPath, workspace);
+  if (!configResult.success) {
+    return [];
+  }
+  return (configResult.value.post_call_analysis_data ?? []).map((field) => ({
+    name: field.name,
+    type: field.type,
+  }));
+}
+
+function displayVersionTable(versions: ReadonlyArray<VersionCallReport>): void {
+  console.log(
+    `${'Version'.padEnd(10)}${'Status'.padEnd(12)}${'Calls'.padEnd(8)}${'Avg'.padEnd(9)}` +
+      `${'Median'.padEnd(9)}${'Success'.padEnd(10)}${'Sentiment +/=/-/?'.padEnd(20)}Voicemail`
+  );
+  console.log('─'.repeat(88));
+  for (const report of versions) {
+    const { Positive, Neutral, Negative, Unknown } = report.sentiment;
+    const status = report.published === null ? 'unknown' : report.published ? 'published' : 'draft';
+    console.log(
+      versionLabel(report).padEnd(10) +
+        status.padEnd(12) +
+        String(report.calls).padEnd(8) +
+        CallHistory.formatDuration(report.duration_ms.average).padEnd(9) +
+        CallHistory.formatDuration(report.duration_ms.median).padEnd(9) +
+        formatRate(report.success_rate).padEnd(10) +
+        `${Positive}/${Neutral}/${Negative}/${Unknown}`.padEnd(20) +
+        String(report.voicemail)
+    );
+  }
+
+  console.log('\nDisconnection reasons:');
+  for (const report of versions) {
+    const reasons = Object.entries(report.disconnection_reasons)
+      .map(([reason, count]) => `${reason} ${count}`)
+      .join(', ');
+    console.log(`  ${versionLabel(report)}: ${reasons}`);
+  }
+  console.log('');
+}
+
+function displayAnalysis(versions: ReadonlyArray<VersionCallReport>): void {
+  const fields = versions[0]?.analysis ?? [];
+  if (fields.length === 0) {
+    return;
+  }
+
+  console.log('Post-call analysis:');
+  for (const [index, field] of fields.entries()) {
+    console.log(`\n  ${field.name} (${field.type})`);
+    for (const report of versions) {
+      const summary = report.analysis[index];
+      if (summary !== undefined) {
+        console.log(`    ${versionLabel(report).padEnd(8)}${formatField(summary)}`);
+      }
+    }
+  }
+  console.log('');
+}
+
+function formatField(summary: AnalysisFieldSummary): string {
+  if (summary.count === 0) {
+    return 'no values';
+  }
+  switch (summary.type) {
+    case 'boolean':
+      return `${formatRate(summary.rate)} true (${summary.true_count}/${summary.count})`;
+    case 'number':
+      return (
+        `avg ${formatNumber(summary.average)}, min ${formatNumber(summary.min)}, ` +
+        `max ${formatNumber(summary.max)} (${summary.count} values)`
+      );
+    case 'string':
+      return Object.entries(summary.values)
+        .slice(0, 5)
+        .map(([value, count]) => `${JSON.stringify(value)} ${count}`)
+        .join(', ');
+  }
+}
+
+function versionLabel(report: VersionCallReport): string {
+  return report.version !== null ? `v${report.version}` : 'v?';
+}
+
+function formatRate(rate: number | null): string {
+  return rate !== null ? `${Math.round(rate * 100)}%` : 'n/a';
+}
+
+function formatNumber(value: number | null): string {
+  return value !== null ? String(Math.round(value * 100) / 100) : 'n/a';
+}
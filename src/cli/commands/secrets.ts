@@ -0,0 +1,210 @@
+/**
+ * Secrets commands - Manage values for `${secret:NAME}` placeholders.
+ *
+ * Provides commands for:
+ * - Setting a secret (value from stdin or an environment variable, never argv,
+ *   so it stays out of shell history and process listings)
+ * - Listing secret names
+ * - Removing a secret
+ * - Scanning agents/ and workspaces.json for credentials that should be secrets
+ *
+ * Secrets live in .retell/secrets.enc.json, encrypted with RETELL_SECRETS_KEY
+ * (see SecretStore). Values are never printed.
+ */
+
+import { Command } from 'commander';
+import { handleError } from '../errors/cli-error-handler';
+import { CliOutput } from '../utils/output';
+import { SecretScanner, type SecretScanReport } from '../utils/secret-scanner';
+import { SecretStore } from '../utils/secret-store';
+import { readStdin } from '../utils/stdin';
+
+// ============================================================================
+// Main secrets command group
+// ============================================================================
+
+export const secretsCommand = new Command('secrets').description(
+  'Manage encrypted values for ${secret:NAME} placeholders in agent configs'
+);
+
+// ============================================================================
+// Subcommand: secrets set
+// ============================================================================
+
+secretsCommand
+  .command('set')
+  .description('Add or replace a secret')
+  .argument('<name>', 'Secret name, as used in ${secret:NAME}')
+  // A value on the command line would end up in shell history and `ps`
+  .allowExcessArguments(false)
+  .option(
+    '--from-env <var>',
+    'Environment variable holding the value (default: read it from stdin)'
+  )
+  .action(async (name: string, options: SecretsSetOptions) => {
+    try {
+      await executeSecretsSet(name, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: secrets list
+// ============================================================================
+
+secretsCommand
+  .command('list')
+  .description('List secret names (values are never shown)')
+  .addOption(CliOutput.option())
+  .action(async () => {
+    try {
+      await executeSecretsList();
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: secrets remove
+// ============================================================================
+
+secretsCommand
+  .command('remove')
+  .description('Remove a secret')
+  .argument('<name>', 'Secret name')
+  .action(async (name: string) => {
+    try {
+      await executeSecretsRemove(name);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Subcommand: secrets scan
+// ============================================================================
+
+secretsCommand
+  .command('scan')
+  .description('Find API keys, tokens and passwords in committed files (exits 1 on findings)')
+  .argument(
+    '[paths...]',
+    'Files or directories to scan (default: agents, templates and workspaces.json)'
+  )
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .addOption(CliOutput.option())
+  .action(async (paths: string[], options: SecretsScanOptions) => {
+    try {
+      await executeSecretsScan(paths, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// ============================================================================
+// Implementation
+// ============================================================================
+
+type SecretsSetOptions = {
+  fromEnv?: string;
+};
+
+type SecretsScanOptions = {
+  path: string;
+};
+
+/**
+ * `secrets list --output json` data
+ */
+type SecretsListJson = {
+  file: string;
+  names: string[];
+};
+
+async function executeSecretsSet(name: string, options: SecretsSetOptions): Promise<void> {
+  const secretValue =
+    options.fromEnv !== undefined ? process.env[options.fromEnv] : await readStdin();
+  if (secretValue === undefined || secretValue === '') {
+    throw new Error(
+      options.fromEnv !== undefined
+        ? `Environment variable ${options.fromEnv} is not set`
+        : `No value given for secret '${name}'. Pipe it to stdin or use --from-env <var>.`
+    );
+  }
+
+  const setResult = await SecretStore.set(name, secretValue);
+  if (!setResult.success) {
+    throw setResult.error;
+  }
+  console.log(`✓ Saved secret '${name}' to ${SecretStore.DEFAULT_PATH}`);
+}
+
+async function executeSecretsList(): Promise<void> {
+  const secretsResult = await SecretStore.read();
+  if (!secretsResult.success) {
+    throw secretsResult.error;
+  }
+  const names = Object.keys(secretsResult.value).sort();
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<SecretsListJson>({ file: SecretStore.DEFAULT_PATH, names });
+    return;
+  }
+
+  if (names.length === 0) {
+    console.log(`No secrets in ${SecretStore.DEFAULT_PATH}.`);
+    console.log(`Add one with 'retell secrets set <name>'.`);
+    return;
+  }
+  console.log(`\nSecrets in ${SecretStore.DEFAULT_PATH}:\n`);
+  for (const name of names) {
+    console.log(`  ${name}`);
+  }
+  console.log('');
+}
+
+async function executeSecretsRemove(name: string): Promise<void> {
+  const removeResult = await SecretStore.remove(name);
+  if (!removeResult.success) {
+    throw removeResult.error;
+  }
+  if (!removeResult.value) {
+    throw new Error(`Secret '${name}' not found in ${SecretStore.DEFAULT_PATH}`);
+  }
+  console.log(`✓ Removed secret '${name}'`);
+}
+
+async function executeSecretsScan(paths: string[], options: SecretsScanOptions): Promise<void> {
+  const targets = paths.length > 0 ? paths : [options.path, 'templates', 'workspaces.json'];
+  const report = await SecretScanner.scan(targets);
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<SecretScanReport>(report);
+  } else {
+    displayScanReport(report);
+  }
+
+  if (report.findings.length > 0) {
+    process.exit(1);
+  }
+}
+
+function displayScanReport(report: SecretScanReport): void {
+  console.log(`\nScanned ${report.files} file(s)\n`);
+  if (report.findings.length === 0) {
+    console.log('✓ No secrets found\n');
+    return;
+  }
+
+  for (const finding of report.findings) {
+    console.log(`❌ ${finding.file}:${finding.line}  ${finding.rule}`);
+    console.log(`   ${finding.preview}`);
+  }
+  const files = new Set(report.findings.map((finding) => finding.file)).size;
+  console.log(`\n⚠ Found ${report.findings.length} secret(s) in ${files} file(s)`);
+  console.log(
+    "Move them to 'retell secrets set <NAME>' or .env and reference them as " +
+      '${secret:NAME} or ${env:NAME}.\n'
+  );
+}
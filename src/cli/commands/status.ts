@@ -3,20 +3,19 @@
  */
 
 import { Command } from 'commander';
-import * as fs from 'fs/promises';
 import * as path from 'path';
-import {
-  AgentConfigLoader,
-  MetadataManager,
-  HashCalculator,
-  WorkspaceConfigService,
-} from '@heya/retell.controllers';
+import { MetadataManager, HashCalculator, WorkspaceConfigService } from '@heya/retell.controllers';
+import type { Hash } from '@heya/retell.controllers';
 import { handleError } from '../errors/cli-error-handler';
+import { AgentHasher } from '../utils/agent-hash';
+import { AgentIndex } from '../utils/agent-index';
+import { CliOutput } from '../utils/output';
 
 export const statusCommand = new Command('status')
   .description('Show sync status of agents across workspaces')
   .argument('[agent-name]', 'Name of specific agent (optional, shows all if omitted)')
   .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .addOption(CliOutput.option())
   .action(async (agentName: string | undefined, options: StatusOptions) => {
     try {
       await executeStatus(agentName, options);
@@ -40,6 +39,8 @@ type AgentStatus = {
 type WorkspaceStatus = {
   workspaceKey: string;
   agentId: string | null;
+  /** Local hash with the workspace's overrides */
+  localHash: string | null;
   hash: string | null;
   lastSynced: number | null; // Store as number for display
   inSync: boolean;
@@ -47,13 +48,48 @@ type WorkspaceStatus = {
 
 type ProductionStatus = WorkspaceStatus;
 
+/**
+ * `--output json` data
+ */
+type StatusJson = {
+  agents: Array<{
+    name: string;
+    localHash: string | null;
+    staging: WorkspaceStatusJson;
+    production: WorkspaceStatusJson[];
+  }>;
+};
+
+type WorkspaceStatusJson = {
+  workspace: string;
+  agentId: string | null;
+  /** Hash of the local config with the workspace's overrides */
+  localHash: string | null;
+  configHash: string | null;
+  /** ISO timestamp of the last push or pull */
+  syncedAt: string | null;
+  inSync: boolean;
+};
+
 async function executeStatus(agentName: string | undefined, options: StatusOptions): Promise<void> {
   const agentsDir = path.resolve(options.path);
 
   // Find agents to check
-  const agentNames = agentName !== undefined ? [agentName] : await findAllAgents(agentsDir);
+  let agentNames: string[] = [];
+  if (agentName !== undefined) {
+    agentNames = [agentName];
+  } else {
+    const agentsResult = await AgentIndex.list(agentsDir);
+    if (agentsResult.success) {
+      agentNames = agentsResult.value;
+    }
+  }
 
   if (agentNames.length === 0) {
+    if (CliOutput.isJson()) {
+      CliOutput.result<StatusJson>({ agents: [] });
+      return;
+    }
     console.log('No agents found.');
     return;
   }
@@ -67,30 +103,31 @@ async function executeStatus(agentName: string | undefined, options: StatusOptio
   }
 
   // Display results
+  if (CliOutput.isJson()) {
+    CliOutput.result(toJson(statuses));
+    return;
+  }
   displayStatus(statuses);
 }
 
-async function findAllAgents(agentsDir: string): Promise<string[]> {
-  try {
-    const entries = await fs.readdir(agentsDir, { withFileTypes: true });
-    const agentDirs = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
-
-    // Filter to only directories with agent.json
-    const validAgents: string[] = [];
-    for (const dir of agentDirs) {
-      const agentJsonPath = path.join(agentsDir, dir, 'agent.json');
-      try {
-        await fs.access(agentJsonPath);
-        validAgents.push(dir);
-      } catch {
-        // Skip directories without agent.json
-      }
-    }
+function toJson(statuses: AgentStatus[]): StatusJson {
+  const workspaceJson = (status: WorkspaceStatus): WorkspaceStatusJson => ({
+    workspace: status.workspaceKey,
+    agentId: status.agentId,
+    localHash: status.localHash,
+    configHash: status.hash,
+    syncedAt: status.lastSynced !== null ? formatTimestamp(status.lastSynced) : null,
+    inSync: status.inSync,
+  });
 
-    return validAgents;
-  } catch {
-    return [];
-  }
+  return {
+    agents: statuses.map((status) => ({
+      name: status.name,
+      localHash: status.localHash,
+      staging: workspaceJson(status.staging),
+      production: status.production.map(workspaceJson),
+    })),
+  };
 }
 
 async function getAgentStatus(agentPath: string, name: string): Promise<AgentStatus> {
@@ -99,25 +136,26 @@ async function getAgentStatus(agentPath: string, name: string): Promise<AgentSta
   const mode = modeResult.success ? modeResult.value : 'single-production';
   const isMultiProduction = mode === 'multi-production';
 
-  // Load local config and calculate hash
-  const configResult = await AgentConfigLoader.load(agentPath);
-  let localHash: string | null = null;
-  if (configResult.success) {
-    const hashResult = HashCalculator.calculateAgentHash(configResult.value);
-    localHash = hashResult.success ? hashResult.value : null;
-  }
+  // Load local config (and conversation flow, if any) and calculate hash,
+  // without overrides and then as each workspace sees it
+  const hashLocal = async (workspace?: string): Promise<Hash | null> => {
+    const hashResult = await AgentHasher.hashLocal(agentPath, workspace);
+    return hashResult.success ? hashResult.value : null;
+  };
+  const isInSync = (local: Hash | null, stored: Hash | null): boolean =>
+    local !== null && stored !== null ? HashCalculator.compareHashes(local, stored) : false;
+  const localHash = await hashLocal();
 
   // Read staging metadata
   const stagingMetadata = await MetadataManager.read(agentPath, 'staging', mode);
   const stagingHash = stagingMetadata.success ? stagingMetadata.value.config_hash : null;
-  const stagingInSync =
-    localHash !== null && stagingHash !== null
-      ? HashCalculator.compareHashes(localHash as never, stagingHash as never)
-      : false;
+  const stagingLocalHash = await hashLocal('staging');
+  const stagingInSync = isInSync(stagingLocalHash, stagingHash);
 
   const staging: WorkspaceStatus = {
     workspaceKey: 'staging',
     agentId: stagingMetadata.success ? stagingMetadata.value.agent_id : null,
+    localHash: stagingLocalHash,
     hash: stagingHash,
     lastSynced:
       stagingMetadata.success && stagingMetadata.value.last_sync !== null
@@ -135,14 +173,13 @@ async function getAgentStatus(agentPath: string, name: string): Promise<AgentSta
     if (allProdResult.success && allProdResult.value.length > 0) {
       for (const entry of allProdResult.value) {
         const prodHash = entry.config_hash;
-        const prodInSync =
-          localHash !== null && prodHash !== null
-            ? HashCalculator.compareHashes(localHash as never, prodHash as never)
-            : false;
+        const prodLocalHash = await hashLocal(entry.workspace);
+        const prodInSync = isInSync(prodLocalHash, prodHash);
 
         production.push({
           workspaceKey: entry.workspace,
           agentId: entry.agent_id,
+          localHash: prodLocalHash,
           hash: prodHash,
           lastSynced: entry.last_sync !== null ? new Date(entry.last_sync).getTime() : null,
           inSync: prodInSync,
@@ -153,15 +190,14 @@ async function getAgentStatus(agentPath: string, name: string): Promise<AgentSta
     // Single-production: read single entry
     const productionMetadata = await MetadataManager.read(agentPath, 'production', mode);
     const productionHash = productionMetadata.success ? productionMetadata.value.config_hash : null;
-    const productionInSync =
-      localHash !== null && productionHash !== null
-        ? HashCalculator.compareHashes(localHash as never, productionHash as never)
-        : false;
+    const productionLocalHash = await hashLocal('production');
+    const productionInSync = isInSync(productionLocalHash, productionHash);
 
     if (productionMetadata.success && productionMetadata.value.agent_id !== null) {
       production.push({
         workspaceKey: 'production',
         agentId: productionMetadata.value.agent_id,
+        localHash: productionLocalHash,
         hash: productionHash,
         lastSynced:
           productionMetadata.value.last_sync !== null
@@ -196,6 +232,7 @@ function displayStatus(statuses: AgentStatus[]): void {
       const stagingHashDisplay =
         status.staging.hash !== null ? status.staging.hash.substring(0, 12) + '...' : 'unknown';
       console.log(`    Hash: ${stagingHashDisplay}`);
+      displayOverrideHash(status.localHash, status.staging, '    ');
       console.log(`    Last Synced: ${formatTimestamp(status.staging.lastSynced)}`);
       console.log(`    Status: ${status.staging.inSync ? '✓ IN SYNC' : '✗ OUT OF SYNC'}`);
     } else {
@@ -212,6 +249,7 @@ function displayStatus(statuses: AgentStatus[]): void {
           const prodHashDisplay =
             prod.hash !== null ? prod.hash.substring(0, 12) + '...' : 'unknown';
           console.log(`      Hash: ${prodHashDisplay}`);
+          displayOverrideHash(status.localHash, prod, '      ');
           console.log(`      Last Synced: ${formatTimestamp(prod.lastSynced)}`);
           console.log(`      Status: ${prod.inSync ? '✓ IN SYNC' : '✗ OUT OF SYNC'}`);
         }
@@ -225,6 +263,7 @@ function displayStatus(statuses: AgentStatus[]): void {
           const prodHashDisplay =
             prod.hash !== null ? prod.hash.substring(0, 12) + '...' : 'unknown';
           console.log(`    Hash: ${prodHashDisplay}`);
+          displayOverrideHash(status.localHash, prod, '    ');
           console.log(`    Last Synced: ${formatTimestamp(prod.lastSynced)}`);
           console.log(`    Status: ${prod.inSync ? '✓ IN SYNC' : '✗ OUT OF SYNC'}`);
         }
@@ -237,6 +276,19 @@ function displayStatus(statuses: AgentStatus[]): void {
   }
 }
 
+/**
+ * Show the workspace's local hash when its overrides change it
+ */
+function displayOverrideHash(
+  localHash: string | null,
+  workspace: WorkspaceStatus,
+  indent: string
+): void {
+  if (workspace.localHash !== null && workspace.localHash !== localHash) {
+    console.log(`${indent}Local (with overrides): ${workspace.localHash.substring(0, 12)}...`);
+  }
+}
+
 function formatTimestamp(timestamp: number | null): string {
   if (timestamp === null) {
     return 'never';
@@ -6,17 +6,22 @@
  */
 
 import { Command } from 'commander';
-import { WorkspaceController, HashCalculator, type AgentConfig } from '@heya/retell.controllers';
-import Retell from 'retell-sdk';
+import { WorkspaceController } from '@heya/retell.controllers';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { handleError } from '../errors/cli-error-handler';
+import { AgentHasher } from '../utils/agent-hash';
+import { KnowledgeBaseManager } from '../utils/knowledge-base';
+import { OperationHistory } from '../utils/operation-history';
+import { RetellClientFactory } from '../utils/retell-client';
+import { CliOutput } from '../utils/output';
 
 export const syncCommand = new Command('sync')
   .description('Sync local metadata files with actual workspace state')
   .option('-p, --path <path>', 'Path to agents directory', './agents')
   .option('-a, --agent <name>', 'Sync only a specific agent')
   .option('--dry-run', 'Show what would be changed without making changes', false)
+  .addOption(CliOutput.option())
   .action(async (options: SyncOptions) => {
     try {
       await executeSync(options);
@@ -34,7 +39,7 @@ type SyncOptions = {
 type AgentMetadata = {
   workspace: string;
   agent_id: string;
-  llm_id: string;
+  llm_id: string | null;
   kb_id: string | null;
   last_sync: string;
   config_hash: string | null;
@@ -52,6 +57,34 @@ type SyncResult = {
     agent_name: string;
     llm_id?: string;
   }>;
+  changes: SyncChange[];
+};
+
+/**
+ * What sync did (or, with --dry-run, would do) to one local agent's metadata
+ */
+type SyncChange = {
+  agent: string;
+  action: 'updated' | 'removed' | 'unchanged' | 'skipped';
+  /** Workspace agent the metadata now points to */
+  agentId: string | null;
+};
+
+/**
+ * `--output json` data. Workspaces that could not be queried carry an error.
+ */
+type SyncJson = {
+  mode: string;
+  dryRun: boolean;
+  workspaces: Array<{
+    workspace: string;
+    name: string;
+    type: string;
+    agentsFound: number;
+    metadataUpdated: boolean;
+    changes: SyncChange[];
+    error: string | null;
+  }>;
 };
 
 async function executeSync(options: SyncOptions): Promise<void> {
@@ -82,14 +115,12 @@ async function executeSync(options: SyncOptions): Promise<void> {
     const entries = await fs.readdir(agentsPath, { withFileTypes: true });
     agentDirs = entries.filter((e) => e.isDirectory()).map((e) => e.name);
   } catch {
-    console.error(`❌ Agents directory not found: ${agentsPath}`);
-    process.exit(1);
+    throw new Error(`Agents directory not found: ${agentsPath}`);
   }
 
   if (options.agent) {
     if (!agentDirs.includes(options.agent)) {
-      console.error(`❌ Agent not found: ${options.agent}`);
-      process.exit(1);
+      throw new Error(`Agent not found: ${options.agent}`);
     }
     agentDirs = [options.agent];
   }
@@ -98,12 +129,13 @@ async function executeSync(options: SyncOptions): Promise<void> {
 
   // Sync each workspace
   const results: SyncResult[] = [];
+  const failures: SyncJson['workspaces'] = [];
 
   for (const ws of workspaces) {
     console.log(`\n━━━ ${ws.name} (${ws.type}) ━━━`);
 
     try {
-      const client = new Retell({ apiKey: ws.apiKey });
+      const client = RetellClientFactory.create(ws);
       const agents = await client.agent.list();
 
       const result: SyncResult = {
@@ -122,6 +154,7 @@ async function executeSync(options: SyncOptions): Promise<void> {
               ? a.response_engine.llm_id
               : undefined,
         })),
+        changes: [],
       };
 
       console.log(`  Found ${agents.length} agent(s)`);
@@ -136,6 +169,7 @@ async function executeSync(options: SyncOptions): Promise<void> {
           await fs.access(agentJsonPath);
         } catch {
           console.log(`  ⚠️  ${agentDir}: No agent.json found, skipping`);
+          result.changes.push({ agent: agentDir, action: 'skipped', agentId: null });
           continue;
         }
 
@@ -164,19 +198,17 @@ async function executeSync(options: SyncOptions): Promise<void> {
           // For staging or single-production, use the type
           const workspaceKey = ws.key || ws.type;
 
-          // Calculate config_hash from local agent.json
-          let configHash: string | null = null;
-          try {
-            const agentConfig = JSON.parse(
-              await fs.readFile(agentJsonPath, 'utf-8')
-            ) as AgentConfig;
-            const hashResult = HashCalculator.calculateAgentHash(agentConfig);
-            if (hashResult.success) {
-              configHash = hashResult.value;
-            }
-          } catch {
-            // If we can't read/parse agent.json, leave hash as null
-          }
+          // Calculate config_hash from local agent.json (and conversation flow, if any)
+          // with the workspace's overrides.
+          // If the config can't be loaded, leave hash as null
+          const hashResult = await AgentHasher.hashLocal(agentPath, workspaceKey);
+          const configHash: string | null = hashResult.success ? hashResult.value : null;
+
+          // Knowledge base ID as tracked by kb push for this workspace
+          const kbMetaResult = await KnowledgeBaseManager.readMeta(agentPath);
+          const kbId = kbMetaResult.success
+            ? (kbMetaResult.value[workspaceKey]?.kb_id ?? null)
+            : null;
 
           const entry: AgentMetadata = {
             workspace: workspaceKey,
@@ -186,16 +218,24 @@ async function executeSync(options: SyncOptions): Promise<void> {
               matchingAgent.response_engine !== undefined &&
               'llm_id' in matchingAgent.response_engine
                 ? matchingAgent.response_engine.llm_id
-                : '',
-            kb_id: null,
+                : null,
+            kb_id: kbId,
             last_sync: new Date().toISOString(),
             config_hash: configHash,
             retell_version: matchingAgent.version ?? null,
           };
 
+          result.changes.push({
+            agent: agentDir,
+            action: 'updated',
+            agentId: matchingAgent.agent_id,
+          });
+
           if (options.dryRun) {
             console.log(`    Would update ${path.basename(metadataPath)}`);
           } else {
+            const previousEntry = await readExistingEntry(metadataPath, workspaceKey);
+
             // For production in multi-production mode, we need to handle the array
             if (ws.type === 'production' && modeResult.value === 'multi-production') {
               // Read existing production.json or create empty array
@@ -228,6 +268,17 @@ async function executeSync(options: SyncOptions): Promise<void> {
 
             console.log(`    Updated ${path.basename(metadataPath)}`);
             result.metadataUpdated = true;
+
+            await OperationHistory.record({
+              action: 'sync',
+              agent: agentDir,
+              workspace: workspaceKey,
+              success: true,
+              before_hash: previousEntry?.config_hash ?? null,
+              after_hash: configHash,
+              retell_version: entry.retell_version,
+              summary: `Metadata (${matchingAgent.agent_id})`,
+            });
           }
         } else {
           console.log(`  ○ ${agentDir}: Not deployed in this workspace`);
@@ -242,9 +293,13 @@ async function executeSync(options: SyncOptions): Promise<void> {
 
           try {
             await fs.access(metadataPath);
+            result.changes.push({ agent: agentDir, action: 'removed', agentId: null });
             if (options.dryRun) {
               console.log(`    Would remove stale ${path.basename(metadataPath)}`);
             } else {
+              const wsKey = ws.key || ws.type;
+              const previousEntry = await readExistingEntry(metadataPath, wsKey);
+
               // For multi-production, remove just this workspace's entry
               if (ws.type === 'production' && modeResult.value === 'multi-production') {
                 try {
@@ -255,7 +310,6 @@ async function executeSync(options: SyncOptions): Promise<void> {
                   }
 
                   // Remove entry by workspace key (e.g., "prod-1")
-                  const wsKey = ws.key || ws.type;
                   const filtered = existingEntries.filter((e) => e.workspace !== wsKey);
 
                   if (filtered.length > 0) {
@@ -273,19 +327,63 @@ async function executeSync(options: SyncOptions): Promise<void> {
                 console.log(`    Removed stale ${path.basename(metadataPath)}`);
               }
               result.metadataUpdated = true;
+
+              await OperationHistory.record({
+                action: 'sync',
+                agent: agentDir,
+                workspace: wsKey,
+                success: true,
+                before_hash: previousEntry?.config_hash ?? null,
+                after_hash: null,
+                retell_version: null,
+                summary: 'Removed stale metadata',
+              });
             }
           } catch {
             // File doesn't exist, nothing to remove
+            if (result.changes[result.changes.length - 1]?.agent !== agentDir) {
+              result.changes.push({ agent: agentDir, action: 'unchanged', agentId: null });
+            }
           }
         }
       }
 
       results.push(result);
     } catch (error) {
-      console.log(`  ❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.log(`  ❌ Error: ${message}`);
+      failures.push({
+        workspace: ws.key || ws.type,
+        name: ws.name,
+        type: ws.type,
+        agentsFound: 0,
+        metadataUpdated: false,
+        changes: [],
+        error: message,
+      });
     }
   }
 
+  if (CliOutput.isJson()) {
+    CliOutput.result<SyncJson>({
+      mode: modeResult.value,
+      dryRun: options.dryRun,
+      workspaces: [
+        ...results.map((r) => ({
+          workspace: r.workspaceKey,
+          name: r.workspaceName,
+          type: r.workspaceType,
+          agentsFound: r.agentsFound,
+          metadataUpdated: r.metadataUpdated,
+          changes: r.changes,
+          error: null,
+        })),
+        ...failures,
+      ],
+    });
+    return;
+  }
+
   // Summary
   console.log('\n━━━ Summary ━━━\n');
 
@@ -301,3 +399,22 @@ async function executeSync(options: SyncOptions): Promise<void> {
 
   console.log('');
 }
+
+/**
+ * Read the metadata entry currently stored for a workspace, if any.
+ * production.json may hold an array of entries in multi-production mode.
+ */
+async function readExistingEntry(
+  metadataPath: string,
+  workspaceKey: string
+): Promise<AgentMetadata | null> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(metadataPath, 'utf-8')) as
+      | AgentMetadata
+      | AgentMetadata[];
+    const entries = Array.isArray(parsed) ? parsed : [parsed];
+    return entries.find((e) => e.workspace === workspaceKey) ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Validate command - Offline validation of agent configurations.
+ *
+ * Runs schema and cross-file checks without contacting Retell, so it needs
+ * no API key and can gate pull requests in CI. Exits nonzero on errors.
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import { handleError } from '../errors/cli-error-handler';
+import { AgentIndex } from '../utils/agent-index';
+import { AgentValidator } from '../utils/agent-validator';
+import { GitChangeDetector } from '../utils/git-changes';
+import { CliOutput } from '../utils/output';
+
+export const validateCommand = new Command('validate')
+  .description('Validate agent configuration offline (no API key required)')
+  .argument('[agent-name]', 'Name of the agent to validate (omit with --all or --since)')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--prompts <path>', 'Path to prompts directory', './prompts')
+  .option('--all', 'Validate all agents', false)
+  .option('--since <git-ref>', 'Validate agents affected by files changed since this git ref')
+  .addOption(CliOutput.option())
+  .action(async (agentName: string | undefined, options: ValidateOptions) => {
+    try {
+      await executeValidate(agentName, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+type ValidateOptions = {
+  path: string;
+  prompts: string;
+  all: boolean;
+  since?: string;
+};
+
+/**
+ * `--output json` data
+ */
+type ValidateJson = {
+  agents: Array<{
+    agent: string;
+    valid: boolean;
+    passed: string[];
+    warnings: string[];
+    errors: string[];
+  }>;
+  warnings: number;
+  errors: number;
+};
+
+async function executeValidate(
+  agentName: string | undefined,
+  options: ValidateOptions
+): Promise<void> {
+  const agentsPath = path.resolve(options.path);
+  const promptsPath = path.resolve(options.prompts);
+
+  let agentNames: string[];
+  if (options.since !== undefined) {
+    const affectedResult = await GitChangeDetector.affectedAgents(
+      options.since,
+      agentsPath,
+      promptsPath
+    );
+    if (!affectedResult.success) {
+      throw affectedResult.error;
+    }
+    const agentsResult = await AgentIndex.list(agentsPath);
+    if (!agentsResult.success) {
+      throw agentsResult.error;
+    }
+    const agents = agentsResult.value;
+    agentNames = affectedResult.value
+      .map((agent) => agent.name)
+      .filter((name) => agents.includes(name));
+    if (agentNames.length === 0) {
+      console.log(`\nNo agents affected since ${options.since}`);
+      CliOutput.result<ValidateJson>({ agents: [], warnings: 0, errors: 0 });
+      return;
+    }
+  } else if (options.all) {
+    const agentsResult = await AgentIndex.list(agentsPath);
+    if (!agentsResult.success) {
+      throw agentsResult.error;
+    }
+    agentNames = agentsResult.value;
+    if (agentNames.length === 0) {
+      console.log(`\nNo agents found in ${agentsPath}`);
+      CliOutput.result<ValidateJson>({ agents: [], warnings: 0, errors: 0 });
+      return;
+    }
+  } else if (agentName !== undefined) {
+    agentNames = [agentName];
+  } else {
+    throw new Error('Specify an agent name or use --all');
+  }
+
+  let totalErrors = 0;
+  let totalWarnings = 0;
+  const failedAgents: string[] = [];
+  const reports: ValidateJson['agents'] = [];
+
+  for (const name of agentNames) {
+    console.log(`\nValidating: ${name}\n`);
+
+    const report = await AgentValidator.validate(path.join(agentsPath, name), promptsPath);
+
+    for (const passed of report.passed) {
+      console.log(`✅ ${passed}`);
+    }
+    for (const warning of report.warnings) {
+      console.log(`⚠️  ${warning}`);
+    }
+    for (const error of report.errors) {
+      console.log(`❌ ${error}`);
+    }
+
+    reports.push({
+      agent: name,
+      valid: report.errors.length === 0,
+      passed: [...report.passed],
+      warnings: [...report.warnings],
+      errors: [...report.errors],
+    });
+    totalErrors += report.errors.length;
+    totalWarnings += report.warnings.length;
+    if (report.errors.length > 0) {
+      failedAgents.push(name);
+    }
+  }
+
+  console.log(`\nWarnings: ${totalWarnings}`);
+  console.log(`Errors: ${totalErrors}`);
+
+  if (CliOutput.isJson()) {
+    // The report carries the failures; exit 1 without an error document
+    CliOutput.result<ValidateJson>({
+      agents: reports,
+      warnings: totalWarnings,
+      errors: totalErrors,
+    });
+    if (totalErrors > 0) {
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (totalErrors > 0) {
+    throw new Error(
+      `Validation failed for ${failedAgents.length} agent(s): ${failedAgents.join(', ')}`
+    );
+  }
+
+  console.log(`\n✓ ${agentNames.length} agent(s) valid`);
+}
@@ -4,9 +4,12 @@
  */
 
 import { Command } from 'commander';
+import * as path from 'path';
 import { VersionController } from '@heya/retell.controllers';
 import type { WorkspaceType } from '@heya/retell.controllers';
 import { handleError } from '../errors/cli-error-handler';
+import { OperationHistory } from '../utils/operation-history';
+import { CliOutput } from '../utils/output';
 
 // ============================================================================
 // Version History Command
@@ -17,11 +20,31 @@ type HistoryOptions = {
   path: string;
 };
 
+/**
+ * `--output json` data
+ */
+type VersionListJson = {
+  agent: string;
+  agentId: string;
+  currentVersion: number;
+  publishedVersion: number | null;
+  draftVersion: number | null;
+  totalVersions: number;
+  /** Newest first */
+  versions: Array<{
+    version: number;
+    isPublished: boolean;
+    lastModified: string;
+    agentName: string | null;
+  }>;
+};
+
 const historyCommand = new Command('history')
   .description('Show version history for an agent')
   .argument('<agent-name>', 'Name of the agent')
   .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
   .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .addOption(CliOutput.option())
   .action(async (agentName: string, options: HistoryOptions) => {
     try {
       await executeHistory(agentName, options);
@@ -46,6 +69,27 @@ async function executeHistory(agentName: string, options: HistoryOptions): Promi
   const { agentId, currentVersion, publishedVersion, draftVersion, versions, totalVersions } =
     result.value;
 
+  // Sort versions by version number descending
+  const sortedVersions = [...versions].sort((a, b) => b.version - a.version);
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<VersionListJson>({
+      agent: agentName,
+      agentId,
+      currentVersion,
+      publishedVersion,
+      draftVersion,
+      totalVersions,
+      versions: sortedVersions.map((version) => ({
+        version: version.version,
+        isPublished: version.isPublished,
+        lastModified: version.lastModified.toISOString(),
+        agentName: version.agentName ?? null,
+      })),
+    });
+    return;
+  }
+
   console.log(`Agent: ${agentName}`);
   console.log(`Agent ID: ${agentId}`);
   console.log(`Total versions: ${totalVersions}`);
@@ -55,9 +99,6 @@ async function executeHistory(agentName: string, options: HistoryOptions): Promi
   console.log('\nVersion History:');
   console.log('─'.repeat(60));
 
-  // Sort versions by version number descending
-  const sortedVersions = [...versions].sort((a, b) => b.version - a.version);
-
   for (const version of sortedVersions) {
     const status = version.isPublished ? '[published]' : '[draft]';
     const date = version.lastModified.toISOString().split('T')[0];
@@ -74,11 +115,23 @@ type PublishOptions = {
   path: string;
 };
 
+/**
+ * `--output json` data
+ */
+type PublishJson = {
+  agent: string;
+  agentId: string;
+  publishedVersion: number;
+  newDraftVersion: number;
+  timestamp: string;
+};
+
 const publishCommand = new Command('publish')
   .description('Publish current agent version (creates immutable snapshot)')
   .argument('<agent-name>', 'Name of the agent')
   .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
   .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .addOption(CliOutput.option())
   .action(async (agentName: string, options: PublishOptions) => {
     try {
       await executePublish(agentName, options);
@@ -90,6 +143,28 @@ const publishCommand = new Command('publish')
 async function executePublish(agentName: string, options: PublishOptions): Promise<void> {
   console.log(`\nPublishing agent '${agentName}' in ${options.workspace}...\n`);
 
+  // Publishing snapshots the remote agent; the local config hash is unchanged
+  const { config_hash, retell_version } = await OperationHistory.readSyncState(
+    path.resolve(options.path, agentName),
+    options.workspace
+  );
+  const recordHistory = async (
+    success: boolean,
+    version: number | null,
+    summary: string
+  ): Promise<void> => {
+    await OperationHistory.record({
+      action: 'publish',
+      agent: agentName,
+      workspace: options.workspace,
+      success,
+      before_hash: config_hash,
+      after_hash: config_hash,
+      retell_version: version,
+      summary,
+    });
+  };
+
   const controller = new VersionController();
   const result = await controller.publish(agentName, {
     workspace: options.workspace,
@@ -97,11 +172,25 @@ async function executePublish(agentName: string, options: PublishOptions): Promi
   });
 
   if (!result.success) {
+    await recordHistory(false, retell_version, result.error.message);
     throw result.error;
   }
 
   const { agentId, publishedVersion, newDraftVersion, timestamp } = result.value;
 
+  await recordHistory(true, publishedVersion, `Published v${publishedVersion}`);
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<PublishJson>({
+      agent: agentName,
+      agentId,
+      publishedVersion,
+      newDraftVersion,
+      timestamp: timestamp.toISOString(),
+    });
+    return;
+  }
+
   console.log(`✓ Published successfully!`);
   console.log(`  Agent ID: ${agentId}`);
   console.log(`  Published version: ${publishedVersion}`);
@@ -120,6 +209,22 @@ type RollbackOptions = {
   publish: boolean;
 };
 
+/**
+ * `--output json` data
+ */
+type RollbackJson = {
+  agent: string;
+  agentId: string;
+  llmId: string | null;
+  previousVersion: number;
+  restoredToVersion: number;
+  /** Version published after the rollback; null unless --publish */
+  newVersion: number | null;
+  dryRun: boolean;
+  /** response_engine could not be restored on a published agent */
+  responseEngineSkipped: boolean;
+};
+
 const rollbackCommand = new Command('rollback')
   .description('Rollback agent to a previous version')
   .argument('<agent-name>', 'Name of the agent')
@@ -128,6 +233,7 @@ const rollbackCommand = new Command('rollback')
   .option('-p, --path <path>', 'Path to agents directory', './agents')
   .option('--dry-run', 'Preview rollback without making changes', false)
   .option('--publish', 'Publish immediately after rollback', false)
+  .addOption(CliOutput.option())
   .action(async (agentName: string, version: string, options: RollbackOptions) => {
     try {
       await executeRollback(agentName, parseInt(version, 10), options);
@@ -146,6 +252,26 @@ async function executeRollback(
     `\n${action} '${agentName}' to version ${targetVersion} in ${options.workspace}...\n`
   );
 
+  const agentPath = path.resolve(options.path, agentName);
+  const before = await OperationHistory.readSyncState(agentPath, options.workspace);
+  const recordHistory = async (
+    success: boolean,
+    version: number | null,
+    summary: string
+  ): Promise<void> => {
+    const after = await OperationHistory.readSyncState(agentPath, options.workspace);
+    await OperationHistory.record({
+      action: 'rollback',
+      agent: agentName,
+      workspace: options.workspace,
+      success,
+      before_hash: before.config_hash,
+      after_hash: after.config_hash,
+      retell_version: version ?? after.retell_version,
+      summary,
+    });
+  };
+
   const controller = new VersionController();
   const result = await controller.rollback(agentName, {
     workspace: options.workspace,
@@ -156,6 +282,9 @@ async function executeRollback(
   });
 
   if (!result.success) {
+    if (!options.dryRun) {
+      await recordHistory(false, null, result.error.message);
+    }
     throw result.error;
   }
 
@@ -169,6 +298,28 @@ async function executeRollback(
     responseEngineSkipped,
   } = result.value;
 
+  if (!dryRun) {
+    await recordHistory(
+      true,
+      newVersion,
+      `Rolled back v${previousVersion} → v${restoredToVersion}`
+    );
+  }
+
+  if (CliOutput.isJson()) {
+    CliOutput.result<RollbackJson>({
+      agent: agentName,
+      agentId,
+      llmId: llmId ?? null,
+      previousVersion,
+      restoredToVersion,
+      newVersion,
+      dryRun,
+      responseEngineSkipped: responseEngineSkipped === true,
+    });
+    return;
+  }
+
   if (dryRun) {
     console.log(`Dry run - no changes made.`);
     console.log(`\nWould rollback:`);
@@ -209,11 +360,24 @@ type DriftOptions = {
   path: string;
 };
 
+/**
+ * `--output json` data
+ */
+type DriftJson = {
+  agent: string;
+  hasDrift: boolean;
+  storedVersion: number | null;
+  remoteVersion: number;
+  versionsBehind: number;
+  message: string;
+};
+
 const driftCommand = new Command('drift')
   .description('Check for version drift between local and remote')
   .argument('<agent-name>', 'Name of the agent')
   .option('-w, --workspace <workspace>', 'Target workspace (staging or production)', 'staging')
   .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .addOption(CliOutput.option())
   .action(async (agentName: string, options: DriftOptions) => {
     try {
       await executeDrift(agentName, options);
@@ -237,6 +401,18 @@ async function executeDrift(agentName: string, options: DriftOptions): Promise<v
 
   const { hasDrift, storedVersion, remoteVersion, versionsBehind, message } = result.value;
 
+  if (CliOutput.isJson()) {
+    CliOutput.result<DriftJson>({
+      agent: agentName,
+      hasDrift,
+      storedVersion,
+      remoteVersion,
+      versionsBehind,
+      message,
+    });
+    return;
+  }
+
   if (hasDrift) {
     console.log(`⚠ Version drift detected!`);
     console.log(`  ${message}`);
@@ -0,0 +1,151 @@
+/**
+ * Workspace add command - Add a workspace to workspaces.json
+ *
+ * The entry references its API key by environment variable (api_key_env), so
+ * workspaces.json stays safe to commit. A key given on the command line is
+ * stored in .env (gitignored) under that variable.
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import { WorkspaceController } from '@heya/retell.controllers';
+import { handleError } from '../errors/cli-error-handler';
+import { RetellClientFactory } from '../utils/retell-client';
+import { WorkspacesFile } from '../utils/workspaces-file';
+import { CliOutput } from '../utils/output';
+
+export const workspaceAddCommand = new Command('add')
+  .description('Add a workspace (staging, production, or a named production workspace)')
+  .argument('<name>', "Workspace name: 'staging', 'production', or e.g. 'prod-us-east'")
+  .argument('[api-key]', 'API key to store in .env (omit if the variable is already set)')
+  .option('--api-key-env <var>', 'Environment variable holding the API key')
+  .option('--display-name <name>', 'Human-readable workspace name')
+  .option('--base-url <url>', 'Override API base URL', WorkspacesFile.DEFAULT_BASE_URL)
+  .option('--env-file <path>', 'File to store the API key in', '.env')
+  .option('--skip-validation', 'Do not check the API key against Retell', false)
+  .addOption(CliOutput.option())
+  .action(async (name: string, apiKey: string | undefined, options: WorkspaceAddOptions) => {
+    try {
+      await executeWorkspaceAdd(name, apiKey, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+type WorkspaceAddOptions = {
+  apiKeyEnv?: string;
+  displayName?: string;
+  baseUrl: string;
+  envFile: string;
+  skipValidation: boolean;
+};
+
+/**
+ * `--output json` data
+ */
+type WorkspaceAddJson = {
+  workspace: string;
+  mode: string;
+  apiKeyEnv: string;
+  baseUrl: string;
+  /** Env file the API key was stored in, or null when none was given */
+  storedIn: string | null;
+  apiKeySet: boolean;
+  created: boolean;
+};
+
+async function executeWorkspaceAdd(
+  name: string,
+  apiKey: string | undefined,
+  options: WorkspaceAddOptions
+): Promise<void> {
+  console.log(`\nAdding workspace '${name}'...\n`);
+
+  const configResult = await WorkspacesFile.read();
+  if (!configResult.success) {
+    throw configResult.error;
+  }
+
+  const envVar = options.apiKeyEnv ?? WorkspacesFile.getEnvVarName(name);
+  const addResult = WorkspacesFile.add(configResult.value, name, {
+    api_key_env: envVar,
+    name: options.displayName ?? getDefaultDisplayName(name),
+    base_url: options.baseUrl,
+  });
+  if (!addResult.success) {
+    throw addResult.error;
+  }
+
+  // Validate the key before writing anything
+  const key = apiKey ?? process.env[envVar];
+  if (key !== undefined && key !== '' && !options.skipValidation) {
+    console.log('Validating API key...');
+    try {
+      const client = RetellClientFactory.create({ apiKey: key, baseUrl: options.baseUrl });
+      const agents = await client.agent.list();
+      console.log(`✓ API key valid (${agents.length} agent(s) in workspace)\n`);
+    } catch (error) {
+      throw new Error(
+        `API key rejected by Retell: ${error instanceof Error ? error.message : 'unknown error'}\n` +
+          'Use --skip-validation to add the workspace anyway.'
+      );
+    }
+  }
+
+  if (apiKey !== undefined) {
+    const envFilePath = path.resolve(options.envFile);
+    const envResult = await WorkspacesFile.setEnvVar(envFilePath, envVar, apiKey);
+    if (!envResult.success) {
+      throw envResult.error;
+    }
+    console.log(`✓ Stored API key in ${options.envFile} as ${envVar}`);
+  }
+
+  const controller = new WorkspaceController();
+  const existed = await controller.exists();
+
+  const writeResult = await WorkspacesFile.write(addResult.value);
+  if (!writeResult.success) {
+    throw writeResult.error;
+  }
+
+  console.log(`✓ ${existed ? 'Updated' : 'Created'} workspaces.json`);
+  console.log(`\nWorkspace '${name}':`);
+  console.log(`  Mode: ${WorkspacesFile.getMode(addResult.value)}`);
+  console.log(`  API key: ${envVar}`);
+  console.log(`  Base URL: ${options.baseUrl}`);
+
+  if (key === undefined || key === '') {
+    console.log(
+      `\n⚠ ${envVar} is not set. Set it (or add it to .env) before using this workspace.`
+    );
+  }
+
+  const keys = WorkspacesFile.listKeys(addResult.value);
+  if (!keys.includes('staging')) {
+    console.log(`\nNext: add a staging workspace with 'retell workspace add staging'.`);
+  } else if (keys.length === 1) {
+    console.log(`\nNext: add a production workspace with 'retell workspace add production'.`);
+  }
+  console.log('');
+
+  CliOutput.result<WorkspaceAddJson>({
+    workspace: name,
+    mode: WorkspacesFile.getMode(addResult.value),
+    apiKeyEnv: envVar,
+    baseUrl: options.baseUrl,
+    storedIn: apiKey !== undefined ? options.envFile : null,
+    apiKeySet: key !== undefined && key !== '',
+    created: !existed,
+  });
+}
+
+function getDefaultDisplayName(name: string): string {
+  if (name === 'staging') {
+    return 'Staging Workspace';
+  }
+  if (name === 'production') {
+    return 'Production Workspace';
+  }
+  return name;
+}
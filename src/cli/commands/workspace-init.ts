@@ -1,14 +1,26 @@
 /**
  * Workspace init command - Generate workspaces.json from environment variables
+ *
+ * API keys are referenced by environment variable name (api_key_env), so the
+ * generated file contains no secrets and can be committed.
  */
 
 import { Command } from 'commander';
 import { WorkspaceController } from '@heya/retell.controllers';
+import type { OrchestrationMode } from '@heya/retell.controllers';
 import { handleError } from '../errors/cli-error-handler';
+import { WorkspacesFile } from '../utils/workspaces-file';
+import { CliOutput } from '../utils/output';
 
 export const workspaceInitCommand = new Command('init')
   .description('Generate workspaces.json from environment variables')
+  .option(
+    '--mode <mode>',
+    'Orchestration mode: single-production or multi-production',
+    'single-production'
+  )
   .option('-f, --force', 'Overwrite existing workspaces.json', false)
+  .addOption(CliOutput.option())
   .action(async (options: WorkspaceInitOptions) => {
     try {
       await executeWorkspaceInit(options);
@@ -18,43 +30,79 @@ export const workspaceInitCommand = new Command('init')
   });
 
 type WorkspaceInitOptions = {
+  mode: OrchestrationMode;
   force: boolean;
 };
 
+/**
+ * `--output json` data
+ */
+type WorkspaceInitJson = {
+  mode: OrchestrationMode;
+  workspaces: Array<{ key: string; apiKeyEnv: string }>;
+  /** Variables named in workspaces.json that are not set */
+  missingEnvVars: string[];
+};
+
 async function executeWorkspaceInit(options: WorkspaceInitOptions): Promise<void> {
   console.log('\nGenerating workspaces.json from environment variables...\n');
 
+  if (options.mode !== 'single-production' && options.mode !== 'multi-production') {
+    throw new Error(
+      `Invalid mode: ${options.mode as string}. Use single-production or multi-production.`
+    );
+  }
+
   const controller = new WorkspaceController();
 
   // Check if file exists and force not set
   const exists = await controller.exists();
   if (exists && !options.force) {
-    console.error('workspaces.json already exists. Use --force to overwrite.');
-    process.exit(1);
+    throw new Error('workspaces.json already exists. Use --force to overwrite.');
   }
 
-  // If force, remove existing file
   if (exists && options.force) {
     console.log('Overwriting existing workspaces.json...\n');
-    const fs = await import('fs/promises');
-    const path = await import('path');
-    const workspacesPath = path.resolve(process.cwd(), 'workspaces.json');
-    await fs.unlink(workspacesPath);
   }
 
-  // Generate from environment
-  const result = await controller.init({ force: options.force });
+  console.log(`Mode: ${options.mode}\n`);
 
-  if (!result.success) {
-    throw result.error;
+  const config = WorkspacesFile.generate(options.mode);
+  if (options.mode === 'multi-production' && WorkspacesFile.listKeys(config).length === 1) {
+    throw new Error(
+      'No production workspaces found. Set RETELL_PRODUCTION_<NAME>_API_KEY for each ' +
+        'production workspace (e.g. RETELL_PRODUCTION_US_EAST_API_KEY).'
+    );
+  }
+
+  const writeResult = await WorkspacesFile.write(config);
+  if (!writeResult.success) {
+    throw writeResult.error;
   }
 
   console.log('✓ Successfully created workspaces.json\n');
   console.log('Workspace configuration:');
-  console.log('  - staging: Uses RETELL_STAGING_API_KEY');
-  console.log('  - production: Uses RETELL_PRODUCTION_API_KEY');
+  console.log(`  - Mode: ${options.mode}`);
+  for (const key of WorkspacesFile.listKeys(config)) {
+    console.log(`  - ${key}: Uses ${WorkspacesFile.getEntry(config, key)?.api_key_env ?? ''}`);
+  }
+
+  // The file only names the variables, so missing values are not fatal here
+  const missingEnvVars = WorkspacesFile.findMissingEnvVars(config);
+  for (const envVar of missingEnvVars) {
+    console.log(`\n⚠ ${envVar} is not set. Set it before pushing to that workspace.`);
+  }
 
   console.log('\nNote: API keys are now referenced by environment variable name.');
   console.log('      The workspaces.json file can be safely committed to git.');
   console.log('');
+
+  CliOutput.result<WorkspaceInitJson>({
+    mode: options.mode,
+    workspaces: WorkspacesFile.listKeys(config).map((key) => ({
+      key,
+      apiKeyEnv: WorkspacesFile.getEntry(config, key)?.api_key_env ?? '',
+    })),
+    missingEnvVars: [...missingEnvVars],
+  });
 }
@@ -4,10 +4,13 @@
 
 import { Command } from 'commander';
 import { WorkspaceController } from '@heya/retell.controllers';
+import type { OrchestrationMode } from '@heya/retell.controllers';
 import { handleError } from '../errors/cli-error-handler';
+import { CliOutput } from '../utils/output';
 
 export const workspaceListCommand = new Command('list')
   .description('List all configured workspaces')
+  .addOption(CliOutput.option())
   .action(async () => {
     try {
       await executeWorkspaceList();
@@ -16,6 +19,21 @@ export const workspaceListCommand = new Command('list')
     }
   });
 
+/**
+ * `--output json` data
+ */
+type WorkspaceListJson = {
+  mode: OrchestrationMode;
+  workspaces: Array<{
+    name: string;
+    type: string;
+    /** Workspace key in multi-production mode */
+    key: string | null;
+    baseUrl: string;
+    hasApiKey: boolean;
+  }>;
+};
+
 async function executeWorkspaceList(): Promise<void> {
   console.log('\nConfigured workspaces:\n');
 
@@ -36,6 +54,19 @@ async function executeWorkspaceList(): Promise<void> {
   }
 
   const workspaces = result.value;
+  if (CliOutput.isJson()) {
+    CliOutput.result<WorkspaceListJson>({
+      mode: modeResult.value,
+      workspaces: workspaces.map((ws) => ({
+        name: ws.name,
+        type: ws.type,
+        key: ws.key ?? null,
+        baseUrl: ws.baseUrl,
+        hasApiKey: ws.hasApiKey,
+      })),
+    });
+    return;
+  }
 
   // Print table header
   console.log(
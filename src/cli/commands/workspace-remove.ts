@@ -0,0 +1,119 @@
+/**
+ * Workspace remove command - Remove a workspace from workspaces.json
+ *
+ * Only the configuration entry is removed; agents and other resources in the
+ * Retell workspace are left untouched.
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import * as readline from 'readline';
+import { WorkspaceController } from '@heya/retell.controllers';
+import { handleError } from '../errors/cli-error-handler';
+import { WorkspacesFile } from '../utils/workspaces-file';
+import { CliOutput } from '../utils/output';
+
+export const workspaceRemoveCommand = new Command('remove')
+  .description('Remove a workspace from workspaces.json (remote resources are kept)')
+  .argument('<name>', "Workspace name: 'staging', 'production', or a named production workspace")
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('-y, --yes', 'Skip confirmation prompt', false)
+  .addOption(CliOutput.option())
+  .action(async (name: string, options: WorkspaceRemoveOptions) => {
+    try {
+      await executeWorkspaceRemove(name, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+type WorkspaceRemoveOptions = {
+  path: string;
+  yes: boolean;
+};
+
+/**
+ * `--output json` data
+ */
+type WorkspaceRemoveJson = {
+  workspace: string;
+  /** Agents with metadata for the workspace; it is kept */
+  references: Array<{ agent: string; file: string }>;
+};
+
+async function executeWorkspaceRemove(
+  name: string,
+  options: WorkspaceRemoveOptions
+): Promise<void> {
+  const controller = new WorkspaceController();
+  if (!(await controller.exists())) {
+    throw new Error("workspaces.json not found. Run 'retell workspace init' first.");
+  }
+
+  const configResult = await WorkspacesFile.read();
+  if (!configResult.success) {
+    throw configResult.error;
+  }
+
+  const removeResult = WorkspacesFile.remove(configResult.value, name);
+  if (!removeResult.success) {
+    throw removeResult.error;
+  }
+
+  console.log(`\nRemoving workspace '${name}'...\n`);
+
+  const references = await WorkspacesFile.findReferences(path.resolve(options.path), name);
+  if (references.length > 0) {
+    console.log(`Agents with metadata for '${name}':`);
+    for (const ref of references) {
+      console.log(`  - ${ref.agent} (${ref.file})`);
+    }
+    console.log('\nTheir metadata is kept; the agents remain deployed in Retell.\n');
+  }
+
+  if (!options.yes && CliOutput.isJson()) {
+    throw new Error('Use --yes with --output json; workspace remove cannot ask for confirmation.');
+  }
+  if (!options.yes) {
+    const confirmed = await confirmRemoval(name);
+    if (!confirmed) {
+      console.log('\nRemoval cancelled.');
+      return;
+    }
+  }
+
+  const writeResult = await WorkspacesFile.write(removeResult.value);
+  if (!writeResult.success) {
+    throw writeResult.error;
+  }
+
+  console.log(`\n✓ Removed '${name}' from workspaces.json`);
+
+  const keys = WorkspacesFile.listKeys(removeResult.value);
+  if (!keys.includes('staging') || keys.length === 1) {
+    console.log(
+      `\n⚠ workspaces.json needs a staging and a production workspace. Add one with 'retell workspace add'.`
+    );
+  }
+  console.log('');
+
+  CliOutput.result<WorkspaceRemoveJson>({
+    workspace: name,
+    references: references.map((ref) => ({ agent: ref.agent, file: ref.file })),
+  });
+}
+
+async function confirmRemoval(name: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`Remove workspace '${name}' from workspaces.json? (yes/no): `, (answer) => {
+      rl.close();
+      const normalized = answer.trim().toLowerCase();
+      resolve(normalized === 'yes' || normalized === 'y');
+    });
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * Workspace rename command - Rename a multi-production workspace
+ *
+ * Metadata entries are keyed by workspace name, so agents' production.json
+ * and knowledge/.kb-meta.json are updated along with workspaces.json.
+ */
+
+import { Command } from 'commander';
+import * as path from 'path';
+import { WorkspaceController } from '@heya/retell.controllers';
+import { handleError } from '../errors/cli-error-handler';
+import { WorkspacesFile } from '../utils/workspaces-file';
+import { CliOutput } from '../utils/output';
+
+export const workspaceRenameCommand = new Command('rename')
+  .description('Rename a multi-production workspace and update agent metadata')
+  .argument('<old-name>', 'Current workspace name')
+  .argument('<new-name>', 'New workspace name')
+  .option('-p, --path <path>', 'Path to agents directory', './agents')
+  .option('--display-name <name>', 'Also set the human-readable workspace name')
+  .addOption(CliOutput.option())
+  .action(async (oldName: string, newName: string, options: WorkspaceRenameOptions) => {
+    try {
+      await executeWorkspaceRename(oldName, newName, options);
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+type WorkspaceRenameOptions = {
+  path: string;
+  displayName?: string;
+};
+
+/**
+ * `--output json` data
+ */
+type WorkspaceRenameJson = {
+  from: string;
+  to: string;
+  /** Agent metadata files updated for the new name */
+  files: string[];
+};
+
+async function executeWorkspaceRename(
+  oldName: string,
+  newName: string,
+  options: WorkspaceRenameOptions
+): Promise<void> {
+  console.log(`\nRenaming workspace '${oldName}' to '${newName}'...\n`);
+
+  const controller = new WorkspaceController();
+  if (!(await controller.exists())) {
+    throw new Error("workspaces.json not found. Run 'retell workspace init' first.");
+  }
+
+  const configResult = await WorkspacesFile.read();
+  if (!configResult.success) {
+    throw configResult.error;
+  }
+
+  const renameResult = WorkspacesFile.rename(
+    configResult.value,
+    oldName,
+    newName,
+    options.displayName
+  );
+  if (!renameResult.success) {
+    throw renameResult.error;
+  }
+
+  // Agent metadata is keyed by workspace name
+  const referencesResult = await WorkspacesFile.renameReferences(
+    path.resolve(options.path),
+    oldName,
+    newName
+  );
+  if (!referencesResult.success) {
+    throw referencesResult.error;
+  }
+
+  const writeResult = await WorkspacesFile.write(renameResult.value);
+  if (!writeResult.success) {
+    throw writeResult.error;
+  }
+
+  console.log(`✓ Renamed '${oldName}' to '${newName}' in workspaces.json`);
+  if (referencesResult.value.length > 0) {
+    console.log(`✓ Updated ${referencesResult.value.length} agent metadata file(s):`);
+    for (const file of referencesResult.value) {
+      console.log(`  - ${file}`);
+    }
+  }
+
+  console.log('');
+  CliOutput.result<WorkspaceRenameJson>({
+    from: oldName,
+    to: newName,
+    files: [...referencesResult.value],
+  });
+}
@@ -1,4 +1,5 @@
 import type { RetellError, RetellErrorCode } from '@heya/retell.controllers';
+import { CliOutput } from '../utils/output';
 
 /**
  * CLI-specific error with formatted output
@@ -6,12 +7,19 @@ import type { RetellError, RetellErrorCode } from '@heya/retell.controllers';
 export class CLIError extends Error {
   readonly exitCode: number;
   readonly hint?: string;
-
-  constructor(message: string, exitCode = 1, hint?: string) {
+  readonly code: RetellErrorCode;
+
+  constructor(
+    message: string,
+    exitCode = 1,
+    hint?: string,
+    code: RetellErrorCode = 'UNKNOWN_ERROR'
+  ) {
     super(message);
     this.name = 'CLIError';
     this.exitCode = exitCode;
     this.hint = hint;
+    this.code = code;
   }
 
   /**
@@ -19,7 +27,12 @@ export class CLIError extends Error {
    */
   static fromRetellError(error: RetellError): CLIError {
     const mapped = mapRetellErrorToCLI(error);
-    return new CLIError(mapped.message, mapped.exitCode, mapped.hint);
+    return new CLIError(
+      mapped.message,
+      mapped.exitCode,
+      mapped.hint,
+      error.code as RetellErrorCode
+    );
   }
 }
 
@@ -233,43 +246,59 @@ function mapRetellErrorToCLI(error: RetellError): CLIErrorDetails {
 }
 
 /**
- * Handle RetellError and exit with appropriate message
+ * Print a CLIError (as JSON with --output json) and exit
  */
-export function handleRetellError(error: RetellError): never {
-  const cliError = CLIError.fromRetellError(error);
-
-  console.error(`\n❌ ${cliError.message}`);
-
-  if (cliError.hint) {
-    console.error(`\n   Hint: ${cliError.hint}`);
+function exitWithError(error: CLIError): never {
+  if (CliOutput.isJson()) {
+    CliOutput.error({
+      code: error.code,
+      message: error.message,
+      hint: error.hint ?? null,
+      exitCode: error.exitCode,
+    });
+  } else {
+    console.error(`\n❌ ${error.message}`);
+    if (error.hint) {
+      console.error(`\n   Hint: ${error.hint}`);
+    }
   }
 
-  process.exit(cliError.exitCode);
+  process.exit(error.exitCode);
+}
+
+/**
+ * Handle RetellError and exit with appropriate message
+ */
+export function handleRetellError(error: RetellError): never {
+  exitWithError(CLIError.fromRetellError(error));
 }
 
 /**
  * Handle any error (RetellError or other) and exit
  */
 export function handleError(error: unknown): never {
-  if (isRetellError(error)) {
-    handleRetellError(error);
-  }
+  exitWithError(toCLIError(error));
+}
 
+/**
+ * Convert any error (RetellError or other) to a CLIError, for commands that
+ * report failures without exiting
+ */
+export function toCLIError(error: unknown): CLIError {
+  // CLIError also has a code, so check it before the RetellError shape
   if (error instanceof CLIError) {
-    console.error(`\n❌ ${error.message}`);
-    if (error.hint) {
-      console.error(`\n   Hint: ${error.hint}`);
-    }
-    process.exit(error.exitCode);
+    return error;
+  }
+
+  if (isRetellError(error)) {
+    return CLIError.fromRetellError(error);
   }
 
   if (error instanceof Error) {
-    console.error(`\n❌ ${error.message}`);
-    process.exit(1);
+    return new CLIError(error.message);
   }
 
-  console.error(`\n❌ An unexpected error occurred: ${String(error)}`);
-  process.exit(1);
+  return new CLIError(`An unexpected error occurred: ${String(error)}`);
 }
 
 /**
@@ -0,0 +1,137 @@
+/**
+ * CLI program - Builds the `retell` command tree.
+ *
+ * Kept apart from the entry point so e2e tests can build the program from
+ * freshly loaded command modules and drive it in-process.
+ */
+
+import { Command } from 'commander';
+import { WorkspaceConfigService } from '@heya/retell.controllers';
+import { initCommand } from './commands/init';
+import { pushCommand } from './commands/push';
+import { pullCommand } from './commands/pull';
+import { importCommand } from './commands/import';
+import { statusCommand } from './commands/status';
+import { listCommand } from './commands/list';
+import { workspaceInitCommand } from './commands/workspace-init';
+import { workspaceListCommand } from './commands/workspace-list';
+import { workspaceAddCommand } from './commands/workspace-add';
+import { workspaceRemoveCommand } from './commands/workspace-remove';
+import { workspaceRenameCommand } from './commands/workspace-rename';
+import { bulkCreateCommand } from './commands/bulk-create';
+import { updateCommand } from './commands/update';
+import { deleteCommand } from './commands/delete';
+import { diffCommand } from './commands/diff';
+import { phoneCommand } from './commands/phone';
+import { callsCommand } from './commands/calls';
+import { reportCommand } from './commands/report';
+import { workflowsCommand } from './commands/workflows';
+import { auditCommand } from './commands/audit';
+import { syncCommand } from './commands/sync';
+import { versionCommand } from './commands/version';
+import { releaseCommand } from './commands/release';
+import { promptCommand } from './commands/prompt';
+import { kbCommand } from './commands/kb';
+import { validateCommand } from './commands/validate';
+import { logsCommand } from './commands/logs';
+import { planCommand } from './commands/plan';
+import { applyCommand } from './commands/apply';
+import { explainCommand } from './commands/explain';
+import { secretsCommand } from './commands/secrets';
+import { RetellClientFactory } from './utils/retell-client';
+import { CliOutput } from './utils/output';
+import { Redactor } from './utils/redaction';
+
+/**
+ * Check CLI version against workspaces.json requirement
+ * Shows warning if version doesn't satisfy the constraint
+ */
+async function checkCliVersion(version: string): Promise<void> {
+  const result = await WorkspaceConfigService.validateCliVersion(version);
+
+  if (!result.success) {
+    // No workspaces.json or couldn't load - that's fine, skip check
+    return;
+  }
+
+  const { valid, required, current, message } = result.value;
+
+  if (!required) {
+    // No cli_version specified in workspaces.json - skip check
+    return;
+  }
+
+  if (!valid) {
+    console.error(`\x1b[33m⚠️  CLI Version Mismatch\x1b[0m`);
+    console.error(`   Required: ${required}`);
+    console.error(`   Current:  ${current}`);
+    if (message) {
+      console.error(`   ${message}`);
+    }
+    console.error(
+      `   Run: npm install -g @heya/retell-cli@${required.replace(/^[\^~>=<]+/, '')}\n`
+    );
+  }
+}
+
+export function createProgram(version: string): Command {
+  const program = new Command();
+
+  program
+    .name('retell')
+    .description('CLI for managing Retell AI agents across workspaces')
+    .version(version)
+    .option('--base-url <url>', 'Send all Retell API requests to this URL (sets RETELL_BASE_URL)')
+    .option('--show-secrets', 'Print tokens and passwords instead of [REDACTED]')
+    .hook('preAction', async (_program, actionCommand) => {
+      const { baseUrl, showSecrets } = program.opts<{ baseUrl?: string; showSecrets?: boolean }>();
+      if (showSecrets === true) {
+        Redactor.disable();
+      }
+      CliOutput.configureFor(actionCommand);
+      if (baseUrl !== undefined) {
+        process.env[RetellClientFactory.BASE_URL_ENV] = baseUrl;
+      }
+      await checkCliVersion(version);
+    });
+
+  // Create workspace command group
+  const workspaceCommand = new Command('workspace').description('Manage workspace configuration');
+
+  workspaceCommand.addCommand(workspaceInitCommand);
+  workspaceCommand.addCommand(workspaceListCommand);
+  workspaceCommand.addCommand(workspaceAddCommand);
+  workspaceCommand.addCommand(workspaceRemoveCommand);
+  workspaceCommand.addCommand(workspaceRenameCommand);
+
+  // Register commands
+  program.addCommand(initCommand);
+  program.addCommand(bulkCreateCommand);
+  program.addCommand(pushCommand);
+  program.addCommand(pullCommand);
+  program.addCommand(importCommand);
+  program.addCommand(releaseCommand);
+  program.addCommand(promptCommand);
+  program.addCommand(kbCommand);
+  program.addCommand(validateCommand);
+  program.addCommand(logsCommand);
+  program.addCommand(planCommand);
+  program.addCommand(applyCommand);
+  program.addCommand(statusCommand);
+  program.addCommand(listCommand);
+  program.addCommand(updateCommand);
+  program.addCommand(deleteCommand);
+  program.addCommand(diffCommand);
+  program.addCommand(explainCommand);
+  program.addCommand(secretsCommand);
+  program.addCommand(phoneCommand);
+  program.addCommand(callsCommand);
+  program.addCommand(reportCommand);
+  program.addCommand(workspaceCommand);
+  program.addCommand(workflowsCommand);
+  program.addCommand(auditCommand);
+  program.addCommand(syncCommand);
+  program.addCommand(versionCommand);
+
+  return program;
+}
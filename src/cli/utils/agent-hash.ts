@@ -0,0 +1,45 @@
+/**
+ * Agent hash - Config hash of a local agent directory, whatever its engine.
+ *
+ * LLM agents hash agent.json with any `extends` and the workspace's overrides
+ * resolved by AgentInheritance; conversation-flow agents also include their
+ * flow file, and custom-llm agents hash agent.json as validated by
+ * CustomLlmAgentConfigSchema. Commands that compare local files with
+ * workspace metadata hash through here so they agree with push.
+ */
+
+import { HashCalculator } from '@heya/retell.controllers';
+import type { Hash, Result } from '@heya/retell.controllers';
+import { AgentInheritance } from './agent-inheritance';
+import { ConversationFlowManager } from './conversation-flow';
+import { CustomLlmManager } from './custom-llm';
+
+export class AgentHasher {
+  /**
+   * Hash of the agent's effective config for a workspace key. Without one,
+   * workspace overrides are left out.
+   */
+  static async hashLocal(agentPath: string, workspace?: string): Promise<Result<Hash, Error>> {
+    if (await ConversationFlowManager.isFlowAgent(agentPath)) {
+      const flowResult = await ConversationFlowManager.load(agentPath);
+      if (!flowResult.success) {
+        return flowResult;
+      }
+      return ConversationFlowManager.calculateHash(flowResult.value);
+    }
+
+    if (await CustomLlmManager.isCustomLlmAgent(agentPath)) {
+      const customResult = await CustomLlmManager.load(agentPath);
+      if (!customResult.success) {
+        return customResult;
+      }
+      return CustomLlmManager.calculateHash(customResult.value);
+    }
+
+    const configResult = await AgentInheritance.load(agentPath, workspace);
+    if (!configResult.success) {
+      return configResult;
+    }
+    return HashCalculator.calculateAgentHash(configResult.value);
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Agent import - Map agents that exist only in a Retell workspace to new local
+ * agent directories.
+ *
+ * Directory names are slugs of the agent name. Agents already tracked by
+ * local metadata are skipped, and name collisions (with existing directories
+ * or between imported agents) get a numeric suffix: support, support-2, ...
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MetadataManager } from '@heya/retell.controllers';
+import type { OrchestrationMode, WorkspaceType } from '@heya/retell.controllers';
+
+/**
+ * The fields of a listed Retell agent that import needs
+ */
+export type RemoteAgentSummary = {
+  readonly agent_id: string;
+  readonly agent_name: string | null;
+  readonly engine_type: string | null;
+  readonly llm_id: string | null;
+  readonly version: number | null;
+};
+
+/**
+ * Local agent directory and the agent it tracks in the target workspace
+ */
+export type ExistingAgentDir = {
+  readonly directory: string;
+  readonly agent_id: string | null;
+};
+
+export type ImportTarget = {
+  readonly agent: RemoteAgentSummary;
+  readonly directory: string;
+  /** True when the slug was taken and a suffix was added */
+  readonly renamed: boolean;
+};
+
+export type ImportSkip = {
+  readonly agent: RemoteAgentSummary;
+  readonly reason: string;
+};
+
+export type ImportAssignment = {
+  readonly targets: ReadonlyArray<ImportTarget>;
+  readonly skipped: ReadonlyArray<ImportSkip>;
+};
+
+export class AgentImporter {
+  /**
+   * Convert an agent name into a directory name, e.g. "Customer Service (EN)"
+   * becomes "customer-service-en".
+   */
+  static toSlug(name: string): string {
+    const slug = name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+    return slug === '' ? 'agent' : slug;
+  }
+
+  /**
+   * Normalize the listAgents response. Retell may list several versions of the
+   * same agent; only the latest is kept. Sorted by name, then ID.
+   */
+  static summarize(listed: ReadonlyArray<unknown>): RemoteAgentSummary[] {
+    const latest = new Map<string, RemoteAgentSummary>();
+
+    for (const item of listed) {
+      const agent = item as Record<string, unknown>;
+      if (typeof agent['agent_id'] !== 'string') {
+        continue;
+      }
+      const engine = (agent['response_engine'] ?? {}) as Record<string, unknown>;
+      const summary: RemoteAgentSummary = {
+        agent_id: agent['agent_id'],
+        agent_name: typeof agent['agent_name'] === 'string' ? agent['agent_name'] : null,
+        engine_type: typeof engine['type'] === 'string' ? engine['type'] : null,
+        llm_id: typeof engine['llm_id'] === 'string' ? engine['llm_id'] : null,
+        version: typeof agent['version'] === 'number' ? agent['version'] : null,
+      };
+
+      const previous = latest.get(summary.agent_id);
+      if (previous === undefined || (summary.version ?? 0) > (previous.version ?? 0)) {
+        latest.set(summary.agent_id, summary);
+      }
+    }
+
+    return [...latest.values()].sort((a, b) => {
+      const byName = (a.agent_name ?? '').localeCompare(b.agent_name ?? '');
+      return byName !== 0 ? byName : a.agent_id.localeCompare(b.agent_id);
+    });
+  }
+
+  /**
+   * Choose a directory for each remote agent, skipping agents that are already
+   * tracked locally or cannot be represented in agent.json.
+   */
+  static assignDirectories(
+    agents: ReadonlyArray<RemoteAgentSummary>,
+    existing: ReadonlyArray<ExistingAgentDir>
+  ): ImportAssignment {
+    const taken = new Set(existing.map((dir) => dir.directory));
+    const tracked = new Map(
+      existing
+        .filter((dir) => dir.agent_id !== null)
+        .map((dir) => [dir.agent_id as string, dir.directory])
+    );
+
+    const targets: ImportTarget[] = [];
+    const skipped: ImportSkip[] = [];
+
+    for (const agent of agents) {
+      const trackedDir = tracked.get(agent.agent_id);
+      if (trackedDir !== undefined) {
+        skipped.push({ agent, reason: `already imported as '${trackedDir}'` });
+        continue;
+      }
+      if (agent.engine_type !== 'retell-llm' || agent.llm_id === null) {
+        skipped.push({
+          agent,
+          reason: `response engine '${agent.engine_type ?? 'unknown'}' is not supported`,
+        });
+        continue;
+      }
+
+      const slug = this.toSlug(agent.agent_name ?? agent.agent_id);
+      let directory = slug;
+      for (let suffix = 2; taken.has(directory); suffix++) {
+        directory = `${slug}-${suffix}`;
+      }
+      taken.add(directory);
+      targets.push({ agent, directory, renamed: directory !== slug });
+    }
+
+    return { targets, skipped };
+  }
+
+  /**
+   * List local agent directories with the agent ID their metadata tracks in
+   * the workspace. Directories with unreadable metadata are still reserved.
+   */
+  static async scanExisting(
+    agentsPath: string,
+    workspace: WorkspaceType,
+    mode: OrchestrationMode
+  ): Promise<ExistingAgentDir[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(agentsPath, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const existing: ExistingAgentDir[] = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+      const metadataResult = await MetadataManager.read(
+        path.join(agentsPath, entry.name),
+        workspace,
+        mode
+      );
+      existing.push({
+        directory: entry.name,
+        agent_id: metadataResult.success ? metadataResult.value.agent_id : null,
+      });
+    }
+    return existing;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Agent index - Find the local agent directories and map their names to the
+ * agent IDs recorded in their workspace metadata.
+ *
+ * Agent IDs differ per workspace and change when an agent is re-created, so
+ * commands that let users name agents by directory (phones.json, calls) look
+ * them up here instead of asking for IDs.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MetadataManager, Ok, Err } from '@heya/retell.controllers';
+import type { OrchestrationMode, Result, WorkspaceType } from '@heya/retell.controllers';
+
+export class AgentIndex {
+  private static readonly AGENT_FILE = 'agent.json';
+
+  /**
+   * Names of the directories in agentsPath that hold an agent.json, sorted
+   */
+  static async list(agentsPath: string): Promise<Result<string[], Error>> {
+    let entries;
+    try {
+      entries = await fs.readdir(agentsPath, { withFileTypes: true });
+    } catch {
+      return Err(new Error(`Agents directory not found: ${agentsPath}`));
+    }
+
+    const agents: string[] = [];
+    for (const entry of entries.filter((candidate) => candidate.isDirectory())) {
+      try {
+        await fs.access(path.join(agentsPath, entry.name, this.AGENT_FILE));
+        agents.push(entry.name);
+      } catch {
+        // Skip directories without agent.json
+      }
+    }
+    return Ok(agents.sort());
+  }
+
+  /**
+   * Agent ID of every agent directory pushed to the workspace, by name
+   */
+  static async agentIds(
+    agentsPath: string,
+    workspace: WorkspaceType,
+    mode: OrchestrationMode
+  ): Promise<Result<Map<string, string>, Error>> {
+    let names: string[];
+    try {
+      const entries = await fs.readdir(agentsPath, { withFileTypes: true });
+      names = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+    } catch (error) {
+      return Err(
+        new Error(
+          `Failed to read agents directory ${agentsPath}: ${error instanceof Error ? error.message : 'unknown error'}`
+        )
+      );
+    }
+
+    const agentIds = new Map<string, string>();
+    for (const name of names.sort()) {
+      const metadataResult = await MetadataManager.read(
+        path.join(agentsPath, name),
+        workspace,
+        mode
+      );
+      if (!metadataResult.success) {
+        return Err(new Error(`${name}: ${metadataResult.error.message}`));
+      }
+      if (metadataResult.value.agent_id !== null) {
+        agentIds.set(name, metadataResult.value.agent_id);
+      }
+    }
+    return Ok(agentIds);
+  }
+
+  /**
+   * Local agent name by agent ID
+   */
+  static names(agentIds: ReadonlyMap<string, string>): Map<string, string> {
+    return new Map([...agentIds].map(([name, agentId]) => [agentId, name]));
+  }
+}
@@ -0,0 +1,601 @@
+/**
+ * Agent inheritance - agent.json files that extend a base agent or template.
+ *
+ * An agent declares its base with `extends`, a path from the project root to
+ * a template (`templates/customer-service` → templates/customer-service.json)
+ * or a base agent directory (`agents/base` → agents/base/agent.json). The
+ * project root is the directory holding the agents directory, whatever the
+ * current directory is, and every base in the chain resolves from the same
+ * root. Bases may extend further bases. The effective config is the base with the agent's
+ * own fields deep-merged over it:
+ *
+ * {
+ *   "extends": "templates/customer-service",
+ *   "array_merge": { "llm_config.prompt_config.sections": "append" },
+ *   "agent_name": "Billing Support",
+ *   "llm_config": { "prompt_config": { "sections": ["billing/refunds"] } }
+ * }
+ *
+ * Objects merge key by key and scalars replace. Arrays replace unless
+ * `array_merge` names a strategy for their dot path: append, prepend or union
+ * (append, skipping items the base already has). `extends` and `array_merge`
+ * are not part of the effective config.
+ *
+ * Per-workspace overrides are merged last, the same way: overrides/<key>.json
+ * in the agent directory, where the key is the workspace a command targets
+ * (`staging`, `production` or a multi-production key such as `prod-1`):
+ *
+ * overrides/production.json
+ * {
+ *   "webhook_url": "https://api.example.com/retell/webhook",
+ *   "llm_config": { "mcps": [{ "name": "crm", "url": "https://mcp.example.com" }] }
+ * }
+ *
+ * Only retell-llm agents are resolved; AgentController loads agent.json
+ * itself, so push hands it the effective config through withResolvedAgent.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AgentConfigLoader,
+  AgentConfigSchema,
+  HashCalculator,
+  Ok,
+  Err,
+} from '@heya/retell.controllers';
+import type { AgentConfig, Result } from '@heya/retell.controllers';
+import { ConfigInterpolator } from './config-interpolation';
+
+export type ArrayMergeStrategy = 'replace' | 'append' | 'prepend' | 'union';
+
+export const ARRAY_MERGE_STRATEGIES: ReadonlyArray<ArrayMergeStrategy> = [
+  'replace',
+  'append',
+  'prepend',
+  'union',
+];
+
+/**
+ * Effective agent.json and where each field came from
+ */
+export type ResolvedAgent = {
+  readonly config: Record<string, unknown>;
+  /**
+   * Files from the root base to the agent's own agent.json, then its workspace
+   * override if any, relative to the project root
+   */
+  readonly chain: ReadonlyArray<string>;
+  /**
+   * Files that set each leaf field (dot path). Arrays are leaves; merged
+   * arrays list every file that contributed items.
+   */
+  readonly sources: ReadonlyMap<string, ReadonlyArray<string>>;
+};
+
+type JsonObject = Record<string, unknown>;
+
+export class AgentInheritance {
+  static readonly EXTENDS_KEY = 'extends';
+  static readonly ARRAY_MERGE_KEY = 'array_merge';
+  static readonly OVERRIDES_DIR = 'overrides';
+
+  private static readonly AGENT_FILE = 'agent.json';
+  private static readonly STAGING = 'staging';
+
+  /**
+   * Whether the agent's agent.json declares `extends`
+   */
+  static async isInheriting(agentPath: string): Promise<boolean> {
+    const rawResult = await this.readJson(path.join(agentPath, this.AGENT_FILE));
+    return rawResult.success && rawResult.value[this.EXTENDS_KEY] !== undefined;
+  }
+
+  /**
+   * Path of the agent's override file for a workspace key
+   */
+  static getOverridePath(agentPath: string, workspace: string): string {
+    return path.join(agentPath, this.OVERRIDES_DIR, `${workspace}.json`);
+  }
+
+  /**
+   * Whether the agent has an override file for the workspace key
+   */
+  static async hasOverride(agentPath: string, workspace: string): Promise<boolean> {
+    try {
+      return (await fs.stat(this.getOverridePath(agentPath, workspace))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Workspace keys the agent has override files for, sorted
+   */
+  static async listOverrides(agentPath: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(path.join(agentPath, this.OVERRIDES_DIR), {
+        withFileTypes: true,
+      });
+      return entries
+        .filter((entry) => entry.isFile() && entry.name.endsWith('.json'))
+        .map((entry) => entry.name.slice(0, -'.json'.length))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Load the effective agent config, with the workspace's overrides when a
+   * workspace key is given. Placeholders are kept as written; the schema
+   * checks the config with stand-in values. Agents without `extends`,
+   * overrides or placeholders load exactly as AgentConfigLoader.load loads them.
+   */
+  static async load(agentPath: string, workspace?: string): Promise<Result<AgentConfig, Error>> {
+    if (
+      !(await this.needsResolving(agentPath, workspace)) &&
+      !(await ConfigInterpolator.hasPlaceholders(agentPath))
+    ) {
+      return AgentConfigLoader.load(agentPath);
+    }
+
+    const resolvedResult = await this.resolve(agentPath, workspace);
+    if (!resolvedResult.success) {
+      return resolvedResult;
+    }
+    const config = resolvedResult.value.config;
+    const parsed = AgentConfigSchema.safeParse(ConfigInterpolator.withStandIns(config));
+    if (!parsed.success) {
+      return Err(
+        new Error(
+          `Agent config validation failed: ${parsed.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`
+        )
+      );
+    }
+    return Ok(ConfigInterpolator.reapply(parsed.data, config) as AgentConfig);
+  }
+
+  /**
+   * Resolve the agent's `extends` chain, then the workspace's overrides when a
+   * workspace key is given, into its effective agent.json, without schema
+   * validation.
+   */
+  static async resolve(
+    agentPath: string,
+    workspace?: string
+  ): Promise<Result<ResolvedAgent, Error>> {
+    const resolvedResult = await this.resolveFile(
+      path.resolve(agentPath, this.AGENT_FILE),
+      this.getProjectRoot(agentPath),
+      []
+    );
+    if (
+      !resolvedResult.success ||
+      workspace === undefined ||
+      !(await this.hasOverride(agentPath, workspace))
+    ) {
+      return resolvedResult;
+    }
+    return this.applyOverride(
+      resolvedResult.value,
+      path.resolve(this.getOverridePath(agentPath, workspace))
+    );
+  }
+
+  /**
+   * Run `action` with an agents directory whose copy of agentName has the
+   * effective agent.json for the workspace, with `${env:...}` and
+   * `${secret:...}` placeholders resolved, for controllers that read
+   * agent.json themselves. Metadata the action writes is copied back. Agents
+   * without `extends`, overrides or placeholders run against agentsPath
+   * directly.
+   *
+   * Metadata hashes are of the committed config, placeholders included, while
+   * the controller hashes the resolved copy. The copy's metadata is
+   * translated to the resolved hash before the action and back after it.
+   * AgentController also only pushes outside staging when the config hash
+   * matches staging's; with overrides the two differ by design, so when
+   * staging is in sync with the local files the copy's staging.json carries
+   * the target workspace's hash instead.
+   */
+  static async withResolvedAgent<T>(
+    agentsPath: string,
+    agentName: string,
+    workspace: string,
+    action: (agentsPath: string) => Promise<T>
+  ): Promise<T> {
+    const agentPath = path.join(agentsPath, agentName);
+    if (
+      !(await this.needsResolving(agentPath, workspace)) &&
+      !(await ConfigInterpolator.hasPlaceholders(agentPath))
+    ) {
+      return action(agentsPath);
+    }
+
+    const configResult = await this.load(agentPath, workspace);
+    if (!configResult.success) {
+      throw configResult.error;
+    }
+    const pushedResult = await ConfigInterpolator.interpolate(configResult.value);
+    if (!pushedResult.success) {
+      throw pushedResult.error;
+    }
+    const committedHash = this.hash(configResult.value);
+    const pushedHash = this.hash(pushedResult.value);
+
+    const buildDir = await fs.mkdtemp(path.join(os.tmpdir(), 'retell-extends-'));
+    const buildAgentPath = path.join(buildDir, agentName);
+    try {
+      await fs.mkdir(buildAgentPath);
+      const files = await this.listFiles(agentPath);
+      for (const file of files) {
+        await fs.copyFile(path.join(agentPath, file), path.join(buildAgentPath, file));
+      }
+      await fs.writeFile(
+        path.join(buildAgentPath, this.AGENT_FILE),
+        JSON.stringify(pushedResult.value, null, 2),
+        'utf-8'
+      );
+      await this.translateHash(buildAgentPath, workspace, committedHash, pushedHash);
+      let stagingReplaced = false;
+      if (workspace !== this.STAGING) {
+        const stagingResult = await this.load(agentPath, this.STAGING);
+        stagingReplaced =
+          stagingResult.success &&
+          (await this.translateHash(
+            buildAgentPath,
+            this.STAGING,
+            this.hash(stagingResult.value),
+            pushedHash
+          ));
+      }
+
+      const result = await action(buildDir);
+
+      await this.translateHash(buildAgentPath, workspace, pushedHash, committedHash);
+      for (const file of await this.listFiles(buildAgentPath)) {
+        if (stagingReplaced && file === `${this.STAGING}.json`) {
+          continue;
+        }
+        await fs.copyFile(path.join(buildAgentPath, file), path.join(agentPath, file));
+      }
+      return result;
+    } finally {
+      await fs.rm(buildDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Directory `extends` targets resolve from: the parent of the agents
+   * directory holding agentPath
+   */
+  static getProjectRoot(agentPath: string): string {
+    return path.dirname(path.dirname(path.resolve(agentPath)));
+  }
+
+  /**
+   * Files an `extends` target may name, in lookup order
+   */
+  static getCandidates(target: string, root: string): string[] {
+    const base = path.resolve(root, target);
+    return target.endsWith('.json') ? [base] : [`${base}.json`, path.join(base, this.AGENT_FILE)];
+  }
+
+  /**
+   * Whether the effective config differs from agent.json as written
+   */
+  private static async needsResolving(agentPath: string, workspace?: string): Promise<boolean> {
+    return (
+      (await this.isInheriting(agentPath)) ||
+      (workspace !== undefined && (await this.hasOverride(agentPath, workspace)))
+    );
+  }
+
+  /**
+   * Merge an override file over a resolved agent
+   */
+  private static async applyOverride(
+    resolved: ResolvedAgent,
+    file: string
+  ): Promise<Result<ResolvedAgent, Error>> {
+    const label = this.label(file);
+    const rawResult = await this.readJson(file);
+    if (!rawResult.success) {
+      return rawResult;
+    }
+    const { [this.ARRAY_MERGE_KEY]: arrayMerge, ...own } = rawResult.value;
+    if (own[this.EXTENDS_KEY] !== undefined) {
+      return Err(new Error(`${label}: overrides cannot use extends`));
+    }
+
+    const strategiesResult = this.parseStrategies(arrayMerge, label);
+    if (!strategiesResult.success) {
+      return strategiesResult;
+    }
+
+    const sources = new Map([...resolved.sources].map(([field, files]) => [field, [...files]]));
+    const config = this.mergeObjects(
+      resolved.config,
+      own,
+      '',
+      label,
+      strategiesResult.value,
+      sources
+    );
+    return Ok({ config, chain: [...resolved.chain, label], sources });
+  }
+
+  /**
+   * Replace config_hash `from` with `to` in the workspace's metadata in an
+   * agent directory: staging.json, or production.json (a single object or a
+   * multi-production entry for the workspace). Returns whether it did.
+   */
+  private static async translateHash(
+    agentDir: string,
+    workspace: string,
+    from: string | null,
+    to: string | null
+  ): Promise<boolean> {
+    if (from === null || to === null || from === to) {
+      return false;
+    }
+    const file = path.join(
+      agentDir,
+      workspace === this.STAGING ? `${this.STAGING}.json` : 'production.json'
+    );
+    let metadata: unknown;
+    try {
+      metadata = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch {
+      return false;
+    }
+
+    let replaced = false;
+    const translate = (entry: unknown): unknown => {
+      if (this.isObject(entry) && entry['config_hash'] === from) {
+        replaced = true;
+        return { ...entry, config_hash: to };
+      }
+      return entry;
+    };
+    const updated = Array.isArray(metadata)
+      ? metadata.map((entry: unknown) =>
+          this.isObject(entry) && entry['workspace'] === workspace ? translate(entry) : entry
+        )
+      : translate(metadata);
+    if (replaced) {
+      await fs.writeFile(file, JSON.stringify(updated, null, 2), 'utf-8');
+    }
+    return replaced;
+  }
+
+  private static hash(config: AgentConfig): string | null {
+    const hashResult = HashCalculator.calculateAgentHash(config);
+    return hashResult.success ? hashResult.value : null;
+  }
+
+  private static async resolveFile(
+    file: string,
+    root: string,
+    seen: ReadonlyArray<string>
+  ): Promise<Result<ResolvedAgent, Error>> {
+    const label = this.label(file);
+    if (seen.includes(file)) {
+      return Err(
+        new Error(`Circular extends: ${[...seen, file].map((f) => this.label(f)).join(' → ')}`)
+      );
+    }
+
+    const rawResult = await this.readJson(file);
+    if (!rawResult.success) {
+      return rawResult;
+    }
+    const {
+      [this.EXTENDS_KEY]: target,
+      [this.ARRAY_MERGE_KEY]: arrayMerge,
+      ...own
+    } = rawResult.value;
+
+    if (target === undefined) {
+      const sources = new Map<string, string[]>();
+      this.addSources(own, '', label, sources);
+      return Ok({ config: own, chain: [label], sources });
+    }
+    if (typeof target !== 'string' || target.trim() === '') {
+      return Err(
+        new Error(`${label}: extends must be a path such as "templates/customer-service"`)
+      );
+    }
+
+    const strategiesResult = this.parseStrategies(arrayMerge, label);
+    if (!strategiesResult.success) {
+      return strategiesResult;
+    }
+
+    const baseFile = await this.findBase(target, root);
+    if (baseFile === null) {
+      return Err(
+        new Error(
+          `${label}: extends "${target}" not found (looked for ${this.getCandidates(target, root)
+            .map((f) => this.label(f))
+            .join(', ')})`
+        )
+      );
+    }
+
+    const baseResult = await this.resolveFile(baseFile, root, [...seen, file]);
+    if (!baseResult.success) {
+      return baseResult;
+    }
+
+    const sources = new Map(
+      [...baseResult.value.sources].map(([field, files]) => [field, [...files]])
+    );
+    const config = this.mergeObjects(
+      baseResult.value.config,
+      own,
+      '',
+      label,
+      strategiesResult.value,
+      sources
+    );
+    return Ok({ config, chain: [...baseResult.value.chain, label], sources });
+  }
+
+  private static mergeObjects(
+    base: JsonObject,
+    override: JsonObject,
+    prefix: string,
+    label: string,
+    strategies: Readonly<Record<string, ArrayMergeStrategy>>,
+    sources: Map<string, string[]>
+  ): JsonObject {
+    const merged: JsonObject = { ...base };
+
+    for (const [key, value] of Object.entries(override)) {
+      const field = prefix === '' ? key : `${prefix}.${key}`;
+      const current = merged[key];
+
+      if (this.isObject(value) && this.isObject(current)) {
+        merged[key] = this.mergeObjects(current, value, field, label, strategies, sources);
+        continue;
+      }
+
+      const strategy = strategies[field] ?? 'replace';
+      if (Array.isArray(value) && Array.isArray(current) && strategy !== 'replace') {
+        merged[key] = this.mergeArrays(current, value, strategy);
+        sources.set(field, [...(sources.get(field) ?? []), label]);
+        continue;
+      }
+
+      merged[key] = value;
+      this.clearSources(field, sources);
+      this.addSources(value, field, label, sources);
+    }
+
+    return merged;
+  }
+
+  private static mergeArrays(
+    base: unknown[],
+    override: unknown[],
+    strategy: ArrayMergeStrategy
+  ): unknown[] {
+    switch (strategy) {
+      case 'append':
+        return [...base, ...override];
+      case 'prepend':
+        return [...override, ...base];
+      case 'union': {
+        const seen = new Set(base.map((item) => JSON.stringify(item)));
+        return [...base, ...override.filter((item) => !seen.has(JSON.stringify(item)))];
+      }
+      case 'replace':
+        return override;
+    }
+  }
+
+  private static parseStrategies(
+    value: unknown,
+    label: string
+  ): Result<Record<string, ArrayMergeStrategy>, Error> {
+    if (value === undefined) {
+      return Ok({});
+    }
+    if (!this.isObject(value)) {
+      return Err(new Error(`${label}: array_merge must map field paths to strategies`));
+    }
+    for (const [field, strategy] of Object.entries(value)) {
+      if (!ARRAY_MERGE_STRATEGIES.includes(strategy as ArrayMergeStrategy)) {
+        return Err(
+          new Error(
+            `${label}: array_merge.${field} must be one of ${ARRAY_MERGE_STRATEGIES.join(', ')}`
+          )
+        );
+      }
+    }
+    return Ok(value as Record<string, ArrayMergeStrategy>);
+  }
+
+  private static async findBase(target: string, root: string): Promise<string | null> {
+    for (const candidate of this.getCandidates(target, root)) {
+      try {
+        const stats = await fs.stat(candidate);
+        if (stats.isFile()) {
+          return candidate;
+        }
+      } catch {
+        // Try the next candidate
+      }
+    }
+    return null;
+  }
+
+  private static addSources(
+    value: unknown,
+    field: string,
+    label: string,
+    sources: Map<string, string[]>
+  ): void {
+    if (this.isObject(value) && Object.keys(value).length > 0) {
+      for (const [key, item] of Object.entries(value)) {
+        this.addSources(item, field === '' ? key : `${field}.${key}`, label, sources);
+      }
+      return;
+    }
+    if (field !== '') {
+      sources.set(field, [label]);
+    }
+  }
+
+  private static clearSources(field: string, sources: Map<string, string[]>): void {
+    for (const key of [...sources.keys()]) {
+      if (key === field || key.startsWith(`${field}.`)) {
+        sources.delete(key);
+      }
+    }
+  }
+
+  private static isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Top-level files of an agent directory other than agent.json
+   */
+  private static async listFiles(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile() && entry.name !== this.AGENT_FILE)
+      .map((entry) => entry.name);
+  }
+
+  private static label(file: string): string {
+    return path.relative(process.cwd(), file).split(path.sep).join('/');
+  }
+
+  private static async readJson(file: string): Promise<Result<JsonObject, Error>> {
+    const label = this.label(file);
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch {
+      return Err(new Error(`${label} not found`));
+    }
+    try {
+      const parsed = JSON.parse(content) as unknown;
+      if (!this.isObject(parsed)) {
+        return Err(new Error(`${label}: expected a JSON object`));
+      }
+      return Ok(parsed);
+    } catch (error) {
+      return Err(
+        new Error(
+          `${label}: invalid JSON (${error instanceof Error ? error.message : 'parse error'})`
+        )
+      );
+    }
+  }
+}
@@ -0,0 +1,471 @@
+/**
+ * Agent validator - Offline validation of an agent directory.
+ *
+ * Runs AgentConfigSchema plus cross-file checks that need no API key:
+ * - prompt sections exist and every {{variable}} is classified
+ * - MCP tools reference an MCP server defined in llm_config.mcps
+ * - staging.json / production.json parse and match MetadataSchema
+ * - knowledge/.kb-meta.json parses and references existing files
+ *
+ * Conversation-flow agents are checked against their flow file instead:
+ * the start node and every edge destination must be a node in the flow.
+ * Custom-llm agents are checked against CustomLlmAgentConfigSchema.
+ * Agents that `extends` a base are checked against their effective config,
+ * and each overrides/<workspace>.json against the config it produces.
+ * `${env:...}` and `${secret:...}` placeholders must resolve, as push needs them.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  AgentConfigSchema,
+  MetadataSchema,
+  PromptBuilder,
+  VariableResolver,
+} from '@heya/retell.controllers';
+import type { AgentConfig } from '@heya/retell.controllers';
+import { AgentInheritance } from './agent-inheritance';
+import { ConfigInterpolator } from './config-interpolation';
+import { PromptSectionIndex } from './prompt-sections';
+import { KnowledgeBaseManager } from './knowledge-base';
+import { ConversationFlowManager } from './conversation-flow';
+import { CustomLlmAgentConfigSchema, CustomLlmManager } from './custom-llm';
+
+/**
+ * Errors fail validation; warnings are reported but do not
+ */
+export type ValidationIssues = {
+  readonly errors: string[];
+  readonly warnings: string[];
+};
+
+/**
+ * Result of validating one agent directory
+ */
+export type AgentValidationReport = ValidationIssues & {
+  readonly agent: string;
+  /** Checks that passed, for display */
+  readonly passed: string[];
+};
+
+export class AgentValidator {
+  private static readonly METADATA_FILES = ['staging.json', 'production.json'] as const;
+
+  /**
+   * Validate an agent directory. Never throws; every problem becomes an error or warning.
+   */
+  static async validate(agentPath: string, promptsPath: string): Promise<AgentValidationReport> {
+    const report: AgentValidationReport = {
+      agent: path.basename(agentPath),
+      errors: [],
+      warnings: [],
+      passed: [],
+    };
+
+    const config = await this.validateAgentJson(agentPath, report);
+
+    if (config !== null) {
+      const prompt = await this.validatePrompt(config, promptsPath);
+      this.merge(report, prompt, 'All prompt sections exist and variables are defined');
+
+      const mcp = this.validateMcpReferences(config);
+      this.merge(report, mcp, 'MCP tool references valid');
+
+      if (ConfigInterpolator.find(config).length > 0) {
+        const placeholders = await this.validatePlaceholders(config);
+        this.merge(report, placeholders, 'All placeholders resolve');
+      }
+    }
+
+    for (const workspace of await AgentInheritance.listOverrides(agentPath)) {
+      const override = await this.validateOverride(agentPath, workspace);
+      this.merge(report, override, `overrides/${workspace}.json valid`);
+    }
+
+    for (const fileName of this.METADATA_FILES) {
+      const metadata = await this.validateMetadataFile(agentPath, fileName);
+      if (metadata !== null) {
+        this.merge(report, metadata, `${fileName} valid`);
+      }
+    }
+
+    const kb = await this.validateKnowledgeBase(agentPath);
+    this.merge(report, kb, 'All knowledge base files exist');
+
+    return report;
+  }
+
+  /**
+   * Check every section exists and every {{variable}} is accounted for.
+   * Unaccounted variables are reported per section so they are easy to locate;
+   * push rejects them, so they count as errors.
+   */
+  static async validatePrompt(config: AgentConfig, promptsPath: string): Promise<ValidationIssues> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const promptConfig = config.llm_config.prompt_config;
+
+    if (promptConfig === undefined) {
+      if (config.llm_config.general_prompt === undefined) {
+        errors.push('Either prompt_config or general_prompt must be defined in llm_config');
+      }
+      return { errors, warnings };
+    }
+
+    const overrides = promptConfig.overrides ?? {};
+    const sections = promptConfig.sections ?? [];
+    const usedVariables = new Set<string>();
+
+    for (const sectionId of sections) {
+      let content: string;
+      const override = overrides[sectionId];
+      if (override !== undefined) {
+        content = override;
+      } else if (await PromptSectionIndex.exists(promptsPath, sectionId)) {
+        content = await fs.readFile(
+          PromptSectionIndex.getSectionPath(promptsPath, sectionId),
+          'utf-8'
+        );
+      } else {
+        errors.push(`Section "${sectionId}" not found`);
+        continue;
+      }
+
+      PromptBuilder.extractVariables(content).forEach((variable) => usedVariables.add(variable));
+      for (const variable of VariableResolver.getUnaccountedVariables(content, promptConfig)) {
+        errors.push(`Section "${sectionId}" uses undefined variable: {{${variable}}}`);
+      }
+    }
+
+    for (const overrideId of Object.keys(overrides)) {
+      if (!sections.includes(overrideId)) {
+        warnings.push(`Override "${overrideId}" does not match any section`);
+      }
+    }
+
+    for (const variable of Object.keys(promptConfig.variables ?? {})) {
+      if (!usedVariables.has(variable)) {
+        warnings.push(`Variable "${variable}" is defined but not used in any section`);
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * MCP tools must reference an MCP server defined in llm_config.mcps by id.
+   */
+  static validateMcpReferences(config: AgentConfig): ValidationIssues {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const mcps = config.llm_config.mcps ?? [];
+    const mcpIds = new Set(
+      mcps.map((mcp) => mcp.id).filter((id): id is string => id !== undefined)
+    );
+
+    const tools = [...(config.llm_config.tools ?? []), ...(config.llm_config.general_tools ?? [])];
+    for (const tool of tools) {
+      if (typeof tool !== 'object' || tool === null) {
+        continue;
+      }
+      const mcpTool = tool as { type?: unknown; name?: unknown; mcp_id?: unknown };
+      if (mcpTool.type !== 'mcp') {
+        continue;
+      }
+
+      const toolName = typeof mcpTool.name === 'string' ? mcpTool.name : '(unnamed)';
+      const mcpId = mcpTool.mcp_id;
+      if (typeof mcpId !== 'string') {
+        if (mcps.length !== 1) {
+          warnings.push(`MCP tool "${toolName}" has no mcp_id`);
+        }
+        continue;
+      }
+      if (!mcpIds.has(mcpId)) {
+        const defined = mcpIds.size > 0 ? Array.from(mcpIds).join(', ') : 'none';
+        errors.push(
+          `MCP tool "${toolName}" references undefined mcp_id "${mcpId}" (defined: ${defined})`
+        );
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Validate a workspace metadata file. Returns null when the file does not exist
+   * (the agent simply hasn't been pushed to that workspace).
+   * production.json may hold an array of entries in multi-production mode.
+   * A missing llm_id is read as null: agents without a Retell LLM (custom-llm,
+   * conversation-flow) have none.
+   */
+  static async validateMetadataFile(
+    agentPath: string,
+    fileName: string
+  ): Promise<ValidationIssues | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(agentPath, fileName), 'utf-8');
+    } catch {
+      return null;
+    }
+
+    const errors: string[] = [];
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      errors.push(
+        `${fileName}: invalid JSON (${error instanceof Error ? error.message : 'parse error'})`
+      );
+      return { errors, warnings: [] };
+    }
+
+    const entries = Array.isArray(parsed) ? parsed : [parsed];
+    entries.forEach((entry, index) => {
+      const result = MetadataSchema.safeParse(
+        typeof entry === 'object' && entry !== null ? { llm_id: null, ...entry } : entry
+      );
+      if (!result.success) {
+        const prefix = Array.isArray(parsed) ? `${fileName}[${index}]` : fileName;
+        for (const issue of result.error.errors) {
+          errors.push(`${prefix}: ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+        }
+      }
+    });
+
+    return { errors, warnings: [] };
+  }
+
+  /**
+   * .kb-meta.json must parse; files it tracks should still exist locally.
+   * A missing tracked file is only a warning: it will be removed on next push.
+   */
+  static async validateKnowledgeBase(agentPath: string): Promise<ValidationIssues> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const metaResult = await KnowledgeBaseManager.readMeta(agentPath);
+    if (!metaResult.success) {
+      errors.push(`knowledge/${KnowledgeBaseManager.META_FILENAME}: ${metaResult.error.message}`);
+      return { errors, warnings };
+    }
+
+    const filesResult = await KnowledgeBaseManager.listLocalFiles(agentPath);
+    const localNames = new Set(filesResult.success ? filesResult.value.map((f) => f.name) : []);
+
+    for (const [workspace, state] of Object.entries(metaResult.value)) {
+      for (const fileName of Object.keys(state.files)) {
+        if (!localNames.has(fileName)) {
+          warnings.push(
+            `knowledge/${KnowledgeBaseManager.META_FILENAME}: file "${fileName}" (${workspace}) referenced but not found`
+          );
+        }
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  /**
+   * Read agent.json, resolving `extends`, and run AgentConfigSchema. Returns the config when it is
+   * valid so cross-file checks can run against it.
+   */
+  private static async validateAgentJson(
+    agentPath: string,
+    report: AgentValidationReport
+  ): Promise<AgentConfig | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(agentPath, 'agent.json'), 'utf-8');
+    } catch {
+      report.errors.push('agent.json not found');
+      return null;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      report.errors.push(
+        `agent.json: invalid JSON (${error instanceof Error ? error.message : 'parse error'})`
+      );
+      return null;
+    }
+
+    const inheriting =
+      typeof parsed === 'object' &&
+      parsed !== null &&
+      AgentInheritance.EXTENDS_KEY in (parsed as Record<string, unknown>);
+    if (inheriting) {
+      const resolvedResult = await AgentInheritance.resolve(agentPath);
+      if (!resolvedResult.success) {
+        report.errors.push(resolvedResult.error.message);
+        return null;
+      }
+      parsed = resolvedResult.value.config;
+      if (
+        ConversationFlowManager.isFlowConfig(parsed) ||
+        CustomLlmManager.isCustomLlmConfig(parsed)
+      ) {
+        report.errors.push('agent.json: extends is only supported for retell-llm agents');
+        return null;
+      }
+    }
+
+    if (
+      (ConversationFlowManager.isFlowConfig(parsed) ||
+        CustomLlmManager.isCustomLlmConfig(parsed)) &&
+      ConfigInterpolator.find(parsed).length > 0
+    ) {
+      report.errors.push('agent.json: placeholders are only resolved for retell-llm agents');
+    }
+
+    if (ConversationFlowManager.isFlowConfig(parsed)) {
+      const flow = await this.validateFlow(agentPath);
+      this.merge(report, flow, 'Conversation flow valid');
+      return null;
+    }
+
+    const result = CustomLlmManager.isCustomLlmConfig(parsed)
+      ? CustomLlmAgentConfigSchema.safeParse(parsed)
+      : AgentConfigSchema.safeParse(ConfigInterpolator.withStandIns(parsed));
+    if (!result.success) {
+      for (const issue of result.error.errors) {
+        report.errors.push(`agent.json: ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      }
+      return null;
+    }
+
+    report.passed.push(inheriting ? 'agent.json valid (with extends)' : 'agent.json valid');
+    // Prompt and MCP checks need llm_config, which custom-llm agents do not have
+    return CustomLlmManager.isCustomLlmConfig(parsed) ? null : (parsed as AgentConfig);
+  }
+
+  /**
+   * Check the effective config for a workspace with its override file applied
+   */
+  static async validateOverride(agentPath: string, workspace: string): Promise<ValidationIssues> {
+    const label = `overrides/${workspace}.json`;
+    if (
+      (await ConversationFlowManager.isFlowAgent(agentPath)) ||
+      (await CustomLlmManager.isCustomLlmAgent(agentPath))
+    ) {
+      return {
+        errors: [`${label}: overrides are only supported for retell-llm agents`],
+        warnings: [],
+      };
+    }
+
+    const resolvedResult = await AgentInheritance.resolve(agentPath, workspace);
+    if (!resolvedResult.success) {
+      return { errors: [resolvedResult.error.message], warnings: [] };
+    }
+    const parsed = AgentConfigSchema.safeParse(
+      ConfigInterpolator.withStandIns(resolvedResult.value.config)
+    );
+    if (!parsed.success) {
+      return {
+        errors: parsed.error.errors.map(
+          (issue) => `${label}: ${issue.path.join('.') || '(root)'}: ${issue.message}`
+        ),
+        warnings: [],
+      };
+    }
+
+    const mcp = this.validateMcpReferences(parsed.data as AgentConfig);
+    // Placeholders from agent.json and its bases are reported once, for agent.json
+    const overrideContent = await fs.readFile(
+      AgentInheritance.getOverridePath(agentPath, workspace),
+      'utf-8'
+    );
+    const placeholders = await this.validatePlaceholders(JSON.parse(overrideContent));
+    return {
+      errors: [...mcp.errors, ...placeholders.errors].map((error) => `${label}: ${error}`),
+      warnings: mcp.warnings.map((warning) => `${label}: ${warning}`),
+    };
+  }
+
+  /**
+   * Check every `${env:...}` and `${secret:...}` placeholder has a value in
+   * the environment or the secrets file
+   */
+  static async validatePlaceholders(config: unknown): Promise<ValidationIssues> {
+    const unresolvedResult = await ConfigInterpolator.findUnresolved(config);
+    if (!unresolvedResult.success) {
+      return { errors: [unresolvedResult.error.message], warnings: [] };
+    }
+    return {
+      errors: unresolvedResult.value.map(
+        (placeholder) => `Unresolved placeholder ${ConfigInterpolator.describe(placeholder)}`
+      ),
+      warnings: [],
+    };
+  }
+
+  /**
+   * Check the flow file of a conversation-flow agent parses and its start node
+   * and edges point at nodes that exist.
+   */
+  static async validateFlow(agentPath: string): Promise<ValidationIssues> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const loadResult = await ConversationFlowManager.load(agentPath);
+    if (!loadResult.success) {
+      errors.push(loadResult.error.message);
+      return { errors, warnings };
+    }
+    const { flowFile, flow } = loadResult.value;
+
+    const nodes = flow['nodes'];
+    if (!Array.isArray(nodes)) {
+      errors.push(`${flowFile}: nodes must be an array`);
+      return { errors, warnings };
+    }
+
+    const nodeIds = new Set<string>();
+    for (const node of nodes as Array<Record<string, unknown>>) {
+      if (typeof node['id'] !== 'string') {
+        errors.push(`${flowFile}: every node needs a string id`);
+        continue;
+      }
+      if (nodeIds.has(node['id'])) {
+        errors.push(`${flowFile}: duplicate node id "${node['id']}"`);
+      }
+      nodeIds.add(node['id']);
+    }
+
+    const startNodeId = flow['start_node_id'];
+    if (typeof startNodeId === 'string' && !nodeIds.has(startNodeId)) {
+      errors.push(`${flowFile}: start_node_id "${startNodeId}" is not a node`);
+    }
+
+    for (const node of nodes as Array<Record<string, unknown>>) {
+      const edges = Array.isArray(node['edges']) ? (node['edges'] as unknown[]) : [];
+      for (const edge of edges as Array<Record<string, unknown>>) {
+        const destination = edge['destination_node_id'];
+        if (typeof destination === 'string' && !nodeIds.has(destination)) {
+          errors.push(
+            `${flowFile}: edge from "${String(node['id'])}" points to unknown node "${destination}"`
+          );
+        }
+      }
+    }
+
+    return { errors, warnings };
+  }
+
+  private static merge(
+    report: AgentValidationReport,
+    issues: ValidationIssues,
+    passedMessage: string
+  ): void {
+    report.errors.push(...issues.errors);
+    report.warnings.push(...issues.warnings);
+    if (issues.errors.length === 0 && issues.warnings.length === 0) {
+      report.passed.push(passedMessage);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Bulk runner - Run one task per item with a concurrency limit.
+ *
+ * Tasks that fail with API_RATE_LIMITED (or an HTTP 429 from retell-sdk) are
+ * retried with exponential backoff; any other failure is final for that item.
+ * A failed item never stops the others, so every item gets a result.
+ */
+
+export type BulkRunOptions = {
+  readonly concurrency: number;
+  /** Retries per item after a rate limit; other errors are not retried */
+  readonly maxRetries: number;
+  /** Delay before the first retry, doubled for each further retry */
+  readonly baseDelayMs: number;
+  readonly onRetry?: (item: string, attempt: number, delayMs: number) => void;
+};
+
+export type BulkItemResult<T> =
+  | {
+      readonly item: string;
+      readonly success: true;
+      readonly value: T;
+      readonly attempts: number;
+    }
+  | {
+      readonly item: string;
+      readonly success: false;
+      readonly error: unknown;
+      readonly attempts: number;
+    };
+
+export class BulkRunner {
+  static readonly DEFAULT_CONCURRENCY = 3;
+  static readonly DEFAULT_MAX_RETRIES = 5;
+  static readonly DEFAULT_BASE_DELAY_MS = 2000;
+
+  /**
+   * Run task for every item, at most options.concurrency at a time.
+   * Results are in the order of items.
+   */
+  static async run<T>(
+    items: ReadonlyArray<string>,
+    task: (item: string) => Promise<T>,
+    options: BulkRunOptions
+  ): Promise<BulkItemResult<T>[]> {
+    const results: BulkItemResult<T>[] = [];
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      let index = next++;
+      let item = items[index];
+      while (item !== undefined) {
+        results[index] = await this.runItem(item, task, options);
+        index = next++;
+        item = items[index];
+      }
+    };
+
+    const workerCount = Math.min(Math.max(options.concurrency, 1), items.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+  }
+
+  /**
+   * True for controller errors with code API_RATE_LIMITED and for
+   * retell-sdk errors with status 429
+   */
+  static isRateLimited(error: unknown): boolean {
+    if (typeof error !== 'object' || error === null) {
+      return false;
+    }
+    const { code, status } = error as { code?: unknown; status?: unknown };
+    return code === 'API_RATE_LIMITED' || status === 429;
+  }
+
+  private static async runItem<T>(
+    item: string,
+    task: (item: string) => Promise<T>,
+    options: BulkRunOptions
+  ): Promise<BulkItemResult<T>> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const value = await task(item);
+        return { item, success: true, value, attempts: attempt };
+      } catch (error) {
+        if (!this.isRateLimited(error) || attempt > options.maxRetries) {
+          return { item, success: false, error, attempts: attempt };
+        }
+        const delayMs = options.baseDelayMs * 2 ** (attempt - 1);
+        options.onRetry?.(item, attempt, delayMs);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+}
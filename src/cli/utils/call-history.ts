@@ -0,0 +1,268 @@
+/**
+ * Call history - Read calls from Retell and export their transcripts and
+ * post-call analysis.
+ *
+ * Calls are filtered by Retell (agent, start time, disconnection reason) and
+ * fetched page by page. Each call is flattened to a CallRecord with the agent's
+ * local directory name next to its ID. JSONL exports keep the analysis as an
+ * object; CSV exports give every field of custom_analysis_data (the results
+ * of the agent's post_call_analysis_data) its own `analysis.<name>` column.
+ */
+
+import type Retell from 'retell-sdk';
+import { Ok, Err } from '@heya/retell.controllers';
+import type { Result, WorkspaceConfig } from '@heya/retell.controllers';
+import { RetellClientFactory } from './retell-client';
+
+export type CallFilter = {
+  readonly agentIds?: ReadonlyArray<string>;
+  /** Earliest start time, epoch milliseconds */
+  readonly since?: number;
+  /** Latest start time, epoch milliseconds */
+  readonly until?: number;
+  readonly disconnectionReasons?: ReadonlyArray<string>;
+  /** Most recent calls to return */
+  readonly limit: number;
+};
+
+/**
+ * One call, flattened for listing and export
+ */
+export type CallRecord = {
+  readonly call_id: string;
+  /** Local agent directory, or null when no directory tracks the agent */
+  readonly agent: string | null;
+  readonly agent_id: string;
+  readonly agent_version: number | null;
+  readonly call_type: string;
+  readonly call_status: string;
+  readonly direction: string | null;
+  readonly from_number: string | null;
+  readonly to_number: string | null;
+  readonly start_time: string | null;
+  readonly end_time: string | null;
+  readonly duration_ms: number | null;
+  readonly disconnection_reason: string | null;
+  readonly user_sentiment: string | null;
+  readonly call_successful: boolean | null;
+  readonly in_voicemail: boolean | null;
+  readonly call_summary: string | null;
+  /** Results of the agent's post_call_analysis_data fields */
+  readonly custom_analysis_data: Record<string, unknown>;
+  readonly transcript: string | null;
+};
+
+export type CallExportFormat = 'jsonl' | 'csv';
+
+export class CallHistory {
+  static readonly FORMATS: ReadonlyArray<CallExportFormat> = ['jsonl', 'csv'];
+
+  /** Largest page Retell returns */
+  private static readonly PAGE_SIZE = 1000;
+
+  private static readonly RELATIVE_TIME = /^(\d+)([mhdw])$/;
+
+  private static readonly UNIT_MS: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+  };
+
+  static createClient(workspaceConfig: WorkspaceConfig): Retell {
+    return RetellClientFactory.create(workspaceConfig);
+  }
+
+  /**
+   * Parse a time filter: a duration before now (30m, 24h, 7d, 2w) or a date
+   * Date.parse understands (2025-01-31, 2025-01-31T09:00:00Z).
+   */
+  static parseTime(value: string, now: number = Date.now()): Result<number, Error> {
+    const relative = this.RELATIVE_TIME.exec(value.trim());
+    if (relative !== null) {
+      return Ok(now - Number(relative[1]) * (this.UNIT_MS[relative[2] ?? ''] ?? 0));
+    }
+    const parsed = Date.parse(value);
+    if (Number.isNaN(parsed)) {
+      return Err(
+        new Error(`Invalid time '${value}'. Use a duration such as 24h or 7d, or a date.`)
+      );
+    }
+    return Ok(parsed);
+  }
+
+  /**
+   * Calls matching the filter, most recent first
+   */
+  static async list(
+    client: Retell,
+    filter: CallFilter
+  ): Promise<Result<Retell.CallResponse[], Error>> {
+    const criteria: Retell.CallListParams.FilterCriteria = {};
+    if (filter.agentIds !== undefined) {
+      criteria.agent_id = [...filter.agentIds];
+    }
+    if (filter.disconnectionReasons !== undefined) {
+      criteria.disconnection_reason = [
+        ...filter.disconnectionReasons,
+      ] as Retell.CallListParams.FilterCriteria['disconnection_reason'];
+    }
+    if (filter.since !== undefined || filter.until !== undefined) {
+      criteria.start_timestamp = {
+        ...(filter.since !== undefined && { lower_threshold: filter.since }),
+        ...(filter.until !== undefined && { upper_threshold: filter.until }),
+      };
+    }
+
+    const calls: Retell.CallResponse[] = [];
+    try {
+      let paginationKey: string | undefined;
+      while (calls.length < filter.limit) {
+        const pageSize = Math.min(this.PAGE_SIZE, filter.limit - calls.length);
+        const page = await client.call.list({
+          filter_criteria: criteria,
+          sort_order: 'descending',
+          limit: pageSize,
+          ...(paginationKey !== undefined && { pagination_key: paginationKey }),
+        });
+        calls.push(...page);
+        if (page.length < pageSize) {
+          break;
+        }
+        paginationKey = page[page.length - 1]?.call_id;
+      }
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to list calls'));
+    }
+    return Ok(calls);
+  }
+
+  static async get(client: Retell, callId: string): Promise<Result<Retell.CallResponse, Error>> {
+    try {
+      return Ok(await client.call.retrieve(callId));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error(`Failed to get call ${callId}`));
+    }
+  }
+
+  /**
+   * Flatten a call, naming its agent from agentNames (agent ID → directory)
+   */
+  static toRecord(call: Retell.CallResponse, agentNames: ReadonlyMap<string, string>): CallRecord {
+    const analysis = call.call_analysis;
+    const custom = analysis?.custom_analysis_data;
+    return {
+      call_id: call.call_id,
+      agent: agentNames.get(call.agent_id) ?? null,
+      agent_id: call.agent_id,
+      agent_version: typeof call.agent_version === 'number' ? call.agent_version : null,
+      call_type: call.call_type,
+      call_status: call.call_status,
+      direction: call.call_type === 'phone_call' ? call.direction : null,
+      from_number: call.call_type === 'phone_call' ? call.from_number : null,
+      to_number: call.call_type === 'phone_call' ? call.to_number : null,
+      start_time: this.isoTime(call.start_timestamp),
+      end_time: this.isoTime(call.end_timestamp),
+      duration_ms: call.duration_ms ?? null,
+      disconnection_reason: call.disconnection_reason ?? null,
+      user_sentiment: analysis?.user_sentiment ?? null,
+      call_successful: analysis?.call_successful ?? null,
+      in_voicemail: analysis?.in_voicemail ?? null,
+      call_summary: analysis?.call_summary ?? null,
+      custom_analysis_data:
+        typeof custom === 'object' && custom !== null ? (custom as Record<string, unknown>) : {},
+      transcript: call.transcript ?? null,
+    };
+  }
+
+  /**
+   * Records in an export format, ending with a newline
+   */
+  static format(records: ReadonlyArray<CallRecord>, format: CallExportFormat): string {
+    return format === 'csv' ? this.toCsv(records) : this.toJsonl(records);
+  }
+
+  static toJsonl(records: ReadonlyArray<CallRecord>): string {
+    return records.map((record) => `${JSON.stringify(record)}\n`).join('');
+  }
+
+  /**
+   * One row per call. Analysis fields become `analysis.<name>` columns, in
+   * the order they first appear.
+   */
+  static toCsv(records: ReadonlyArray<CallRecord>): string {
+    const analysisFields = [
+      ...new Set(records.flatMap((record) => Object.keys(record.custom_analysis_data))),
+    ];
+    const header = [
+      'call_id',
+      'agent',
+      'agent_id',
+      'agent_version',
+      'call_type',
+      'call_status',
+      'direction',
+      'from_number',
+      'to_number',
+      'start_time',
+      'end_time',
+      'duration_ms',
+      'disconnection_reason',
+      'user_sentiment',
+      'call_successful',
+      'in_voicemail',
+      'call_summary',
+      ...analysisFields.map((field) => `analysis.${field}`),
+      'transcript',
+    ];
+
+    const rows = records.map((record) => [
+      record.call_id,
+      record.agent,
+      record.agent_id,
+      record.agent_version,
+      record.call_type,
+      record.call_status,
+      record.direction,
+      record.from_number,
+      record.to_number,
+      record.start_time,
+      record.end_time,
+      record.duration_ms,
+      record.disconnection_reason,
+      record.user_sentiment,
+      record.call_successful,
+      record.in_voicemail,
+      record.call_summary,
+      ...analysisFields.map((field) => record.custom_analysis_data[field]),
+      record.transcript,
+    ]);
+
+    return [header, ...rows]
+      .map((row) => `${row.map((cell) => this.csvCell(cell)).join(',')}\n`)
+      .join('');
+  }
+
+  /**
+   * A call duration as 1m05s
+   */
+  static formatDuration(durationMs: number | null): string {
+    if (durationMs === null) {
+      return 'n/a';
+    }
+    const seconds = Math.round(durationMs / 1000);
+    return `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s`;
+  }
+
+  private static csvCell(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private static isoTime(timestamp: number | undefined): string | null {
+    return timestamp !== undefined ? new Date(timestamp).toISOString() : null;
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Call report - Aggregate an agent's calls by the agent version that took them.
+ *
+ * Each call records the agent version it ran on, so grouping by version puts
+ * the calls before and after a publish side by side: durations, sentiment,
+ * success, disconnection reasons and every post_call_analysis_data field.
+ * Booleans are summarised as a rate, numbers as average/min/max and strings
+ * as counts per value. Field types come from the agent's
+ * post_call_analysis_data when known, otherwise from the values themselves.
+ */
+
+import type { VersionInfo } from '@heya/retell.controllers';
+import type { CallRecord } from './call-history';
+
+export type AnalysisFieldType = 'string' | 'number' | 'boolean';
+
+/**
+ * A post_call_analysis_data field as declared in agent.json
+ */
+export type AnalysisFieldSpec = {
+  readonly name: string;
+  readonly type: AnalysisFieldType;
+};
+
+export type AnalysisFieldSummary =
+  | {
+      readonly name: string;
+      readonly type: 'boolean';
+      /** Calls with a value for the field */
+      readonly count: number;
+      readonly true_count: number;
+      /** true_count / count; null without values */
+      readonly rate: number | null;
+    }
+  | {
+      readonly name: string;
+      readonly type: 'number';
+      readonly count: number;
+      readonly average: number | null;
+      readonly min: number | null;
+      readonly max: number | null;
+    }
+  | {
+      readonly name: string;
+      readonly type: 'string';
+      readonly count: number;
+      /** Calls per value, most frequent first */
+      readonly values: Readonly<Record<string, number>>;
+    };
+
+export type UserSentiment = 'Positive' | 'Neutral' | 'Negative' | 'Unknown';
+
+/**
+ * Calls taken by one agent version
+ */
+export type VersionCallReport = {
+  /** null for calls Retell did not record a version for */
+  readonly version: number | null;
+  /** From the version history; null when the version is not in it */
+  readonly published: boolean | null;
+  readonly last_modified: string | null;
+  readonly calls: number;
+  readonly duration_ms: {
+    readonly average: number | null;
+    readonly median: number | null;
+    readonly total: number;
+  };
+  readonly sentiment: Readonly<Record<UserSentiment, number>>;
+  /** Share of calls with call_successful true, of those Retell judged */
+  readonly success_rate: number | null;
+  readonly voicemail: number;
+  readonly disconnection_reasons: Readonly<Record<string, number>>;
+  readonly analysis: ReadonlyArray<AnalysisFieldSummary>;
+};
+
+export class CallReport {
+  static readonly SENTIMENTS: ReadonlyArray<UserSentiment> = [
+    'Positive',
+    'Neutral',
+    'Negative',
+    'Unknown',
+  ];
+
+  /**
+   * One report per version that took calls, newest version first. Declared
+   * fields are reported in their agent.json order, then any other fields the
+   * calls carry.
+   */
+  static byVersion(
+    records: ReadonlyArray<CallRecord>,
+    versions: ReadonlyArray<VersionInfo>,
+    declaredFields: ReadonlyArray<AnalysisFieldSpec>
+  ): VersionCallReport[] {
+    const fields = this.fieldsOf(records, declaredFields);
+    const groups = new Map<number | null, CallRecord[]>();
+    for (const record of records) {
+      groups.set(record.agent_version, [...(groups.get(record.agent_version) ?? []), record]);
+    }
+
+    return [...groups]
+      .sort(([a], [b]) => (b ?? -1) - (a ?? -1))
+      .map(([version, calls]) => {
+        const info = versions.find((candidate) => candidate.version === version);
+        return {
+          version,
+          published: info?.isPublished ?? null,
+          last_modified: info?.lastModified.toISOString() ?? null,
+          ...this.summarise(calls, fields),
+        };
+      });
+  }
+
+  private static summarise(
+    calls: ReadonlyArray<CallRecord>,
+    fields: ReadonlyArray<AnalysisFieldSpec>
+  ): Omit<VersionCallReport, 'version' | 'published' | 'last_modified'> {
+    const durations = calls
+      .map((call) => call.duration_ms)
+      .filter((duration): duration is number => duration !== null)
+      .sort((a, b) => a - b);
+    const total = durations.reduce((sum, duration) => sum + duration, 0);
+
+    const sentiment: Record<UserSentiment, number> = {
+      Positive: 0,
+      Neutral: 0,
+      Negative: 0,
+      Unknown: 0,
+    };
+    for (const call of calls) {
+      const key = this.SENTIMENTS.find((candidate) => candidate === call.user_sentiment);
+      sentiment[key ?? 'Unknown'] += 1;
+    }
+
+    const judged = calls.filter((call) => call.call_successful !== null);
+
+    return {
+      calls: calls.length,
+      duration_ms: {
+        average: durations.length > 0 ? Math.round(total / durations.length) : null,
+        median: this.median(durations),
+        total,
+      },
+      sentiment,
+      success_rate: this.ratio(
+        judged.filter((call) => call.call_successful === true).length,
+        judged.length
+      ),
+      voicemail: calls.filter((call) => call.in_voicemail === true).length,
+      disconnection_reasons: this.countValues(
+        calls.map((call) => call.disconnection_reason ?? 'unknown')
+      ),
+      analysis: fields.map((field) =>
+        this.summariseField(
+          field,
+          calls
+            .map((call) => call.custom_analysis_data[field.name])
+            .filter((value) => value !== undefined && value !== null)
+        )
+      ),
+    };
+  }
+
+  private static summariseField(
+    field: AnalysisFieldSpec,
+    values: ReadonlyArray<unknown>
+  ): AnalysisFieldSummary {
+    if (field.type === 'boolean') {
+      const booleans = values
+        .map((value) => this.toBoolean(value))
+        .filter((value): value is boolean => value !== null);
+      const trueCount = booleans.filter((value) => value).length;
+      return {
+        name: field.name,
+        type: 'boolean',
+        count: booleans.length,
+        true_count: trueCount,
+        rate: this.ratio(trueCount, booleans.length),
+      };
+    }
+
+    if (field.type === 'number') {
+      const numbers = values
+        .map((value) => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value))
+        .filter((value): value is number => typeof value === 'number' && !Number.isNaN(value));
+      return {
+        name: field.name,
+        type: 'number',
+        count: numbers.length,
+        average:
+          numbers.length > 0
+            ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length
+            : null,
+        min: numbers.length > 0 ? Math.min(...numbers) : null,
+        max: numbers.length > 0 ? Math.max(...numbers) : null,
+      };
+    }
+
+    return {
+      name: field.name,
+      type: 'string',
+      count: values.length,
+      values: this.countValues(values.map((value) => String(value))),
+    };
+  }
+
+  /**
+   * Declared fields, then undeclared ones typed by their values
+   */
+  private static fieldsOf(
+    records: ReadonlyArray<CallRecord>,
+    declaredFields: ReadonlyArray<AnalysisFieldSpec>
+  ): AnalysisFieldSpec[] {
+    const fields = [...declaredFields];
+    for (const record of records) {
+      for (const [name, value] of Object.entries(record.custom_analysis_data)) {
+        if (value !== null && !fields.some((field) => field.name === name)) {
+          fields.push({
+            name,
+            type: typeof value === 'boolean' || typeof value === 'number' ? typeof value : 'string',
+          } as AnalysisFieldSpec);
+        }
+      }
+    }
+    return fields;
+  }
+
+  /**
+   * A boolean field's value, also accepting "true"/"false" strings
+   */
+  private static toBoolean(value: unknown): boolean | null {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+    return null;
+  }
+
+  private static countValues(values: ReadonlyArray<string>): Record<string, number> {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return Object.fromEntries(
+      [...counts].sort(([a, countA], [b, countB]) =>
+        countB !== countA ? countB - countA : a.localeCompare(b)
+      )
+    );
+  }
+
+  private static median(sorted: ReadonlyArray<number>): number | null {
+    if (sorted.length === 0) {
+      return null;
+    }
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1
+      ? (sorted[middle] ?? null)
+      : Math.round(((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2);
+  }
+
+  private static ratio(count: number, total: number): number | null {
+    return total > 0 ? count / total : null;
+  }
+}
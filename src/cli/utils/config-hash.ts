@@ -0,0 +1,34 @@
+/**
+ * Config hash - Hash agent configs that are not LLM agent configs.
+ *
+ * HashCalculator.calculateAgentHash only accepts an AgentConfig, which needs
+ * llm_config. Conversation-flow and custom-llm agents hash their agent.json
+ * here instead: the same canonical JSON (sorted keys) and SHA-256, so their
+ * hashes match the ones already stored in workspace metadata.
+ */
+
+import { HashCalculator } from '@heya/retell.controllers';
+import type { Hash, Result } from '@heya/retell.controllers';
+
+export class ConfigHasher {
+  static hash(config: object): Result<Hash, Error> {
+    return HashCalculator.calculateFileHash(this.canonicalize(config));
+  }
+
+  /**
+   * Canonical JSON as HashCalculator builds it
+   */
+  private static canonicalize(value: unknown): string {
+    if (value === null) {
+      return 'null';
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalize(item)).join(',')}]`;
+    }
+    if (typeof value === 'object') {
+      const entries = Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+      return `{${entries.map(([key, item]) => `"${key}":${this.canonicalize(item)}`).join(',')}}`;
+    }
+    return String(JSON.stringify(value));
+  }
+}
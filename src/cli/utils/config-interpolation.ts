@@ -0,0 +1,255 @@
+/**
+ * Config interpolation - `${env:NAME}` and `${secret:NAME}` placeholders in
+ * agent configs.
+ *
+ * Any string in agent.json (or a base or override it merges) may contain
+ * placeholders, e.g. an MCP header:
+ *
+ * "headers": { "Authorization": "Bearer ${secret:CRM_API_TOKEN}" }
+ *
+ * `env` reads the environment (including .env); `secret` reads the encrypted
+ * secrets file managed by `retell secrets` (see SecretStore). Placeholders are
+ * only resolved for what is sent to Retell: config hashes, metadata and pulled
+ * files keep the placeholder text, so resolved values never reach the repo.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Ok, Err } from '@heya/retell.controllers';
+import type { Result } from '@heya/retell.controllers';
+import { SecretStore } from './secret-store';
+
+export type PlaceholderKind = 'env' | 'secret';
+
+/**
+ * One placeholder occurrence
+ */
+export type Placeholder = {
+  readonly kind: PlaceholderKind;
+  readonly name: string;
+  /** Dot path of the string that contains it (array items by index) */
+  readonly field: string;
+};
+
+export class ConfigInterpolator {
+  /** Matches `${env:NAME}` and `${secret:NAME}` */
+  static readonly PATTERN = /\$\{(env|secret):([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+  private static readonly STAND_IN = 'https://placeholder.invalid';
+
+  /**
+   * Whether agent.json, as written, contains placeholders. Bases and
+   * overrides are checked with find() on the effective config.
+   */
+  static async hasPlaceholders(agentPath: string): Promise<boolean> {
+    try {
+      const content = await fs.readFile(path.join(agentPath, 'agent.json'), 'utf-8');
+      return new RegExp(this.PATTERN.source).test(content);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Every placeholder in a config, in field order
+   */
+  static find(config: unknown): Placeholder[] {
+    const found: Placeholder[] = [];
+    this.visit(config, '', (value, field) => {
+      for (const match of value.matchAll(this.PATTERN)) {
+        found.push({ kind: match[1] as PlaceholderKind, name: match[2] ?? '', field });
+      }
+      return value;
+    });
+    return found;
+  }
+
+  /**
+   * Placeholders with no value in the environment or the secrets file
+   */
+  static async findUnresolved(config: unknown): Promise<Result<Placeholder[], Error>> {
+    const placeholders = this.find(config);
+    const secretsResult = await this.readSecrets(placeholders);
+    if (!secretsResult.success) {
+      return secretsResult;
+    }
+    return Ok(
+      placeholders.filter(
+        (placeholder) => this.lookup(placeholder, secretsResult.value) === undefined
+      )
+    );
+  }
+
+  /**
+   * Copy of the config with every placeholder replaced by its value. Fails
+   * listing each unresolved placeholder rather than pushing an empty value.
+   */
+  static async interpolate<T>(config: T): Promise<Result<T, Error>> {
+    const placeholders = this.find(config);
+    if (placeholders.length === 0) {
+      return Ok(config);
+    }
+
+    const secretsResult = await this.readSecrets(placeholders);
+    if (!secretsResult.success) {
+      return secretsResult;
+    }
+    const secrets = secretsResult.value;
+
+    const unresolved = placeholders.filter(
+      (placeholder) => this.lookup(placeholder, secrets) === undefined
+    );
+    if (unresolved.length > 0) {
+      return Err(
+        new Error(`Unresolved placeholders: ${unresolved.map((p) => this.describe(p)).join(', ')}`)
+      );
+    }
+
+    const resolved = this.visit(config, '', (value) =>
+      value.replace(
+        this.PATTERN,
+        (_match, kind: PlaceholderKind, name: string) =>
+          this.lookup({ kind, name, field: '' }, secrets) ?? ''
+      )
+    );
+    return Ok(resolved as T);
+  }
+
+  /**
+   * Copy of the config with every placeholder replaced by a URL, so schema
+   * checks (URL fields included) see a config shaped like the one pushed
+   */
+  static withStandIns<T>(config: T): T {
+    return this.visit(config, '', (value) => value.replace(this.PATTERN, this.STAND_IN)) as T;
+  }
+
+  /**
+   * Put the committed config's placeholder strings back at the same fields
+   * of a config derived from it, e.g. the schema-parsed stand-in copy
+   */
+  static reapply<T>(config: T, committed: unknown): T {
+    const templates = this.templates(committed);
+    return this.visit(config, '', (value, field) => templates.get(field) ?? value) as T;
+  }
+
+  /**
+   * Put the committed config's placeholder strings back into a config pulled
+   * from Retell, at the same fields. Returns the config and the fields
+   * restored; a field is only restored when the pulled value is what the
+   * placeholder resolves to (or the value is unknown locally), so dashboard
+   * edits to those fields are not silently dropped.
+   */
+  static async restore(
+    pulled: Record<string, unknown>,
+    committed: unknown
+  ): Promise<{ config: Record<string, unknown>; fields: string[] }> {
+    const templates = this.templates(committed);
+    if (templates.size === 0) {
+      return { config: pulled, fields: [] };
+    }
+
+    const secretsResult = await this.readSecrets(this.find(committed));
+    const secrets = secretsResult.success ? secretsResult.value : null;
+    const fields: string[] = [];
+    const config = this.visit(pulled, '', (value, field) => {
+      const template = templates.get(field);
+      if (template === undefined) {
+        return value;
+      }
+      const expected = secrets === null ? null : this.resolveString(template, secrets);
+      if (expected !== null && expected !== value) {
+        return value;
+      }
+      fields.push(field);
+      return template;
+    }) as Record<string, unknown>;
+    return { config, fields };
+  }
+
+  /**
+   * `${kind:NAME}` at field, for messages
+   */
+  static describe(placeholder: Placeholder): string {
+    return `\${${placeholder.kind}:${placeholder.name}} (${placeholder.field})`;
+  }
+
+  /**
+   * Strings containing placeholders, by field
+   */
+  private static templates(config: unknown): Map<string, string> {
+    const templates = new Map<string, string>();
+    this.visit(config, '', (value, field) => {
+      if (new RegExp(this.PATTERN.source).test(value)) {
+        templates.set(field, value);
+      }
+      return value;
+    });
+    return templates;
+  }
+
+  /**
+   * A string with its placeholders resolved, or null if any is unresolved
+   */
+  private static resolveString(value: string, secrets: Record<string, string>): string | null {
+    let complete = true;
+    const resolved = value.replace(this.PATTERN, (_match, kind: PlaceholderKind, name: string) => {
+      const found = this.lookup({ kind, name, field: '' }, secrets);
+      if (found === undefined) {
+        complete = false;
+        return '';
+      }
+      return found;
+    });
+    return complete ? resolved : null;
+  }
+
+  private static lookup(
+    placeholder: Placeholder,
+    secrets: Record<string, string>
+  ): string | undefined {
+    return placeholder.kind === 'env'
+      ? process.env[placeholder.name]
+      : Object.prototype.hasOwnProperty.call(secrets, placeholder.name)
+        ? secrets[placeholder.name]
+        : undefined;
+  }
+
+  /**
+   * Decrypt the secrets file only when a secret placeholder needs it
+   */
+  private static async readSecrets(
+    placeholders: ReadonlyArray<Placeholder>
+  ): Promise<Result<Record<string, string>, Error>> {
+    if (!placeholders.some((placeholder) => placeholder.kind === 'secret')) {
+      return Ok({});
+    }
+    return SecretStore.read();
+  }
+
+  /**
+   * Copy of a JSON value with every string mapped
+   */
+  private static visit(
+    value: unknown,
+    field: string,
+    map: (value: string, field: string) => string
+  ): unknown {
+    if (typeof value === 'string') {
+      return map(value, field);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        this.visit(item, field === '' ? String(index) : `${field}.${index}`, map)
+      );
+    }
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.visit(item, field === '' ? key : `${field}.${key}`, map),
+        ])
+      );
+    }
+    return value;
+  }
+}
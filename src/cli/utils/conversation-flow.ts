@@ -0,0 +1,499 @@
+/**
+ * Conversation flows - Agents whose response engine is a Retell conversation
+ * flow instead of an LLM.
+ *
+ * agent.json holds the agent-level fields and a response_engine block naming
+ * the flow file. The flow's nodes, edges and tools live in that file in the
+ * agent directory, so they are reviewed and versioned together with the agent:
+ *
+ * {
+ *   "agent_name": "Booking",
+ *   "voice_id": "11labs-Adrian",
+ *   "response_engine": { "type": "conversation-flow", "flow_file": "conversation-flow.json" }
+ * }
+ *
+ * The config hash covers both files. Workspace metadata keeps llm_id null;
+ * the flow ID is read from the remote agent's response_engine when needed.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type Retell from 'retell-sdk';
+import { MetadataManager, createAgentId, now, Ok, Err } from '@heya/retell.controllers';
+import type { Hash, Result, WorkspaceConfig, WorkspaceType } from '@heya/retell.controllers';
+import { ConfigHasher } from './config-hash';
+import {
+  transformLocalToRetell,
+  transformRetellAgentToLocal,
+  transformRetellFlowToLocal,
+} from './retell-transform';
+import { RetellClientFactory } from './retell-client';
+
+/**
+ * response_engine block of a conversation-flow agent.json
+ */
+export type FlowEngine = {
+  readonly type: 'conversation-flow';
+  /** Defaults to conversation-flow.json */
+  readonly flow_file?: string;
+};
+
+/**
+ * agent.json of a conversation-flow agent: agent fields plus the engine block
+ */
+export type FlowAgentConfig = Record<string, unknown> & { readonly response_engine: FlowEngine };
+
+/**
+ * A conversation-flow agent as stored locally
+ */
+export type FlowAgent = {
+  readonly config: FlowAgentConfig;
+  /** Flow file name, relative to the agent directory */
+  readonly flowFile: string;
+  readonly flow: Record<string, unknown>;
+};
+
+/**
+ * A conversation-flow agent as returned by Retell
+ */
+export type RemoteFlowAgent = {
+  readonly agent: Retell.AgentResponse;
+  readonly flowId: string;
+  readonly flow: Retell.ConversationFlowResponse;
+};
+
+export type FlowPushOptions = {
+  readonly agentPath: string;
+  readonly workspace: WorkspaceType;
+  readonly force?: boolean;
+};
+
+/**
+ * Outcome of pushing a conversation-flow agent
+ */
+export type FlowPushResult = {
+  readonly agentId: string;
+  /** Null when nothing was pushed */
+  readonly flowId: string | null;
+  readonly configHash: string;
+  readonly retellVersion: number | null;
+  /** False when the agent was already in sync and nothing was sent */
+  readonly pushed: boolean;
+};
+
+/**
+ * A value that differs between the local and remote agent
+ */
+export type FlowDifference = {
+  /** e.g. "voice_id", "flow.global_prompt", "flow.nodes[greeting]" */
+  readonly path: string;
+  readonly local: unknown;
+  readonly remote: unknown;
+};
+
+export class ConversationFlowManager {
+  static readonly ENGINE_TYPE = 'conversation-flow';
+  static readonly DEFAULT_FLOW_FILE = 'conversation-flow.json';
+
+  static createClient(workspaceConfig: WorkspaceConfig): Retell {
+    return RetellClientFactory.create(workspaceConfig);
+  }
+
+  /**
+   * Whether a parsed agent.json uses a conversation flow.
+   */
+  static isFlowConfig(config: unknown): config is FlowAgentConfig {
+    if (typeof config !== 'object' || config === null || !('response_engine' in config)) {
+      return false;
+    }
+    const engine = config.response_engine;
+    return (
+      typeof engine === 'object' &&
+      engine !== null &&
+      'type' in engine &&
+      engine.type === this.ENGINE_TYPE &&
+      (!('flow_file' in engine) || typeof engine.flow_file === 'string')
+    );
+  }
+
+  /**
+   * Whether the agent directory holds a conversation-flow agent.
+   * Unreadable or invalid agent.json files count as LLM agents, so the
+   * existing loader reports the problem.
+   */
+  static async isFlowAgent(agentPath: string): Promise<boolean> {
+    try {
+      const content = await fs.readFile(path.join(agentPath, 'agent.json'), 'utf-8');
+      return this.isFlowConfig(JSON.parse(content));
+    } catch {
+      return false;
+    }
+  }
+
+  static getFlowFile(config: FlowAgentConfig): string {
+    const flowFile = config.response_engine.flow_file;
+    return flowFile !== undefined && flowFile !== '' ? flowFile : this.DEFAULT_FLOW_FILE;
+  }
+
+  /**
+   * Read agent.json and the flow file it names.
+   */
+  static async load(agentPath: string): Promise<Result<FlowAgent, Error>> {
+    const configResult = await this.readJson(path.join(agentPath, 'agent.json'), 'agent.json');
+    if (!configResult.success) {
+      return configResult;
+    }
+    const config = configResult.value;
+    if (!this.isFlowConfig(config)) {
+      return Err(new Error(`agent.json does not use a ${this.ENGINE_TYPE} response engine`));
+    }
+
+    const flowFile = this.getFlowFile(config);
+    const flowResult = await this.readJson(path.join(agentPath, flowFile), flowFile);
+    if (!flowResult.success) {
+      return flowResult;
+    }
+
+    return Ok({ config, flowFile, flow: flowResult.value });
+  }
+
+  /**
+   * Hash agent.json and the flow together, so a change to either shows up in
+   * status, diff and plan.
+   */
+  static calculateHash(agent: FlowAgent): Result<Hash, Error> {
+    return ConfigHasher.hash({ ...agent.config, conversation_flow: agent.flow });
+  }
+
+  /**
+   * Convert a remote agent and flow to local files. The flow file name of the
+   * existing local agent is kept.
+   */
+  static toLocal(remote: RemoteFlowAgent, flowFile: string = this.DEFAULT_FLOW_FILE): FlowAgent {
+    return {
+      config: {
+        ...transformRetellAgentToLocal(remote.agent),
+        response_engine: { type: this.ENGINE_TYPE, flow_file: flowFile },
+      },
+      flowFile,
+      flow: transformRetellFlowToLocal(remote.flow),
+    };
+  }
+
+  /**
+   * Write agent.json and the flow file.
+   */
+  static async write(agentPath: string, agent: FlowAgent): Promise<Result<void, Error>> {
+    try {
+      await fs.mkdir(agentPath, { recursive: true });
+      await fs.writeFile(
+        path.join(agentPath, 'agent.json'),
+        JSON.stringify(agent.config, null, 2) + '\n',
+        'utf-8'
+      );
+      await fs.writeFile(
+        path.join(agentPath, agent.flowFile),
+        JSON.stringify(agent.flow, null, 2) + '\n',
+        'utf-8'
+      );
+      return Ok(undefined);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to write conversation flow'));
+    }
+  }
+
+  /**
+   * The conversation flow ID a Retell agent uses, or null for other engines.
+   */
+  static getFlowId(agent: object): string | null {
+    const engine = 'response_engine' in agent ? agent.response_engine : undefined;
+    if (
+      typeof engine !== 'object' ||
+      engine === null ||
+      !('type' in engine) ||
+      engine.type !== this.ENGINE_TYPE ||
+      !('conversation_flow_id' in engine)
+    ) {
+      return null;
+    }
+    return typeof engine.conversation_flow_id === 'string' ? engine.conversation_flow_id : null;
+  }
+
+  /**
+   * Fetch an agent and the conversation flow it uses.
+   */
+  static async fetchRemote(
+    client: Retell,
+    agentId: string
+  ): Promise<Result<RemoteFlowAgent, Error>> {
+    try {
+      const agent = await client.agent.retrieve(agentId);
+      const flowId = this.getFlowId(agent);
+      if (flowId === null) {
+        return Err(new Error(`Agent ${agentId} does not use a conversation flow`));
+      }
+      const flow = await client.conversationFlow.retrieve(flowId);
+      return Ok({ agent, flowId, flow });
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to fetch conversation flow'));
+    }
+  }
+
+  /**
+   * The conversation flow ID of a remote agent, or null when it uses another
+   * engine. Look it up before deleting the agent; afterwards it is gone.
+   */
+  static async lookupFlowId(
+    client: Retell,
+    agentId: string
+  ): Promise<Result<string | null, Error>> {
+    try {
+      const agent = await client.agent.retrieve(agentId);
+      return Ok(this.getFlowId(agent));
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error(`Failed to fetch agent ${agentId}`));
+    }
+  }
+
+  static async deleteFlow(client: Retell, flowId: string): Promise<Result<void, Error>> {
+    try {
+      await client.conversationFlow.delete(flowId);
+      return Ok(undefined);
+    } catch (error) {
+      return Err(
+        error instanceof Error ? error : new Error(`Failed to delete conversation flow ${flowId}`)
+      );
+    }
+  }
+
+  /**
+   * Create or update the flow and the agent, then record the workspace
+   * metadata. Skipped when the stored hash already matches, unless forced.
+   * Production requires the same config to be in staging first, like LLM agents.
+   */
+  static async push(
+    workspaceConfig: WorkspaceConfig,
+    options: FlowPushOptions
+  ): Promise<Result<FlowPushResult, Error>> {
+    const localResult = await this.load(options.agentPath);
+    if (!localResult.success) {
+      return localResult;
+    }
+    const local = localResult.value;
+    const hashResult = this.calculateHash(local);
+    if (!hashResult.success) {
+      return hashResult;
+    }
+    const configHash = hashResult.value;
+
+    const metadataResult = await MetadataManager.read(options.agentPath, options.workspace);
+    if (!metadataResult.success) {
+      return metadataResult;
+    }
+    const metadata = metadataResult.value;
+
+    if (options.workspace === 'production' && options.force !== true) {
+      const stagingResult = await MetadataManager.read(options.agentPath, 'staging');
+      const stagingHash = stagingResult.success ? stagingResult.value.config_hash : null;
+      if (stagingHash !== configHash) {
+        return Err(
+          new Error(
+            'Agent must be pushed to staging with the same config before production. ' +
+              'Use --force to override.'
+          )
+        );
+      }
+    }
+
+    if (
+      metadata.agent_id !== null &&
+      metadata.config_hash === configHash &&
+      options.force !== true
+    ) {
+      return Ok({
+        agentId: metadata.agent_id,
+        flowId: null,
+        configHash,
+        retellVersion: metadata.retell_version,
+        pushed: false,
+      });
+    }
+
+    const client = this.createClient(workspaceConfig);
+    const agentPayload = transformLocalToRetell(local.config).agent;
+    const voiceId = agentPayload.voice_id;
+
+    let agentId: string;
+    let flowId: string;
+    let retellVersion: number | null;
+    try {
+      if (metadata.agent_id === null) {
+        if (!this.isCreatable(local.flow)) {
+          return Err(
+            new Error(`${local.flowFile}: model_choice, nodes and start_speaker are required`)
+          );
+        }
+        if (voiceId === undefined) {
+          return Err(new Error('agent.json: voice_id is required'));
+        }
+        const flow = await client.conversationFlow.create(local.flow);
+        flowId = flow.conversation_flow_id;
+        const agent = await client.agent.create({
+          ...agentPayload,
+          voice_id: voiceId,
+          response_engine: { type: this.ENGINE_TYPE, conversation_flow_id: flowId },
+        });
+        agentId = agent.agent_id;
+        retellVersion = agent.version ?? null;
+      } else {
+        agentId = metadata.agent_id;
+        const remoteResult = await this.fetchRemote(client, agentId);
+        if (!remoteResult.success) {
+          return remoteResult;
+        }
+        flowId = remoteResult.value.flowId;
+        await client.conversationFlow.update(flowId, local.flow);
+        const agent = await client.agent.update(agentId, agentPayload);
+        retellVersion = agent.version ?? null;
+      }
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to push conversation flow'));
+    }
+
+    const updateResult = await MetadataManager.update(options.agentPath, options.workspace, {
+      agent_id: createAgentId(agentId),
+      llm_id: null,
+      config_hash: configHash,
+      last_sync: now(),
+      retell_version: retellVersion,
+    });
+    if (!updateResult.success) {
+      return updateResult;
+    }
+
+    return Ok({ agentId, flowId, configHash, retellVersion, pushed: true });
+  }
+
+  /**
+   * List the values that differ between two agents, comparing agent fields,
+   * top-level flow fields and flow nodes by ID.
+   */
+  static diff(local: FlowAgent, remote: FlowAgent): FlowDifference[] {
+    const differences: FlowDifference[] = [];
+
+    const compare = (
+      localValues: Record<string, unknown>,
+      remoteValues: Record<string, unknown>,
+      toPath: (key: string) => string | null
+    ): void => {
+      const keys = new Set([...Object.keys(localValues), ...Object.keys(remoteValues)]);
+      for (const key of [...keys].sort()) {
+        const fieldPath = toPath(key);
+        if (fieldPath !== null && !this.isEqual(localValues[key], remoteValues[key])) {
+          differences.push({ path: fieldPath, local: localValues[key], remote: remoteValues[key] });
+        }
+      }
+    };
+
+    compare(local.config, remote.config, (key) => (key === 'response_engine' ? null : key));
+    compare(local.flow, remote.flow, (key) => (key === 'nodes' ? null : `flow.${key}`));
+    compare(this.nodesById(local.flow), this.nodesById(remote.flow), (id) => `flow.nodes[${id}]`);
+
+    return differences;
+  }
+
+  /**
+   * Conversation flows no agent in the workspace uses.
+   */
+  static findOrphanedFlows(
+    flowIds: ReadonlyArray<string>,
+    usedFlowIds: ReadonlyArray<string | null>
+  ): string[] {
+    const used = new Set(usedFlowIds.filter((id): id is string => id !== null));
+    return [...new Set(flowIds)].filter((id) => !used.has(id)).sort();
+  }
+
+  /**
+   * IDs of every conversation flow in the workspace. Retell lists each
+   * version separately, so IDs are de-duplicated.
+   */
+  static async listFlowIds(client: Retell): Promise<Result<string[], Error>> {
+    try {
+      const flows = await client.conversationFlow.list();
+      return Ok([...new Set(flows.map((flow) => flow.conversation_flow_id))]);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to list conversation flows'));
+    }
+  }
+
+  /**
+   * Whether a flow file has the fields Retell requires to create a flow.
+   * The rest is sent as written and validated by Retell.
+   */
+  private static isCreatable(
+    flow: Record<string, unknown>
+  ): flow is Record<string, unknown> & Retell.ConversationFlowCreateParams {
+    const modelChoice = flow['model_choice'];
+    return (
+      typeof modelChoice === 'object' &&
+      modelChoice !== null &&
+      Array.isArray(flow['nodes']) &&
+      (flow['start_speaker'] === 'user' || flow['start_speaker'] === 'agent')
+    );
+  }
+
+  private static nodesById(flow: Record<string, unknown>): Record<string, unknown> {
+    const nodes = Array.isArray(flow['nodes']) ? (flow['nodes'] as unknown[]) : [];
+    const byId: Record<string, unknown> = {};
+    nodes.forEach((node, index) => {
+      const id = (node as Record<string, unknown> | null)?.['id'];
+      byId[typeof id === 'string' ? id : `#${index}`] = node;
+    });
+    return byId;
+  }
+
+  private static isEqual(a: unknown, b: unknown): boolean {
+    return this.canonicalize(a) === this.canonicalize(b);
+  }
+
+  /**
+   * JSON with sorted object keys, so key order does not count as a difference
+   */
+  private static canonicalize(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalize(item)).join(',')}]`;
+    }
+    if (typeof value === 'object' && value !== null) {
+      const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b));
+      return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${this.canonicalize(item)}`).join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'undefined';
+  }
+
+  private static async readJson(
+    filePath: string,
+    label: string
+  ): Promise<Result<Record<string, unknown>, Error>> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return Err(new Error(`${label} not found`));
+    }
+    try {
+      const parsed = JSON.parse(content) as unknown;
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        return Err(new Error(`${label}: expected a JSON object`));
+      }
+      return Ok(parsed as Record<string, unknown>);
+    } catch (error) {
+      return Err(
+        new Error(
+          `${label}: invalid JSON (${error instanceof Error ? error.message : 'parse error'})`
+        )
+      );
+    }
+  }
+}
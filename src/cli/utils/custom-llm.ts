@@ -0,0 +1,369 @@
+/**
+ * Custom LLM - Agents whose response engine is our own LLM server, reached by
+ * Retell over a WebSocket, instead of a Retell LLM.
+ *
+ * agent.json holds the agent-level fields and a response_engine block with the
+ * WebSocket URL. The URL is either one string for every workspace or one per
+ * workspace, so staging agents can talk to a staging server:
+ *
+ * {
+ *   "agent_name": "Support",
+ *   "voice_id": "11labs-Adrian",
+ *   "response_engine": {
+ *     "type": "custom-llm",
+ *     "llm_websocket_url": {
+ *       "staging": "wss://llm-staging.example.com/llm-websocket",
+ *       "production": "wss://llm.example.com/llm-websocket"
+ *     }
+ *   }
+ * }
+ *
+ * Multi-production workspaces look up their workspace ID first, then
+ * "production". The config hash covers the whole URL map, so production can
+ * still be checked against staging. There is no Retell LLM: workspace
+ * metadata keeps llm_id null.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type Retell from 'retell-sdk';
+import { z } from 'zod';
+import {
+  AgentConfigSchema,
+  MetadataManager,
+  createAgentId,
+  now,
+  Ok,
+  Err,
+} from '@heya/retell.controllers';
+import type { Hash, Result, WorkspaceConfig, WorkspaceType } from '@heya/retell.controllers';
+import { transformLocalToRetell, transformRetellAgentToLocal } from './retell-transform';
+import { RetellClientFactory } from './retell-client';
+import { ConfigHasher } from './config-hash';
+
+export const CustomLlmEngineSchema = z
+  .object({
+    type: z.literal('custom-llm'),
+    llm_websocket_url: z.union([
+      z.string().url(),
+      z.record(z.string(), z.string().url()).refine((urls) => Object.keys(urls).length > 0, {
+        message: 'at least one workspace URL is required',
+      }),
+    ]),
+  })
+  .strict();
+
+/**
+ * AgentConfigSchema with the custom-llm engine in place of llm_config
+ */
+export const CustomLlmAgentConfigSchema = AgentConfigSchema.omit({ llm_config: true }).extend({
+  response_engine: CustomLlmEngineSchema,
+});
+
+export type CustomLlmEngine = z.infer<typeof CustomLlmEngineSchema>;
+export type CustomLlmAgentConfig = z.infer<typeof CustomLlmAgentConfigSchema>;
+
+export type CustomLlmPushOptions = {
+  readonly agentPath: string;
+  readonly workspace: WorkspaceType;
+  readonly force?: boolean;
+};
+
+/**
+ * Outcome of pushing a custom-llm agent
+ */
+export type CustomLlmPushResult = {
+  readonly agentId: string;
+  /** URL sent to Retell; null when nothing was pushed */
+  readonly llmWebsocketUrl: string | null;
+  readonly configHash: string;
+  readonly retellVersion: number | null;
+  /** False when the agent was already in sync and nothing was sent */
+  readonly pushed: boolean;
+};
+
+/**
+ * A value that differs between the local and remote agent
+ */
+export type CustomLlmDifference = {
+  /** e.g. "voice_id", "response_engine.llm_websocket_url" */
+  readonly path: string;
+  readonly local: unknown;
+  readonly remote: unknown;
+};
+
+export class CustomLlmManager {
+  static readonly ENGINE_TYPE = 'custom-llm';
+
+  static createClient(workspaceConfig: WorkspaceConfig): Retell {
+    return RetellClientFactory.create(workspaceConfig);
+  }
+
+  /**
+   * Whether a parsed agent.json or Retell agent uses a custom LLM. Only the
+   * engine type is checked; load() validates the rest of agent.json.
+   */
+  static isCustomLlmConfig(
+    config: unknown
+  ): config is { readonly response_engine: Pick<CustomLlmEngine, 'type'> } {
+    if (typeof config !== 'object' || config === null || !('response_engine' in config)) {
+      return false;
+    }
+    const engine = config.response_engine;
+    return (
+      typeof engine === 'object' &&
+      engine !== null &&
+      'type' in engine &&
+      engine.type === this.ENGINE_TYPE
+    );
+  }
+
+  /**
+   * The WebSocket URL a Retell agent uses, or null for other engines.
+   */
+  static getWebsocketUrl(agent: object): string | null {
+    if (!this.isCustomLlmConfig(agent)) {
+      return null;
+    }
+    const engine = agent.response_engine;
+    return 'llm_websocket_url' in engine && typeof engine.llm_websocket_url === 'string'
+      ? engine.llm_websocket_url
+      : null;
+  }
+
+  /**
+   * Whether the agent directory holds a custom-llm agent. Unreadable files
+   * count as LLM agents, so the existing loader reports the problem.
+   */
+  static async isCustomLlmAgent(agentPath: string): Promise<boolean> {
+    try {
+      const content = await fs.readFile(path.join(agentPath, 'agent.json'), 'utf-8');
+      return this.isCustomLlmConfig(JSON.parse(content));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Read agent.json and validate it against CustomLlmAgentConfigSchema.
+   */
+  static async load(agentPath: string): Promise<Result<CustomLlmAgentConfig, Error>> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(path.join(agentPath, 'agent.json'), 'utf-8'));
+    } catch (error) {
+      return Err(
+        new Error(
+          `Failed to read agent.json: ${error instanceof Error ? error.message : 'unknown error'}`
+        )
+      );
+    }
+
+    const result = CustomLlmAgentConfigSchema.safeParse(parsed);
+    if (!result.success) {
+      return Err(
+        new Error(
+          'Invalid custom-llm agent config: ' +
+            result.error.errors
+              .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+              .join(', ')
+        )
+      );
+    }
+    return Ok(result.data);
+  }
+
+  static calculateHash(config: CustomLlmAgentConfig): Result<Hash, Error> {
+    return ConfigHasher.hash(config);
+  }
+
+  /**
+   * The WebSocket URL an agent uses in a workspace.
+   */
+  static resolveWebsocketUrl(
+    config: CustomLlmAgentConfig,
+    workspace: WorkspaceType,
+    workspaceId?: string
+  ): Result<string, Error> {
+    const urls = config.response_engine.llm_websocket_url;
+    if (typeof urls === 'string') {
+      return Ok(urls);
+    }
+
+    const url = (workspaceId !== undefined ? urls[workspaceId] : undefined) ?? urls[workspace];
+    if (url === undefined) {
+      return Err(
+        new Error(
+          `No llm_websocket_url for ${workspaceId ?? workspace} in agent.json ` +
+            `(defined for: ${Object.keys(urls).join(', ')})`
+        )
+      );
+    }
+    return Ok(url);
+  }
+
+  /**
+   * Convert a remote agent to agent.json. Only the pulled workspace's URL is
+   * taken from Retell; URLs of other workspaces are kept from the local config.
+   */
+  static toLocal(
+    agent: object,
+    workspace: WorkspaceType,
+    existing: CustomLlmAgentConfig | null
+  ): Record<string, unknown> {
+    const remoteUrl = this.getWebsocketUrl(agent) ?? '';
+    const localUrls = existing?.response_engine.llm_websocket_url;
+
+    let llmWebsocketUrl: CustomLlmEngine['llm_websocket_url'];
+    if (localUrls === undefined || localUrls === remoteUrl) {
+      llmWebsocketUrl = remoteUrl;
+    } else if (typeof localUrls === 'string') {
+      const other: WorkspaceType = workspace === 'staging' ? 'production' : 'staging';
+      llmWebsocketUrl = { [other]: localUrls, [workspace]: remoteUrl };
+    } else {
+      llmWebsocketUrl = { ...localUrls, [workspace]: remoteUrl };
+    }
+
+    return {
+      ...transformRetellAgentToLocal(agent),
+      response_engine: { type: this.ENGINE_TYPE, llm_websocket_url: llmWebsocketUrl },
+    };
+  }
+
+  /**
+   * Create or update the agent, then record the workspace metadata. Skipped
+   * when the stored hash already matches, unless forced. Production requires
+   * the same config to be in staging first, like LLM agents.
+   */
+  static async push(
+    workspaceConfig: WorkspaceConfig,
+    options: CustomLlmPushOptions
+  ): Promise<Result<CustomLlmPushResult, Error>> {
+    const configResult = await this.load(options.agentPath);
+    if (!configResult.success) {
+      return configResult;
+    }
+    const config = configResult.value;
+    const hashResult = this.calculateHash(config);
+    if (!hashResult.success) {
+      return hashResult;
+    }
+    const configHash = hashResult.value;
+
+    const urlResult = this.resolveWebsocketUrl(config, options.workspace, workspaceConfig.id);
+    if (!urlResult.success) {
+      return urlResult;
+    }
+
+    const metadataResult = await MetadataManager.read(options.agentPath, options.workspace);
+    if (!metadataResult.success) {
+      return metadataResult;
+    }
+    const metadata = metadataResult.value;
+
+    if (options.workspace === 'production' && options.force !== true) {
+      const stagingResult = await MetadataManager.read(options.agentPath, 'staging');
+      const stagingHash = stagingResult.success ? stagingResult.value.config_hash : null;
+      if (stagingHash !== configHash) {
+        return Err(
+          new Error(
+            'Agent must be pushed to staging with the same config before production. ' +
+              'Use --force to override.'
+          )
+        );
+      }
+    }
+
+    if (
+      metadata.agent_id !== null &&
+      metadata.config_hash === configHash &&
+      options.force !== true
+    ) {
+      return Ok({
+        agentId: metadata.agent_id,
+        llmWebsocketUrl: null,
+        configHash,
+        retellVersion: metadata.retell_version,
+        pushed: false,
+      });
+    }
+
+    const client = this.createClient(workspaceConfig);
+    const agentFields = transformLocalToRetell(config).agent;
+    const responseEngine: Retell.AgentResponse.ResponseEngineCustomLm = {
+      type: this.ENGINE_TYPE,
+      llm_websocket_url: urlResult.value,
+    };
+
+    let agent;
+    try {
+      agent =
+        metadata.agent_id === null
+          ? await client.agent.create({
+              ...agentFields,
+              voice_id: config.voice_id,
+              response_engine: responseEngine,
+            })
+          : await client.agent.update(metadata.agent_id, {
+              ...agentFields,
+              response_engine: responseEngine,
+            });
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to push custom-llm agent'));
+    }
+
+    const retellVersion = agent.version ?? null;
+    const updateResult = await MetadataManager.update(options.agentPath, options.workspace, {
+      agent_id: createAgentId(agent.agent_id),
+      llm_id: null,
+      config_hash: configHash,
+      last_sync: now(),
+      retell_version: retellVersion,
+    });
+    if (!updateResult.success) {
+      return updateResult;
+    }
+
+    return Ok({
+      agentId: agent.agent_id,
+      llmWebsocketUrl: urlResult.value,
+      configHash,
+      retellVersion,
+      pushed: true,
+    });
+  }
+
+  /**
+   * List the values that differ between the local config and a remote agent
+   * in one workspace. The WebSocket URL is compared for that workspace only.
+   */
+  static diff(
+    local: CustomLlmAgentConfig,
+    remoteAgent: object,
+    workspace: WorkspaceType,
+    workspaceId?: string
+  ): CustomLlmDifference[] {
+    const differences: CustomLlmDifference[] = [];
+    const localFields = transformLocalToRetell(local).agent;
+    const remoteFields = transformLocalToRetell(transformRetellAgentToLocal(remoteAgent)).agent;
+
+    const keys = new Set([...Object.keys(localFields), ...Object.keys(remoteFields)]);
+    for (const key of [...keys].sort()) {
+      if (JSON.stringify(localFields[key]) !== JSON.stringify(remoteFields[key])) {
+        differences.push({ path: key, local: localFields[key], remote: remoteFields[key] });
+      }
+    }
+
+    const localUrl = this.resolveWebsocketUrl(local, workspace, workspaceId);
+    const remoteUrl = this.getWebsocketUrl(remoteAgent);
+    if (!localUrl.success || localUrl.value !== remoteUrl) {
+      differences.push({
+        path: 'response_engine.llm_websocket_url',
+        local: localUrl.success ? localUrl.value : undefined,
+        remote: remoteUrl,
+      });
+    }
+
+    return differences;
+  }
+}
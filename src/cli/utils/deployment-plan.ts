@@ -0,0 +1,376 @@
+/**
+ * Deployment plans - Compute and persist what `retell apply` will do to a workspace.
+ *
+ * A plan records one entry per agent directory with the action to take
+ * (create, update, no-op or delete), the hashes it was based on and a
+ * fingerprint of the remote agent and LLM. `apply` re-computes every entry and
+ * re-fetches the fingerprints before touching anything, so a plan can only be
+ * applied to the state it was made against.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { HashCalculator, MetadataManager, Ok, Err } from '@heya/retell.controllers';
+import type {
+  AgentId,
+  Hash,
+  LlmId,
+  OrchestrationMode,
+  RetellClientService,
+  Result,
+  WorkspaceType,
+} from '@heya/retell.controllers';
+import { AgentHasher } from './agent-hash';
+import { KnowledgeBaseManager } from './knowledge-base';
+
+export type PlanAction = 'create' | 'update' | 'no-op' | 'delete';
+
+/**
+ * Knowledge base files that will be uploaded or removed, by file name
+ */
+export type PlanKbChanges = {
+  readonly added: ReadonlyArray<string>;
+  readonly updated: ReadonlyArray<string>;
+  readonly removed: ReadonlyArray<string>;
+};
+
+/**
+ * Remote state an entry was planned against. Retell bumps the version or the
+ * modification timestamp on every change, so any difference means someone
+ * changed the agent or its LLM since the plan was made.
+ */
+export type RemoteFingerprint = {
+  readonly agent_version: number | null;
+  readonly agent_modified: number | null;
+  readonly llm_version: number | null;
+  readonly llm_modified: number | null;
+};
+
+export type PlanEntry = {
+  readonly agent: string;
+  readonly action: PlanAction;
+  readonly reason: string;
+  readonly agent_id: AgentId | null;
+  readonly llm_id: LlmId | null;
+  readonly local_hash: Hash | null;
+  readonly synced_hash: Hash | null;
+  readonly kb_changes: PlanKbChanges;
+  readonly remote: RemoteFingerprint | null;
+};
+
+/**
+ * Plan file written by `retell plan` and consumed by `retell apply`
+ */
+export type DeploymentPlan = {
+  readonly version: number;
+  readonly created_at: string;
+  readonly workspace: WorkspaceType;
+  readonly agents_path: string;
+  readonly prompts_path: string;
+  readonly entries: ReadonlyArray<PlanEntry>;
+};
+
+export type PlanSummary = Readonly<Record<PlanAction, number>>;
+
+export class DeploymentPlanner {
+  static readonly FILE_VERSION = 1;
+  static readonly DEFAULT_FILE = 'retell-plan.json';
+
+  private static readonly NO_KB_CHANGES: PlanKbChanges = { added: [], updated: [], removed: [] };
+
+  /**
+   * Plan every agent directory under agentsPath (or only `only`), sorted by name.
+   * Directories without agent.json but with synced metadata are planned for deletion.
+   */
+  static async planAll(
+    agentsPath: string,
+    workspace: WorkspaceType,
+    mode: OrchestrationMode,
+    only?: ReadonlyArray<string>
+  ): Promise<Result<PlanEntry[], Error>> {
+    let names: string[];
+    try {
+      const entries = await fs.readdir(agentsPath, { withFileTypes: true });
+      names = entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+        .filter((name) => only === undefined || only.includes(name))
+        .sort();
+    } catch (error) {
+      return Err(
+        new Error(
+          `Failed to read agents directory ${agentsPath}: ${error instanceof Error ? error.message : 'unknown error'}`
+        )
+      );
+    }
+
+    const planned: PlanEntry[] = [];
+    for (const name of names) {
+      const entryResult = await this.planAgent(agentsPath, name, workspace, mode);
+      if (!entryResult.success) {
+        return entryResult;
+      }
+      if (entryResult.value !== null) {
+        planned.push(entryResult.value);
+      }
+    }
+    return Ok(planned);
+  }
+
+  /**
+   * Plan a single agent directory without contacting Retell.
+   * Returns null for directories that are neither agents nor synced metadata.
+   */
+  static async planAgent(
+    agentsPath: string,
+    agentName: string,
+    workspace: WorkspaceType,
+    mode: OrchestrationMode
+  ): Promise<Result<PlanEntry | null, Error>> {
+    const agentPath = path.join(agentsPath, agentName);
+    const hasConfig = await this.fileExists(path.join(agentPath, 'agent.json'));
+
+    const metadataResult = await MetadataManager.read(agentPath, workspace, mode);
+    if (!metadataResult.success) {
+      return Err(new Error(`${agentName}: ${metadataResult.error.message}`));
+    }
+    const metadata = metadataResult.value;
+
+    if (!hasConfig) {
+      if (metadata.agent_id === null) {
+        return Ok(null);
+      }
+      return Ok({
+        agent: agentName,
+        action: 'delete',
+        reason: 'agent.json removed',
+        agent_id: metadata.agent_id,
+        llm_id: metadata.llm_id,
+        local_hash: null,
+        synced_hash: metadata.config_hash,
+        kb_changes: this.NO_KB_CHANGES,
+        remote: null,
+      });
+    }
+
+    const hashResult = await AgentHasher.hashLocal(agentPath, workspace);
+    if (!hashResult.success) {
+      return Err(new Error(`${agentName}: ${hashResult.error.message}`));
+    }
+    const localHash = hashResult.value;
+
+    const kbResult = await this.planKnowledgeBase(agentPath, workspace);
+    if (!kbResult.success) {
+      return Err(new Error(`${agentName}: ${kbResult.error.message}`));
+    }
+
+    const { action, reason } = this.decide(
+      localHash,
+      metadata.agent_id,
+      metadata.config_hash,
+      kbResult.value
+    );
+
+    return Ok({
+      agent: agentName,
+      action,
+      reason,
+      agent_id: metadata.agent_id,
+      llm_id: metadata.llm_id,
+      local_hash: localHash,
+      synced_hash: metadata.config_hash,
+      kb_changes: kbResult.value,
+      remote: null,
+    });
+  }
+
+  /**
+   * Decide the action for an agent that has a local config.
+   */
+  static decide(
+    localHash: Hash,
+    agentId: AgentId | null,
+    syncedHash: Hash | null,
+    kbChanges: PlanKbChanges
+  ): { action: PlanAction; reason: string } {
+    if (agentId === null) {
+      return { action: 'create', reason: 'not yet pushed' };
+    }
+
+    const configChanged =
+      syncedHash === null || !HashCalculator.compareHashes(localHash, syncedHash);
+    const kbFiles = kbChanges.added.length + kbChanges.updated.length + kbChanges.removed.length;
+
+    if (configChanged && kbFiles > 0) {
+      return { action: 'update', reason: `config and knowledge base (${kbFiles} file(s)) changed` };
+    }
+    if (configChanged) {
+      return { action: 'update', reason: 'config changed' };
+    }
+    if (kbFiles > 0) {
+      return { action: 'update', reason: `knowledge base (${kbFiles} file(s)) changed` };
+    }
+    return { action: 'no-op', reason: 'in sync' };
+  }
+
+  /**
+   * Fetch the remote fingerprint of an agent and its LLM.
+   */
+  static async fetchRemote(
+    client: RetellClientService,
+    agentId: AgentId,
+    llmId: LlmId | null
+  ): Promise<Result<RemoteFingerprint, Error>> {
+    const agentResult = await client.getAgent(agentId);
+    if (!agentResult.success) {
+      return Err(new Error(`Failed to fetch agent ${agentId}: ${agentResult.error.message}`));
+    }
+    const agent = agentResult.value as Record<string, unknown>;
+
+    let llm: Record<string, unknown> = {};
+    if (llmId !== null) {
+      const llmResult = await client.getLlm(llmId);
+      if (!llmResult.success) {
+        return Err(new Error(`Failed to fetch LLM ${llmId}: ${llmResult.error.message}`));
+      }
+      llm = llmResult.value as Record<string, unknown>;
+    }
+
+    return Ok({
+      agent_version: this.toNumber(agent['version']),
+      agent_modified: this.toNumber(agent['last_modification_timestamp']),
+      llm_version: this.toNumber(llm['version']),
+      llm_modified: this.toNumber(llm['last_modification_timestamp']),
+    });
+  }
+
+  /**
+   * Describe how a re-computed entry differs from the planned one.
+   * An empty list means the entry can be applied as planned.
+   */
+  static compareEntries(planned: PlanEntry, current: PlanEntry | null): string[] {
+    if (current === null) {
+      return ['agent directory no longer exists'];
+    }
+
+    const changes: string[] = [];
+    if (current.action !== planned.action) {
+      changes.push(`action is now '${current.action}' (planned '${planned.action}')`);
+    }
+    if (current.local_hash !== planned.local_hash) {
+      changes.push('local config changed');
+    }
+    if (current.synced_hash !== planned.synced_hash || current.agent_id !== planned.agent_id) {
+      changes.push('metadata changed (pushed elsewhere?)');
+    }
+    if (JSON.stringify(current.kb_changes) !== JSON.stringify(planned.kb_changes)) {
+      changes.push('knowledge base files changed');
+    }
+    return changes;
+  }
+
+  /**
+   * Describe how the remote fingerprint differs from the planned one.
+   */
+  static compareRemote(planned: RemoteFingerprint, current: RemoteFingerprint): string[] {
+    const changes: string[] = [];
+    if (
+      planned.agent_version !== current.agent_version ||
+      planned.agent_modified !== current.agent_modified
+    ) {
+      changes.push('remote agent changed');
+    }
+    if (
+      planned.llm_version !== current.llm_version ||
+      planned.llm_modified !== current.llm_modified
+    ) {
+      changes.push('remote LLM changed');
+    }
+    return changes;
+  }
+
+  static summarize(entries: ReadonlyArray<PlanEntry>): PlanSummary {
+    const summary: Record<PlanAction, number> = { create: 0, update: 0, 'no-op': 0, delete: 0 };
+    for (const entry of entries) {
+      summary[entry.action]++;
+    }
+    return summary;
+  }
+
+  static hasChanges(plan: DeploymentPlan): boolean {
+    return plan.entries.some((entry) => entry.action !== 'no-op');
+  }
+
+  static async write(filePath: string, plan: DeploymentPlan): Promise<Result<void, Error>> {
+    try {
+      await fs.writeFile(filePath, JSON.stringify(plan, null, 2) + '\n', 'utf-8');
+      return Ok(undefined);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to write plan file'));
+    }
+  }
+
+  static async read(filePath: string): Promise<Result<DeploymentPlan, Error>> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      return Err(
+        new Error(
+          `Failed to read plan file ${filePath}: ${error instanceof Error ? error.message : 'unknown error'}`
+        )
+      );
+    }
+
+    if (
+      typeof parsed !== 'object' ||
+      parsed === null ||
+      !Array.isArray((parsed as Record<string, unknown>)['entries'])
+    ) {
+      return Err(new Error(`${filePath} is not a plan file. Create one with 'retell plan'.`));
+    }
+    const plan = parsed as DeploymentPlan;
+    if (plan.version !== this.FILE_VERSION) {
+      return Err(
+        new Error(
+          `Unsupported plan file version ${String(plan.version)} (expected ${this.FILE_VERSION}). Run 'retell plan' again.`
+        )
+      );
+    }
+    return Ok(plan);
+  }
+
+  private static async planKnowledgeBase(
+    agentPath: string,
+    workspace: WorkspaceType
+  ): Promise<Result<PlanKbChanges, Error>> {
+    const filesResult = await KnowledgeBaseManager.listLocalFiles(agentPath);
+    if (!filesResult.success) {
+      return filesResult;
+    }
+    const metaResult = await KnowledgeBaseManager.readMeta(agentPath);
+    if (!metaResult.success) {
+      return metaResult;
+    }
+
+    const kbPlan = KnowledgeBaseManager.plan(filesResult.value, metaResult.value[workspace]);
+    return Ok({
+      added: kbPlan.added.map((file) => file.name),
+      updated: kbPlan.updated.map((file) => file.name),
+      removed: [...kbPlan.removed],
+    });
+  }
+
+  private static toNumber(value: unknown): number | null {
+    return typeof value === 'number' ? value : null;
+  }
+
+  private static async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Git changes - Find the agents affected by files changed since a git ref.
+ *
+ * An agent is affected when a file in its directory changed, when a prompt
+ * section it lists in prompt_config.sections changed, or when a base agent or
+ * template it `extends` changed, so editing `prompts/base/closing.txt`
+ * affects every agent that composes it. Changes are taken from the working
+ * tree, so uncommitted edits and new untracked files count too.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { Ok, Err } from '@heya/retell.controllers';
+import type { Result } from '@heya/retell.controllers';
+import { AgentInheritance } from './agent-inheritance';
+import { PromptSectionIndex } from './prompt-sections';
+
+const execFileAsync = promisify(execFile);
+
+export type AffectedAgent = {
+  readonly name: string;
+  /** Changed files that affect the agent, relative to the current directory */
+  readonly files: ReadonlyArray<string>;
+};
+
+export class GitChangeDetector {
+  /**
+   * Absolute paths of files in cwd's repository that differ from `since` in
+   * the working tree, including deleted files and untracked files that are not ignored.
+   * `since` must name a commit; it is resolved before it reaches `git diff`, so
+   * a value such as `--output=<file>` is rejected instead of read as an option.
+   */
+  static async changedFiles(
+    since: string,
+    cwd: string = process.cwd()
+  ): Promise<Result<string[], Error>> {
+    try {
+      const root = (await this.git(cwd, ['rev-parse', '--show-toplevel'])).trim();
+      const commit = (
+        await this.git(cwd, ['rev-parse', '--verify', '--end-of-options', `${since}^{commit}`])
+      ).trim();
+      const diff = await this.git(cwd, ['diff', '--name-only', '--no-renames', commit, '--']);
+      const untracked = await this.git(cwd, [
+        'ls-files',
+        '--others',
+        '--exclude-standard',
+        '--full-name',
+        ':/',
+      ]);
+
+      const files = new Set(
+        [...diff.split('\n'), ...untracked.split('\n')]
+          .filter((file) => file !== '')
+          .map((file) => path.join(root, file))
+      );
+      return Ok([...files].sort());
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      return Err(
+        new Error(
+          `Failed to list files changed since '${since}': ${stderr || (error instanceof Error ? error.message : 'unknown error')}`
+        )
+      );
+    }
+  }
+
+  /**
+   * Agent directories under agentsPath affected by changes since `since`, sorted by name.
+   * Directories without agent.json are included, so callers can plan deletions.
+   */
+  static async affectedAgents(
+    since: string,
+    agentsPath: string,
+    promptsPath: string
+  ): Promise<Result<AffectedAgent[], Error>> {
+    let names: string[];
+    let agentsDir: string;
+    try {
+      agentsDir = await fs.realpath(agentsPath);
+      const entries = await fs.readdir(agentsDir, { withFileTypes: true });
+      names = entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+        .sort();
+    } catch {
+      return Err(new Error(`Agents directory not found: ${agentsPath}`));
+    }
+
+    const filesResult = await this.changedFiles(since, agentsDir);
+    if (!filesResult.success) {
+      return filesResult;
+    }
+    const changed = filesResult.value;
+    const promptsDir = await this.realpathOrSelf(promptsPath);
+    const cwd = await this.realpathOrSelf(process.cwd());
+
+    const affected: AffectedAgent[] = [];
+    for (const name of names) {
+      const agentPath = path.join(agentsDir, name);
+      const dependencies = new Set([
+        ...(await this.getSections(agentPath)).map((sectionId) =>
+          PromptSectionIndex.getSectionPath(promptsDir, sectionId)
+        ),
+        ...(await this.getBases(agentPath)),
+      ]);
+
+      const files = changed.filter(
+        (file) => file.startsWith(agentPath + path.sep) || dependencies.has(file)
+      );
+      if (files.length > 0) {
+        affected.push({
+          name,
+          files: files.map((file) => path.relative(cwd, file)),
+        });
+      }
+    }
+    return Ok(affected);
+  }
+
+  /**
+   * Prompt sections an agent composes. Agents whose config does not load
+   * (or that have no prompt_config) have none.
+   */
+  private static async getSections(agentPath: string): Promise<ReadonlyArray<string>> {
+    const configResult = await AgentInheritance.load(agentPath);
+    return configResult.success ? PromptSectionIndex.getSections(configResult.value) : [];
+  }
+
+  /**
+   * Real paths of the base agents and templates an agent extends
+   */
+  private static async getBases(agentPath: string): Promise<string[]> {
+    const resolvedResult = await AgentInheritance.resolve(agentPath);
+    if (!resolvedResult.success) {
+      return [];
+    }
+    const bases = resolvedResult.value.chain.slice(0, -1);
+    return Promise.all(bases.map((base) => this.realpathOrSelf(base)));
+  }
+
+  /**
+   * git reports real paths; resolve symlinks (e.g. macOS /var → /private/var) to match.
+   */
+  private static async realpathOrSelf(target: string): Promise<string> {
+    try {
+      return await fs.realpath(target);
+    } catch {
+      return path.resolve(target);
+    }
+  }
+
+  private static async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 });
+    return stdout;
+  }
+}
@@ -0,0 +1,484 @@
+/**
+ * Knowledge base sync - Incrementally upload an agent's knowledge/ files to Retell.
+ *
+ * Each agent keeps its knowledge base files in `agents/<name>/knowledge/` and
+ * tracks what has been uploaded per workspace in `knowledge/.kb-meta.json`:
+ *
+ * {
+ *   "staging": {
+ *     "kb_id": "kb_...",
+ *     "files": { "faq.txt": { "file_id", "hash", "size_bytes", "last_sync" } }
+ *   }
+ * }
+ *
+ * Only files whose hash changed are re-uploaded; files deleted locally are
+ * removed from the remote knowledge base.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createReadStream } from 'fs';
+import { createHash } from 'crypto';
+import type Retell from 'retell-sdk';
+import { MetadataManager, createKnowledgeBaseId, Ok, Err } from '@heya/retell.controllers';
+import type { Result, WorkspaceConfig, WorkspaceType } from '@heya/retell.controllers';
+import { RetellClientFactory } from './retell-client';
+
+/**
+ * Uploaded file entry in .kb-meta.json
+ */
+export type KbFileEntry = {
+  readonly file_id: string;
+  readonly hash: string;
+  readonly size_bytes: number;
+  readonly last_sync: string;
+};
+
+/**
+ * Per-workspace knowledge base state in .kb-meta.json
+ */
+export type KbWorkspaceState = {
+  readonly kb_id: string | null;
+  readonly files: Readonly<Record<string, KbFileEntry>>;
+};
+
+/**
+ * Contents of .kb-meta.json, keyed by workspace key (staging, production, or a
+ * multi-production workspace key)
+ */
+export type KbMeta = Readonly<Record<string, KbWorkspaceState>>;
+
+/**
+ * Knowledge base file found in the agent's knowledge/ directory
+ */
+export type LocalKbFile = {
+  readonly name: string;
+  readonly path: string;
+  readonly hash: string;
+  readonly size_bytes: number;
+  readonly modified: Date;
+};
+
+/**
+ * Changes needed to bring a workspace knowledge base in line with local files
+ */
+export type KbSyncPlan = {
+  readonly added: ReadonlyArray<LocalKbFile>;
+  readonly updated: ReadonlyArray<LocalKbFile>;
+  readonly removed: ReadonlyArray<string>;
+  readonly unchanged: ReadonlyArray<string>;
+};
+
+/**
+ * Outcome of syncing a workspace knowledge base
+ */
+export type KbSyncResult = {
+  readonly kbId: string | null;
+  readonly created: boolean;
+  readonly plan: KbSyncPlan;
+};
+
+export type KbSyncOptions = {
+  readonly agentName: string;
+  readonly agentPath: string;
+  readonly workspaceKey: string;
+  readonly dryRun?: boolean;
+};
+
+export type KbPushOptions = {
+  readonly agentName: string;
+  readonly agentPath: string;
+  readonly workspace: WorkspaceType;
+  /** knowledge_base_ids from agent.json that must stay linked to the LLM */
+  readonly configuredIds?: ReadonlyArray<string>;
+  readonly dryRun?: boolean;
+};
+
+/**
+ * Outcome of pushing a knowledge base: the file sync plus LLM linking
+ */
+export type KbPushResult = KbSyncResult & {
+  readonly llmId: string | null;
+  readonly linked: boolean;
+};
+
+export class KnowledgeBaseManager {
+  static readonly KNOWLEDGE_DIR = 'knowledge';
+  static readonly META_FILENAME = '.kb-meta.json';
+
+  /** Retell rejects knowledge base names of 40 characters or more */
+  private static readonly MAX_KB_NAME_LENGTH = 39;
+
+  static createClient(workspaceConfig: WorkspaceConfig): Retell {
+    return RetellClientFactory.create(workspaceConfig);
+  }
+
+  static getKnowledgeDir(agentPath: string): string {
+    return path.join(agentPath, this.KNOWLEDGE_DIR);
+  }
+
+  /**
+   * Read .kb-meta.json. A missing file means nothing has been uploaded yet.
+   */
+  static async readMeta(agentPath: string): Promise<Result<KbMeta, Error>> {
+    const metaPath = path.join(this.getKnowledgeDir(agentPath), this.META_FILENAME);
+
+    let content: string;
+    try {
+      content = await fs.readFile(metaPath, 'utf-8');
+    } catch {
+      return Ok({});
+    }
+
+    try {
+      return Ok(JSON.parse(content) as KbMeta);
+    } catch (error) {
+      return Err(
+        new Error(
+          `Invalid ${this.META_FILENAME}: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+    }
+  }
+
+  static async writeMeta(agentPath: string, meta: KbMeta): Promise<Result<void, Error>> {
+    try {
+      const knowledgeDir = this.getKnowledgeDir(agentPath);
+      await fs.mkdir(knowledgeDir, { recursive: true });
+      await fs.writeFile(
+        path.join(knowledgeDir, this.META_FILENAME),
+        JSON.stringify(meta, null, 2) + '\n',
+        'utf-8'
+      );
+      return Ok(undefined);
+    } catch (error) {
+      return Err(
+        error instanceof Error ? error : new Error('Failed to write knowledge base metadata')
+      );
+    }
+  }
+
+  /**
+   * List files in the knowledge/ directory with their content hashes.
+   * Hidden files (including .kb-meta.json) are ignored.
+   */
+  static async listLocalFiles(agentPath: string): Promise<Result<LocalKbFile[], Error>> {
+    const knowledgeDir = this.getKnowledgeDir(agentPath);
+
+    let entries;
+    try {
+      entries = await fs.readdir(knowledgeDir, { withFileTypes: true });
+    } catch {
+      return Ok([]);
+    }
+
+    try {
+      const files: LocalKbFile[] = [];
+      for (const entry of entries) {
+        if (!entry.isFile() || entry.name.startsWith('.')) {
+          continue;
+        }
+        const filePath = path.join(knowledgeDir, entry.name);
+        const [content, stats] = await Promise.all([fs.readFile(filePath), fs.stat(filePath)]);
+        files.push({
+          name: entry.name,
+          path: filePath,
+          hash: this.calculateHash(content),
+          size_bytes: stats.size,
+          modified: stats.mtime,
+        });
+      }
+
+      files.sort((a, b) => a.name.localeCompare(b.name));
+      return Ok(files);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to read knowledge base files'));
+    }
+  }
+
+  /**
+   * Whether the agent has a knowledge base in the workspace: local files to
+   * upload, or a knowledge base uploaded earlier. Push and apply sync and link
+   * it to the LLM whenever it does, even when no file changed.
+   */
+  static async hasKnowledgeBase(
+    agentPath: string,
+    workspace: string
+  ): Promise<Result<boolean, Error>> {
+    const filesResult = await this.listLocalFiles(agentPath);
+    if (!filesResult.success) {
+      return filesResult;
+    }
+    const metaResult = await this.readMeta(agentPath);
+    if (!metaResult.success) {
+      return metaResult;
+    }
+    return Ok(filesResult.value.length > 0 || metaResult.value[workspace] !== undefined);
+  }
+
+  /**
+   * Hash raw file bytes in the same `sha256:<hex>` format as HashCalculator.
+   * Files are hashed as buffers so binary documents (PDFs) hash correctly.
+   */
+  static calculateHash(content: Buffer): string {
+    return `sha256:${createHash('sha256').update(content).digest('hex')}`;
+  }
+
+  /**
+   * Compare local files against what was last uploaded to a workspace.
+   */
+  static plan(localFiles: ReadonlyArray<LocalKbFile>, state?: KbWorkspaceState): KbSyncPlan {
+    const remoteFiles = state?.files ?? {};
+    const added: LocalKbFile[] = [];
+    const updated: LocalKbFile[] = [];
+    const unchanged: string[] = [];
+
+    for (const file of localFiles) {
+      const entry = remoteFiles[file.name];
+      if (entry === undefined) {
+        added.push(file);
+      } else if (entry.hash !== file.hash) {
+        updated.push(file);
+      } else {
+        unchanged.push(file.name);
+      }
+    }
+
+    const localNames = new Set(localFiles.map((file) => file.name));
+    const removed = Object.keys(remoteFiles)
+      .filter((name) => !localNames.has(name))
+      .sort();
+
+    return { added, updated, removed, unchanged };
+  }
+
+  static hasChanges(plan: KbSyncPlan): boolean {
+    return plan.added.length > 0 || plan.updated.length > 0 || plan.removed.length > 0;
+  }
+
+  /**
+   * Upload new and changed files and remove deleted ones for a single workspace.
+   * Creates the knowledge base on first upload. A changed file's old source is
+   * deleted only after the new version is uploaded, so a failed upload leaves
+   * the knowledge base serving the old one. Metadata is saved even when a
+   * later file fails, so successful uploads are not repeated on retry.
+   */
+  static async sync(client: Retell, options: KbSyncOptions): Promise<Result<KbSyncResult, Error>> {
+    const metaResult = await this.readMeta(options.agentPath);
+    if (!metaResult.success) {
+      return metaResult;
+    }
+    const filesResult = await this.listLocalFiles(options.agentPath);
+    if (!filesResult.success) {
+      return filesResult;
+    }
+
+    const meta = metaResult.value;
+    const state = meta[options.workspaceKey];
+    const plan = this.plan(filesResult.value, state);
+
+    if (options.dryRun === true || !this.hasChanges(plan)) {
+      return Ok({ kbId: state?.kb_id ?? null, created: false, plan });
+    }
+
+    let kbId = state?.kb_id ?? null;
+    let created = false;
+    const files: Record<string, KbFileEntry> = { ...(state?.files ?? {}) };
+
+    const save = async (): Promise<Result<void, Error>> =>
+      this.writeMeta(options.agentPath, {
+        ...meta,
+        [options.workspaceKey]: { kb_id: kbId, files },
+      });
+
+    try {
+      for (const name of plan.removed) {
+        const entry = files[name];
+        if (kbId !== null && entry !== undefined) {
+          await client.knowledgeBase.deleteSource(kbId, entry.file_id);
+        }
+        delete files[name];
+      }
+
+      const uploads = [...plan.added, ...plan.updated];
+      if (uploads.length > 0 && kbId === null) {
+        const response = await client.knowledgeBase.create({
+          knowledge_base_name: options.agentName.slice(0, this.MAX_KB_NAME_LENGTH),
+          knowledge_base_files: uploads.map((file) => createReadStream(file.path)),
+        });
+        kbId = response.knowledge_base_id;
+        created = true;
+        for (const file of uploads) {
+          files[file.name] = this.toEntry(file, this.findSourceId(response, file.name, files));
+        }
+      } else if (kbId !== null) {
+        for (const file of uploads) {
+          const response = await client.knowledgeBase.addSources(kbId, {
+            knowledge_base_files: [createReadStream(file.path)],
+          });
+          const previous = files[file.name];
+          files[file.name] = this.toEntry(file, this.findSourceId(response, file.name, files));
+          if (previous !== undefined) {
+            await client.knowledgeBase.deleteSource(kbId, previous.file_id);
+          }
+        }
+      }
+    } catch (error) {
+      await save();
+      return Err(error instanceof Error ? error : new Error('Failed to sync knowledge base'));
+    }
+
+    const saveResult = await save();
+    if (!saveResult.success) {
+      return saveResult;
+    }
+
+    return Ok({ kbId, created, plan });
+  }
+
+  /**
+   * Sync knowledge base files to a workspace, link the knowledge base to the
+   * agent's LLM and record its id in the workspace metadata.
+   * Linking is skipped when the agent has not been pushed to the workspace yet.
+   */
+  static async push(
+    workspaceConfig: WorkspaceConfig,
+    options: KbPushOptions
+  ): Promise<Result<KbPushResult, Error>> {
+    const client = this.createClient(workspaceConfig);
+
+    const syncResult = await this.sync(client, {
+      agentName: options.agentName,
+      agentPath: options.agentPath,
+      workspaceKey: options.workspace,
+      dryRun: options.dryRun,
+    });
+    if (!syncResult.success) {
+      return syncResult;
+    }
+
+    const { kbId } = syncResult.value;
+    const metadataResult = await MetadataManager.read(options.agentPath, options.workspace);
+    const llmId = metadataResult.success ? metadataResult.value.llm_id : null;
+
+    if (options.dryRun === true || kbId === null || llmId === null) {
+      return Ok({ ...syncResult.value, llmId, linked: false });
+    }
+
+    const linkResult = await this.linkToLlm(client, llmId, kbId, options.configuredIds);
+    if (!linkResult.success) {
+      return linkResult;
+    }
+
+    const updateResult = await MetadataManager.update(options.agentPath, options.workspace, {
+      kb_id: createKnowledgeBaseId(kbId),
+    });
+    if (!updateResult.success) {
+      return updateResult;
+    }
+
+    return Ok({ ...syncResult.value, llmId, linked: linkResult.value });
+  }
+
+  /**
+   * Delete a single file from a workspace knowledge base and stop tracking it.
+   * Returns false when the file was never uploaded to that workspace.
+   */
+  static async removeRemoteFile(
+    client: Retell,
+    agentPath: string,
+    workspaceKey: string,
+    fileName: string
+  ): Promise<Result<boolean, Error>> {
+    const metaResult = await this.readMeta(agentPath);
+    if (!metaResult.success) {
+      return metaResult;
+    }
+
+    const state = metaResult.value[workspaceKey];
+    const entry = state?.files[fileName];
+    if (state === undefined || entry === undefined || state.kb_id === null) {
+      return Ok(false);
+    }
+
+    try {
+      await client.knowledgeBase.deleteSource(state.kb_id, entry.file_id);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error(`Failed to delete ${fileName}`));
+    }
+
+    const files = Object.fromEntries(
+      Object.entries(state.files).filter(([name]) => name !== fileName)
+    );
+    const writeResult = await this.writeMeta(agentPath, {
+      ...metaResult.value,
+      [workspaceKey]: { kb_id: state.kb_id, files },
+    });
+    if (!writeResult.success) {
+      return writeResult;
+    }
+
+    return Ok(true);
+  }
+
+  /**
+   * Make sure the LLM references the knowledge base, alongside any
+   * knowledge_base_ids configured in agent.json. Returns true if the LLM was updated.
+   */
+  static async linkToLlm(
+    client: Retell,
+    llmId: string,
+    kbId: string,
+    configuredIds: ReadonlyArray<string> = []
+  ): Promise<Result<boolean, Error>> {
+    try {
+      const llm = await client.llm.retrieve(llmId);
+      const desired = Array.from(new Set([...configuredIds, kbId]));
+      const current = llm.knowledge_base_ids ?? [];
+
+      const inSync =
+        current.length === desired.length && desired.every((id) => current.includes(id));
+      if (inSync) {
+        return Ok(false);
+      }
+
+      await client.llm.update(llmId, {
+        start_speaker: llm.start_speaker,
+        knowledge_base_ids: desired,
+      });
+      return Ok(true);
+    } catch (error) {
+      return Err(
+        error instanceof Error ? error : new Error('Failed to link knowledge base to LLM')
+      );
+    }
+  }
+
+  private static toEntry(file: LocalKbFile, fileId: string): KbFileEntry {
+    return {
+      file_id: fileId,
+      hash: file.hash,
+      size_bytes: file.size_bytes,
+      last_sync: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Find the source ID Retell assigned to a freshly uploaded file: the document
+   * source with a matching filename that isn't already tracked.
+   */
+  private static findSourceId(
+    response: Retell.KnowledgeBaseResponse,
+    fileName: string,
+    tracked: Readonly<Record<string, KbFileEntry>>
+  ): string {
+    const trackedIds = new Set(Object.values(tracked).map((entry) => entry.file_id));
+    const source = (response.knowledge_base_sources ?? []).find(
+      (s) => s.type === 'document' && s.filename === fileName && !trackedIds.has(s.source_id)
+    );
+    if (source === undefined) {
+      throw new Error(`Retell did not return a source for uploaded file ${fileName}`);
+    }
+    return source.source_id;
+  }
+}
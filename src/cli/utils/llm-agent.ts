@@ -0,0 +1,121 @@
+/**
+ * LLM agent - Push a retell-llm agent the way `retell push` does.
+ *
+ * AgentController.push builds the agent and LLM from prompt_config and the
+ * fields it knows about. Every other agent.json field in the shared field map
+ * (e.g. boosted_keywords, start_speaker, the voicemail settings) is sent
+ * afterwards with an agent and LLM update, so settings pulled from Retell
+ * survive a push. Both steps see the config with `extends`, the workspace's
+ * overrides and any env/secret placeholders resolved.
+ *
+ * push, release and apply push LLM agents through here; conversation-flow and
+ * custom-llm agents go through their own managers.
+ */
+
+import * as path from 'path';
+import { AgentController, WorkspaceConfigService, Ok, Err } from '@heya/retell.controllers';
+import type { PushResult, RetellError, Result, WorkspaceType } from '@heya/retell.controllers';
+import { AgentInheritance } from './agent-inheritance';
+import { ConfigInterpolator } from './config-interpolation';
+import { RetellClientFactory } from './retell-client';
+import { transformLocalToRetell } from './retell-transform';
+
+/**
+ * LLM fields AgentController composes itself: general_prompt is built from
+ * prompt_config and general_tools merges the legacy tools list.
+ */
+const CONTROLLER_COMPOSED_LLM_FIELDS = ['general_prompt', 'general_tools'] as const;
+
+export type LlmAgentPushOptions = {
+  /** Agents directory */
+  agentsPath: string;
+  agentName: string;
+  workspace: WorkspaceType;
+  force?: boolean;
+  /** Prompts directory for prompt_config sections */
+  promptsPath?: string;
+};
+
+export class LlmAgentManager {
+  /**
+   * Push the agent through AgentController, then send the mapped fields when
+   * the controller pushed. An agent already in sync is left alone.
+   */
+  static async push(
+    options: LlmAgentPushOptions
+  ): Promise<Result<PushResult, RetellError | Error>> {
+    const result = await AgentInheritance.withResolvedAgent(
+      options.agentsPath,
+      options.agentName,
+      options.workspace,
+      (agentsPath) =>
+        new AgentController().push(options.agentName, {
+          workspace: options.workspace,
+          force: options.force,
+          agentsPath,
+          promptsPath: options.promptsPath,
+        })
+    );
+    if (!result.success || !result.value.created) {
+      return result;
+    }
+
+    const { agentId, llmId } = result.value;
+    const agentPath = path.resolve(options.agentsPath, options.agentName);
+    const fieldsResult = await this.pushMappedFields(agentPath, agentId, llmId, options.workspace);
+    if (!fieldsResult.success) {
+      return fieldsResult;
+    }
+    return result;
+  }
+
+  /**
+   * Update the agent and LLM with every agent.json field in the shared field
+   * map. Re-sending fields the controller already set is a no-op.
+   */
+  private static async pushMappedFields(
+    agentPath: string,
+    agentId: string,
+    llmId: string,
+    workspace: WorkspaceType
+  ): Promise<Result<void, RetellError | Error>> {
+    const resolvedResult = await AgentInheritance.resolve(agentPath, workspace);
+    if (!resolvedResult.success) {
+      return resolvedResult;
+    }
+    const configResult = await ConfigInterpolator.interpolate(resolvedResult.value.config);
+    if (!configResult.success) {
+      return configResult;
+    }
+    const payload = transformLocalToRetell(configResult.value);
+    for (const field of CONTROLLER_COMPOSED_LLM_FIELDS) {
+      delete payload.llm[field];
+    }
+
+    const workspaceConfigResult = await WorkspaceConfigService.getWorkspace(workspace);
+    if (!workspaceConfigResult.success) {
+      return workspaceConfigResult;
+    }
+    const client = RetellClientFactory.create(workspaceConfigResult.value);
+
+    try {
+      await client.agent.update(agentId, payload.agent);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return Err(new Error(`Push succeeded but agent field sync failed: ${message}`));
+    }
+    if (Object.keys(payload.llm).length > 0) {
+      try {
+        // Retell requires start_speaker on every LLM update; keep the one the
+        // controller set when agent.json leaves it out.
+        const startSpeaker =
+          payload.llm.start_speaker ?? (await client.llm.retrieve(llmId)).start_speaker;
+        await client.llm.update(llmId, { ...payload.llm, start_speaker: startSpeaker });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return Err(new Error(`Push succeeded but LLM field sync failed: ${message}`));
+      }
+    }
+    return Ok(undefined);
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Operation history - Local, append-only record of every mutating command.
+ *
+ * Entries are written as JSON lines to .retell/history.jsonl in the project
+ * root so `retell logs` can answer "who pushed what, where, and when" without
+ * querying Retell. History is best-effort: failing to record never fails the
+ * operation itself.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MetadataManager, Ok, Err } from '@heya/retell.controllers';
+import type { Result, WorkspaceType } from '@heya/retell.controllers';
+
+/**
+ * Commands that append to the history
+ */
+export type HistoryAction =
+  | 'push'
+  | 'pull'
+  | 'publish'
+  | 'rollback'
+  | 'delete'
+  | 'sync'
+  | 'release'
+  | 'phone-update'
+  | 'import';
+
+/**
+ * One line of .retell/history.jsonl
+ */
+export type HistoryEntry = {
+  readonly timestamp: string;
+  readonly user: string | null;
+  readonly action: HistoryAction;
+  /** Local agent name; null for operations not tied to an agent (e.g. phone update) */
+  readonly agent: string | null;
+  readonly workspace: string;
+  readonly success: boolean;
+  /** config_hash recorded in metadata before the operation */
+  readonly before_hash: string | null;
+  /** config_hash recorded in metadata after the operation */
+  readonly after_hash: string | null;
+  readonly retell_version: number | null;
+  /** Short human-readable description, e.g. "Config + KB (2 files)" */
+  readonly summary: string;
+};
+
+/**
+ * Fields supplied by the command; timestamp and user are filled in on record
+ */
+export type HistoryRecord = Omit<HistoryEntry, 'timestamp' | 'user'>;
+
+export type HistoryFilter = {
+  readonly agent?: string;
+  readonly workspace?: string;
+  readonly action?: string;
+  readonly limit?: number;
+};
+
+/**
+ * Metadata fields captured before and after an operation
+ */
+export type SyncState = {
+  readonly config_hash: string | null;
+  readonly retell_version: number | null;
+};
+
+export class OperationHistory {
+  static readonly DEFAULT_PATH = path.join('.retell', 'history.jsonl');
+
+  static readonly ACTIONS: ReadonlyArray<HistoryAction> = [
+    'push',
+    'pull',
+    'publish',
+    'rollback',
+    'delete',
+    'sync',
+    'release',
+    'phone-update',
+    'import',
+  ];
+
+  /**
+   * Resolve the history file for the current project
+   */
+  static getPath(cwd: string = process.cwd()): string {
+    return path.resolve(cwd, this.DEFAULT_PATH);
+  }
+
+  /**
+   * Identify who ran the command. GITHUB_ACTOR takes precedence so CI
+   * deployments are attributed to the user who triggered the workflow.
+   */
+  static getCurrentUser(): string | null {
+    return process.env['GITHUB_ACTOR'] ?? process.env['USER'] ?? process.env['USERNAME'] ?? null;
+  }
+
+  /**
+   * Append an entry to the history file, creating it if needed
+   */
+  static async append(
+    entry: HistoryEntry,
+    historyPath: string = this.getPath()
+  ): Promise<Result<void, Error>> {
+    try {
+      await fs.mkdir(path.dirname(historyPath), { recursive: true });
+      await fs.appendFile(historyPath, JSON.stringify(entry) + '\n', 'utf-8');
+      return Ok(undefined);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to write history'));
+    }
+  }
+
+  /**
+   * Stamp and append an entry on behalf of a command.
+   * Failures are reported as a warning and otherwise ignored.
+   */
+  static async record(record: HistoryRecord, historyPath: string = this.getPath()): Promise<void> {
+    const result = await this.append(
+      { timestamp: new Date().toISOString(), user: this.getCurrentUser(), ...record },
+      historyPath
+    );
+    if (!result.success) {
+      console.warn(`⚠ Failed to record operation history: ${result.error.message}`);
+    }
+  }
+
+  /**
+   * Read history entries, newest first, applying the filter.
+   * A missing history file means nothing has been recorded yet. Lines that
+   * don't parse (e.g. a partially written line) are skipped.
+   */
+  static async read(
+    filter: HistoryFilter = {},
+    historyPath: string = this.getPath()
+  ): Promise<Result<HistoryEntry[], Error>> {
+    let content: string;
+    try {
+      content = await fs.readFile(historyPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return Ok([]);
+      }
+      return Err(error instanceof Error ? error : new Error('Failed to read history'));
+    }
+
+    const entries: HistoryEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as HistoryEntry);
+      } catch {
+        // Skip malformed line
+      }
+    }
+
+    const filtered = entries
+      .filter((entry) => filter.agent === undefined || entry.agent === filter.agent)
+      .filter((entry) => filter.workspace === undefined || entry.workspace === filter.workspace)
+      .filter((entry) => filter.action === undefined || entry.action === filter.action)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    return Ok(filter.limit !== undefined ? filtered.slice(0, filter.limit) : filtered);
+  }
+
+  /**
+   * config_hash and retell_version currently recorded for an agent in a
+   * workspace; both null if the agent has not been synced there
+   */
+  static async readSyncState(agentPath: string, workspace: WorkspaceType): Promise<SyncState> {
+    const metadataResult = await MetadataManager.read(agentPath, workspace);
+    if (!metadataResult.success) {
+      return { config_hash: null, retell_version: null };
+    }
+    return {
+      config_hash: metadataResult.value.config_hash,
+      retell_version: metadataResult.value.retell_version,
+    };
+  }
+}
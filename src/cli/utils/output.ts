@@ -0,0 +1,173 @@
+/**
+ * CLI output - Machine-readable results for the global `--output json` option.
+ *
+ * In JSON mode a command writes exactly one JSON document to stdout:
+ *
+ *   { "success": true, "command": "status", "data": { ... } }
+ *   { "success": false, "command": "push",
+ *     "error": { "code": "SYNC_CONFLICT", "message": "...", "hint": "...", "exitCode": 1 } }
+ *
+ * Progress lines the commands print along the way go to stderr instead, so
+ * stdout can be piped straight into jq. The `data` shape of each command is
+ * documented in the README and typed next to the command.
+ *
+ * Commands opt in with `.addOption(CliOutput.option())`. It is not a program
+ * option because `workflows` already uses `--output` for its directory.
+ *
+ * Whatever the format, console output and result documents go through
+ * Redactor so credentials in configs and API responses are not printed.
+ */
+
+import { Option, type Command } from 'commander';
+import { Redactor } from './redaction';
+
+export type OutputFormat = 'text' | 'json';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['text', 'json'];
+
+type ConsoleMethod = 'log' | 'info' | 'warn' | 'error';
+
+export type JsonSuccess<T> = {
+  readonly success: true;
+  readonly command: string;
+  readonly data: T;
+};
+
+export type JsonErrorDetails = {
+  /** RetellErrorCode, or UNKNOWN_ERROR for errors without one */
+  readonly code: string;
+  readonly message: string;
+  readonly hint: string | null;
+  readonly exitCode: number;
+};
+
+export type JsonError = {
+  readonly success: false;
+  readonly command: string;
+  readonly error: JsonErrorDetails;
+};
+
+export class CliOutput {
+  private static readonly outputOptions = new WeakSet<Option>();
+  private static format: OutputFormat = 'text';
+  private static command = 'retell';
+  private static resultWritten = false;
+  /** Console methods as they were before redactConsole wrapped them */
+  private static originalConsole: Pick<Console, ConsoleMethod> | null = null;
+
+  /**
+   * The `--output <format>` option for a command
+   */
+  static option(): Option {
+    const option = new Option('--output <format>', 'Output format')
+      .choices(OUTPUT_FORMATS)
+      .default('text');
+    this.outputOptions.add(option);
+    return option;
+  }
+
+  /**
+   * Configure output for the command about to run, from its --output value.
+   * Commands without the option always print text.
+   */
+  static configureFor(command: Command): void {
+    const option = command.options.find((candidate) => this.outputOptions.has(candidate));
+    const format =
+      option !== undefined ? command.getOptionValue(option.attributeName()) : undefined;
+    this.configure(format === 'json' ? 'json' : 'text', this.commandPath(command));
+  }
+
+  /**
+   * Set the output format for the command about to run. JSON mode sends
+   * console.log/info to stderr, keeping stdout for the result document.
+   */
+  static configure(format: OutputFormat, command: string): void {
+    this.format = format;
+    this.command = command;
+    this.resultWritten = false;
+    this.redactConsole();
+  }
+
+  /**
+   * e.g. "version history" for `retell version history`
+   */
+  private static commandPath(command: Command): string {
+    const names: string[] = [];
+    let current = command;
+    while (current.parent !== null) {
+      names.unshift(current.name());
+      current = current.parent;
+    }
+    return names.join(' ') || command.name();
+  }
+
+  static isJson(): boolean {
+    return this.format === 'json';
+  }
+
+  /**
+   * Write the command's result. No-op in text mode, where commands print
+   * their own output.
+   */
+  static result<T>(data: T): void {
+    if (!this.isJson()) {
+      return;
+    }
+    const document: JsonSuccess<T> = {
+      success: true,
+      command: this.command,
+      data: this.redact(data),
+    };
+    this.write(JSON.stringify(document, null, 2));
+    this.resultWritten = true;
+  }
+
+  /**
+   * Write an error document. No-op after result(): stdout holds one document,
+   * and a command that fails after its result has already reported why.
+   */
+  static error(error: JsonErrorDetails): void {
+    if (this.resultWritten) {
+      return;
+    }
+    const document: JsonError = {
+      success: false,
+      command: this.command,
+      error: this.redact(error),
+    };
+    this.write(JSON.stringify(document, null, 2));
+  }
+
+  private static write(text: string): void {
+    (this.originalConsole ?? console).log(text);
+  }
+
+  private static redact<T>(value: T): T {
+    return Redactor.isEnabled() ? Redactor.redact(value) : value;
+  }
+
+  /**
+   * Wrap console.log/info/warn/error to redact their arguments and, in JSON
+   * mode, send log/info to stderr. The wrappers read the current format and
+   * Redactor state, so the console is only wrapped on the first call.
+   */
+  private static redactConsole(): void {
+    if (this.originalConsole !== null) {
+      return;
+    }
+    const original: Pick<Console, ConsoleMethod> = {
+      log: console.log.bind(console),
+      info: console.info.bind(console),
+      warn: console.warn.bind(console),
+      error: console.error.bind(console),
+    };
+    this.originalConsole = original;
+
+    for (const method of ['log', 'info', 'warn', 'error'] as const) {
+      console[method] = (...args: unknown[]) => {
+        const target = this.isJson() && (method === 'log' || method === 'info') ? 'error' : method;
+        original[target](...args.map((arg) => this.redact(arg)));
+      };
+    }
+  }
+}
@@ -0,0 +1,317 @@
+/**
+ * Phone config - Declarative phone number bindings committed as phones.json.
+ *
+ * phones.json maps each E.164 number to what it should be bound to in each
+ * workspace, naming agents by their local directory instead of agent ID:
+ *
+ * {
+ *   "+14155550100": {
+ *     "staging": { "inbound_agent": "support", "nickname": "Support (staging)" },
+ *     "production": {
+ *       "inbound_agent": "support",
+ *       "inbound_agent_version": 3,
+ *       "outbound_agent": null,
+ *       "inbound_webhook_url": "https://api.example.com/retell/inbound"
+ *     }
+ *   }
+ * }
+ *
+ * Agent names resolve to IDs through each agent's workspace metadata (see
+ * AgentIndex), so the file stays valid when agents are re-created. Fields
+ * left out are not managed; null unbinds or clears. `retell phone apply` plans the updates
+ * against the numbers in the workspace and makes them. Numbers are bought or
+ * imported with `phone create` / `phone import`, never by apply.
+ *
+ * The bindings of the numbers in a workspace are also checked by `audit`
+ * and `delete`, whether or not phones.json is used.
+ */
+
+import * as fs from 'fs/promises';
+import { z } from 'zod';
+import { Ok, Err } from '@heya/retell.controllers';
+import type { RetellClientService, Result, WorkspaceType } from '@heya/retell.controllers';
+import { AgentIndex } from './agent-index';
+
+export const PhoneBindingSchema = z
+  .object({
+    inbound_agent: z.string().min(1).nullable().optional(),
+    inbound_agent_version: z.number().int().nonnegative().nullable().optional(),
+    outbound_agent: z.string().min(1).nullable().optional(),
+    outbound_agent_version: z.number().int().nonnegative().nullable().optional(),
+    nickname: z.string().nullable().optional(),
+    inbound_webhook_url: z.string().url().nullable().optional(),
+  })
+  .strict();
+
+export const PhonesFileSchema = z.record(
+  z.string().regex(/^\+[1-9]\d{6,14}$/, 'phone numbers must be in E.164 format, e.g. +14155550100'),
+  z
+    .object({
+      staging: PhoneBindingSchema.optional(),
+      production: PhoneBindingSchema.optional(),
+    })
+    .strict()
+);
+
+export type PhoneBinding = z.infer<typeof PhoneBindingSchema>;
+export type PhonesFile = z.infer<typeof PhonesFileSchema>;
+
+export type PhonePlanAction = 'update' | 'no-op' | 'missing';
+
+/**
+ * One Retell field that differs from phones.json
+ */
+export type PhoneFieldChange = {
+  readonly field: string;
+  readonly from: string | number | null;
+  readonly to: string | number | null;
+};
+
+export type PhonePlanEntry = {
+  readonly phone_number: string;
+  readonly action: PhonePlanAction;
+  readonly reason: string;
+  readonly changes: ReadonlyArray<PhoneFieldChange>;
+};
+
+/**
+ * What `retell phone apply` will change in a workspace
+ */
+export type PhonePlan = {
+  readonly workspace: WorkspaceType;
+  readonly entries: ReadonlyArray<PhonePlanEntry>;
+  /** Numbers in the workspace that phones.json does not mention */
+  readonly unmanaged: ReadonlyArray<string>;
+  /** Local agent name by agent ID, for display */
+  readonly agent_names: Readonly<Record<string, string>>;
+};
+
+/**
+ * An agent a phone number routes calls to
+ */
+export type PhoneAgentBinding = {
+  readonly phone_number: string;
+  readonly direction: 'inbound' | 'outbound';
+  readonly agent_id: string;
+  /** Pinned agent version; null uses the latest */
+  readonly version: number | null;
+};
+
+export type PhoneBindingIssueKind = 'deleted-agent' | 'untracked-agent' | 'unpublished-version';
+
+export type PhoneBindingIssue = PhoneAgentBinding & {
+  readonly issue: PhoneBindingIssueKind;
+};
+
+export class PhoneConfig {
+  static readonly DEFAULT_FILE = 'phones.json';
+
+  /**
+   * phones.json fields and the Retell phone number fields they set. Agent
+   * fields hold local agent names and are resolved to IDs.
+   */
+  private static readonly FIELDS: ReadonlyArray<{
+    readonly local: keyof PhoneBinding;
+    readonly remote: string;
+    readonly agent: boolean;
+  }> = [
+    { local: 'inbound_agent', remote: 'inbound_agent_id', agent: true },
+    { local: 'inbound_agent_version', remote: 'inbound_agent_version', agent: false },
+    { local: 'outbound_agent', remote: 'outbound_agent_id', agent: true },
+    { local: 'outbound_agent_version', remote: 'outbound_agent_version', agent: false },
+    { local: 'nickname', remote: 'nickname', agent: false },
+    { local: 'inbound_webhook_url', remote: 'inbound_webhook_url', agent: false },
+  ];
+
+  /**
+   * Read and validate phones.json
+   */
+  static async load(file: string): Promise<Result<PhonesFile, Error>> {
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch {
+      return Err(new Error(`${file} not found. Map phone numbers to agents there first.`));
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(content);
+    } catch (error) {
+      return Err(
+        new Error(
+          `Invalid JSON in ${file}: ${error instanceof Error ? error.message : 'unknown error'}`
+        )
+      );
+    }
+
+    const parsed = PhonesFileSchema.safeParse(json);
+    if (!parsed.success) {
+      const issues = parsed.error.errors.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      );
+      return Err(new Error(`Invalid ${file}: ${issues.join('; ')}`));
+    }
+    return Ok(parsed.data);
+  }
+
+  /**
+   * Plan the workspace's numbers against phones.json. Fails, listing every
+   * problem, when an agent named in the file has no agent ID in the workspace.
+   */
+  static async plan(
+    phones: PhonesFile,
+    workspace: WorkspaceType,
+    agentIds: ReadonlyMap<string, string>,
+    client: RetellClientService
+  ): Promise<Result<PhonePlan, Error>> {
+    const problems: string[] = [];
+    const desired = new Map<string, Record<string, string | number | null>>();
+    for (const [phoneNumber, workspaces] of Object.entries(phones).sort(([a], [b]) =>
+      a.localeCompare(b)
+    )) {
+      const binding = workspaces[workspace];
+      if (binding === undefined) {
+        continue;
+      }
+      const fields: Record<string, string | number | null> = {};
+      for (const { local, remote, agent } of this.FIELDS) {
+        const value = binding[local];
+        if (value === undefined) {
+          continue;
+        }
+        if (agent && typeof value === 'string') {
+          const agentId = agentIds.get(value);
+          if (agentId === undefined) {
+            problems.push(`${phoneNumber}: agent '${value}' has not been pushed to ${workspace}`);
+            continue;
+          }
+          fields[remote] = agentId;
+        } else {
+          fields[remote] = value;
+        }
+      }
+      desired.set(phoneNumber, fields);
+    }
+    if (problems.length > 0) {
+      return Err(new Error(`Cannot resolve agents in phones.json:\n  ${problems.join('\n  ')}`));
+    }
+
+    const listResult = await client.listPhoneNumbers();
+    if (!listResult.success) {
+      return Err(listResult.error);
+    }
+    const remoteNumbers = new Map(
+      (listResult.value as Array<Record<string, unknown>>).map((number) => [
+        String(number['phone_number']),
+        number,
+      ])
+    );
+
+    const entries: PhonePlanEntry[] = [];
+    for (const [phoneNumber, fields] of desired) {
+      const remote = remoteNumbers.get(phoneNumber);
+      if (remote === undefined) {
+        entries.push({
+          phone_number: phoneNumber,
+          action: 'missing',
+          reason: `not in ${workspace}; add it with 'retell phone create' or 'retell phone import'`,
+          changes: [],
+        });
+        continue;
+      }
+      const changes = Object.entries(fields)
+        .map(([field, to]) => ({ field, from: this.remoteValue(remote[field]), to }))
+        .filter((change) => change.from !== change.to);
+      entries.push({
+        phone_number: phoneNumber,
+        action: changes.length > 0 ? 'update' : 'no-op',
+        reason: changes.length > 0 ? `${changes.length} field(s) differ` : 'matches phones.json',
+        changes,
+      });
+    }
+
+    return Ok({
+      workspace,
+      entries,
+      unmanaged: [...remoteNumbers.keys()].filter((number) => !desired.has(number)).sort(),
+      agent_names: Object.fromEntries(AgentIndex.names(agentIds)),
+    });
+  }
+
+  /**
+   * Agent bindings of every number in the workspace
+   */
+  static async listBindings(
+    client: RetellClientService
+  ): Promise<Result<PhoneAgentBinding[], Error>> {
+    const listResult = await client.listPhoneNumbers();
+    if (!listResult.success) {
+      return Err(listResult.error);
+    }
+    return Ok(this.bindingsOf(listResult.value as Array<Record<string, unknown>>));
+  }
+
+  /**
+   * Agent bindings of phone numbers as returned by Retell
+   */
+  static bindingsOf(numbers: ReadonlyArray<Record<string, unknown>>): PhoneAgentBinding[] {
+    const bindings: PhoneAgentBinding[] = [];
+    for (const number of numbers) {
+      for (const direction of ['inbound', 'outbound'] as const) {
+        const agentId = number[`${direction}_agent_id`];
+        const version = number[`${direction}_agent_version`];
+        if (typeof agentId === 'string' && agentId !== '') {
+          bindings.push({
+            phone_number: String(number['phone_number']),
+            direction,
+            agent_id: agentId,
+            version: typeof version === 'number' ? version : null,
+          });
+        }
+      }
+    }
+    return bindings;
+  }
+
+  /**
+   * Bindings to agents that no longer exist in the workspace, to agents no
+   * local directory tracks, or to a pinned version that is not published.
+   * publishedVersions holds the published versions of each pinned agent.
+   */
+  static checkBindings(
+    bindings: ReadonlyArray<PhoneAgentBinding>,
+    workspaceAgentIds: ReadonlySet<string>,
+    localAgentIds: ReadonlySet<string>,
+    publishedVersions: ReadonlyMap<string, ReadonlySet<number>>
+  ): PhoneBindingIssue[] {
+    const issues: PhoneBindingIssue[] = [];
+    for (const binding of bindings) {
+      if (!workspaceAgentIds.has(binding.agent_id)) {
+        issues.push({ ...binding, issue: 'deleted-agent' });
+        continue;
+      }
+      if (!localAgentIds.has(binding.agent_id)) {
+        issues.push({ ...binding, issue: 'untracked-agent' });
+      }
+      if (
+        binding.version !== null &&
+        publishedVersions.get(binding.agent_id)?.has(binding.version) !== true
+      ) {
+        issues.push({ ...binding, issue: 'unpublished-version' });
+      }
+    }
+    return issues;
+  }
+
+  /**
+   * Retell update payload for a planned entry
+   */
+  static toUpdate(entry: PhonePlanEntry): Record<string, unknown> {
+    return Object.fromEntries(entry.changes.map((change) => [change.field, change.to]));
+  }
+
+  private static remoteValue(value: unknown): string | number | null {
+    return typeof value === 'string' || typeof value === 'number' ? value : null;
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Prompt reverse-engineering - Map a remote general_prompt back onto the
+ * agent's prompt sections when pulling.
+ *
+ * PromptBuilder joins the rendered sections (overrides applied, static
+ * variables substituted) with a blank line. Pull renders the same sections
+ * locally and locates each one in the remote prompt: sections found verbatim
+ * are unchanged, and the text between them belongs to the sections that were
+ * edited in the Retell dashboard. Remote text that cannot be attributed to a
+ * section (e.g. a new paragraph between two unchanged sections) makes the
+ * prompt unmatched.
+ */
+
+import * as fs from 'fs/promises';
+import { PromptBuilder, Ok, Err } from '@heya/retell.controllers';
+import type { PromptConfig, Result } from '@heya/retell.controllers';
+import { PromptSectionIndex } from './prompt-sections';
+
+/**
+ * A section as the agent currently renders it
+ */
+export type RenderedSection = {
+  readonly sectionId: string;
+  /** Text before variable substitution (section file or override) */
+  readonly template: string;
+  /** Text as it appears in the built prompt */
+  readonly rendered: string;
+  readonly isOverride: boolean;
+};
+
+/**
+ * A section whose remote text differs from the local rendering
+ */
+export type RemoteSectionChange = {
+  readonly section: RenderedSection;
+  readonly remoteContent: string;
+  /** remoteContent with static variable values turned back into {{placeholders}} */
+  readonly template: string;
+};
+
+export type PromptMatch =
+  | { readonly status: 'exact' }
+  | { readonly status: 'changed'; readonly changes: ReadonlyArray<RemoteSectionChange> }
+  | { readonly status: 'unmatched'; readonly reason: string };
+
+/**
+ * Where a changed section is written back to
+ */
+export type SectionWriteTarget = 'section-file' | 'override';
+
+export class PromptReverser {
+  static readonly SECTION_SEPARATOR = '\n\n';
+
+  /**
+   * Render each section of a prompt_config on its own, exactly as
+   * PromptBuilder renders it inside the full prompt.
+   */
+  static async renderSections(
+    promptsDir: string,
+    promptConfig: PromptConfig
+  ): Promise<Result<RenderedSection[], Error>> {
+    const overrides = promptConfig.overrides ?? {};
+    const sections: RenderedSection[] = [];
+
+    for (const sectionId of promptConfig.sections ?? []) {
+      const override = overrides[sectionId];
+      let template: string;
+      if (override !== undefined) {
+        template = override;
+      } else {
+        try {
+          template = await fs.readFile(
+            PromptSectionIndex.getSectionPath(promptsDir, sectionId),
+            'utf-8'
+          );
+        } catch {
+          return Err(new Error(`Prompt section not found: ${sectionId}`));
+        }
+      }
+
+      const renderedResult = await this.render(promptsDir, promptConfig, sectionId, template);
+      if (!renderedResult.success) {
+        return renderedResult;
+      }
+      sections.push({
+        sectionId,
+        template,
+        rendered: renderedResult.value,
+        isOverride: override !== undefined,
+      });
+    }
+
+    return Ok(sections);
+  }
+
+  /**
+   * Attribute the remote prompt to the rendered sections.
+   * Templates of changed sections are not reversed yet; see reverseVariables.
+   */
+  static match(sections: ReadonlyArray<RenderedSection>, remotePrompt: string): PromptMatch {
+    const remote = remotePrompt.replace(/\r\n/g, '\n');
+    const sep = this.SECTION_SEPARATOR;
+
+    if (sections.map((section) => section.rendered).join(sep) === remote) {
+      return { status: 'exact' };
+    }
+
+    // 1. Anchor sections that still appear verbatim, in order, on separator boundaries
+    const anchors: Array<{ start: number; end: number } | null> = [];
+    let cursor = 0;
+    for (const section of sections) {
+      const start = this.findOnBoundary(remote, section.rendered, cursor);
+      if (start === -1) {
+        anchors.push(null);
+      } else {
+        anchors.push({ start, end: start + section.rendered.length });
+        cursor = start + section.rendered.length;
+      }
+    }
+
+    // 2. Attribute the text between anchors to the unanchored sections in that gap
+    const changes: RemoteSectionChange[] = [];
+    let previousEnd: number | null = null;
+    let runStart = 0;
+    for (let i = 0; i <= sections.length; i++) {
+      const anchor = i < sections.length ? anchors[i] : undefined;
+      if (anchor === null) {
+        continue;
+      }
+
+      const changed = sections.slice(runStart, i);
+      const gapStart = previousEnd === null ? 0 : previousEnd + sep.length;
+      const gapEnd = anchor === undefined ? remote.length : anchor.start - sep.length;
+      const gap = gapStart <= gapEnd ? remote.slice(gapStart, gapEnd) : null;
+
+      if (changed.length === 0 && gap !== null) {
+        return {
+          status: 'unmatched',
+          reason: 'remote prompt contains text that is not part of any section',
+        };
+      }
+      if (changed.length > 0) {
+        if (gap === null || gap.trim() === '') {
+          return {
+            status: 'unmatched',
+            reason: `section '${changed[0]?.sectionId ?? ''}' was removed from the remote prompt`,
+          };
+        }
+        const chunks = changed.length === 1 ? [gap] : gap.split(sep);
+        if (chunks.length !== changed.length) {
+          return {
+            status: 'unmatched',
+            reason:
+              'cannot tell where sections ' +
+              changed.map((section) => `'${section.sectionId}'`).join(', ') +
+              ' start and end in the remote prompt',
+          };
+        }
+        changed.forEach((section, j) => {
+          const remoteContent = chunks[j] ?? '';
+          changes.push({ section, remoteContent, template: remoteContent });
+        });
+      }
+
+      if (anchor !== undefined) {
+        previousEnd = anchor.end;
+      }
+      runStart = i + 1;
+    }
+
+    if (changes.length === 0) {
+      return {
+        status: 'unmatched',
+        reason: 'remote prompt contains text that is not part of any section',
+      };
+    }
+    return { status: 'changed', changes };
+  }
+
+  /**
+   * Turn substituted static variable values back into {{placeholders}}.
+   * Only variables the section template used are reversed, and the result is
+   * kept only if it renders back to exactly the remote text.
+   */
+  static async reverseVariables(
+    promptsDir: string,
+    promptConfig: PromptConfig,
+    change: RemoteSectionChange
+  ): Promise<Result<RemoteSectionChange, Error>> {
+    const variables = promptConfig.variables ?? {};
+    const dynamicVariables = promptConfig.dynamic_variables ?? {};
+
+    const candidates = PromptBuilder.extractVariables(change.section.template)
+      .map((name) => ({ name, value: variables[name] }))
+      .filter(
+        (variable): variable is { name: string; value: string } =>
+          variable.value !== undefined &&
+          variable.value !== '' &&
+          variable.value !== 'OVERRIDE' &&
+          dynamicVariables[variable.name] === undefined
+      )
+      .sort((a, b) => b.value.length - a.value.length);
+
+    let template = change.remoteContent;
+    for (const variable of candidates) {
+      template = template.split(variable.value).join(`{{${variable.name}}}`);
+    }
+    if (template === change.remoteContent) {
+      return Ok(change);
+    }
+
+    const renderedResult = await this.render(
+      promptsDir,
+      promptConfig,
+      change.section.sectionId,
+      template
+    );
+    if (!renderedResult.success) {
+      return renderedResult;
+    }
+    return Ok(renderedResult.value === change.remoteContent ? { ...change, template } : change);
+  }
+
+  /**
+   * Decide where a changed section is written. Existing overrides stay
+   * overrides; sections shared with other agents become overrides so pulling
+   * one agent never changes another agent's prompt.
+   */
+  static chooseTarget(
+    change: RemoteSectionChange,
+    agentName: string,
+    usage: ReadonlyMap<string, ReadonlyArray<string>>
+  ): SectionWriteTarget {
+    if (change.section.isOverride) {
+      return 'override';
+    }
+    const users = usage.get(change.section.sectionId) ?? [];
+    return users.some((user) => user !== agentName) ? 'override' : 'section-file';
+  }
+
+  /**
+   * Render one section with a given template, using the agent's variables.
+   */
+  private static async render(
+    promptsDir: string,
+    promptConfig: PromptConfig,
+    sectionId: string,
+    template: string
+  ): Promise<Result<string, Error>> {
+    return PromptBuilder.build(promptsDir, {
+      ...promptConfig,
+      sections: [sectionId],
+      overrides: { [sectionId]: template },
+    });
+  }
+
+  /**
+   * Find text starting at or after `from` that is delimited by the prompt
+   * start/end or section separators.
+   */
+  private static findOnBoundary(haystack: string, needle: string, from: number): number {
+    const sep = this.SECTION_SEPARATOR;
+    let start = haystack.indexOf(needle, from);
+    while (start !== -1) {
+      const end = start + needle.length;
+      const startsOnBoundary = start === 0 || haystack.slice(start - sep.length, start) === sep;
+      const endsOnBoundary =
+        end === haystack.length || haystack.slice(end, end + sep.length) === sep;
+      if (startsOnBoundary && endsOnBoundary) {
+        return start;
+      }
+      start = haystack.indexOf(needle, start + 1);
+    }
+    return -1;
+  }
+}
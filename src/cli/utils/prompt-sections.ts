@@ -0,0 +1,151 @@
+/**
+ * Prompt section index - Discover prompt section files and which agents use them.
+ *
+ * Section IDs are paths relative to the prompts directory without the `.txt`
+ * extension (e.g. `base/greeting` → `prompts/base/greeting.txt`), matching how
+ * PromptBuilder resolves `prompt_config.sections`.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Ok, Err } from '@heya/retell.controllers';
+import type { AgentConfig, Result } from '@heya/retell.controllers';
+import { AgentInheritance } from './agent-inheritance';
+
+/**
+ * Agent config loaded from the agents directory
+ */
+export type LocalAgent = {
+  readonly name: string;
+  readonly path: string;
+  readonly config: AgentConfig;
+};
+
+export class PromptSectionIndex {
+  private static readonly SECTION_EXTENSION = '.txt';
+
+  /**
+   * Resolve a section ID to its file path.
+   */
+  static getSectionPath(promptsDir: string, sectionId: string): string {
+    return path.join(promptsDir, `${sectionId}${this.SECTION_EXTENSION}`);
+  }
+
+  /**
+   * Check that a section ID stays inside the prompts directory.
+   */
+  static isValidSectionId(sectionId: string): boolean {
+    if (sectionId.trim() === '' || path.isAbsolute(sectionId)) {
+      return false;
+    }
+    return !sectionId.split(/[\\/]/).some((part) => part === '..' || part === '');
+  }
+
+  /**
+   * Check whether a section file exists.
+   */
+  static async exists(promptsDir: string, sectionId: string): Promise<boolean> {
+    try {
+      await fs.access(this.getSectionPath(promptsDir, sectionId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * List all section IDs under the prompts directory (optionally a subdirectory), sorted.
+   */
+  static async listSections(
+    promptsDir: string,
+    directory?: string
+  ): Promise<Result<string[], Error>> {
+    const root = directory !== undefined ? path.join(promptsDir, directory) : promptsDir;
+
+    try {
+      const files = await this.walk(root);
+      const sections = files
+        .filter((file) => file.endsWith(this.SECTION_EXTENSION))
+        .map((file) =>
+          path
+            .relative(promptsDir, file)
+            .slice(0, -this.SECTION_EXTENSION.length)
+            .split(path.sep)
+            .join('/')
+        )
+        .sort();
+      return Ok(sections);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to list prompt sections'));
+    }
+  }
+
+  /**
+   * Load every agent in the agents directory that has a valid agent.json.
+   * Directories without agent.json (or with an invalid one) are skipped.
+   */
+  static async loadAgents(agentsDir: string): Promise<Result<LocalAgent[], Error>> {
+    let entries;
+    try {
+      entries = await fs.readdir(agentsDir, { withFileTypes: true });
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to read agents directory'));
+    }
+
+    const agents: LocalAgent[] = [];
+    for (const entry of entries.filter((e) => e.isDirectory())) {
+      const agentPath = path.join(agentsDir, entry.name);
+      const configResult = await AgentInheritance.load(agentPath);
+      if (configResult.success) {
+        agents.push({ name: entry.name, path: agentPath, config: configResult.value });
+      }
+    }
+
+    agents.sort((a, b) => a.name.localeCompare(b.name));
+    return Ok(agents);
+  }
+
+  /**
+   * Map each section ID to the names of agents that reference it.
+   */
+  static async findUsage(agentsDir: string): Promise<Result<Map<string, string[]>, Error>> {
+    const agentsResult = await this.loadAgents(agentsDir);
+    if (!agentsResult.success) {
+      return agentsResult;
+    }
+
+    const usage = new Map<string, string[]>();
+    for (const agent of agentsResult.value) {
+      for (const sectionId of this.getSections(agent.config)) {
+        const users = usage.get(sectionId) ?? [];
+        users.push(agent.name);
+        usage.set(sectionId, users);
+      }
+    }
+
+    return Ok(usage);
+  }
+
+  /**
+   * Section IDs referenced by an agent config (empty for plain general_prompt agents).
+   */
+  static getSections(config: AgentConfig): ReadonlyArray<string> {
+    return config.llm_config.prompt_config?.sections ?? [];
+  }
+
+  private static async walk(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.walk(entryPath)));
+      } else if (entry.isFile()) {
+        files.push(entryPath);
+      }
+    }
+
+    return files;
+  }
+}
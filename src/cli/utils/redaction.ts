@@ -0,0 +1,202 @@
+/**
+ * Redaction - Keep credentials out of CLI output and committed files.
+ *
+ * Retell configs carry credentials in a few places: MCP headers, SIP trunk
+ * passwords, webhook URLs with tokens in them. CliOutput passes everything
+ * commands print (console output and `--output json` documents) through
+ * Redactor, so `diff --full`, `phone get --json` and friends show
+ * `[REDACTED]` instead. `--show-secrets` turns it off for a run.
+ *
+ * The same rules back `retell secrets scan`. Values that are only
+ * `${env:...}`, `${secret:...}` or `{{dynamic_variable}}` placeholders (with
+ * an optional `Bearer`/`Basic` scheme) are not secrets.
+ */
+
+/**
+ * A pattern for one kind of secret. The pattern's first group is kept as
+ * context and its second group is the secret.
+ */
+export type SecretRule = {
+  readonly name: string;
+  readonly pattern: RegExp;
+};
+
+/**
+ * A secret found in text
+ */
+export type SecretMatch = {
+  readonly rule: string;
+  /** 1-based line number */
+  readonly line: number;
+};
+
+export class Redactor {
+  static readonly REDACTED = '[REDACTED]';
+
+  /**
+   * Object keys whose string values are credentials, e.g. Authorization,
+   * X-API-Key, access_token, sip_trunk_auth_password. `api_key_env` names a
+   * variable and does not match.
+   */
+  static readonly SENSITIVE_KEY =
+    /(?:^|[_-])(?:authorization|token|secret|password|passwd|api[_-]?key|apikey|credentials?)$/i;
+
+  static readonly RULES: ReadonlyArray<SecretRule> = [
+    {
+      name: 'sensitive-field',
+      pattern:
+        /("(?:[A-Za-z0-9_-]*[_-])?(?:authorization|token|secret|password|passwd|api[_-]?key|apikey|credentials?)"\s*:\s*")((?:[^"\\\n]|\\.)+)(?=")/gi,
+    },
+    { name: 'retell-api-key', pattern: /()(\bkey_[A-Za-z0-9]{20,}\b)/g },
+    { name: 'bearer-token', pattern: /(\bBearer\s+)([A-Za-z0-9\-._~+/]{16,}=*)/g },
+    {
+      name: 'url-credentials',
+      pattern: /(\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@"']+:)([^\s@/"']+)(?=@)/gi,
+    },
+    {
+      name: 'url-query-secret',
+      pattern:
+        /([?&](?:token|access_token|api_key|apikey|key|secret|password|auth)=)([^&\s"'#]+)/gi,
+    },
+    { name: 'openai-api-key', pattern: /()(\bsk-(?:proj-)?[A-Za-z0-9_-]{20,})/g },
+    { name: 'github-token', pattern: /()(\bgh[pousr]_[A-Za-z0-9]{36,})/g },
+    { name: 'slack-token', pattern: /()(\bxox[abposr]-[A-Za-z0-9-]{10,})/g },
+    { name: 'aws-access-key', pattern: /()(\bAKIA[0-9A-Z]{16}\b)/g },
+    { name: 'private-key', pattern: /()(-----BEGIN [A-Z ]*PRIVATE KEY-----)/g },
+  ];
+
+  private static enabled = true;
+
+  /**
+   * Stop redacting for the rest of the run (`--show-secrets`)
+   */
+  static disable(): void {
+    this.enabled = false;
+  }
+
+  static isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Text with every secret replaced by [REDACTED]
+   */
+  static redactText(text: string): string {
+    return this.replaceSecrets(text, () => undefined);
+  }
+
+  /**
+   * Secrets in text, one per occurrence, in rule order
+   */
+  static scanText(text: string): SecretMatch[] {
+    const matches: SecretMatch[] = [];
+    this.replaceSecrets(text, (rule, line) => matches.push({ rule, line }));
+    return matches;
+  }
+
+  /**
+   * Copy of a JSON-like value with sensitive fields and secrets in strings
+   * redacted. Other values (class instances, errors) are returned as is.
+   */
+  static redact<T>(value: T): T {
+    return this.visit(value, null, (text, key) => this.redactString(text, key)) as T;
+  }
+
+  /**
+   * Dot paths of the strings redact() would change
+   */
+  static findSecretFields(value: unknown): string[] {
+    const fields: string[] = [];
+    const walk = (item: unknown, field: string, key: string | null): void => {
+      if (typeof item === 'string') {
+        if (this.redactString(item, key) !== item) {
+          fields.push(field);
+        }
+      } else if (Array.isArray(item)) {
+        item.forEach((entry, index) =>
+          walk(entry, field === '' ? String(index) : `${field}.${index}`, null)
+        );
+      } else if (this.isPlainObject(item)) {
+        for (const [childKey, child] of Object.entries(item)) {
+          walk(child, field === '' ? childKey : `${field}.${childKey}`, childKey);
+        }
+      }
+    };
+    walk(value, '', null);
+    return fields;
+  }
+
+  /**
+   * Whether a value is only placeholders, optionally after an auth scheme
+   */
+  static isPlaceholderValue(value: string): boolean {
+    const rest = value.replace(/\$\{[^}]*\}|\{\{[^}]*\}\}/g, '');
+    return rest !== value && /^\s*(?:Bearer|Basic|Token)?\s*$/i.test(rest);
+  }
+
+  /**
+   * Empty, already redacted, or only placeholders
+   */
+  private static isHarmless(value: string): boolean {
+    return value === '' || value === this.REDACTED || this.isPlaceholderValue(value);
+  }
+
+  /**
+   * A string value redacted, whole if its key is sensitive
+   */
+  private static redactString(text: string, key: string | null): string {
+    return key !== null && this.SENSITIVE_KEY.test(key) && !this.isHarmless(text)
+      ? this.REDACTED
+      : this.redactText(text);
+  }
+
+  private static replaceSecrets(
+    text: string,
+    onMatch: (rule: string, line: number) => void
+  ): string {
+    let result = text;
+    for (const rule of this.RULES) {
+      result = result.replace(
+        rule.pattern,
+        (match: string, prefix: string, secret: string, offset: number, whole: string) => {
+          if (this.isHarmless(secret)) {
+            return match;
+          }
+          onMatch(rule.name, whole.slice(0, offset).split('\n').length);
+          return `${prefix}${this.REDACTED}`;
+        }
+      );
+    }
+    return result;
+  }
+
+  private static visit(
+    value: unknown,
+    key: string | null,
+    map: (text: string, key: string | null) => string
+  ): unknown {
+    if (typeof value === 'string') {
+      return map(value, key);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.visit(item, null, map));
+    }
+    if (this.isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([childKey, child]) => [
+          childKey,
+          this.visit(child, childKey, map),
+        ])
+      );
+    }
+    return value;
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const prototype = Object.getPrototypeOf(value) as unknown;
+    return prototype === Object.prototype || prototype === null;
+  }
+}
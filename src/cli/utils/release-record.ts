@@ -0,0 +1,105 @@
+/**
+ * Release records - Persist a changelog entry for every staging → production release.
+ *
+ * Records are written as one JSON file per release under the releases directory
+ * (default: ./releases) so they can be committed alongside the metadata update.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Ok, Err } from '@heya/retell.controllers';
+import type { Result } from '@heya/retell.controllers';
+
+/**
+ * A single changed field between staging and production at release time
+ */
+export type ReleaseChange = {
+  readonly field: string;
+  readonly staging: unknown;
+  readonly production: unknown;
+};
+
+/**
+ * Snapshot of one workspace side of a release
+ */
+export type ReleaseWorkspaceSnapshot = {
+  readonly agent_id: string | null;
+  readonly llm_id: string | null;
+  readonly config_hash: string | null;
+  readonly retell_version: number | null;
+};
+
+/**
+ * Release record written to releases/<agent>-<timestamp>.json
+ */
+export type ReleaseRecord = {
+  readonly agent: string;
+  readonly released_at: string;
+  readonly released_by: string | null;
+  readonly message: string | null;
+  readonly config_released: boolean;
+  readonly kb_released: boolean;
+  readonly staging: ReleaseWorkspaceSnapshot;
+  readonly production: ReleaseWorkspaceSnapshot & {
+    readonly previous_version: number | null;
+    readonly published_version: number | null;
+  };
+  readonly changes: ReadonlyArray<ReleaseChange>;
+};
+
+export class ReleaseRecorder {
+  /**
+   * Build the file name for a release record.
+   * Timestamps are made filesystem-safe so several releases per day don't collide.
+   */
+  static getFileName(agentName: string, releasedAt: string): string {
+    return `${agentName}-${releasedAt.replace(/[:.]/g, '-')}.json`;
+  }
+
+  /**
+   * Write a release record, creating the releases directory if needed.
+   * Returns the path of the written file.
+   */
+  static async write(releasesDir: string, record: ReleaseRecord): Promise<Result<string, Error>> {
+    try {
+      await fs.mkdir(releasesDir, { recursive: true });
+      const filePath = path.join(releasesDir, this.getFileName(record.agent, record.released_at));
+      await fs.writeFile(filePath, JSON.stringify(record, null, 2) + '\n', 'utf-8');
+      return Ok(filePath);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to write release record'));
+    }
+  }
+
+  /**
+   * List release records, newest first, optionally filtered by agent.
+   * A missing releases directory is treated as "no releases yet".
+   */
+  static async list(
+    releasesDir: string,
+    agentName?: string
+  ): Promise<Result<ReleaseRecord[], Error>> {
+    let files: string[];
+    try {
+      files = await fs.readdir(releasesDir);
+    } catch {
+      return Ok([]);
+    }
+
+    try {
+      const records: ReleaseRecord[] = [];
+      for (const file of files.filter((f) => f.endsWith('.json'))) {
+        const content = await fs.readFile(path.join(releasesDir, file), 'utf-8');
+        const record = JSON.parse(content) as ReleaseRecord;
+        if (agentName === undefined || record.agent === agentName) {
+          records.push(record);
+        }
+      }
+
+      records.sort((a, b) => b.released_at.localeCompare(a.released_at));
+      return Ok(records);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to read release records'));
+    }
+  }
+}
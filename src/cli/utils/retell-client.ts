@@ -0,0 +1,35 @@
+/**
+ * Retell client - retell-sdk clients for the commands that call Retell
+ * directly instead of through RetellClientService.
+ *
+ * RETELL_BASE_URL (also set by the global --base-url option) overrides the
+ * workspace base_url. retell-sdk reads the same variable, so every request the
+ * CLI makes goes to one server, e.g. the offline stand-in used by e2e tests.
+ */
+
+import Retell from 'retell-sdk';
+
+export type RetellClientOptions = {
+  readonly apiKey: string;
+  readonly baseUrl?: string;
+};
+
+export class RetellClientFactory {
+  static readonly BASE_URL_ENV = 'RETELL_BASE_URL';
+
+  static create(options: RetellClientOptions): Retell {
+    return new Retell({ apiKey: options.apiKey, baseURL: this.resolveBaseUrl(options.baseUrl) });
+  }
+
+  /**
+   * The base URL requests go to: RETELL_BASE_URL, then the workspace
+   * base_url. Undefined lets retell-sdk use the Retell API.
+   */
+  static resolveBaseUrl(baseUrl?: string): string | undefined {
+    const override = process.env[this.BASE_URL_ENV];
+    if (override !== undefined && override !== '') {
+      return override;
+    }
+    return baseUrl;
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Retell transform - Convert between Retell API agent/LLM objects and the
+ * local agent.json format.
+ *
+ * Both directions use the same field map, so every field pull writes is a
+ * field push sends back. Shared by pull and import (Retell → local) and push
+ * (local → Retell). Conversation-flow agents use the agent field map; their
+ * flow is stored as-is in a separate file.
+ */
+
+import type Retell from 'retell-sdk';
+
+/**
+ * A field stored in agent.json and the name Retell uses for it
+ */
+export type FieldMapping = {
+  /** Key in agent.json (LLM fields live under llm_config) */
+  readonly local: string;
+  /** Key in the Retell agent or LLM object */
+  readonly remote: string;
+};
+
+const same = (name: string): FieldMapping => ({ local: name, remote: name });
+
+/**
+ * Every writable field of a Retell agent (retell-sdk AgentResponse),
+ * in the order they are written to agent.json.
+ */
+export const AGENT_FIELD_MAP: ReadonlyArray<FieldMapping> = [
+  'agent_name',
+  'voice_id',
+  'language',
+  'voice_model',
+  'voice_temperature',
+  'voice_speed',
+  'volume',
+  'fallback_voice_ids',
+  'responsiveness',
+  'interruption_sensitivity',
+  'enable_backchannel',
+  'backchannel_frequency',
+  'backchannel_words',
+  'reminder_trigger_ms',
+  'reminder_max_count',
+  'ambient_sound',
+  'ambient_sound_volume',
+  'boosted_keywords',
+  'vocab_specialization',
+  'stt_mode',
+  'denoising_mode',
+  'pronunciation_dictionary',
+  'normalize_for_speech',
+  'allow_user_dtmf',
+  'user_dtmf_options',
+  'begin_message_delay_ms',
+  'ring_duration_ms',
+  'end_call_after_silence_ms',
+  'max_call_duration_ms',
+  'enable_voicemail_detection',
+  'voicemail_message',
+  'voicemail_detection_timeout_ms',
+  'voicemail_option',
+  'data_storage_setting',
+  'opt_in_signed_url',
+  'pii_config',
+  'post_call_analysis_data',
+  'post_call_analysis_model',
+  'webhook_url',
+  'webhook_timeout_ms',
+].map(same);
+
+/**
+ * Every writable field of a Retell LLM (retell-sdk LlmResponse, plus mcps and
+ * inbound_dynamic_variables_webhook_url), stored under llm_config.
+ */
+export const LLM_FIELD_MAP: ReadonlyArray<FieldMapping> = [
+  same('model'),
+  same('s2s_model'),
+  same('model_high_priority'),
+  { local: 'temperature', remote: 'model_temperature' },
+  same('tool_call_strict_mode'),
+  same('start_speaker'),
+  same('begin_after_user_silence_ms'),
+  same('general_prompt'),
+  same('begin_message'),
+  same('default_dynamic_variables'),
+  same('general_tools'),
+  same('mcps'),
+  same('states'),
+  same('starting_state'),
+  same('inbound_dynamic_variables_webhook_url'),
+  same('knowledge_base_ids'),
+  same('kb_config'),
+];
+
+/**
+ * Fields Retell manages itself. They are never written to agent.json or sent
+ * on update; response_engine is set by push from the LLM or conversation flow.
+ */
+export const SERVER_MANAGED_AGENT_FIELDS: ReadonlyArray<string> = [
+  'agent_id',
+  'version',
+  'is_published',
+  'last_modification_timestamp',
+  'response_engine',
+];
+
+export const SERVER_MANAGED_LLM_FIELDS: ReadonlyArray<string> = [
+  'llm_id',
+  'version',
+  'is_published',
+  'last_modification_timestamp',
+];
+
+/**
+ * Conversation flows are stored whole in the agent's flow file, minus these.
+ */
+export const SERVER_MANAGED_FLOW_FIELDS: ReadonlyArray<string> = [
+  'conversation_flow_id',
+  'version',
+];
+
+/**
+ * Retell agent and LLM update payloads built from agent.json. Every field is
+ * optional; the index signature keeps fields retell-sdk does not type yet.
+ * start_speaker is only present when agent.json sets it.
+ */
+export type RetellPayload = {
+  readonly agent: Retell.AgentUpdateParams & Record<string, unknown>;
+  readonly llm: Partial<Retell.LlmUpdateParams> & Record<string, unknown>;
+};
+
+/**
+ * Transform Retell API format back to our local agent.json format.
+ * Fields Retell omits or leaves null stay out of agent.json.
+ */
+export function transformRetellToLocal(agent: object, llm: object): Record<string, unknown> {
+  const localConfig = transformRetellAgentToLocal(agent);
+  localConfig['llm_config'] = copyFields(llm, LLM_FIELD_MAP, 'remote', 'local');
+  return localConfig;
+}
+
+/**
+ * Agent-level fields only, for agents whose response engine is not an LLM.
+ */
+export function transformRetellAgentToLocal(agent: object): Record<string, unknown> {
+  return copyFields(agent, AGENT_FIELD_MAP, 'remote', 'local');
+}
+
+/**
+ * Conversation flow as stored in the agent's flow file.
+ */
+export function transformRetellFlowToLocal(flow: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(flow).filter(([key]) => !SERVER_MANAGED_FLOW_FIELDS.includes(key))
+  );
+}
+
+/**
+ * Transform agent.json into Retell agent and LLM update payloads.
+ * Local-only keys (e.g. prompt_config) are not sent.
+ */
+export function transformLocalToRetell(config: Record<string, unknown>): RetellPayload {
+  const llmConfig = config['llm_config'];
+  return {
+    agent: copyFields(config, AGENT_FIELD_MAP, 'local', 'remote'),
+    llm: copyFields(
+      typeof llmConfig === 'object' && llmConfig !== null
+        ? (llmConfig as Record<string, unknown>)
+        : {},
+      LLM_FIELD_MAP,
+      'local',
+      'remote'
+    ),
+  };
+}
+
+/**
+ * Copy the mapped fields that have a value. Null is skipped: Retell returns
+ * it for unset fields and the agent.json schema does not accept it.
+ */
+function copyFields(
+  source: object,
+  fields: ReadonlyArray<FieldMapping>,
+  from: keyof FieldMapping,
+  to: keyof FieldMapping
+): Record<string, unknown> {
+  const values = new Map<string, unknown>(Object.entries(source));
+  const target: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = values.get(field[from]);
+    if (value !== undefined && value !== null) {
+      target[field[to]] = value;
+    }
+  }
+  return target;
+}
@@ -0,0 +1,152 @@
+/**
+ * Secret store - Encrypted values for `${secret:NAME}` placeholders in agent configs.
+ *
+ * Secrets are kept in .retell/secrets.enc.json, encrypted with AES-256-GCM
+ * under a key derived (scrypt) from the RETELL_SECRETS_KEY passphrase. The
+ * file holds no plaintext, names included, so it can be committed; the
+ * passphrase belongs in .env locally and in a repository secret in CI.
+ * `retell secrets set/list/remove` edit the file.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Ok, Err } from '@heya/retell.controllers';
+import type { Result } from '@heya/retell.controllers';
+
+/**
+ * On-disk format of the secrets file. Binary fields are base64.
+ */
+type SecretsFile = {
+  readonly version: 1;
+  readonly salt: string;
+  readonly iv: string;
+  readonly tag: string;
+  readonly data: string;
+};
+
+export class SecretStore {
+  static readonly DEFAULT_PATH = path.join('.retell', 'secrets.enc.json');
+  static readonly KEY_ENV = 'RETELL_SECRETS_KEY';
+  static readonly NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+  private static readonly ALGORITHM = 'aes-256-gcm';
+
+  /**
+   * Decrypt every secret. A missing file is an empty store.
+   */
+  static async read(
+    filePath: string = this.DEFAULT_PATH
+  ): Promise<Result<Record<string, string>, Error>> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return Ok({});
+    }
+
+    const passphraseResult = this.getPassphrase();
+    if (!passphraseResult.success) {
+      return passphraseResult;
+    }
+
+    try {
+      const file = JSON.parse(content) as SecretsFile;
+      const key = scryptSync(passphraseResult.value, Buffer.from(file.salt, 'base64'), 32);
+      const decipher = createDecipheriv(this.ALGORITHM, key, Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(file.data, 'base64')),
+        decipher.final(),
+      ]).toString('utf-8');
+      return Ok(JSON.parse(plaintext) as Record<string, string>);
+    } catch {
+      return Err(
+        new Error(`Failed to decrypt ${filePath}. Check that ${this.KEY_ENV} is the right key.`)
+      );
+    }
+  }
+
+  /**
+   * Encrypt and write every secret, replacing the file
+   */
+  static async write(
+    secrets: Readonly<Record<string, string>>,
+    filePath: string = this.DEFAULT_PATH
+  ): Promise<Result<void, Error>> {
+    const passphraseResult = this.getPassphrase();
+    if (!passphraseResult.success) {
+      return passphraseResult;
+    }
+
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = scryptSync(passphraseResult.value, salt, 32);
+    const cipher = createCipheriv(this.ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()]);
+    const file: SecretsFile = {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+      return Ok(undefined);
+    } catch (error) {
+      return Err(
+        new Error(
+          `Failed to write ${filePath}: ${error instanceof Error ? error.message : 'unknown error'}`
+        )
+      );
+    }
+  }
+
+  /**
+   * Add or replace one secret
+   */
+  static async set(
+    name: string,
+    value: string,
+    filePath: string = this.DEFAULT_PATH
+  ): Promise<Result<void, Error>> {
+    if (!this.NAME_PATTERN.test(name)) {
+      return Err(new Error(`Invalid secret name '${name}': use letters, digits and underscores`));
+    }
+    const secretsResult = await this.read(filePath);
+    if (!secretsResult.success) {
+      return secretsResult;
+    }
+    return this.write({ ...secretsResult.value, [name]: value }, filePath);
+  }
+
+  /**
+   * Remove one secret. Returns false when it was not stored.
+   */
+  static async remove(
+    name: string,
+    filePath: string = this.DEFAULT_PATH
+  ): Promise<Result<boolean, Error>> {
+    const secretsResult = await this.read(filePath);
+    if (!secretsResult.success) {
+      return secretsResult;
+    }
+    const { [name]: removed, ...rest } = secretsResult.value;
+    if (removed === undefined) {
+      return Ok(false);
+    }
+    const writeResult = await this.write(rest, filePath);
+    return writeResult.success ? Ok(true) : writeResult;
+  }
+
+  private static getPassphrase(): Result<string, Error> {
+    const passphrase = process.env[this.KEY_ENV];
+    if (passphrase === undefined || passphrase === '') {
+      return Err(new Error(`${this.KEY_ENV} is not set; it is needed to read or write secrets`));
+    }
+    return Ok(passphrase);
+  }
+}
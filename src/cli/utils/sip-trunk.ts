@@ -0,0 +1,106 @@
+/**
+ * SIP trunks - Numbers imported with `phone import`, grouped by the trunk
+ * they terminate on.
+ *
+ * Retell keeps the termination URI and auth credentials per number, so one
+ * trunk shared by many numbers means the same credentials on each. Retell
+ * does not update trunk settings in place: rotating credentials deletes each
+ * number and imports it again with the new ones, carrying its agent
+ * bindings, nickname and webhook over.
+ */
+
+/**
+ * Numbers that share a termination URI
+ */
+export type SipTrunk = {
+  readonly termination_uri: string;
+  /** Distinct auth usernames on the trunk's numbers; null for no auth */
+  readonly usernames: ReadonlyArray<string | null>;
+  readonly phone_numbers: ReadonlyArray<string>;
+};
+
+/**
+ * New auth credentials for every number on a trunk
+ */
+export type SipTrunkCredentials = {
+  /** Keep each number's current username when undefined */
+  readonly username?: string;
+  readonly password: string;
+};
+
+export class SipTrunkInventory {
+  /**
+   * Fields of a phone number that survive re-importing it
+   */
+  private static readonly CARRIED_FIELDS = [
+    'inbound_agent_id',
+    'outbound_agent_id',
+    'inbound_agent_version',
+    'outbound_agent_version',
+    'nickname',
+    'inbound_webhook_url',
+  ];
+
+  /**
+   * Trunks of the given numbers, sorted by termination URI. Numbers without
+   * a termination URI (bought from Retell) are left out.
+   */
+  static group(numbers: ReadonlyArray<Record<string, unknown>>): SipTrunk[] {
+    const trunks = new Map<string, Array<Record<string, unknown>>>();
+    for (const number of numbers) {
+      const uri = number['termination_uri'];
+      if (typeof uri === 'string' && uri !== '') {
+        trunks.set(uri, [...(trunks.get(uri) ?? []), number]);
+      }
+    }
+
+    return [...trunks]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([uri, trunkNumbers]) => ({
+        termination_uri: uri,
+        usernames: [...new Set(trunkNumbers.map((number) => this.username(number)))],
+        phone_numbers: trunkNumbers.map((number) => String(number['phone_number'])).sort(),
+      }));
+  }
+
+  /**
+   * Numbers on the trunk with the given termination URI
+   */
+  static numbersOn(
+    numbers: ReadonlyArray<Record<string, unknown>>,
+    terminationUri: string
+  ): Array<Record<string, unknown>> {
+    return numbers
+      .filter((number) => number['termination_uri'] === terminationUri)
+      .sort((a, b) => String(a['phone_number']).localeCompare(String(b['phone_number'])));
+  }
+
+  /**
+   * `import-phone-number` payload that recreates a number with new credentials
+   */
+  static reimportRequest(
+    number: Record<string, unknown>,
+    credentials: SipTrunkCredentials
+  ): Record<string, unknown> {
+    const request: Record<string, unknown> = {
+      phone_number: number['phone_number'],
+      termination_uri: number['termination_uri'],
+      sip_trunk_auth_password: credentials.password,
+    };
+    const username = credentials.username ?? this.username(number);
+    if (username !== null) {
+      request['sip_trunk_auth_username'] = username;
+    }
+    for (const field of this.CARRIED_FIELDS) {
+      if (number[field] !== undefined && number[field] !== null) {
+        request[field] = number[field];
+      }
+    }
+    return request;
+  }
+
+  private static username(number: Record<string, unknown>): string | null {
+    const username = number['sip_trunk_auth_username'];
+    return typeof username === 'string' && username !== '' ? username : null;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Stdin - Read values piped to a command, so secrets stay out of argv and
+ * shell history.
+ */
+
+/**
+ * Everything piped to stdin, without the trailing newline
+ */
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer));
+  }
+  return Buffer.concat(chunks)
+    .toString('utf-8')
+    .replace(/\r?\n$/, '');
+}
@@ -0,0 +1,528 @@
+/**
+ * Workspaces file - Declarative edits to workspaces.json.
+ *
+ * WorkspaceController resolves workspaces.json into API keys for commands to
+ * use; this module edits the raw file instead so entries keep their
+ * `api_key_env` references and unknown fields (e.g. cli_version) survive.
+ * Edits are pure functions over the parsed JSON; callers read and write.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Ok, Err } from '@heya/retell.controllers';
+import type { Result, OrchestrationMode } from '@heya/retell.controllers';
+
+/**
+ * A single workspace entry as written in workspaces.json
+ */
+export type WorkspaceEntryJson = {
+  readonly id?: string;
+  readonly api_key?: string;
+  readonly api_key_env?: string;
+  readonly name?: string;
+  readonly base_url?: string;
+  readonly workspace_id?: string;
+  readonly region?: string;
+};
+
+/**
+ * Raw workspaces.json. production is a single entry (single-production),
+ * or an array / named object of entries (multi-production).
+ */
+export type WorkspacesFileJson = {
+  readonly mode?: OrchestrationMode;
+  readonly staging?: WorkspaceEntryJson;
+  readonly production?:
+    | WorkspaceEntryJson
+    | WorkspaceEntryJson[]
+    | Record<string, WorkspaceEntryJson>;
+  readonly [key: string]: unknown;
+};
+
+/**
+ * A production workspace key found in the environment by generate()
+ */
+export type ProductionEnvVar = {
+  readonly key: string;
+  readonly envVar: string;
+};
+
+/**
+ * An agent whose metadata references a workspace
+ */
+export type WorkspaceReference = {
+  readonly agent: string;
+  readonly file: string;
+};
+
+export class WorkspacesFile {
+  static readonly FILE_NAME = 'workspaces.json';
+  static readonly DEFAULT_BASE_URL = 'https://api.retellai.com';
+
+  private static readonly KEY_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+  private static readonly PRODUCTION_ENV_PATTERN = /^RETELL_PRODUCTION_(.+)_API_KEY$/;
+
+  static getPath(cwd: string = process.cwd()): string {
+    return path.resolve(cwd, this.FILE_NAME);
+  }
+
+  /**
+   * Conventional environment variable for a workspace key:
+   * staging → RETELL_STAGING_API_KEY, prod-us-east → RETELL_PROD_US_EAST_API_KEY
+   */
+  static getEnvVarName(key: string): string {
+    return `RETELL_${key.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_API_KEY`;
+  }
+
+  /**
+   * Read workspaces.json. A missing file is returned as an empty config so
+   * `workspace add` can create it.
+   */
+  static async read(filePath: string = this.getPath()): Promise<Result<WorkspacesFileJson, Error>> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return Ok({});
+      }
+      return Err(error instanceof Error ? error : new Error(`Failed to read ${this.FILE_NAME}`));
+    }
+
+    try {
+      return Ok(JSON.parse(content) as WorkspacesFileJson);
+    } catch (error) {
+      return Err(
+        new Error(
+          `Invalid JSON in ${this.FILE_NAME}: ${error instanceof Error ? error.message : 'parse error'}`
+        )
+      );
+    }
+  }
+
+  static async write(
+    config: WorkspacesFileJson,
+    filePath: string = this.getPath()
+  ): Promise<Result<void, Error>> {
+    try {
+      await fs.writeFile(filePath, JSON.stringify(config, null, 2) + '\n', 'utf-8');
+      return Ok(undefined);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error(`Failed to write ${this.FILE_NAME}`));
+    }
+  }
+
+  /**
+   * Orchestration mode, detected the same way WorkspaceConfigService does:
+   * an explicit mode wins, otherwise an array or named production object means
+   * multi-production.
+   */
+  static getMode(config: WorkspacesFileJson): OrchestrationMode {
+    if (config.mode !== undefined) {
+      return config.mode;
+    }
+    return config.production !== undefined && !this.isSingleEntry(config.production)
+      ? 'multi-production'
+      : 'single-production';
+  }
+
+  /**
+   * Workspace keys in file order: staging, then production or each named
+   * production workspace (array entries are keyed by their id).
+   */
+  static listKeys(config: WorkspacesFileJson): string[] {
+    const keys: string[] = [];
+    if (config.staging !== undefined) {
+      keys.push('staging');
+    }
+    const production = config.production;
+    if (production === undefined) {
+      return keys;
+    }
+    if (this.isSingleEntry(production)) {
+      keys.push('production');
+    } else if (Array.isArray(production)) {
+      production.forEach((entry, index) => keys.push(entry.id ?? String(index)));
+    } else {
+      keys.push(...Object.keys(production));
+    }
+    return keys;
+  }
+
+  /**
+   * Entry for a workspace key as returned by listKeys()
+   */
+  static getEntry(config: WorkspacesFileJson, key: string): WorkspaceEntryJson | undefined {
+    const production = config.production;
+    if (key === 'staging') {
+      return config.staging;
+    }
+    if (production === undefined) {
+      return undefined;
+    }
+    if (this.isSingleEntry(production)) {
+      return key === 'production' ? production : undefined;
+    }
+    if (Array.isArray(production)) {
+      return production.find((entry, index) => (entry.id ?? String(index)) === key);
+    }
+    return production[key];
+  }
+
+  /**
+   * Add a workspace. `staging` and `production` set the fixed entries; any
+   * other key adds a production workspace in multi-production mode.
+   */
+  static add(
+    config: WorkspacesFileJson,
+    key: string,
+    entry: WorkspaceEntryJson
+  ): Result<WorkspacesFileJson, Error> {
+    if (!this.KEY_PATTERN.test(key)) {
+      return Err(
+        new Error(`Invalid workspace name '${key}': use letters, numbers, '-' and '_' only`)
+      );
+    }
+    if (this.listKeys(config).includes(key)) {
+      return Err(new Error(`Workspace '${key}' already exists in ${this.FILE_NAME}`));
+    }
+
+    if (key === 'staging') {
+      return Ok({ ...config, staging: entry });
+    }
+
+    const production = config.production;
+    const mode = this.getMode(config);
+
+    if (key === 'production') {
+      if (mode === 'multi-production') {
+        return Err(
+          new Error(
+            `'production' cannot be added in multi-production mode; add a named production workspace instead`
+          )
+        );
+      }
+      return Ok({ ...this.withMode(config, 'single-production'), production: entry });
+    }
+
+    if (production === undefined) {
+      return Ok({ ...this.withMode(config, 'multi-production'), production: { [key]: entry } });
+    }
+    if (mode === 'single-production') {
+      return Err(
+        new Error(
+          `Cannot add production workspace '${key}': ${this.FILE_NAME} is in single-production mode.\n` +
+            `Convert "production" to a named object of workspaces to use multi-production mode.`
+        )
+      );
+    }
+    if (Array.isArray(production)) {
+      return Ok({ ...config, production: [...production, { id: key, ...entry }] });
+    }
+    return Ok({ ...config, production: { ...production, [key]: entry } });
+  }
+
+  /**
+   * Remove a workspace entry. Removing the last production workspace removes
+   * the production section (and the mode, which then no longer applies).
+   */
+  static remove(config: WorkspacesFileJson, key: string): Result<WorkspacesFileJson, Error> {
+    if (!this.listKeys(config).includes(key)) {
+      return Err(new Error(`Workspace '${key}' not found in ${this.FILE_NAME}`));
+    }
+
+    // Copy so key order in the file is preserved
+    const next: Record<string, unknown> = { ...config };
+    const production = config.production;
+
+    if (key === 'staging') {
+      delete next['staging'];
+      return Ok(next as WorkspacesFileJson);
+    }
+
+    let remaining: WorkspacesFileJson['production'];
+    if (production === undefined || this.isSingleEntry(production)) {
+      remaining = undefined;
+    } else if (Array.isArray(production)) {
+      const entries = production.filter((entry, index) => (entry.id ?? String(index)) !== key);
+      remaining = entries.length > 0 ? entries : undefined;
+    } else {
+      const entries = Object.fromEntries(Object.entries(production).filter(([k]) => k !== key));
+      remaining = Object.keys(entries).length > 0 ? entries : undefined;
+    }
+
+    if (remaining === undefined) {
+      delete next['production'];
+      delete next['mode'];
+    } else {
+      next['production'] = remaining;
+    }
+    return Ok(next as WorkspacesFileJson);
+  }
+
+  /**
+   * Rename a multi-production workspace, keeping its position in the file and
+   * optionally updating its display name. staging and single-production are
+   * fixed keys and cannot be renamed.
+   */
+  static rename(
+    config: WorkspacesFileJson,
+    oldKey: string,
+    newKey: string,
+    displayName?: string
+  ): Result<WorkspacesFileJson, Error> {
+    const keys = this.listKeys(config);
+    if (!keys.includes(oldKey)) {
+      return Err(new Error(`Workspace '${oldKey}' not found in ${this.FILE_NAME}`));
+    }
+    if (keys.includes(newKey)) {
+      return Err(new Error(`Workspace '${newKey}' already exists in ${this.FILE_NAME}`));
+    }
+    if (!this.KEY_PATTERN.test(newKey) || newKey === 'staging' || newKey === 'production') {
+      return Err(new Error(`Invalid workspace name '${newKey}'`));
+    }
+
+    const production = config.production;
+    if (oldKey === 'staging' || production === undefined || this.isSingleEntry(production)) {
+      return Err(new Error(`'${oldKey}' is a fixed workspace name and cannot be renamed`));
+    }
+
+    const renamed = (entry: WorkspaceEntryJson): WorkspaceEntryJson =>
+      displayName !== undefined ? { ...entry, name: displayName } : entry;
+
+    if (Array.isArray(production)) {
+      return Ok({
+        ...config,
+        production: production.map((entry, index) =>
+          (entry.id ?? String(index)) === oldKey ? { ...renamed(entry), id: newKey } : entry
+        ),
+      });
+    }
+    return Ok({
+      ...config,
+      production: Object.fromEntries(
+        Object.entries(production).map(([k, entry]) =>
+          k === oldKey ? [newKey, renamed(entry)] : [k, entry]
+        )
+      ),
+    });
+  }
+
+  /**
+   * Build a workspaces.json that references API keys by environment variable.
+   * Multi-production workspaces come from RETELL_PRODUCTION_<NAME>_API_KEY
+   * variables, keyed as prod-<name>.
+   */
+  static generate(
+    mode: OrchestrationMode,
+    env: NodeJS.ProcessEnv = process.env
+  ): WorkspacesFileJson {
+    const baseUrl = env['RETELL_BASE_URL'] ?? this.DEFAULT_BASE_URL;
+    const staging: WorkspaceEntryJson = {
+      api_key_env: 'RETELL_STAGING_API_KEY',
+      name: 'Staging Workspace',
+      base_url: baseUrl,
+    };
+
+    if (mode === 'single-production') {
+      return {
+        mode,
+        staging,
+        production: {
+          api_key_env: 'RETELL_PRODUCTION_API_KEY',
+          name: 'Production Workspace',
+          base_url: baseUrl,
+        },
+      };
+    }
+
+    const production: Record<string, WorkspaceEntryJson> = {};
+    for (const { key, envVar } of this.discoverProductionEnvVars(env)) {
+      production[key] = { api_key_env: envVar, name: key, base_url: baseUrl };
+    }
+    return { mode, staging, production };
+  }
+
+  /**
+   * Find RETELL_PRODUCTION_<NAME>_API_KEY variables, sorted by key
+   */
+  static discoverProductionEnvVars(env: NodeJS.ProcessEnv = process.env): ProductionEnvVar[] {
+    return Object.keys(env)
+      .map((envVar) => {
+        const match = this.PRODUCTION_ENV_PATTERN.exec(envVar);
+        return match?.[1] !== undefined
+          ? { key: `prod-${match[1].toLowerCase().replace(/_/g, '-')}`, envVar }
+          : null;
+      })
+      .filter((entry): entry is ProductionEnvVar => entry !== null)
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Environment variables referenced via api_key_env that are not set
+   */
+  static findMissingEnvVars(
+    config: WorkspacesFileJson,
+    env: NodeJS.ProcessEnv = process.env
+  ): string[] {
+    const production = config.production;
+    const entries: WorkspaceEntryJson[] = [
+      ...(config.staging !== undefined ? [config.staging] : []),
+      ...(production === undefined
+        ? []
+        : this.isSingleEntry(production)
+          ? [production]
+          : Array.isArray(production)
+            ? production
+            : Object.values(production)),
+    ];
+    return entries
+      .map((entry) => entry.api_key_env)
+      .filter((name): name is string => name !== undefined && (env[name] ?? '') === '');
+  }
+
+  /**
+   * Set NAME=value in a dotenv file, replacing an existing assignment
+   */
+  static async setEnvVar(
+    envFilePath: string,
+    name: string,
+    value: string
+  ): Promise<Result<void, Error>> {
+    try {
+      let lines: string[] = [];
+      try {
+        lines = (await fs.readFile(envFilePath, 'utf-8')).split('\n');
+        if (lines[lines.length - 1] === '') {
+          lines.pop();
+        }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      const assignment = `${name}=${value}`;
+      const index = lines.findIndex((line) => line.startsWith(`${name}=`));
+      if (index >= 0) {
+        lines[index] = assignment;
+      } else {
+        lines.push(assignment);
+      }
+
+      await fs.writeFile(envFilePath, lines.join('\n') + '\n', { encoding: 'utf-8', mode: 0o600 });
+      return Ok(undefined);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error(`Failed to write ${envFilePath}`));
+    }
+  }
+
+  /**
+   * Agents whose metadata references a workspace: staging.json for staging,
+   * production.json (or the matching entry of a multi-production array) otherwise.
+   */
+  static async findReferences(agentsPath: string, key: string): Promise<WorkspaceReference[]> {
+    const fileName = key === 'staging' ? 'staging.json' : 'production.json';
+    const references: WorkspaceReference[] = [];
+
+    for (const agent of await this.listAgentDirs(agentsPath)) {
+      const entries = await this.readMetadataEntries(path.join(agentsPath, agent, fileName));
+      if (entries.some((entry) => entry['workspace'] === key)) {
+        references.push({ agent, file: fileName });
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Point agent metadata at a renamed workspace: production.json entries and
+   * knowledge/.kb-meta.json keys. Returns the files that changed.
+   */
+  static async renameReferences(
+    agentsPath: string,
+    oldKey: string,
+    newKey: string
+  ): Promise<Result<string[], Error>> {
+    const changed: string[] = [];
+    try {
+      for (const agent of await this.listAgentDirs(agentsPath)) {
+        const metadataPath = path.join(agentsPath, agent, 'production.json');
+        const parsed = await this.readJson(metadataPath);
+        if (parsed !== null) {
+          const entries = Array.isArray(parsed) ? parsed : [parsed];
+          const renamed = entries.map((entry: Record<string, unknown>) =>
+            entry['workspace'] === oldKey ? { ...entry, workspace: newKey } : entry
+          );
+          if (renamed.some((entry, i) => entry !== entries[i])) {
+            const output = Array.isArray(parsed) ? renamed : renamed[0];
+            await fs.writeFile(metadataPath, JSON.stringify(output, null, 2) + '\n', 'utf-8');
+            changed.push(path.relative(agentsPath, metadataPath));
+          }
+        }
+
+        const kbMetaPath = path.join(agentsPath, agent, 'knowledge', '.kb-meta.json');
+        const kbMeta = await this.readJson(kbMetaPath);
+        if (kbMeta !== null && !Array.isArray(kbMeta) && oldKey in kbMeta) {
+          const renamed = Object.fromEntries(
+            Object.entries(kbMeta).map(([k, v]) => [k === oldKey ? newKey : k, v])
+          );
+          await fs.writeFile(kbMetaPath, JSON.stringify(renamed, null, 2) + '\n', 'utf-8');
+          changed.push(path.relative(agentsPath, kbMetaPath));
+        }
+      }
+      return Ok(changed);
+    } catch (error) {
+      return Err(error instanceof Error ? error : new Error('Failed to update agent metadata'));
+    }
+  }
+
+  /**
+   * Set the mode, keeping it as the first key of the file
+   */
+  private static withMode(config: WorkspacesFileJson, mode: OrchestrationMode): WorkspacesFileJson {
+    const { mode: _previous, ...rest } = config;
+    return { mode, ...rest };
+  }
+
+  /**
+   * A production value is a single entry when it has its own API key fields
+   */
+  private static isSingleEntry(
+    production: NonNullable<WorkspacesFileJson['production']>
+  ): production is WorkspaceEntryJson {
+    return !Array.isArray(production) && ('api_key' in production || 'api_key_env' in production);
+  }
+
+  private static async listAgentDirs(agentsPath: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(agentsPath, { withFileTypes: true });
+      return entries
+        .filter((e) => e.isDirectory())
+        .map((e) => e.name)
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private static async readMetadataEntries(filePath: string): Promise<Record<string, unknown>[]> {
+    const parsed = await this.readJson(filePath);
+    if (parsed === null) {
+      return [];
+    }
+    return Array.isArray(parsed) ? parsed : [parsed];
+  }
+
+  private static async readJson(
+    filePath: string
+  ): Promise<Record<string, unknown> | Record<string, unknown>[] | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8')) as
+        | Record<string, unknown>
+        | Record<string, unknown>[];
+    } catch {
+      return null;
+    }
+  }
+}
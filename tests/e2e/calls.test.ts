@@ -0,0 +1,182 @@
+/**
+ * End-to-end tests for call history commands
+ */
+
+import { describe, expect, it, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { RetellStubServer } from '../support/retell-stub-server';
+import { runCli } from '../support/run-cli';
+
+describe('Call history', () => {
+  const server = new RetellStubServer();
+  const savedEnv = { ...process.env };
+  let projectDir: string;
+  let supportId: string;
+  let salesId: string;
+
+  const hoursAgo = (hours: number): number => Date.now() - hours * 60 * 60 * 1000;
+
+  const addCall = (call: Record<string, unknown>): void => {
+    const start = call['start_timestamp'] as number;
+    server.workspace('key_calls_staging').calls.set(String(call['call_id']), {
+      call_type: 'phone_call',
+      agent_version: 0,
+      call_status: 'ended',
+      direction: 'inbound',
+      from_number: '+14155550100',
+      to_number: '+14155550199',
+      end_timestamp: start + 60000,
+      duration_ms: 60000,
+      transcript: 'Agent: Hello!\nUser: Hi.',
+      ...call,
+    });
+  };
+
+  const writeJson = async (file: string, content: unknown): Promise<void> => {
+    await fs.mkdir(path.dirname(path.join(projectDir, file)), { recursive: true });
+    await fs.writeFile(path.join(projectDir, file), JSON.stringify(content, null, 2));
+  };
+
+  const readJson = async (file: string): Promise<Record<string, unknown>> =>
+    JSON.parse(await fs.readFile(path.join(projectDir, file), 'utf-8'));
+
+  beforeAll(async () => {
+    process.env['RETELL_BASE_URL'] = await server.start();
+    process.env['RETELL_STAGING_API_KEY'] = 'key_calls_staging';
+    process.env['RETELL_PRODUCTION_API_KEY'] = 'key_calls_production';
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    process.env = savedEnv;
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'retell-calls-'));
+
+    await writeJson('workspaces.json', {
+      mode: 'single-production',
+      staging: { api_key_env: 'RETELL_STAGING_API_KEY', name: 'Staging' },
+      production: { api_key_env: 'RETELL_PRODUCTION_API_KEY', name: 'Production' },
+    });
+    for (const name of ['support', 'sales']) {
+      await writeJson(path.join('agents', name, 'agent.json'), {
+        agent_name: name,
+        voice_id: '11labs-Adrian',
+        language: 'en-US',
+        llm_config: { model: 'gpt-4o-mini', general_prompt: `You are the ${name} agent.` },
+      });
+      await runCli(['push', name], projectDir);
+    }
+    supportId = String((await readJson('agents/support/staging.json'))['agent_id']);
+    salesId = String((await readJson('agents/sales/staging.json'))['agent_id']);
+
+    addCall({
+      call_id: 'call_old',
+      agent_id: supportId,
+      start_timestamp: hoursAgo(72),
+      disconnection_reason: 'user_hangup',
+    });
+    addCall({
+      call_id: 'call_recent',
+      agent_id: supportId,
+      start_timestamp: hoursAgo(2),
+      disconnection_reason: 'agent_hangup',
+      call_analysis: {
+        user_sentiment: 'Positive',
+        call_successful: true,
+        custom_analysis_data: { order_number: 'A-1' },
+      },
+    });
+    addCall({
+      call_id: 'call_sales',
+      agent_id: salesId,
+      start_timestamp: hoursAgo(1),
+      disconnection_reason: 'user_hangup',
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should list calls most recent first with local agent names', async () => {
+    const result = await runCli(['calls', 'list', '--output', 'json'], projectDir);
+
+    const calls = JSON.parse(result.stdout).data.calls as Array<Record<string, unknown>>;
+    expect(result.exitCode).toBe(0);
+    expect(calls.map((call) => [call['call_id'], call['agent']])).toEqual([
+      ['call_sales', 'sales'],
+      ['call_recent', 'support'],
+      ['call_old', 'support'],
+    ]);
+  });
+
+  it('should filter by agent name, time range and disconnection reason', async () => {
+    const byAgent = await runCli(['calls', 'list', '--agent', 'support'], projectDir);
+    const since = await runCli(
+      ['calls', 'list', '--agent', 'support', '--since', '24h', '--output', 'json'],
+      projectDir
+    );
+    const byReason = await runCli(
+      ['calls', 'list', '--reason', 'user_hangup', '--until', '12h', '--output', 'json'],
+      projectDir
+    );
+
+    expect(byAgent.stdout).toContain('call_old');
+    expect(byAgent.stdout).not.toContain('call_sales');
+    expect(JSON.parse(since.stdout).data.calls).toEqual([
+      expect.objectContaining({ call_id: 'call_recent' }),
+    ]);
+    expect(JSON.parse(byReason.stdout).data.calls).toEqual([
+      expect.objectContaining({ call_id: 'call_old' }),
+    ]);
+  });
+
+  it('should refuse agents that have not been pushed to the workspace', async () => {
+    const result = await runCli(['calls', 'list', '--agent', 'billing'], projectDir);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain('Agent(s) not pushed to staging: billing');
+  });
+
+  it('should show a call with its analysis and transcript', async () => {
+    const result = await runCli(['calls', 'get', 'call_recent'], projectDir);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain(`Agent: support (${supportId})`);
+    expect(result.stdout).toContain('order_number: "A-1"');
+    expect(result.stdout).toContain('User: Hi.');
+  });
+
+  it('should export post-call analysis to CSV', async () => {
+    const result = await runCli(
+      ['calls', 'export', '--agent', 'support', '--format', 'csv', '--out', 'calls.csv'],
+      projectDir
+    );
+
+    const rows = (await fs.readFile(path.join(projectDir, 'calls.csv'), 'utf-8'))
+      .trimEnd()
+      .split('\n');
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('Exported 2 call(s) to calls.csv');
+    expect(rows[0]).toContain('analysis.order_number');
+    expect(rows[1]).toMatch(/^call_recent,support,/);
+    expect(rows[1]).toContain(',A-1,');
+  });
+
+  it('should export JSONL to stdout', async () => {
+    const result = await runCli(['calls', 'export', '--since', '3h'], projectDir);
+
+    const records = result.stdout
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line) as Record<string, unknown>);
+    expect(result.exitCode).toBe(0);
+    expect(records.map((record) => record['call_id'])).toEqual(['call_sales', 'call_recent']);
+    expect(records[1]).toMatchObject({ custom_analysis_data: { order_number: 'A-1' } });
+  });
+});
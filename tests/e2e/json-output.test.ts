@@ -0,0 +1,184 @@
+/**
+ * End-to-end tests for `--output json`
+ */
+
+import { describe, expect, it, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { RetellStubServer } from '../support/retell-stub-server';
+import { runCli } from '../support/run-cli';
+
+describe('JSON output', () => {
+  const server = new RetellStubServer();
+  const savedEnv = { ...process.env };
+  let projectDir: string;
+
+  beforeAll(async () => {
+    process.env['RETELL_BASE_URL'] = await server.start();
+    process.env['RETELL_STAGING_API_KEY'] = 'key_json_staging';
+    process.env['RETELL_PRODUCTION_API_KEY'] = 'key_json_production';
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    process.env = savedEnv;
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'retell-json-'));
+    const agentDir = path.join(projectDir, 'agents', 'support');
+    await fs.mkdir(agentDir, { recursive: true });
+
+    await fs.writeFile(
+      path.join(projectDir, 'workspaces.json'),
+      JSON.stringify({
+        mode: 'single-production',
+        staging: { api_key_env: 'RETELL_STAGING_API_KEY', name: 'Staging' },
+        production: { api_key_env: 'RETELL_PRODUCTION_API_KEY', name: 'Production' },
+      })
+    );
+    await fs.writeFile(
+      path.join(agentDir, 'agent.json'),
+      JSON.stringify({
+        agent_name: 'Support',
+        voice_id: '11labs-Adrian',
+        language: 'en-US',
+        llm_config: { model: 'gpt-4o-mini', general_prompt: 'You are a support agent.' },
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should print only the result document on stdout', async () => {
+    const result = await runCli(['push', 'support', '--output', 'json'], projectDir);
+
+    expect(result.exitCode).toBe(0);
+    const output = JSON.parse(result.stdout);
+    expect(output).toMatchObject({
+      success: true,
+      command: 'push',
+      data: {
+        agent: 'support',
+        workspace: 'staging',
+        engine: 'retell-llm',
+        pushed: true,
+        conversationFlowId: null,
+        published: null,
+      },
+    });
+    expect(output.data.configHash).toMatch(/^sha256:/);
+    expect(result.stderr).toContain("Pushing agent 'support' to staging");
+  });
+
+  it('should report sync status per workspace', async () => {
+    const push = JSON.parse(
+      (await runCli(['push', 'support', '--output', 'json'], projectDir)).stdout
+    );
+
+    const result = await runCli(['status', '--output', 'json'], projectDir);
+
+    expect(result.exitCode).toBe(0);
+    const { data } = JSON.parse(result.stdout);
+    expect(data.agents).toHaveLength(1);
+    expect(data.agents[0]).toMatchObject({
+      name: 'support',
+      staging: { workspace: 'staging', agentId: push.data.agentId },
+      production: [],
+    });
+    expect(data.agents[0].staging.syncedAt).toEqual(expect.any(String));
+  });
+
+  it('should name nested commands by their full path', async () => {
+    await runCli(['push', 'support'], projectDir);
+
+    const result = await runCli(['version', 'history', 'support', '--output', 'json'], projectDir);
+
+    const output = JSON.parse(result.stdout);
+    expect(output.command).toBe('version history');
+    expect(output.data.versions[0]).toMatchObject({ version: 0, isPublished: false });
+  });
+
+  it('should report plan and apply results', async () => {
+    const plan = await runCli(['plan', '--output', 'json'], projectDir);
+    const refused = await runCli(['apply', 'retell-plan.json', '--output', 'json'], projectDir);
+    const apply = await runCli(
+      ['apply', 'retell-plan.json', '--yes', '--output', 'json'],
+      projectDir
+    );
+
+    expect(JSON.parse(plan.stdout).data).toMatchObject({
+      workspace: 'staging',
+      file: 'retell-plan.json',
+      entries: [{ agent: 'support', action: 'create' }],
+    });
+    expect(refused.exitCode).toBe(1);
+    expect(JSON.parse(refused.stdout).error.message).toContain('Use --yes');
+    expect(apply.exitCode).toBe(0);
+    expect(JSON.parse(apply.stdout).data).toEqual({
+      workspace: 'staging',
+      planFile: 'retell-plan.json',
+      applied: [{ agent: 'support', action: 'create', agentId: expect.any(String) }],
+    });
+  });
+
+  it('should list workspaces', async () => {
+    const result = await runCli(['workspace', 'list', '--output', 'json'], projectDir);
+
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(result.stdout).data).toMatchObject({
+      mode: 'single-production',
+      workspaces: [
+        { type: 'staging', key: null, hasApiKey: true },
+        { type: 'production', key: null, hasApiKey: true },
+      ],
+    });
+  });
+
+  it('should emit errors as JSON with a code and exit nonzero', async () => {
+    const result = await runCli(['pull', 'support', '--output', 'json'], projectDir);
+
+    expect(result.exitCode).toBe(1);
+    expect(JSON.parse(result.stdout)).toEqual({
+      success: false,
+      command: 'pull',
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: expect.stringContaining('staging'),
+        hint: null,
+        exitCode: 1,
+      },
+    });
+  });
+
+  it('should reject unknown formats', async () => {
+    const result = await runCli(['status', '--output', 'yaml'], projectDir);
+
+    expect(result.exitCode).not.toBe(0);
+    expect(result.stderr).toContain('yaml');
+  });
+
+  it('should redact credentials from Retell responses unless --show-secrets is given', async () => {
+    await runCli(
+      ['phone', 'import', '+14157774444', 'trunk.example.com', '--password', 'trunk-pass-1234'],
+      projectDir
+    );
+
+    const json = await runCli(['phone', 'get', '+14157774444', '--output', 'json'], projectDir);
+    const legacy = await runCli(['phone', 'get', '+14157774444', '--json'], projectDir);
+    const shown = await runCli(
+      ['--show-secrets', 'phone', 'get', '+14157774444', '--output', 'json'],
+      projectDir
+    );
+
+    expect(JSON.parse(json.stdout).data.phoneNumber.sip_trunk_auth_password).toBe('[REDACTED]');
+    expect(legacy.stdout).not.toContain('trunk-pass-1234');
+    expect(JSON.parse(shown.stdout).data.phoneNumber.sip_trunk_auth_password).toBe(
+      'trunk-pass-1234'
+    );
+  });
+});
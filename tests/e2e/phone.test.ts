@@ -0,0 +1,256 @@
+/**
+ * End-to-end tests for phone number commands
+ */
+
+import { describe, expect, it, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { RetellStubServer } from '../support/retell-stub-server';
+import { runCli } from '../support/run-cli';
+
+describe('Phone numbers', () => {
+  const server = new RetellStubServer();
+  const savedEnv = { ...process.env };
+  let projectDir: string;
+
+  const stagingNumbers = () => server.workspace('key_phone_staging').phoneNumbers;
+
+  const writeJson = async (file: string, content: unknown): Promise<void> => {
+    await fs.mkdir(path.dirname(path.join(projectDir, file)), { recursive: true });
+    await fs.writeFile(path.join(projectDir, file), JSON.stringify(content, null, 2));
+  };
+
+  const readJson = async (file: string): Promise<Record<string, unknown>> =>
+    JSON.parse(await fs.readFile(path.join(projectDir, file), 'utf-8'));
+
+  beforeAll(async () => {
+    process.env['RETELL_BASE_URL'] = await server.start();
+    process.env['RETELL_STAGING_API_KEY'] = 'key_phone_staging';
+    process.env['RETELL_PRODUCTION_API_KEY'] = 'key_phone_production';
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    process.env = savedEnv;
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'retell-phone-'));
+
+    await writeJson('workspaces.json', {
+      mode: 'single-production',
+      staging: { api_key_env: 'RETELL_STAGING_API_KEY', name: 'Staging' },
+      production: { api_key_env: 'RETELL_PRODUCTION_API_KEY', name: 'Production' },
+    });
+    for (const name of ['support', 'sales']) {
+      await writeJson(path.join('agents', name, 'agent.json'), {
+        agent_name: name,
+        voice_id: '11labs-Adrian',
+        language: 'en-US',
+        llm_config: { model: 'gpt-4o-mini', general_prompt: `You are the ${name} agent.` },
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  describe('apply', () => {
+    beforeEach(async () => {
+      await runCli(['push', 'support'], projectDir);
+      await runCli(['phone', 'import', '+14157774444', 'trunk.example.com'], projectDir);
+      await runCli(['phone', 'import', '+14157775555', 'trunk.example.com'], projectDir);
+    });
+
+    it('should bind numbers to agents by directory name', async () => {
+      await writeJson('phones.json', {
+        '+14157774444': {
+          staging: { inbound_agent: 'support', nickname: 'Support line' },
+          production: { inbound_agent: 'support' },
+        },
+      });
+      const agentId = (await readJson('agents/support/staging.json'))['agent_id'];
+
+      const dryRun = await runCli(['phone', 'apply', '--dry-run'], projectDir);
+      const boundAfterDryRun = stagingNumbers().get('+14157774444')?.['inbound_agent_id'];
+      const apply = await runCli(['phone', 'apply'], projectDir);
+      const again = await runCli(['phone', 'apply', '--output', 'json'], projectDir);
+
+      expect(dryRun.exitCode).toBe(0);
+      expect(dryRun.stdout).toContain(`inbound_agent_id: none → ${String(agentId)} (support)`);
+      expect(dryRun.stdout).toContain('Not in phones.json (left as is): +14157775555');
+      expect(boundAfterDryRun).toBeNull();
+      expect(apply.exitCode).toBe(0);
+      expect(apply.stdout).toContain('Updated 1 number(s) in staging');
+      expect(stagingNumbers().get('+14157774444')).toMatchObject({
+        inbound_agent_id: agentId,
+        nickname: 'Support line',
+      });
+      expect(stagingNumbers().get('+14157775555')?.['inbound_agent_id']).toBeNull();
+      expect(JSON.parse(again.stdout).data).toMatchObject({
+        workspace: 'staging',
+        entries: [{ phone_number: '+14157774444', action: 'no-op', changes: [] }],
+        applied: [],
+      });
+    });
+
+    it('should refuse agents that have not been pushed to the workspace', async () => {
+      await writeJson('phones.json', {
+        '+14157774444': { staging: { inbound_agent: 'sales', outbound_agent: 'support' } },
+      });
+
+      const result = await runCli(['phone', 'apply'], projectDir);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain("agent 'sales' has not been pushed to staging");
+      expect(stagingNumbers().get('+14157774444')?.['outbound_agent_id']).toBeNull();
+    });
+
+    it('should report numbers missing from the workspace and exit 1', async () => {
+      await writeJson('phones.json', {
+        '+14157776666': { staging: { inbound_agent: 'support' } },
+        '+14157774444': { staging: { nickname: 'Main' } },
+      });
+
+      const result = await runCli(['phone', 'apply'], projectDir);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout).toContain('✗ +14157776666  not in staging');
+      expect(stagingNumbers().get('+14157774444')?.['nickname']).toBe('Main');
+    });
+
+    it('should reject numbers that are not E.164', async () => {
+      await writeJson('phones.json', { '415-777-4444': { staging: { inbound_agent: 'support' } } });
+
+      const result = await runCli(['phone', 'apply'], projectDir);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('phone numbers must be in E.164 format');
+    });
+  });
+
+  describe('bindings', () => {
+    beforeEach(async () => {
+      await runCli(['push', 'support', '--publish'], projectDir);
+      await runCli(['push', 'sales'], projectDir);
+      await runCli(['phone', 'import', '+14157774444', 'trunk.example.com'], projectDir);
+      await runCli(['phone', 'import', '+14157775555', 'trunk.example.com'], projectDir);
+      await writeJson('phones.json', {
+        '+14157774444': { staging: { inbound_agent: 'support', inbound_agent_version: 1 } },
+        '+14157775555': { staging: { inbound_agent: 'support', outbound_agent: 'sales' } },
+      });
+      await runCli(['phone', 'apply'], projectDir);
+    });
+
+    it('should warn before deleting an agent that numbers are bound to', async () => {
+      const result = await runCli(
+        ['delete', 'sales', '-w', 'staging', '--remote-only', '--yes'],
+        projectDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stderr).toContain('Phone numbers still bound to this agent');
+      expect(result.stderr).toContain('+14157775555 (outbound)');
+      expect(result.stderr).not.toContain('+14157774444');
+    });
+
+    it('should audit numbers bound to deleted agents and unpublished versions', async () => {
+      const salesId = (await readJson('agents/sales/staging.json'))['agent_id'];
+      const supportId = (await readJson('agents/support/staging.json'))['agent_id'];
+      await runCli(['delete', 'sales', '-w', 'staging', '--remote-only', '--yes'], projectDir);
+
+      const result = await runCli(['audit', '--output', 'json'], projectDir);
+
+      expect(result.exitCode).toBe(1);
+      expect(JSON.parse(result.stdout).data.phoneBindings).toEqual([
+        {
+          phoneNumber: '+14157774444',
+          direction: 'inbound',
+          agentId: supportId,
+          agentVersion: 1,
+          issue: 'unpublished-version',
+        },
+        {
+          phoneNumber: '+14157775555',
+          direction: 'outbound',
+          agentId: salesId,
+          agentVersion: null,
+          issue: 'deleted-agent',
+        },
+      ]);
+    });
+  });
+
+  describe('trunk', () => {
+    const auth = ['--username', 'heya', '--password', 'old-1'];
+    const rotate = ['phone', 'trunk', 'rotate', 'a.pstn.example.com'];
+
+    beforeEach(async () => {
+      await runCli(['push', 'support'], projectDir);
+      const agentId = String((await readJson('agents/support/staging.json'))['agent_id']);
+      const bindings = ['--inbound-agent', agentId, '--nickname', 'Support'];
+      await runCli(
+        ['phone', 'import', '+14157774444', 'a.pstn.example.com', ...auth, ...bindings],
+        projectDir
+      );
+      await runCli(['phone', 'import', '+14157775555', 'a.pstn.example.com', ...auth], projectDir);
+      await runCli(['phone', 'import', '+14157776666', 'b.pstn.example.com'], projectDir);
+    });
+
+    it('should list numbers grouped by termination URI', async () => {
+      const result = await runCli(['phone', 'trunk', 'list', '--output', 'json'], projectDir);
+
+      expect(JSON.parse(result.stdout).data.trunks).toEqual([
+        {
+          termination_uri: 'a.pstn.example.com',
+          usernames: ['heya'],
+          phone_numbers: ['+14157774444', '+14157775555'],
+        },
+        {
+          termination_uri: 'b.pstn.example.com',
+          usernames: [null],
+          phone_numbers: ['+14157776666'],
+        },
+      ]);
+    });
+
+    it('should re-import every number on the trunk with the new password', async () => {
+      process.env['TRUNK_PASSWORD'] = 'new-2';
+      const before = { ...stagingNumbers().get('+14157774444') };
+
+      const unconfirmed = await runCli([...rotate, '--password-env', 'TRUNK_PASSWORD'], projectDir);
+      const passwordAfterUnconfirmed =
+        stagingNumbers().get('+14157774444')?.['sip_trunk_auth_password'];
+      const result = await runCli(
+        [...rotate, '--password-env', 'TRUNK_PASSWORD', '--yes'],
+        projectDir
+      );
+      delete process.env['TRUNK_PASSWORD'];
+
+      expect(unconfirmed.stdout).toContain('Use --yes flag to confirm rotation.');
+      expect(passwordAfterUnconfirmed).toBe('old-1');
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Rotated credentials of 2 number(s) on a.pstn.example.com');
+      expect(result.stdout).not.toContain('new-2');
+      expect(stagingNumbers().get('+14157774444')).toMatchObject({
+        sip_trunk_auth_username: 'heya',
+        sip_trunk_auth_password: 'new-2',
+        inbound_agent_id: before['inbound_agent_id'],
+        nickname: 'Support',
+      });
+      expect(stagingNumbers().get('+14157775555')?.['sip_trunk_auth_password']).toBe('new-2');
+      expect(stagingNumbers().get('+14157776666')?.['sip_trunk_auth_password']).toBeUndefined();
+    });
+
+    it('should fail without deleting anything when the password variable is unset', async () => {
+      const result = await runCli([...rotate, '--password-env', 'UNSET_VAR', '-y'], projectDir);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Environment variable UNSET_VAR is not set');
+      expect(stagingNumbers().size).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * End-to-end tests for prompt commands on agents that extend a template
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { runCli } from '../support/run-cli';
+
+describe('Prompt sections with extends', () => {
+  let projectDir: string;
+
+  const writeFile = async (file: string, content: string): Promise<void> => {
+    await fs.mkdir(path.dirname(path.join(projectDir, file)), { recursive: true });
+    await fs.writeFile(path.join(projectDir, file), content);
+  };
+
+  const readAgentJson = async (): Promise<Record<string, unknown>> =>
+    JSON.parse(await fs.readFile(path.join(projectDir, 'agents/support/agent.json'), 'utf-8'));
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'retell-prompt-'));
+
+    await writeFile('prompts/base/greeting.txt', 'Greet the caller.');
+    await writeFile('prompts/base/closing.txt', 'Thank the caller.');
+    await writeFile('prompts/support/refunds.txt', 'Explain the refund policy.');
+    await writeFile(
+      'templates/customer-service.json',
+      JSON.stringify({
+        voice_id: '11labs-Adrian',
+        language: 'en-US',
+        llm_config: {
+          model: 'gpt-4o-mini',
+          prompt_config: { sections: ['base/greeting'], overrides: { 'base/closing': 'Bye.' } },
+        },
+      })
+    );
+    await writeFile(
+      'agents/support/agent.json',
+      JSON.stringify({
+        extends: 'templates/customer-service',
+        agent_name: 'Support',
+        llm_config: {
+          prompt_config: {
+            sections: ['base/greeting', 'support/refunds'],
+            overrides: { 'support/refunds': 'Refunds take 5 days.' },
+          },
+        },
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should build the prompt from the effective config', async () => {
+    const result = await runCli(['prompt', 'build', 'support', '--output', 'json'], projectDir);
+
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(result.stdout).data).toMatchObject({
+      sections: ['base/greeting', 'support/refunds'],
+      overrides: ['base/closing', 'support/refunds'],
+    });
+  });
+
+  it('should write only prompt_config changes to the agent file', async () => {
+    const added = await runCli(['prompt', 'add', 'support', 'base/closing', '--yes'], projectDir);
+    const removed = await runCli(
+      ['prompt', 'remove', 'support', 'support/refunds', '--yes'],
+      projectDir
+    );
+
+    expect(added.exitCode).toBe(0);
+    expect(removed.exitCode).toBe(0);
+    expect(await readAgentJson()).toEqual({
+      extends: 'templates/customer-service',
+      agent_name: 'Support',
+      llm_config: {
+        prompt_config: { sections: ['base/greeting', 'base/closing'], overrides: {} },
+      },
+    });
+  });
+
+  it('should refuse to edit sections merged with the base', async () => {
+    const agent = await readAgentJson();
+    await writeFile(
+      'agents/support/agent.json',
+      JSON.stringify({
+        ...agent,
+        array_merge: { 'llm_config.prompt_config.sections': 'append' },
+      })
+    );
+
+    const result = await runCli(['prompt', 'add', 'support', 'base/closing', '--yes'], projectDir);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain('merges llm_config.prompt_config.sections with its base');
+  });
+});
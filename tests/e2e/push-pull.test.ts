@@ -0,0 +1,371 @@
+/**
+ * End-to-end tests for push, publish and pull against the offline Retell stand-in
+ */
+
+import { describe, expect, it, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import { RetellStubServer } from '../support/retell-stub-server';
+import { runCli } from '../support/run-cli';
+
+const STAGING_KEY = 'key_e2e_staging';
+const PRODUCTION_KEY = 'key_e2e_production';
+
+describe('Push and pull against the Retell stand-in', () => {
+  const server = new RetellStubServer();
+  const savedEnv = { ...process.env };
+  let projectDir: string;
+  let agentDir: string;
+
+  beforeAll(async () => {
+    process.env['RETELL_BASE_URL'] = await server.start();
+    process.env['RETELL_STAGING_API_KEY'] = STAGING_KEY;
+    process.env['RETELL_PRODUCTION_API_KEY'] = PRODUCTION_KEY;
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    process.env = savedEnv;
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'retell-e2e-'));
+    agentDir = path.join(projectDir, 'agents', 'support');
+    await fs.mkdir(agentDir, { recursive: true });
+
+    await fs.writeFile(
+      path.join(projectDir, 'workspaces.json'),
+      JSON.stringify({
+        mode: 'single-production',
+        staging: { api_key_env: 'RETELL_STAGING_API_KEY', name: 'Staging' },
+        production: { api_key_env: 'RETELL_PRODUCTION_API_KEY', name: 'Production' },
+      })
+    );
+    await fs.writeFile(
+      path.join(agentDir, 'agent.json'),
+      JSON.stringify({
+        agent_name: 'Support',
+        voice_id: '11labs-Adrian',
+        language: 'en-US',
+        llm_config: { model: 'gpt-4o-mini', general_prompt: 'You are a support agent.' },
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  async function readMetadata(workspace: string): Promise<Record<string, unknown>> {
+    return JSON.parse(await fs.readFile(path.join(agentDir, `${workspace}.json`), 'utf-8'));
+  }
+
+  it('should create the agent and LLM in staging and record metadata', async () => {
+    const result = await runCli(['push', 'support', '-w', 'staging'], projectDir);
+
+    expect(result.exitCode).toBe(0);
+    const staging = server.workspace(STAGING_KEY);
+    expect(staging.agents.size).toBe(1);
+    expect(staging.llms.size).toBe(1);
+    expect(server.workspace(PRODUCTION_KEY).agents.size).toBe(0);
+
+    const metadata = await readMetadata('staging');
+    expect(staging.agents.has(metadata['agent_id'] as string)).toBe(true);
+    expect(staging.llms.has(metadata['llm_id'] as string)).toBe(true);
+  });
+
+  it('should not call the API again when the agent is in sync', async () => {
+    await runCli(['push', 'support', '-w', 'staging'], projectDir);
+    const requestCount = server.requests.length;
+
+    const result = await runCli(['push', 'support', '-w', 'staging'], projectDir);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('already in sync');
+    expect(server.requests.slice(requestCount).some((r) => r.method !== 'GET')).toBe(false);
+  });
+
+  it('should publish a version when pushing with --publish', async () => {
+    const result = await runCli(['push', 'support', '-w', 'staging', '--publish'], projectDir);
+
+    expect(result.exitCode).toBe(0);
+    const { agent_id: agentId } = await readMetadata('staging');
+    const versions = server.workspace(STAGING_KEY).agents.get(agentId as string) ?? [];
+    expect(versions.map((v) => v['is_published'])).toEqual([true, false]);
+  });
+
+  it('should promote to production after staging', async () => {
+    await runCli(['push', 'support', '-w', 'staging'], projectDir);
+
+    const result = await runCli(['push', 'support', '-w', 'production'], projectDir);
+
+    expect(result.exitCode).toBe(0);
+    expect(server.workspace(PRODUCTION_KEY).agents.size).toBe(1);
+  });
+
+  it('should pull changes made in the Retell dashboard', async () => {
+    await runCli(['push', 'support', '-w', 'staging'], projectDir);
+    const { llm_id: llmId } = await readMetadata('staging');
+    const llm = RetellStubServer.latest(server.workspace(STAGING_KEY).llms.get(llmId as string));
+    Object.assign(llm ?? {}, { general_prompt: 'Edited in the dashboard.' });
+
+    const result = await runCli(['pull', 'support', '-w', 'staging'], projectDir);
+
+    expect(result.exitCode).toBe(0);
+    const agent = JSON.parse(await fs.readFile(path.join(agentDir, 'agent.json'), 'utf-8'));
+    expect(agent.llm_config.general_prompt).toBe('Edited in the dashboard.');
+  });
+
+  it('should fail when the agent was deleted remotely', async () => {
+    await runCli(['push', 'support', '-w', 'staging'], projectDir);
+    server.workspace(STAGING_KEY).agents.clear();
+
+    const result = await runCli(['pull', 'support', '-w', 'staging'], projectDir);
+
+    expect(result.exitCode).not.toBe(0);
+  });
+
+  it('should send requests to --base-url', async () => {
+    delete process.env['RETELL_BASE_URL'];
+    try {
+      const result = await runCli(
+        ['--base-url', server.baseUrl, 'push', 'support', '-w', 'staging'],
+        projectDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(server.workspace(STAGING_KEY).agents.size).toBe(1);
+    } finally {
+      process.env['RETELL_BASE_URL'] = server.baseUrl;
+    }
+  });
+
+  describe('Bulk push', () => {
+    async function addAgent(name: string, config: Record<string, unknown>): Promise<void> {
+      const dir = path.join(projectDir, 'agents', name);
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(path.join(dir, 'agent.json'), JSON.stringify(config));
+    }
+
+    it('should push every agent with --all and report failed agents', async () => {
+      await addAgent('sales', {
+        agent_name: 'Sales',
+        voice_id: '11labs-Adrian',
+        language: 'en-US',
+        llm_config: { model: 'gpt-4o-mini', general_prompt: 'You are a sales agent.' },
+      });
+      await addAgent('broken', { agent_name: 'Broken' });
+
+      const result = await runCli(
+        ['push', '--all', '--concurrency', '2', '--output', 'json'],
+        projectDir
+      );
+
+      expect(result.exitCode).toBe(1);
+      const { data } = JSON.parse(result.stdout);
+      expect(
+        data.agents.map((a: { agent: string; status: string }) => [a.agent, a.status])
+      ).toEqual([
+        ['broken', 'failed'],
+        ['sales', 'pushed'],
+        ['support', 'pushed'],
+      ]);
+      expect(data.summary).toEqual({ pushed: 2, unchanged: 0, 'publish-failed': 0, failed: 1 });
+      expect(server.workspace(STAGING_KEY).agents.size).toBe(2);
+    });
+
+    it('should only push agents that changed with --changed', async () => {
+      await addAgent('sales', {
+        agent_name: 'Sales',
+        voice_id: '11labs-Adrian',
+        language: 'en-US',
+        llm_config: { model: 'gpt-4o-mini', general_prompt: 'You are a sales agent.' },
+      });
+      await runCli(['push', '--all'], projectDir);
+      const agent = JSON.parse(await fs.readFile(path.join(agentDir, 'agent.json'), 'utf-8'));
+      agent.llm_config.general_prompt = 'You are a friendlier support agent.';
+      await fs.writeFile(path.join(agentDir, 'agent.json'), JSON.stringify(agent));
+
+      const result = await runCli(['push', '--changed', '--output', 'json'], projectDir);
+
+      expect(result.exitCode).toBe(0);
+      const { data } = JSON.parse(result.stdout);
+      expect(data.selection).toBe('changed');
+      expect(data.agents.map((a: { agent: string }) => a.agent)).toEqual(['support']);
+    });
+
+    it('should push agents that compose a prompt changed since a git ref', async () => {
+      await fs.mkdir(path.join(projectDir, 'prompts', 'base'), { recursive: true });
+      await fs.writeFile(path.join(projectDir, 'prompts', 'base', 'closing.txt'), 'Goodbye.');
+      await addAgent('sales', {
+        agent_name: 'Sales',
+        voice_id: '11labs-Adrian',
+        language: 'en-US',
+        llm_config: { model: 'gpt-4o-mini', prompt_config: { sections: ['base/closing'] } },
+      });
+      const git = (...args: string[]): void => {
+        execFileSync('git', args, { cwd: projectDir, stdio: 'ignore' });
+      };
+      git('init', '-q');
+      git('add', '-A');
+      git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'init');
+      await fs.writeFile(path.join(projectDir, 'prompts', 'base', 'closing.txt'), 'Bye now.');
+
+      const result = await runCli(['push', '--since', 'HEAD', '--output', 'json'], projectDir);
+
+      expect(result.exitCode).toBe(0);
+      const { data } = JSON.parse(result.stdout);
+      expect(data).toMatchObject({ selection: 'since', since: 'HEAD' });
+      expect(data.agents.map((a: { agent: string }) => a.agent)).toEqual(['sales']);
+      expect(result.stderr).toContain('sales: prompts/base/closing.txt');
+    });
+
+    it('should require an agent name or --all', async () => {
+      const result = await runCli(['push'], projectDir);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('--all');
+    });
+  });
+
+  describe('Agent inheritance', () => {
+    const billingDir = (): string => path.join(projectDir, 'agents', 'billing');
+
+    beforeEach(async () => {
+      await fs.mkdir(path.join(projectDir, 'templates'));
+      await fs.writeFile(
+        path.join(projectDir, 'templates', 'support.json'),
+        JSON.stringify({
+          agent_name: 'Support',
+          voice_id: '11labs-Adrian',
+          language: 'en-US',
+          llm_config: { model: 'gpt-4o-mini', general_prompt: 'You are a support agent.' },
+        })
+      );
+      await fs.mkdir(billingDir());
+      await fs.writeFile(
+        path.join(billingDir(), 'agent.json'),
+        JSON.stringify({
+          extends: 'templates/support',
+          agent_name: 'Billing',
+          llm_config: { general_prompt: 'You handle billing questions.' },
+        })
+      );
+    });
+
+    it('should push the effective config and keep extends in agent.json', async () => {
+      const result = await runCli(['push', 'billing', '-w', 'staging'], projectDir);
+
+      expect(result.exitCode).toBe(0);
+      const staging = server.workspace(STAGING_KEY);
+      const metadata = JSON.parse(
+        await fs.readFile(path.join(billingDir(), 'staging.json'), 'utf-8')
+      );
+      const agent = staging.agents.get(metadata['agent_id'])?.at(-1);
+      const llm = staging.llms.get(metadata['llm_id'])?.at(-1);
+      expect(agent).toMatchObject({ agent_name: 'Billing', voice_id: '11labs-Adrian' });
+      expect(llm).toMatchObject({
+        model: 'gpt-4o-mini',
+        general_prompt: 'You handle billing questions.',
+      });
+
+      const saved = JSON.parse(await fs.readFile(path.join(billingDir(), 'agent.json'), 'utf-8'));
+      expect(saved['extends']).toBe('templates/support');
+    });
+
+    it('should explain which file set each field', async () => {
+      const result = await runCli(['explain', 'billing', '--output', 'json'], projectDir);
+
+      expect(result.exitCode).toBe(0);
+      const data = JSON.parse(result.stdout).data;
+      expect(data.chain).toEqual(['templates/support.json', 'agents/billing/agent.json']);
+      expect(data.fields).toContainEqual({
+        field: 'voice_id',
+        value: '11labs-Adrian',
+        sources: ['templates/support.json'],
+      });
+      expect(data.fields).toContainEqual({
+        field: 'llm_config.general_prompt',
+        value: 'You handle billing questions.',
+        sources: ['agents/billing/agent.json'],
+      });
+    });
+
+    it('should push the workspace override with the config', async () => {
+      await fs.mkdir(path.join(billingDir(), 'overrides'));
+      await fs.writeFile(
+        path.join(billingDir(), 'overrides', 'staging.json'),
+        JSON.stringify({ webhook_url: 'https://staging.example.com/webhook' })
+      );
+
+      const result = await runCli(['push', 'billing', '-w', 'staging'], projectDir);
+
+      expect(result.exitCode).toBe(0);
+      const metadata = JSON.parse(
+        await fs.readFile(path.join(billingDir(), 'staging.json'), 'utf-8')
+      );
+      const agent = server.workspace(STAGING_KEY).agents.get(metadata['agent_id'])?.at(-1);
+      expect(agent).toMatchObject({
+        agent_name: 'Billing',
+        webhook_url: 'https://staging.example.com/webhook',
+      });
+    });
+
+    it('should refuse to pull over an agent that extends a base', async () => {
+      await runCli(['push', 'billing', '-w', 'staging'], projectDir);
+
+      const result = await runCli(['pull', 'billing', '-w', 'staging'], projectDir);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('extends a base agent or template');
+    });
+  });
+
+  describe('Placeholders', () => {
+    beforeEach(async () => {
+      process.env['E2E_WEBHOOK_BASE'] = 'https://hooks.example.com';
+      await fs.writeFile(
+        path.join(agentDir, 'agent.json'),
+        JSON.stringify({
+          agent_name: 'Support',
+          voice_id: '11labs-Adrian',
+          language: 'en-US',
+          webhook_url: '${env:E2E_WEBHOOK_BASE}/retell',
+          llm_config: { model: 'gpt-4o-mini', general_prompt: 'You are a support agent.' },
+        })
+      );
+    });
+
+    afterEach(() => {
+      delete process.env['E2E_WEBHOOK_BASE'];
+    });
+
+    it('should push resolved values and pull the placeholder back', async () => {
+      const push = await runCli(['push', 'support', '-w', 'staging'], projectDir);
+
+      expect(push.exitCode).toBe(0);
+      const metadata = await readMetadata('staging');
+      const agent = server.workspace(STAGING_KEY).agents.get(metadata['agent_id'] as string);
+      expect(agent?.at(-1)).toMatchObject({ webhook_url: 'https://hooks.example.com/retell' });
+
+      const pull = await runCli(['pull', 'support', '-w', 'staging', '--force'], projectDir);
+
+      expect(pull.exitCode).toBe(0);
+      const saved = JSON.parse(await fs.readFile(path.join(agentDir, 'agent.json'), 'utf-8'));
+      expect(saved['webhook_url']).toBe('${env:E2E_WEBHOOK_BASE}/retell');
+    });
+
+    it('should refuse to push with an unresolved placeholder', async () => {
+      delete process.env['E2E_WEBHOOK_BASE'];
+
+      const result = await runCli(['push', 'support', '-w', 'staging'], projectDir);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('${env:E2E_WEBHOOK_BASE} (webhook_url)');
+      expect(server.workspace(STAGING_KEY).agents.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * End-to-end tests for the report command
+ */
+
+import { describe, expect, it, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { RetellStubServer } from '../support/retell-stub-server';
+import { runCli } from '../support/run-cli';
+
+describe('Call report', () => {
+  const server = new RetellStubServer();
+  const savedEnv = { ...process.env };
+  let projectDir: string;
+
+  const daysAgo = (days: number): number => Date.now() - days * 24 * 60 * 60 * 1000;
+
+  const addCall = (id: string, call: Record<string, unknown>): void => {
+    server.workspace('key_report_staging').calls.set(id, {
+      call_id: id,
+      call_type: 'phone_call',
+      call_status: 'ended',
+      direction: 'inbound',
+      from_number: '+14155550100',
+      to_number: '+14155550199',
+      duration_ms: 60000,
+      disconnection_reason: 'user_hangup',
+      ...call,
+    });
+  };
+
+  const writeJson = async (file: string, content: unknown): Promise<void> => {
+    await fs.mkdir(path.dirname(path.join(projectDir, file)), { recursive: true });
+    await fs.writeFile(path.join(projectDir, file), JSON.stringify(content, null, 2));
+  };
+
+  beforeAll(async () => {
+    process.env['RETELL_BASE_URL'] = await server.start();
+    process.env['RETELL_STAGING_API_KEY'] = 'key_report_staging';
+    process.env['RETELL_PRODUCTION_API_KEY'] = 'key_report_production';
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    process.env = savedEnv;
+  });
+
+  beforeEach(async () => {
+    server.reset();
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'retell-report-'));
+
+    await writeJson('workspaces.json', {
+      mode: 'single-production',
+      staging: { api_key_env: 'RETELL_STAGING_API_KEY', name: 'Staging' },
+      production: { api_key_env: 'RETELL_PRODUCTION_API_KEY', name: 'Production' },
+    });
+    await writeJson(path.join('agents', 'support', 'agent.json'), {
+      agent_name: 'support',
+      voice_id: '11labs-Adrian',
+      language: 'en-US',
+      llm_config: { model: 'gpt-4o-mini', general_prompt: 'You are the support agent.' },
+      post_call_analysis_data: [
+        { name: 'issue_resolved', type: 'boolean', description: 'Was the issue resolved?' },
+      ],
+    });
+    await runCli(['push', 'support', '--publish'], projectDir);
+    const metadata = JSON.parse(
+      await fs.readFile(path.join(projectDir, 'agents/support/staging.json'), 'utf-8')
+    ) as Record<string, unknown>;
+    const agentId = metadata['agent_id'];
+
+    const analysis = (resolved: boolean) => ({
+      user_sentiment: resolved ? 'Positive' : 'Negative',
+      call_successful: resolved,
+      custom_analysis_data: { issue_resolved: resolved },
+    });
+    addCall('call_v0_a', {
+      agent_id: agentId,
+      agent_version: 0,
+      start_timestamp: daysAgo(5),
+      call_analysis: analysis(false),
+    });
+    addCall('call_v0_b', {
+      agent_id: agentId,
+      agent_version: 0,
+      start_timestamp: daysAgo(4),
+      call_analysis: analysis(true),
+    });
+    addCall('call_v1', {
+      agent_id: agentId,
+      agent_version: 1,
+      start_timestamp: daysAgo(1),
+      duration_ms: 30000,
+      call_analysis: analysis(true),
+    });
+    addCall('call_old', {
+      agent_id: agentId,
+      agent_version: 0,
+      start_timestamp: daysAgo(60),
+      call_analysis: analysis(false),
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should aggregate analysis fields by agent version within the range', async () => {
+    const result = await runCli(['report', 'support', '--output', 'json'], projectDir);
+
+    const data = JSON.parse(result.stdout).data;
+    expect(result.exitCode).toBe(0);
+    expect(data).toMatchObject({ agent: 'support', publishedVersion: 0, calls: 3 });
+    expect(data.versions).toEqual([
+      expect.objectContaining({
+        version: 1,
+        published: false,
+        calls: 1,
+        success_rate: 1,
+        analysis: [{ name: 'issue_resolved', type: 'boolean', count: 1, true_count: 1, rate: 1 }],
+      }),
+      expect.objectContaining({
+        version: 0,
+        published: true,
+        calls: 2,
+        sentiment: { Positive: 1, Neutral: 0, Negative: 1, Unknown: 0 },
+        analysis: [{ name: 'issue_resolved', type: 'boolean', count: 2, true_count: 1, rate: 0.5 }],
+      }),
+    ]);
+  });
+
+  it('should print a table per version', async () => {
+    const result = await runCli(['report', 'support', '--since', '90d'], projectDir);
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain('Calls: 4');
+    expect(result.stdout).toMatch(/v0\s+published\s+3\s+1m00s/);
+    expect(result.stdout).toContain('issue_resolved (boolean)');
+    expect(result.stdout).toMatch(/v1\s+100% true \(1\/1\)/);
+  });
+
+  it('should fail for agents that have not been pushed', async () => {
+    const result = await runCli(['report', 'billing'], projectDir);
+
+    expect(result.exitCode).toBe(1);
+  });
+});
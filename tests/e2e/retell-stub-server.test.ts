@@ -0,0 +1,199 @@
+/**
+ * Tests for the offline Retell stand-in, driven through retell-sdk
+ */
+
+import { describe, expect, it, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import Retell from 'retell-sdk';
+import { RetellStubServer } from '../support/retell-stub-server';
+
+describe('RetellStubServer', () => {
+  const server = new RetellStubServer();
+  let baseURL: string;
+  let client: Retell;
+
+  beforeAll(async () => {
+    baseURL = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    client = new Retell({ apiKey: 'key_staging', baseURL, maxRetries: 0 });
+  });
+
+  async function createAgent(): Promise<Retell.AgentResponse> {
+    const llm = await client.llm.create({ general_prompt: 'Hello', start_speaker: 'agent' });
+    return client.agent.create({
+      agent_name: 'Support',
+      voice_id: '11labs-Adrian',
+      response_engine: { type: 'retell-llm', llm_id: llm.llm_id },
+    });
+  }
+
+  describe('Agents and versions', () => {
+    it('should create version 0 as a draft bound to the latest LLM version', async () => {
+      const agent = await createAgent();
+
+      expect(agent.version).toBe(0);
+      expect(agent.is_published).toBe(false);
+      expect(agent.response_engine).toMatchObject({ type: 'retell-llm', version: 0 });
+    });
+
+    it('should update the draft in place', async () => {
+      const agent = await createAgent();
+      const updated = await client.agent.update(agent.agent_id, { voice_id: '11labs-Myra' });
+
+      expect(updated.version).toBe(0);
+      expect(updated.voice_id).toBe('11labs-Myra');
+      expect(await client.agent.getVersions(agent.agent_id)).toHaveLength(1);
+    });
+
+    it('should publish the agent and its LLM and start new drafts', async () => {
+      const agent = await createAgent();
+      await client.agent.publish(agent.agent_id);
+
+      const versions = await client.agent.getVersions(agent.agent_id);
+      expect(versions.map((v) => [v.version, v.is_published])).toEqual([
+        [0, true],
+        [1, false],
+      ]);
+
+      const llmId = (agent.response_engine as { llm_id: string }).llm_id;
+      const llm = await client.llm.retrieve(llmId);
+      expect(llm.version).toBe(1);
+      expect((await client.llm.retrieve(llmId, { version: 0 })).is_published).toBe(true);
+    });
+
+    it('should retrieve a specific version', async () => {
+      const agent = await createAgent();
+      await client.agent.publish(agent.agent_id);
+      await client.agent.update(agent.agent_id, { agent_name: 'Support v2' });
+
+      expect((await client.agent.retrieve(agent.agent_id, { version: 0 })).agent_name).toBe(
+        'Support'
+      );
+      expect((await client.agent.retrieve(agent.agent_id)).agent_name).toBe('Support v2');
+    });
+
+    it('should reject updates to published versions', async () => {
+      const agent = await createAgent();
+      await client.agent.publish(agent.agent_id);
+
+      await expect(
+        client.agent.update(agent.agent_id, { agent_name: 'Changed' }, { query: { version: 0 } })
+      ).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('should return 404 for unknown and deleted agents', async () => {
+      const agent = await createAgent();
+      await client.agent.delete(agent.agent_id);
+
+      await expect(client.agent.retrieve(agent.agent_id)).rejects.toBeInstanceOf(
+        Retell.NotFoundError
+      );
+    });
+
+    it('should reject agents whose LLM does not exist', async () => {
+      await expect(
+        client.agent.create({
+          voice_id: '11labs-Adrian',
+          response_engine: { type: 'retell-llm', llm_id: 'llm_missing' },
+        })
+      ).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('Workspaces and errors', () => {
+    it('should keep API keys in separate workspaces', async () => {
+      await createAgent();
+      const production = new Retell({ apiKey: 'key_production', baseURL, maxRetries: 0 });
+
+      expect(await client.agent.list()).toHaveLength(1);
+      expect(await production.agent.list()).toHaveLength(0);
+    });
+
+    it('should reject requests without an API key', async () => {
+      const response = await fetch(`${baseURL}/list-agents`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should answer injected failures, then recover', async () => {
+      server.failNext(429, { path: /list-agents/ });
+
+      await expect(client.agent.list()).rejects.toBeInstanceOf(Retell.RateLimitError);
+      expect(await client.agent.list()).toEqual([]);
+    });
+
+    it('should record requests', async () => {
+      await client.agent.list();
+
+      expect(server.requests).toEqual([
+        { method: 'GET', path: '/list-agents', apiKey: 'key_staging', body: {} },
+      ]);
+    });
+  });
+
+  describe('Phone numbers', () => {
+    it('should create, update and delete a number bound to an agent', async () => {
+      const agent = await createAgent();
+      const number = await client.phoneNumber.create({
+        area_code: 415,
+        inbound_agent_id: agent.agent_id,
+      });
+
+      expect(number.phone_number).toMatch(/^\+1415/);
+      expect(number.inbound_agent_id).toBe(agent.agent_id);
+
+      const updated = await client.phoneNumber.update(number.phone_number, { nickname: 'Main' });
+      expect(updated.nickname).toBe('Main');
+
+      await client.phoneNumber.delete(number.phone_number);
+      expect(await client.phoneNumber.list()).toEqual([]);
+    });
+
+    it('should reject bindings to unknown agents', async () => {
+      await expect(
+        client.phoneNumber.create({ inbound_agent_id: 'agent_missing' })
+      ).rejects.toMatchObject({ status: 404 });
+    });
+
+    it('should import numbers from a SIP trunk', async () => {
+      const number = await client.phoneNumber.import({
+        phone_number: '+14155550100',
+        termination_uri: 'trunk.pstn.twilio.com',
+      });
+
+      expect(number.phone_number_type).toBe('custom');
+      expect((await client.phoneNumber.retrieve('+14155550100')).phone_number).toBe('+14155550100');
+    });
+  });
+
+  describe('Knowledge bases', () => {
+    it('should create a knowledge base from uploads and manage its sources', async () => {
+      const kb = await client.knowledgeBase.create({
+        knowledge_base_name: 'Support KB',
+        knowledge_base_files: [new File(['# FAQ'], 'faq.md')],
+      });
+
+      expect(kb.knowledge_base_name).toBe('Support KB');
+      expect(kb.knowledge_base_sources).toEqual([
+        expect.objectContaining({ type: 'document', filename: 'faq.md' }),
+      ]);
+
+      const added = await client.knowledgeBase.addSources(kb.knowledge_base_id, {
+        knowledge_base_files: [new File(['Policy'], 'policy.txt')],
+      });
+      expect(added.knowledge_base_sources).toHaveLength(2);
+
+      const sourceId = (added.knowledge_base_sources?.[0] as { source_id: string }).source_id;
+      const removed = await client.knowledgeBase.deleteSource(kb.knowledge_base_id, sourceId);
+      expect(
+        removed.knowledge_base_sources?.map((s) => (s as { filename: string }).filename)
+      ).toEqual(['policy.txt']);
+    });
+  });
+});
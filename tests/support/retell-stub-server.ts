@@ -0,0 +1,693 @@
+/**
+ * Retell stub server - In-memory stand-in for the Retell HTTP API, so the CLI
+ * can be driven end to end in Jest without live API keys.
+ *
+ * Emulates the endpoints RetellClientService and the CLI's direct retell-sdk
+ * calls use: agents, Retell LLMs, conversation flows, versions, publish,
+ * phone numbers, knowledge bases and call history. Each API key gets its own
+ * workspace, so staging and production stay separate. Calls are only read by
+ * the CLI; tests seed them with workspace(apiKey).calls.
+ *
+ * Versioning follows Retell: create makes version 0 as a draft, updates change
+ * the latest draft, and publishing marks it published and starts a new draft
+ * (publishing an agent also publishes its LLM or conversation flow). Errors
+ * use Retell's status codes: 401 without an API key, 404 for unknown IDs,
+ * 400 for invalid bodies or updates to published versions.
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+type Json = Record<string, unknown>;
+
+/**
+ * A request the server received, for assertions
+ */
+export type RecordedRequest = {
+  readonly method: string;
+  readonly path: string;
+  readonly apiKey: string | null;
+  readonly body: unknown;
+};
+
+/**
+ * Resources of one workspace. Versioned resources keep every version,
+ * oldest first.
+ */
+export type StubWorkspace = {
+  readonly agents: Map<string, Json[]>;
+  readonly llms: Map<string, Json[]>;
+  readonly flows: Map<string, Json[]>;
+  readonly phoneNumbers: Map<string, Json>;
+  readonly knowledgeBases: Map<string, Json>;
+  readonly calls: Map<string, Json>;
+};
+
+type InjectedFailure = {
+  readonly status: number;
+  readonly message: string;
+  readonly path: RegExp | null;
+  remaining: number;
+};
+
+type StubResponse = {
+  readonly status: number;
+  readonly body?: unknown;
+};
+
+type ParsedBody = {
+  readonly json: Json;
+  /** Uploaded file names, for multipart requests */
+  readonly files: string[];
+};
+
+type Handler = (
+  ws: StubWorkspace,
+  params: string[],
+  query: URLSearchParams,
+  body: ParsedBody
+) => StubResponse;
+
+class StubApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export class RetellStubServer {
+  /** Every request received, oldest first */
+  readonly requests: RecordedRequest[] = [];
+
+  private readonly workspaces = new Map<string, StubWorkspace>();
+  private readonly failures: InjectedFailure[] = [];
+  private readonly routes: Array<{ method: string; pattern: RegExp; handler: Handler }> = [];
+  private server: http.Server | null = null;
+  private url: string | null = null;
+  private nextId = 1;
+
+  constructor() {
+    this.registerRoutes();
+  }
+
+  /**
+   * Listen on a free local port. Returns the base URL to pass as RETELL_BASE_URL.
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.url = `http://127.0.0.1:${port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    this.url = null;
+    if (server !== null) {
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    }
+  }
+
+  get baseUrl(): string {
+    if (this.url === null) {
+      throw new Error('Retell stub server is not running');
+    }
+    return this.url;
+  }
+
+  /**
+   * Resources of the workspace an API key belongs to, for seeding and
+   * assertions. Created empty on first use.
+   */
+  workspace(apiKey: string): StubWorkspace {
+    let ws = this.workspaces.get(apiKey);
+    if (ws === undefined) {
+      ws = {
+        agents: new Map(),
+        llms: new Map(),
+        flows: new Map(),
+        phoneNumbers: new Map(),
+        knowledgeBases: new Map(),
+        calls: new Map(),
+      };
+      this.workspaces.set(apiKey, ws);
+    }
+    return ws;
+  }
+
+  /**
+   * Answer the next `count` requests (optionally only those whose path
+   * matches) with an error, e.g. 429 to exercise rate limiting. Note that
+   * retell-sdk retries 408, 409, 429 and 5xx responses twice by default.
+   */
+  failNext(
+    status: number,
+    options: { count?: number; path?: RegExp; message?: string } = {}
+  ): void {
+    this.failures.push({
+      status,
+      message: options.message ?? `Injected ${status} error`,
+      path: options.path ?? null,
+      remaining: options.count ?? 1,
+    });
+  }
+
+  /**
+   * Forget all resources, requests and pending failures.
+   */
+  reset(): void {
+    this.workspaces.clear();
+    this.failures.length = 0;
+    this.requests.length = 0;
+  }
+
+  /**
+   * Latest version of a versioned resource
+   */
+  static latest(versions: ReadonlyArray<Json> | undefined): Json | undefined {
+    return versions?.[versions.length - 1];
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    const auth = req.headers['authorization'];
+    const apiKey = typeof auth === 'string' && auth.startsWith('Bearer ') ? auth.slice(7) : null;
+
+    let response: StubResponse;
+    try {
+      const body = await this.readBody(req);
+      this.requests.push({ method, path: url.pathname, apiKey, body: body.json });
+      response = this.dispatch(method, url, apiKey, body);
+    } catch (error) {
+      response =
+        error instanceof StubApiError
+          ? { status: error.status, body: { error_message: error.message } }
+          : { status: 500, body: { error_message: String(error) } };
+    }
+
+    res.statusCode = response.status;
+    if (response.body === undefined) {
+      res.end();
+      return;
+    }
+    res.setHeader('content-type', 'application/json');
+    res.end(JSON.stringify(response.body));
+  }
+
+  private dispatch(
+    method: string,
+    url: URL,
+    apiKey: string | null,
+    body: ParsedBody
+  ): StubResponse {
+    if (apiKey === null || apiKey === '') {
+      throw new StubApiError(401, 'Missing API key');
+    }
+
+    const failure = this.failures.find(
+      (f) => f.remaining > 0 && (f.path === null || f.path.test(url.pathname))
+    );
+    if (failure !== undefined) {
+      failure.remaining -= 1;
+      if (failure.remaining === 0) {
+        this.failures.splice(this.failures.indexOf(failure), 1);
+      }
+      throw new StubApiError(failure.status, failure.message);
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === method ? route.pattern.exec(url.pathname) : null;
+      if (match !== null) {
+        const params = match.slice(1).map((param) => decodeURIComponent(param));
+        return route.handler(this.workspace(apiKey), params, url.searchParams, body);
+      }
+    }
+    throw new StubApiError(404, `No route for ${method} ${url.pathname}`);
+  }
+
+  private registerRoutes(): void {
+    const route = (method: string, pattern: RegExp, handler: Handler): void => {
+      this.routes.push({ method, pattern, handler });
+    };
+
+    // Agents
+    route('POST', /^\/create-agent$/, (ws, _params, _query, { json }) => {
+      const engine = this.validateEngine(ws, json['response_engine']);
+      const agentId = this.id('agent');
+      const agent = this.stamp({
+        ...json,
+        agent_id: agentId,
+        response_engine: engine,
+        version: 0,
+        is_published: false,
+      });
+      ws.agents.set(agentId, [agent]);
+      return { status: 201, body: agent };
+    });
+    route('GET', /^\/get-agent\/([^/]+)$/, (ws, [agentId = ''], query) => ({
+      status: 200,
+      body: this.version(ws.agents, agentId, 'Agent', query),
+    }));
+    route('PATCH', /^\/update-agent\/([^/]+)$/, (ws, [agentId = ''], query, { json }) => {
+      const draft = this.draft(ws.agents, agentId, 'Agent', query);
+      const engine =
+        json['response_engine'] !== undefined
+          ? this.validateEngine(ws, json['response_engine'])
+          : draft['response_engine'];
+      Object.assign(draft, json, { response_engine: engine });
+      return { status: 200, body: this.stamp(draft) };
+    });
+    route('GET', /^\/list-agents$/, (ws) => ({
+      status: 200,
+      body: [...ws.agents.values()].flat(),
+    }));
+    route('GET', /^\/get-agent-versions\/([^/]+)$/, (ws, [agentId = '']) => ({
+      status: 200,
+      body: this.versions(ws.agents, agentId, 'Agent'),
+    }));
+    route('POST', /^\/publish-agent\/([^/]+)$/, (ws, [agentId = '']) => {
+      const versions = this.versions(ws.agents, agentId, 'Agent');
+      const published = RetellStubServer.latest(versions) as Json;
+      const engine = { ...(published['response_engine'] as Json) };
+      if (engine['type'] === 'retell-llm') {
+        engine['version'] = this.publish(ws.llms, engine['llm_id'] as string, 'LLM');
+      } else if (engine['type'] === 'conversation-flow') {
+        engine['version'] = this.publish(
+          ws.flows,
+          engine['conversation_flow_id'] as string,
+          'Flow'
+        );
+      }
+      this.publish(ws.agents, agentId, 'Agent');
+      Object.assign(RetellStubServer.latest(versions) as Json, { response_engine: engine });
+      return { status: 200 };
+    });
+    route('DELETE', /^\/delete-agent\/([^/]+)$/, (ws, [agentId = '']) => {
+      this.versions(ws.agents, agentId, 'Agent');
+      ws.agents.delete(agentId);
+      return { status: 204 };
+    });
+
+    // Retell LLMs and conversation flows
+    this.registerVersionedResource(route, {
+      name: 'LLM',
+      collection: (ws) => ws.llms,
+      idField: 'llm_id',
+      prefix: 'llm',
+      create: '/create-retell-llm',
+      get: /^\/get-retell-llm\/([^/]+)$/,
+      update: /^\/update-retell-llm\/([^/]+)$/,
+      list: '/list-retell-llms',
+      remove: /^\/delete-retell-llm\/([^/]+)$/,
+    });
+    this.registerVersionedResource(route, {
+      name: 'Conversation flow',
+      collection: (ws) => ws.flows,
+      idField: 'conversation_flow_id',
+      prefix: 'conversation_flow',
+      create: '/create-conversation-flow',
+      get: /^\/get-conversation-flow\/([^/]+)$/,
+      update: /^\/update-conversation-flow\/([^/]+)$/,
+      list: '/list-conversation-flows',
+      remove: /^\/delete-conversation-flow\/([^/]+)$/,
+    });
+
+    // Phone numbers
+    route('POST', /^\/create-phone-number$/, (ws, _params, _query, { json }) => {
+      this.validatePhoneAgents(ws, json);
+      const areaCode = typeof json['area_code'] === 'number' ? json['area_code'] : 415;
+      const phoneNumber = `+1${areaCode}555${String(1000 + ws.phoneNumbers.size).slice(-4)}`;
+      return { status: 201, body: this.addPhoneNumber(ws, phoneNumber, 'retell-twilio', json) };
+    });
+    route('POST', /^\/import-phone-number$/, (ws, _params, _query, { json }) => {
+      if (typeof json['phone_number'] !== 'string' || typeof json['termination_uri'] !== 'string') {
+        throw new StubApiError(400, 'phone_number and termination_uri are required');
+      }
+      if (ws.phoneNumbers.has(json['phone_number'])) {
+        throw new StubApiError(409, `Phone number ${json['phone_number']} already exists`);
+      }
+      this.validatePhoneAgents(ws, json);
+      return { status: 201, body: this.addPhoneNumber(ws, json['phone_number'], 'custom', json) };
+    });
+    route('GET', /^\/get-phone-number\/([^/]+)$/, (ws, [phoneNumber = '']) => ({
+      status: 200,
+      body: this.phoneNumber(ws, phoneNumber),
+    }));
+    route('GET', /^\/list-phone-numbers$/, (ws) => ({
+      status: 200,
+      body: [...ws.phoneNumbers.values()],
+    }));
+    route(
+      'PATCH',
+      /^\/update-phone-number\/([^/]+)$/,
+      (ws, [phoneNumber = ''], _query, { json }) => {
+        const existing = this.phoneNumber(ws, phoneNumber);
+        this.validatePhoneAgents(ws, json);
+        return { status: 200, body: this.stamp(Object.assign(existing, json)) };
+      }
+    );
+    route('DELETE', /^\/delete-phone-number\/([^/]+)$/, (ws, [phoneNumber = '']) => {
+      this.phoneNumber(ws, phoneNumber);
+      ws.phoneNumbers.delete(phoneNumber);
+      return { status: 204 };
+    });
+
+    // Knowledge bases
+    route('POST', /^\/create-knowledge-base$/, (ws, _params, _query, { json, files }) => {
+      const name = json['knowledge_base_name'];
+      if (typeof name !== 'string' || name === '' || name.length >= 40) {
+        throw new StubApiError(400, 'knowledge_base_name must be 1-39 characters');
+      }
+      const kbId = this.id('knowledge_base');
+      const kb: Json = {
+        knowledge_base_id: kbId,
+        knowledge_base_name: name,
+        status: 'complete',
+        knowledge_base_sources: files.map((file) => this.source(file)),
+      };
+      ws.knowledgeBases.set(kbId, this.stamp(kb));
+      return { status: 201, body: kb };
+    });
+    route('GET', /^\/get-knowledge-base\/([^/]+)$/, (ws, [kbId = '']) => ({
+      status: 200,
+      body: this.knowledgeBase(ws, kbId),
+    }));
+    route('GET', /^\/list-knowledge-bases$/, (ws) => ({
+      status: 200,
+      body: [...ws.knowledgeBases.values()],
+    }));
+    route('DELETE', /^\/delete-knowledge-base\/([^/]+)$/, (ws, [kbId = '']) => {
+      this.knowledgeBase(ws, kbId);
+      ws.knowledgeBases.delete(kbId);
+      return { status: 204 };
+    });
+    route(
+      'POST',
+      /^\/add-knowledge-base-sources\/([^/]+)$/,
+      (ws, [kbId = ''], _query, { files }) => {
+        const kb = this.knowledgeBase(ws, kbId);
+        const sources = kb['knowledge_base_sources'] as Json[];
+        sources.push(...files.map((file) => this.source(file)));
+        return { status: 200, body: this.stamp(kb) };
+      }
+    );
+    route(
+      'DELETE',
+      /^\/delete-knowledge-base-source\/([^/]+)\/source\/([^/]+)$/,
+      (ws, [kbId = '', sourceId = '']) => {
+        const kb = this.knowledgeBase(ws, kbId);
+        const sources = kb['knowledge_base_sources'] as Json[];
+        const index = sources.findIndex((source) => source['source_id'] === sourceId);
+        if (index === -1) {
+          throw new StubApiError(404, `Source ${sourceId} not found`);
+        }
+        sources.splice(index, 1);
+        return { status: 200, body: this.stamp(kb) };
+      }
+    );
+
+    // Calls (read-only)
+    route('POST', /^\/v2\/list-calls$/, (ws, _params, _query, { json }) => {
+      const filter = (json['filter_criteria'] ?? {}) as Json;
+      const agentIds = filter['agent_id'] as string[] | undefined;
+      const reasons = filter['disconnection_reason'] as string[] | undefined;
+      const start = (filter['start_timestamp'] ?? {}) as Json;
+      const lower = start['lower_threshold'] as number | undefined;
+      const upper = start['upper_threshold'] as number | undefined;
+
+      const calls = [...ws.calls.values()]
+        .filter((call) => agentIds === undefined || agentIds.includes(call['agent_id'] as string))
+        .filter(
+          (call) =>
+            reasons === undefined || reasons.includes(call['disconnection_reason'] as string)
+        )
+        .filter((call) => lower === undefined || (call['start_timestamp'] as number) >= lower)
+        .filter((call) => upper === undefined || (call['start_timestamp'] as number) <= upper)
+        .sort((a, b) => (a['start_timestamp'] as number) - (b['start_timestamp'] as number));
+      if (json['sort_order'] !== 'ascending') {
+        calls.reverse();
+      }
+
+      const after = json['pagination_key'];
+      const from =
+        typeof after === 'string' ? calls.findIndex((call) => call['call_id'] === after) + 1 : 0;
+      const limit = typeof json['limit'] === 'number' ? json['limit'] : 50;
+      return { status: 200, body: calls.slice(from, from + limit) };
+    });
+    route('GET', /^\/v2\/get-call\/([^/]+)$/, (ws, [callId = '']) => {
+      const call = ws.calls.get(callId);
+      if (call === undefined) {
+        throw new StubApiError(404, `Call ${callId} not found`);
+      }
+      return { status: 200, body: call };
+    });
+  }
+
+  private registerVersionedResource(
+    route: (method: string, pattern: RegExp, handler: Handler) => void,
+    resource: {
+      name: string;
+      collection: (ws: StubWorkspace) => Map<string, Json[]>;
+      idField: string;
+      prefix: string;
+      create: string;
+      get: RegExp;
+      update: RegExp;
+      list: string;
+      remove: RegExp;
+    }
+  ): void {
+    const { name, collection, idField } = resource;
+
+    route('POST', new RegExp(`^${resource.create}$`), (ws, _params, _query, { json }) => {
+      const id = this.id(resource.prefix);
+      const created = this.stamp({ ...json, [idField]: id, version: 0, is_published: false });
+      collection(ws).set(id, [created]);
+      return { status: 201, body: created };
+    });
+    route('GET', resource.get, (ws, [id = ''], query) => ({
+      status: 200,
+      body: this.version(collection(ws), id, name, query),
+    }));
+    route('PATCH', resource.update, (ws, [id = ''], query, { json }) => {
+      const draft = this.draft(collection(ws), id, name, query);
+      return { status: 200, body: this.stamp(Object.assign(draft, json)) };
+    });
+    route('GET', new RegExp(`^${resource.list}$`), (ws) => ({
+      status: 200,
+      body: [...collection(ws).values()].flat(),
+    }));
+    route('DELETE', resource.remove, (ws, [id = '']) => {
+      this.versions(collection(ws), id, name);
+      collection(ws).delete(id);
+      return { status: 204 };
+    });
+  }
+
+  private versions(collection: Map<string, Json[]>, id: string, name: string): Json[] {
+    const versions = collection.get(id);
+    if (versions === undefined) {
+      throw new StubApiError(404, `${name} ${id} not found`);
+    }
+    return versions;
+  }
+
+  /**
+   * The version named by ?version=, or the latest one
+   */
+  private version(
+    collection: Map<string, Json[]>,
+    id: string,
+    name: string,
+    query: URLSearchParams
+  ): Json {
+    const versions = this.versions(collection, id, name);
+    const requested = query.get('version');
+    if (requested === null) {
+      return RetellStubServer.latest(versions) as Json;
+    }
+    const version = versions.find((v) => v['version'] === Number(requested));
+    if (version === undefined) {
+      throw new StubApiError(404, `${name} ${id} version ${requested} not found`);
+    }
+    return version;
+  }
+
+  /**
+   * The version an update applies to; published versions are immutable.
+   */
+  private draft(
+    collection: Map<string, Json[]>,
+    id: string,
+    name: string,
+    query: URLSearchParams
+  ): Json {
+    const version = this.version(collection, id, name, query);
+    if (version['is_published'] === true) {
+      throw new StubApiError(
+        400,
+        `${name} ${id} version ${String(version['version'])} is published and cannot be updated`
+      );
+    }
+    return version;
+  }
+
+  /**
+   * Publish the latest version and start a new draft. Returns the published version.
+   */
+  private publish(collection: Map<string, Json[]>, id: string, name: string): number {
+    const versions = this.versions(collection, id, name);
+    const latest = RetellStubServer.latest(versions) as Json;
+    latest['is_published'] = true;
+    const published = latest['version'] as number;
+    versions.push(
+      this.stamp({
+        ...(JSON.parse(JSON.stringify(latest)) as Json),
+        version: published + 1,
+        is_published: false,
+      })
+    );
+    return published;
+  }
+
+  private validateEngine(ws: StubWorkspace, engine: unknown): Json {
+    if (typeof engine !== 'object' || engine === null) {
+      throw new StubApiError(400, 'response_engine is required');
+    }
+    const value = engine as Json;
+    switch (value['type']) {
+      case 'retell-llm': {
+        const llm = RetellStubServer.latest(
+          this.versions(ws.llms, String(value['llm_id']), 'LLM')
+        ) as Json;
+        return { ...value, version: value['version'] ?? llm['version'] };
+      }
+      case 'conversation-flow': {
+        const flow = RetellStubServer.latest(
+          this.versions(ws.flows, String(value['conversation_flow_id']), 'Conversation flow')
+        ) as Json;
+        return { ...value, version: value['version'] ?? flow['version'] };
+      }
+      case 'custom-llm':
+        if (typeof value['llm_websocket_url'] !== 'string') {
+          throw new StubApiError(400, 'llm_websocket_url is required for custom-llm');
+        }
+        return value;
+      default:
+        throw new StubApiError(400, `Unknown response_engine type: ${String(value['type'])}`);
+    }
+  }
+
+  private validatePhoneAgents(ws: StubWorkspace, json: Json): void {
+    for (const field of ['inbound_agent_id', 'outbound_agent_id']) {
+      const agentId = json[field];
+      if (typeof agentId === 'string' && !ws.agents.has(agentId)) {
+        throw new StubApiError(404, `Agent ${agentId} not found`);
+      }
+    }
+  }
+
+  private addPhoneNumber(ws: StubWorkspace, phoneNumber: string, type: string, json: Json): Json {
+    const record = this.stamp({
+      inbound_agent_id: null,
+      outbound_agent_id: null,
+      nickname: null,
+      inbound_webhook_url: null,
+      ...json,
+      phone_number: phoneNumber,
+      phone_number_pretty: phoneNumber,
+      phone_number_type: type,
+    });
+    ws.phoneNumbers.set(phoneNumber, record);
+    return record;
+  }
+
+  private phoneNumber(ws: StubWorkspace, phoneNumber: string): Json {
+    const record = ws.phoneNumbers.get(phoneNumber);
+    if (record === undefined) {
+      throw new StubApiError(404, `Phone number ${phoneNumber} not found`);
+    }
+    return record;
+  }
+
+  private knowledgeBase(ws: StubWorkspace, kbId: string): Json {
+    const kb = ws.knowledgeBases.get(kbId);
+    if (kb === undefined) {
+      throw new StubApiError(404, `Knowledge base ${kbId} not found`);
+    }
+    return kb;
+  }
+
+  private source(fileName: string): Json {
+    const sourceId = this.id('source');
+    return {
+      type: 'document',
+      source_id: sourceId,
+      filename: fileName,
+      file_url: `${this.url ?? ''}/files/${sourceId}`,
+    };
+  }
+
+  private stamp(resource: Json): Json {
+    resource['last_modification_timestamp'] = Date.now();
+    return resource;
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}_stub${String(this.nextId++).padStart(6, '0')}`;
+  }
+
+  /**
+   * JSON bodies are parsed as-is; multipart bodies (knowledge base uploads)
+   * yield their text fields and uploaded file names.
+   */
+  private async readBody(req: http.IncomingMessage): Promise<ParsedBody> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString('latin1');
+    if (raw === '') {
+      return { json: {}, files: [] };
+    }
+
+    const contentType = req.headers['content-type'] ?? '';
+    if (contentType.startsWith('multipart/form-data')) {
+      const json: Json = {};
+      const files: string[] = [];
+      const partPattern =
+        /name="([^"]+)"(?:; filename="([^"]*)")?\r\n(?:[^\r\n]+\r\n)*\r\n([^]*?)\r\n--/g;
+      for (const [, field = '', fileName, value = ''] of raw.matchAll(partPattern)) {
+        if (fileName !== undefined) {
+          files.push(Buffer.from(fileName, 'latin1').toString('utf-8'));
+        } else {
+          json[field] = Buffer.from(value, 'latin1').toString('utf-8');
+        }
+      }
+      return { json, files };
+    }
+
+    try {
+      const parsed = JSON.parse(Buffer.from(raw, 'latin1').toString('utf-8')) as unknown;
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new StubApiError(400, 'Request body must be a JSON object');
+      }
+      return { json: parsed as Json, files: [] };
+    } catch (error) {
+      if (error instanceof StubApiError) {
+        throw error;
+      }
+      throw new StubApiError(400, 'Request body is not valid JSON');
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * CLI runner - Drives the `retell` program in-process for e2e tests.
+ *
+ * Each run loads fresh command modules, so options parsed by one run never
+ * leak into the next. process.exit is intercepted and console output captured;
+ * like a real exit, the first process.exit call ends the captured output.
+ */
+
+import { jest } from '@jest/globals';
+import { CommanderError, type Command } from 'commander';
+
+export type CliResult = {
+  readonly exitCode: number;
+  readonly stdout: string;
+  readonly stderr: string;
+};
+
+type ProgramModule = typeof import('../../src/cli/program');
+
+class CliExit extends Error {
+  constructor(readonly code: number) {
+    super(`process.exit(${code})`);
+  }
+}
+
+/**
+ * Run `retell <args>` from `cwd`, e.g. runCli(['push', 'support', '-w', 'staging'], projectDir).
+ */
+export async function runCli(args: string[], cwd: string): Promise<CliResult> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  // Set inside the process.exit mock; the assertion keeps TypeScript from
+  // narrowing it to null for the rest of the function
+  let exited = null as CliExit | null;
+  const capture =
+    (lines: string[]) =>
+    (...values: unknown[]): void => {
+      if (exited === null) {
+        lines.push(values.map((value) => String(value)).join(' '));
+      }
+    };
+
+  const spies = [
+    jest.spyOn(console, 'log').mockImplementation(capture(stdout)),
+    jest.spyOn(console, 'info').mockImplementation(capture(stdout)),
+    jest.spyOn(console, 'warn').mockImplementation(capture(stderr)),
+    jest.spyOn(console, 'error').mockImplementation(capture(stderr)),
+    jest.spyOn(process, 'exit').mockImplementation((code?: string | number | null) => {
+      // A command's catch-all handler may catch the exit and exit again
+      exited ??= new CliExit(Number(code ?? 0));
+      throw exited;
+    }),
+  ];
+  const originalCwd = process.cwd();
+
+  let exitCode = 0;
+  try {
+    process.chdir(cwd);
+    let program: Command | undefined;
+    jest.isolateModules(() => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { createProgram } = require('../../src/cli/program') as ProgramModule;
+      program = createProgram('0.0.0-test');
+    });
+    if (program !== undefined) {
+      captureCommanderOutput(program, stdout, stderr);
+    }
+    await program?.parseAsync(args, { from: 'user' });
+  } catch (error) {
+    if (error instanceof CliExit) {
+      // Recorded in `exited`
+    } else if (error instanceof CommanderError) {
+      exitCode = error.exitCode;
+    } else {
+      exitCode = 1;
+      stderr.push(error instanceof Error ? (error.stack ?? error.message) : String(error));
+    }
+  } finally {
+    process.chdir(originalCwd);
+    spies.forEach((spy) => spy.mockRestore());
+  }
+
+  if (exited !== null) {
+    exitCode = exited.code;
+  }
+  return { exitCode, stdout: stdout.join('\n'), stderr: stderr.join('\n') };
+}
+
+/**
+ * Commander exits and writes usage errors itself; settings do not reach
+ * commands added with addCommand, so apply them to the whole tree.
+ */
+function captureCommanderOutput(command: Command, stdout: string[], stderr: string[]): void {
+  command.exitOverride().configureOutput({
+    writeOut: (text) => stdout.push(text.trimEnd()),
+    writeErr: (text) => stderr.push(text.trimEnd()),
+  });
+  command.commands.forEach((subcommand) => captureCommanderOutput(subcommand, stdout, stderr));
+}
@@ -6,15 +6,20 @@
  * - Duplicate agent names
  * - Local agents not in workspace
  * - Workspace agents not tracked locally
- * - Orphaned LLMs
+ * - Orphaned LLMs and conversation flows
  */
 
 import { describe, expect, it, beforeEach, afterEach } from '@jest/globals';
 import { AgentConfigLoader } from '@core/agent-config-loader';
 import { MetadataManager } from '@core/metadata-manager';
+import { HashCalculator, type AgentConfig } from '@heya/retell.controllers';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import type Retell from 'retell-sdk';
+import { ConversationFlowManager } from '../../../../src/cli/utils/conversation-flow';
+import { AgentValidator } from '../../../../src/cli/utils/agent-validator';
+import { ConfigHasher } from '../../../../src/cli/utils/config-hash';
 
 describe('Audit Command', () => {
   let tempDir: string;
@@ -355,4 +360,147 @@ describe('Audit Command', () => {
       expect(newAgent?.agentId).toBeNull(); // But agent_id is null
     });
   });
+
+  describe('Conversation-flow agents', () => {
+    const flow = {
+      global_prompt: 'You book appointments.',
+      start_node_id: 'greeting',
+      nodes: [
+        {
+          id: 'greeting',
+          type: 'conversation',
+          instruction: { type: 'prompt', text: 'Greet the caller.' },
+          edges: [{ id: 'e1', destination_node_id: 'booking' }],
+        },
+        {
+          id: 'booking',
+          type: 'conversation',
+          instruction: { type: 'prompt', text: 'Book a time.' },
+          edges: [],
+        },
+      ],
+    };
+
+    async function createFlowAgent(name: string, flowContent: unknown = flow): Promise<string> {
+      const agentDir = path.join(agentsDir, name);
+      await fs.mkdir(agentDir, { recursive: true });
+      await fs.writeFile(
+        path.join(agentDir, 'agent.json'),
+        JSON.stringify({
+          agent_name: 'Booking',
+          voice_id: '11labs-Adrian',
+          response_engine: { type: 'conversation-flow', flow_file: 'conversation-flow.json' },
+        })
+      );
+      await fs.writeFile(
+        path.join(agentDir, 'conversation-flow.json'),
+        JSON.stringify(flowContent)
+      );
+      return agentDir;
+    }
+
+    it('should load agent.json together with its flow file', async () => {
+      const agentDir = await createFlowAgent('booking');
+
+      expect(await ConversationFlowManager.isFlowAgent(agentDir)).toBe(true);
+      const result = await ConversationFlowManager.load(agentDir);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.flowFile).toBe('conversation-flow.json');
+        expect(result.value.flow['start_node_id']).toBe('greeting');
+      }
+    });
+
+    it('should change the config hash when only the flow changes', async () => {
+      const original = await ConversationFlowManager.load(await createFlowAgent('a'));
+      const edited = await ConversationFlowManager.load(
+        await createFlowAgent('b', { ...flow, global_prompt: 'You cancel appointments.' })
+      );
+      if (!original.success || !edited.success) {
+        throw new Error('Failed to load flow agents');
+      }
+
+      const originalHash = ConversationFlowManager.calculateHash(original.value);
+      const editedHash = ConversationFlowManager.calculateHash(edited.value);
+      expect(originalHash.success && editedHash.success).toBe(true);
+      if (originalHash.success && editedHash.success) {
+        expect(originalHash.value).not.toBe(editedHash.value);
+      }
+    });
+
+    it('should hash configs the same way HashCalculator hashes agent configs', () => {
+      const config: AgentConfig = {
+        agent_name: 'Booking',
+        voice_id: '11labs-Adrian',
+        language: 'en-US',
+        boosted_keywords: ['Zeta', 'alpha'],
+        llm_config: { model: 'gpt-4o-mini', general_prompt: 'You book appointments.' },
+      };
+
+      expect(ConfigHasher.hash(config)).toEqual(HashCalculator.calculateAgentHash(config));
+    });
+
+    it('should strip server-managed fields when converting a remote agent', () => {
+      const local = ConversationFlowManager.toLocal({
+        agent: {
+          agent_id: 'agent_1',
+          version: 3,
+          last_modification_timestamp: 1700000000000,
+          agent_name: 'Booking',
+          voice_id: '11labs-Adrian',
+          response_engine: { type: 'conversation-flow', conversation_flow_id: 'cf_1' },
+        },
+        flowId: 'cf_1',
+        flow: {
+          ...flow,
+          conversation_flow_id: 'cf_1',
+          version: 3,
+        } as Retell.ConversationFlowResponse,
+      });
+
+      expect(local.config).toEqual({
+        agent_name: 'Booking',
+        voice_id: '11labs-Adrian',
+        response_engine: { type: 'conversation-flow', flow_file: 'conversation-flow.json' },
+      });
+      expect(local.flow).toEqual(flow);
+    });
+
+    it('should diff flow nodes by ID regardless of order', () => {
+      const [greeting, booking] = flow.nodes;
+      const config = { response_engine: { type: 'conversation-flow' as const } };
+      const local = { config, flowFile: 'conversation-flow.json', flow };
+      const remote = {
+        config,
+        flowFile: 'conversation-flow.json',
+        flow: {
+          ...flow,
+          nodes: [booking, { ...greeting, instruction: { type: 'prompt', text: 'Say hello.' } }],
+        },
+      };
+
+      const differences = ConversationFlowManager.diff(local, remote);
+      expect(differences.map((d) => d.path)).toEqual(['flow.nodes[greeting]']);
+    });
+
+    it('should report flows not attached to any agent as orphaned', () => {
+      const orphaned = ConversationFlowManager.findOrphanedFlows(
+        ['cf_used', 'cf_orphan', 'cf_orphan'],
+        ['cf_used', null]
+      );
+      expect(orphaned).toEqual(['cf_orphan']);
+    });
+
+    it('should reject edges that point to unknown nodes', async () => {
+      const agentDir = await createFlowAgent('broken', {
+        ...flow,
+        nodes: [{ ...flow.nodes[0], edges: [{ id: 'e1', destination_node_id: 'missing' }] }],
+      });
+
+      const issues = await AgentValidator.validateFlow(agentDir);
+      expect(issues.errors).toEqual([
+        'conversation-flow.json: edge from "greeting" points to unknown node "missing"',
+      ]);
+    });
+  });
 });
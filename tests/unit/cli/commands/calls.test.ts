@@ -0,0 +1,133 @@
+/**
+ * Tests for calls command functionality
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import type Retell from 'retell-sdk';
+import { CallHistory } from '../../../../src/cli/utils/call-history';
+
+describe('Calls Command Dependencies', () => {
+  const phoneCall = (overrides: Record<string, unknown> = {}): Retell.CallResponse =>
+    ({
+      call_id: 'call_1',
+      call_type: 'phone_call',
+      agent_id: 'agent_support',
+      agent_version: 2,
+      call_status: 'ended',
+      direction: 'inbound',
+      from_number: '+14155550100',
+      to_number: '+14155550199',
+      start_timestamp: Date.UTC(2025, 0, 31, 9, 0, 0),
+      end_timestamp: Date.UTC(2025, 0, 31, 9, 1, 30),
+      duration_ms: 90000,
+      disconnection_reason: 'user_hangup',
+      transcript: 'Agent: Hi, how can I help?\nUser: Where is my order?',
+      call_analysis: {
+        user_sentiment: 'Positive',
+        call_successful: true,
+        in_voicemail: false,
+        call_summary: 'Caller asked about an order.',
+        custom_analysis_data: { order_number: 'A-1', resolved: true },
+      },
+      ...overrides,
+    }) as unknown as Retell.CallResponse;
+
+  describe('Time filters', () => {
+    const now = Date.UTC(2025, 1, 1, 12, 0, 0);
+
+    it('should parse durations relative to now', () => {
+      const hours = CallHistory.parseTime('24h', now);
+      const weeks = CallHistory.parseTime('2w', now);
+
+      expect(hours.success && hours.value).toBe(now - 24 * 60 * 60 * 1000);
+      expect(weeks.success && weeks.value).toBe(now - 14 * 24 * 60 * 60 * 1000);
+    });
+
+    it('should parse dates', () => {
+      const result = CallHistory.parseTime('2025-01-31T09:00:00Z', now);
+
+      expect(result.success && result.value).toBe(Date.UTC(2025, 0, 31, 9, 0, 0));
+    });
+
+    it('should reject anything else', () => {
+      const result = CallHistory.parseTime('yesterday', now);
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error.message).toContain("Invalid time 'yesterday'");
+    });
+  });
+
+  describe('Call records', () => {
+    it('should name agents tracked by a local directory', () => {
+      const names = new Map([['agent_support', 'support']]);
+
+      const tracked = CallHistory.toRecord(phoneCall(), names);
+      const untracked = CallHistory.toRecord(phoneCall({ agent_id: 'agent_other' }), names);
+
+      expect(tracked).toMatchObject({
+        agent: 'support',
+        agent_version: 2,
+        start_time: '2025-01-31T09:00:00.000Z',
+        user_sentiment: 'Positive',
+        custom_analysis_data: { order_number: 'A-1', resolved: true },
+      });
+      expect(untracked.agent).toBeNull();
+    });
+
+    it('should leave phone fields empty for web calls without analysis', () => {
+      const record = CallHistory.toRecord(
+        phoneCall({
+          call_type: 'web_call',
+          access_token: 'token',
+          direction: undefined,
+          call_analysis: undefined,
+        }),
+        new Map()
+      );
+
+      expect(record).toMatchObject({
+        direction: null,
+        from_number: null,
+        user_sentiment: null,
+        custom_analysis_data: {},
+      });
+    });
+  });
+
+  describe('Export formats', () => {
+    it('should write one JSON object per line', () => {
+      const records = [
+        CallHistory.toRecord(phoneCall(), new Map()),
+        CallHistory.toRecord(phoneCall({ call_id: 'call_2' }), new Map()),
+      ];
+
+      const lines = CallHistory.toJsonl(records).trimEnd().split('\n');
+
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1] ?? '')).toMatchObject({ call_id: 'call_2' });
+    });
+
+    it('should give each analysis field a CSV column and quote multi-line cells', () => {
+      const records = [
+        CallHistory.toRecord(phoneCall(), new Map()),
+        CallHistory.toRecord(
+          phoneCall({
+            call_id: 'call_2',
+            call_analysis: { custom_analysis_data: { callback: 'yes, "today"' } },
+          }),
+          new Map()
+        ),
+      ];
+
+      const csv = CallHistory.toCsv(records);
+      const header = csv.split('\n')[0]?.split(',') ?? [];
+
+      expect(header).toEqual(
+        expect.arrayContaining(['analysis.order_number', 'analysis.resolved', 'analysis.callback'])
+      );
+      expect(header[header.length - 1]).toBe('transcript');
+      expect(csv).toContain('"Agent: Hi, how can I help?\nUser: Where is my order?"');
+      expect(csv).toContain('"yes, ""today"""');
+    });
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Tests for explain command functionality
+ *
+ * Agents can `extends` a base agent or template; the effective config is
+ * resolved before validation, hashing and push, and explain shows where each
+ * field came from.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { AgentInheritance } from '../../../../src/cli/utils/agent-inheritance';
+import { AgentHasher } from '../../../../src/cli/utils/agent-hash';
+import { AgentValidator } from '../../../../src/cli/utils/agent-validator';
+
+describe('Explain Command Dependencies', () => {
+  let tempDir: string;
+  let originalCwd: string;
+
+  const template = {
+    agent_name: 'Customer Service',
+    voice_id: '11labs-Adrian',
+    language: 'en-US',
+    llm_config: {
+      model: 'gpt-4o-mini',
+      temperature: 0.7,
+      prompt_config: { sections: ['base/greeting', 'base/closing'] },
+    },
+  };
+
+  const writeJson = async (file: string, content: unknown): Promise<void> => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(content, null, 2));
+  };
+
+  const writeAgent = (name: string, config: unknown): Promise<void> =>
+    writeJson(path.join(tempDir, 'agents', name, 'agent.json'), config);
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    tempDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'explain-cmd-test-')));
+    process.chdir(tempDir);
+    await writeJson(path.join(tempDir, 'templates', 'customer-service.json'), template);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('Resolving extends', () => {
+    it('should deep-merge the agent over its template and record sources', async () => {
+      await writeAgent('billing', {
+        extends: 'templates/customer-service',
+        agent_name: 'Billing Support',
+        llm_config: { temperature: 0.3 },
+      });
+
+      const result = await AgentInheritance.resolve('agents/billing');
+
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        return;
+      }
+      expect(result.value.config).toEqual({
+        ...template,
+        agent_name: 'Billing Support',
+        llm_config: { ...template.llm_config, temperature: 0.3 },
+      });
+      expect(result.value.chain).toEqual([
+        'templates/customer-service.json',
+        'agents/billing/agent.json',
+      ]);
+      expect(result.value.sources.get('agent_name')).toEqual(['agents/billing/agent.json']);
+      expect(result.value.sources.get('llm_config.temperature')).toEqual([
+        'agents/billing/agent.json',
+      ]);
+      expect(result.value.sources.get('llm_config.model')).toEqual([
+        'templates/customer-service.json',
+      ]);
+    });
+
+    it('should replace arrays unless array_merge names a strategy', async () => {
+      const own = {
+        llm_config: { prompt_config: { sections: ['base/greeting', 'billing/refunds'] } },
+      };
+      await writeAgent('replaced', { extends: 'templates/customer-service', ...own });
+      await writeAgent('appended', {
+        extends: 'templates/customer-service',
+        array_merge: { 'llm_config.prompt_config.sections': 'append' },
+        ...own,
+      });
+      await writeAgent('unioned', {
+        extends: 'templates/customer-service',
+        array_merge: { 'llm_config.prompt_config.sections': 'union' },
+        ...own,
+      });
+
+      const sections = async (name: string): Promise<unknown> => {
+        const result = await AgentInheritance.resolve(path.join('agents', name));
+        if (!result.success) {
+          throw result.error;
+        }
+        return (result.value.config['llm_config'] as { prompt_config: { sections: unknown } })
+          .prompt_config.sections;
+      };
+
+      expect(await sections('replaced')).toEqual(['base/greeting', 'billing/refunds']);
+      expect(await sections('appended')).toEqual([
+        'base/greeting',
+        'base/closing',
+        'base/greeting',
+        'billing/refunds',
+      ]);
+      expect(await sections('unioned')).toEqual([
+        'base/greeting',
+        'base/closing',
+        'billing/refunds',
+      ]);
+    });
+
+    it('should resolve a chain through a base agent and strip extends keys', async () => {
+      await writeAgent('base', { extends: 'templates/customer-service', language: 'es-ES' });
+      await writeAgent('spanish-billing', { extends: 'agents/base', agent_name: 'Facturación' });
+
+      const result = await AgentInheritance.resolve('agents/spanish-billing');
+
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        return;
+      }
+      expect(result.value.chain).toEqual([
+        'templates/customer-service.json',
+        'agents/base/agent.json',
+        'agents/spanish-billing/agent.json',
+      ]);
+      expect(result.value.config['language']).toBe('es-ES');
+      expect(result.value.config['agent_name']).toBe('Facturación');
+      expect(result.value.config).not.toHaveProperty('extends');
+    });
+
+    it('should resolve extends from the project root, not the current directory', async () => {
+      await writeAgent('base', { extends: 'templates/customer-service', language: 'es-ES' });
+      await writeAgent('spanish-billing', { extends: 'agents/base', agent_name: 'Facturación' });
+      process.chdir(path.join(tempDir, 'agents'));
+
+      const result = await AgentInheritance.resolve('spanish-billing');
+
+      expect(result.success).toBe(true);
+      if (!result.success) {
+        return;
+      }
+      expect(result.value.config['language']).toBe('es-ES');
+      expect(result.value.config['voice_id']).toBe('11labs-Adrian');
+    });
+
+    it('should report circular and missing bases', async () => {
+      await writeAgent('a', { extends: 'agents/b' });
+      await writeAgent('b', { extends: 'agents/a' });
+      await writeAgent('orphan', { extends: 'templates/missing' });
+
+      const circular = await AgentInheritance.resolve('agents/a');
+      const missing = await AgentInheritance.resolve('agents/orphan');
+
+      expect(circular.success).toBe(false);
+      if (!circular.success) {
+        expect(circular.error.message).toBe(
+          'Circular extends: agents/a/agent.json → agents/b/agent.json → agents/a/agent.json'
+        );
+      }
+      expect(missing.success).toBe(false);
+      if (!missing.success) {
+        expect(missing.error.message).toContain('extends "templates/missing" not found');
+      }
+    });
+
+    it('should reject unknown array_merge strategies', async () => {
+      await writeAgent('billing', {
+        extends: 'templates/customer-service',
+        array_merge: { 'llm_config.prompt_config.sections': 'zip' },
+      });
+
+      const result = await AgentInheritance.resolve('agents/billing');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('array_merge.llm_config.prompt_config.sections');
+      }
+    });
+  });
+
+  describe('Workspace overrides', () => {
+    const writeOverride = (agent: string, workspace: string, content: unknown): Promise<void> =>
+      writeJson(path.join(tempDir, 'agents', agent, 'overrides', `${workspace}.json`), content);
+
+    it('should merge the workspace override last and only for that workspace', async () => {
+      await writeAgent('billing', {
+        extends: 'templates/customer-service',
+        webhook_url: 'https://staging.example.com/webhook',
+      });
+      await writeOverride('billing', 'prod-1', {
+        webhook_url: 'https://api.example.com/webhook',
+        llm_config: { temperature: 0.2 },
+      });
+
+      const base = await AgentInheritance.resolve('agents/billing');
+      const prod = await AgentInheritance.resolve('agents/billing', 'prod-1');
+      const staging = await AgentInheritance.resolve('agents/billing', 'staging');
+
+      expect(prod.success && base.success && staging.success).toBe(true);
+      if (!prod.success || !base.success || !staging.success) {
+        return;
+      }
+      expect(prod.value.config['webhook_url']).toBe('https://api.example.com/webhook');
+      expect(prod.value.config['llm_config']).toMatchObject({
+        model: 'gpt-4o-mini',
+        temperature: 0.2,
+      });
+      expect(prod.value.chain.at(-1)).toBe('agents/billing/overrides/prod-1.json');
+      expect(prod.value.sources.get('webhook_url')).toEqual([
+        'agents/billing/overrides/prod-1.json',
+      ]);
+      expect(staging.value).toEqual(base.value);
+      expect(await AgentInheritance.listOverrides('agents/billing')).toEqual(['prod-1']);
+    });
+
+    it('should hash each workspace with its own overrides', async () => {
+      await writeAgent('billing', template);
+      await writeOverride('billing', 'production', {
+        webhook_url: 'https://api.example.com/webhook',
+      });
+
+      const agentPath = path.join(tempDir, 'agents', 'billing');
+      const base = await AgentHasher.hashLocal(agentPath);
+      const staging = await AgentHasher.hashLocal(agentPath, 'staging');
+      const production = await AgentHasher.hashLocal(agentPath, 'production');
+
+      expect(staging).toEqual(base);
+      expect(production.success).toBe(true);
+      expect(production).not.toEqual(staging);
+    });
+
+    it('should hand the controller a staging hash it can compare with the target', async () => {
+      await writeAgent('billing', template);
+      await writeOverride('billing', 'production', {
+        webhook_url: 'https://api.example.com/webhook',
+      });
+      const agentPath = path.join(tempDir, 'agents', 'billing');
+      const stagingHash = await AgentHasher.hashLocal(agentPath, 'staging');
+      const productionHash = await AgentHasher.hashLocal(agentPath, 'production');
+      if (!stagingHash.success || !productionHash.success) {
+        throw new Error('hash failed');
+      }
+      const stagingMetadata = {
+        workspace: 'staging',
+        agent_id: 'agent_1',
+        config_hash: stagingHash.value,
+      };
+      await writeJson(path.join(agentPath, 'staging.json'), stagingMetadata);
+
+      const seen = await AgentInheritance.withResolvedAgent(
+        path.join(tempDir, 'agents'),
+        'billing',
+        'production',
+        async (agentsPath) => {
+          const read = async (file: string): Promise<Record<string, unknown>> =>
+            JSON.parse(await fs.readFile(path.join(agentsPath, 'billing', file), 'utf-8'));
+          await writeJson(path.join(agentsPath, 'billing', 'production.json'), {
+            workspace: 'production',
+          });
+          return { agent: await read('agent.json'), staging: await read('staging.json') };
+        }
+      );
+
+      expect(seen.agent['webhook_url']).toBe('https://api.example.com/webhook');
+      expect(seen.staging['config_hash']).toBe(productionHash.value);
+      expect(JSON.parse(await fs.readFile(path.join(agentPath, 'staging.json'), 'utf-8'))).toEqual(
+        stagingMetadata
+      );
+      await expect(fs.access(path.join(agentPath, 'production.json'))).resolves.toBeUndefined();
+    });
+
+    it('should validate each override and reject extends in overrides', async () => {
+      await writeAgent('billing', {
+        ...template,
+        llm_config: { ...template.llm_config, prompt_config: undefined, general_prompt: 'Hi.' },
+      });
+      await writeOverride('billing', 'staging', { voice_id: 42 });
+      await writeOverride('billing', 'production', { extends: 'templates/customer-service' });
+
+      const report = await AgentValidator.validate('agents/billing', 'prompts');
+
+      expect(report.errors).toEqual([
+        'agents/billing/overrides/production.json: overrides cannot use extends',
+        expect.stringContaining('overrides/staging.json: voice_id'),
+      ]);
+    });
+  });
+
+  describe('Effective config', () => {
+    it('should hash an inheriting agent like the equivalent flat agent', async () => {
+      await writeAgent('billing', { extends: 'templates/customer-service' });
+      await writeAgent('flat', template);
+
+      const inherited = await AgentHasher.hashLocal(path.join(tempDir, 'agents', 'billing'));
+      const flat = await AgentHasher.hashLocal(path.join(tempDir, 'agents', 'flat'));
+
+      expect(inherited.success).toBe(true);
+      expect(inherited).toEqual(flat);
+    });
+
+    it('should validate the effective config and report extends errors', async () => {
+      await fs.mkdir(path.join(tempDir, 'prompts', 'base'), { recursive: true });
+      await fs.writeFile(path.join(tempDir, 'prompts', 'base', 'greeting.txt'), 'Hello.');
+      await fs.writeFile(path.join(tempDir, 'prompts', 'base', 'closing.txt'), 'Goodbye.');
+      await writeAgent('billing', { extends: 'templates/customer-service' });
+      await writeAgent('orphan', { extends: 'templates/missing' });
+
+      const valid = await AgentValidator.validate('agents/billing', 'prompts');
+      const invalid = await AgentValidator.validate('agents/orphan', 'prompts');
+
+      expect(valid.errors).toEqual([]);
+      expect(valid.passed).toContain('agent.json valid (with extends)');
+      expect(invalid.errors).toHaveLength(1);
+      expect(invalid.errors[0]).toContain('extends "templates/missing" not found');
+    });
+  });
+});
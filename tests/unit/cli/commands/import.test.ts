@@ -0,0 +1,156 @@
+/**
+ * Tests for import command functionality
+ *
+ * import lists a workspace and maps agents that have no local metadata to new
+ * agents/<slug>/ directories.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { AgentImporter, type RemoteAgentSummary } from '../../../../src/cli/utils/agent-import';
+import { transformRetellToLocal } from '../../../../src/cli/utils/retell-transform';
+
+describe('Import Command Dependencies', () => {
+  const remote = (agentId: string, name: string | null): RemoteAgentSummary => ({
+    agent_id: agentId,
+    agent_name: name,
+    engine_type: 'retell-llm',
+    llm_id: `llm_${agentId}`,
+    version: 1,
+  });
+
+  describe('Slugs', () => {
+    it('should derive directory names from agent names', () => {
+      expect(AgentImporter.toSlug('Customer Service (EN)')).toBe('customer-service-en');
+      expect(AgentImporter.toSlug('  sales_bot v2 ')).toBe('sales-bot-v2');
+      expect(AgentImporter.toSlug('???')).toBe('agent');
+    });
+  });
+
+  describe('Listing', () => {
+    it('should keep the latest version of each agent and sort by name', () => {
+      const summaries = AgentImporter.summarize([
+        { agent_id: 'agent_b', agent_name: 'Support', version: 1 },
+        {
+          agent_id: 'agent_a',
+          agent_name: 'Billing',
+          version: 0,
+          response_engine: { type: 'retell-llm', llm_id: 'llm_a' },
+        },
+        { agent_id: 'agent_b', agent_name: 'Support v2', version: 3 },
+        { agent_name: 'No ID' },
+      ]);
+
+      expect(summaries.map((agent) => [agent.agent_id, agent.agent_name])).toEqual([
+        ['agent_a', 'Billing'],
+        ['agent_b', 'Support v2'],
+      ]);
+      expect(summaries[0]).toMatchObject({ engine_type: 'retell-llm', llm_id: 'llm_a' });
+    });
+  });
+
+  describe('Directory assignment', () => {
+    it('should add suffixes when names collide', () => {
+      const { targets } = AgentImporter.assignDirectories(
+        [remote('agent_1', 'Support'), remote('agent_2', 'support'), remote('agent_3', 'Sales')],
+        [{ directory: 'sales', agent_id: null }]
+      );
+
+      expect(targets.map((target) => [target.directory, target.renamed])).toEqual([
+        ['support', false],
+        ['support-2', true],
+        ['sales-2', true],
+      ]);
+    });
+
+    it('should skip agents that are already tracked or not LLM-backed', () => {
+      const flowAgent: RemoteAgentSummary = {
+        ...remote('agent_2', 'Flow'),
+        engine_type: 'conversation-flow',
+        llm_id: null,
+      };
+
+      const { targets, skipped } = AgentImporter.assignDirectories(
+        [remote('agent_1', 'Support'), flowAgent],
+        [{ directory: 'customer-support', agent_id: 'agent_1' }]
+      );
+
+      expect(targets).toEqual([]);
+      expect(skipped.map((skip) => skip.reason)).toEqual([
+        "already imported as 'customer-support'",
+        "response engine 'conversation-flow' is not supported",
+      ]);
+    });
+
+    it('should fall back to the agent ID for unnamed agents', () => {
+      const { targets } = AgentImporter.assignDirectories([remote('agent_x1', null)], []);
+
+      expect(targets[0]?.directory).toBe('agent-x1');
+    });
+  });
+
+  describe('Local scan', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'import-cmd-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should report the agent ID each directory tracks', async () => {
+      await fs.mkdir(path.join(tempDir, 'support'));
+      await fs.writeFile(
+        path.join(tempDir, 'support', 'staging.json'),
+        JSON.stringify({
+          workspace: 'staging',
+          agent_id: 'agent_1',
+          llm_id: 'llm_1',
+          kb_id: null,
+          last_sync: '2025-01-15T10:30:00.000Z',
+          config_hash: 'sha256:abc',
+          retell_version: 2,
+        })
+      );
+      await fs.mkdir(path.join(tempDir, 'draft'));
+
+      const existing = await AgentImporter.scanExisting(tempDir, 'staging', 'single-production');
+
+      expect(existing.sort((a, b) => a.directory.localeCompare(b.directory))).toEqual([
+        { directory: 'draft', agent_id: null },
+        { directory: 'support', agent_id: 'agent_1' },
+      ]);
+    });
+
+    it('should treat a missing agents directory as empty', async () => {
+      expect(
+        await AgentImporter.scanExisting(
+          path.join(tempDir, 'missing'),
+          'staging',
+          'single-production'
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('Transform', () => {
+    it('should map Retell agent and LLM responses to agent.json', () => {
+      const config = transformRetellToLocal(
+        { agent_name: 'Support', voice_id: '11labs-Adrian', language: 'en-US', voice_speed: 1.1 },
+        { model: 'gpt-4o-mini', model_temperature: 0.3, general_prompt: 'Be helpful.' }
+      );
+
+      expect(config).toEqual({
+        agent_name: 'Support',
+        voice_id: '11labs-Adrian',
+        language: 'en-US',
+        voice_speed: 1.1,
+        llm_config: { model: 'gpt-4o-mini', temperature: 0.3, general_prompt: 'Be helpful.' },
+      });
+    });
+  });
+});
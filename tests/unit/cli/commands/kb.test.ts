@@ -0,0 +1,253 @@
+/**
+ * Tests for kb command functionality
+ */
+
+import { describe, expect, it, beforeEach, afterEach, jest } from '@jest/globals';
+import type Retell from 'retell-sdk';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { KnowledgeBaseManager, type KbMeta } from '../../../../src/cli/utils/knowledge-base';
+
+type UploadParams = { knowledge_base_files: Array<{ path: string }> };
+type FakeResponse = { knowledge_base_id: string; knowledge_base_sources?: unknown[] };
+
+/**
+ * The part of the Retell knowledge base API that sync uses
+ */
+type FakeKnowledgeBase = {
+  create: (params: UploadParams) => Promise<FakeResponse>;
+  addSources: (kbId: string, params: UploadParams) => Promise<FakeResponse>;
+  deleteSource: (kbId: string, sourceId: string) => Promise<FakeResponse>;
+};
+
+/**
+ * Minimal stand-in for the Retell knowledge base API that records calls
+ */
+function createFakeClient(): { client: Retell } & {
+  [K in keyof FakeKnowledgeBase]: jest.Mock<FakeKnowledgeBase[K]>;
+} {
+  let nextSource = 1;
+  const toSources = (files: Array<{ path: string | Buffer }>): unknown[] =>
+    files.map((file) => ({
+      type: 'document',
+      filename: path.basename(String(file.path)),
+      source_id: `source_${nextSource++}`,
+      file_url: 'https://example.com/file',
+    }));
+
+  const create = jest.fn<FakeKnowledgeBase['create']>(async (params) => ({
+    knowledge_base_id: 'kb_new',
+    knowledge_base_sources: toSources(params.knowledge_base_files),
+  }));
+  const addSources = jest.fn<FakeKnowledgeBase['addSources']>(async (kbId, params) => ({
+    knowledge_base_id: kbId,
+    knowledge_base_sources: toSources(params.knowledge_base_files),
+  }));
+  const deleteSource = jest.fn<FakeKnowledgeBase['deleteSource']>(async (kbId) => ({
+    knowledge_base_id: kbId,
+  }));
+
+  const knowledgeBase: FakeKnowledgeBase = { create, addSources, deleteSource };
+  const client = { knowledgeBase } as unknown as Retell;
+  return { client, create, addSources, deleteSource };
+}
+
+describe('Kb Command Dependencies', () => {
+  let tempDir: string;
+  let agentDir: string;
+  let knowledgeDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-cmd-test-'));
+    agentDir = path.join(tempDir, 'test-agent');
+    knowledgeDir = path.join(agentDir, 'knowledge');
+    await fs.mkdir(knowledgeDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const readMeta = async (): Promise<KbMeta> => {
+    const result = await KnowledgeBaseManager.readMeta(agentDir);
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.value;
+  };
+
+  describe('Local files', () => {
+    it('should list files with hashes and ignore .kb-meta.json', async () => {
+      await fs.writeFile(path.join(knowledgeDir, 'faq.txt'), 'Q: Hours? A: 9-5');
+      await fs.writeFile(path.join(knowledgeDir, '.kb-meta.json'), '{}');
+
+      const result = await KnowledgeBaseManager.listLocalFiles(agentDir);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.map((f) => f.name)).toEqual(['faq.txt']);
+        expect(result.value[0]?.hash).toMatch(/^sha256:[a-f0-9]{64}$/);
+        expect(result.value[0]?.size_bytes).toBe(16);
+      }
+    });
+
+    it('should treat a missing knowledge directory as empty', async () => {
+      const result = await KnowledgeBaseManager.listLocalFiles(path.join(tempDir, 'missing'));
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toEqual([]);
+      }
+    });
+
+    it('should treat a missing .kb-meta.json as nothing uploaded', async () => {
+      expect(await readMeta()).toEqual({});
+    });
+  });
+
+  describe('Sync planning', () => {
+    it('should classify added, updated, removed and unchanged files', async () => {
+      await fs.writeFile(path.join(knowledgeDir, 'new.txt'), 'new');
+      await fs.writeFile(path.join(knowledgeDir, 'same.txt'), 'same');
+      await fs.writeFile(path.join(knowledgeDir, 'changed.txt'), 'changed');
+
+      const filesResult = await KnowledgeBaseManager.listLocalFiles(agentDir);
+      expect(filesResult.success).toBe(true);
+      if (!filesResult.success) {
+        return;
+      }
+
+      const entry = (hash: string): KbMeta[string]['files'][string] => ({
+        file_id: 'source_old',
+        hash,
+        size_bytes: 1,
+        last_sync: '2025-01-01T00:00:00.000Z',
+      });
+
+      const plan = KnowledgeBaseManager.plan(filesResult.value, {
+        kb_id: 'kb_123',
+        files: {
+          'same.txt': entry(KnowledgeBaseManager.calculateHash(Buffer.from('same'))),
+          'changed.txt': entry('sha256:outdated'),
+          'deleted.txt': entry('sha256:gone'),
+        },
+      });
+
+      expect(plan.added.map((f) => f.name)).toEqual(['new.txt']);
+      expect(plan.updated.map((f) => f.name)).toEqual(['changed.txt']);
+      expect(plan.removed).toEqual(['deleted.txt']);
+      expect(plan.unchanged).toEqual(['same.txt']);
+      expect(KnowledgeBaseManager.hasChanges(plan)).toBe(true);
+    });
+  });
+
+  describe('Incremental upload', () => {
+    it('should create the knowledge base on first upload and track file ids', async () => {
+      await fs.writeFile(path.join(knowledgeDir, 'faq.txt'), 'faq');
+      const { client, create } = createFakeClient();
+
+      const result = await KnowledgeBaseManager.sync(client, {
+        agentName: 'test-agent',
+        agentPath: agentDir,
+        workspaceKey: 'staging',
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.kbId).toBe('kb_new');
+        expect(result.value.created).toBe(true);
+      }
+      expect(create).toHaveBeenCalledTimes(1);
+
+      const meta = await readMeta();
+      expect(meta['staging']?.kb_id).toBe('kb_new');
+      expect(meta['staging']?.files['faq.txt']?.file_id).toBe('source_1');
+    });
+
+    it('should only upload changed files and remove deleted ones', async () => {
+      await fs.writeFile(path.join(knowledgeDir, 'faq.txt'), 'faq');
+      await fs.writeFile(path.join(knowledgeDir, 'policy.txt'), 'policy');
+      const { client, addSources, deleteSource } = createFakeClient();
+
+      await KnowledgeBaseManager.sync(client, {
+        agentName: 'test-agent',
+        agentPath: agentDir,
+        workspaceKey: 'staging',
+      });
+      const before = await readMeta();
+
+      await fs.writeFile(path.join(knowledgeDir, 'faq.txt'), 'faq v2');
+      await fs.unlink(path.join(knowledgeDir, 'policy.txt'));
+
+      const result = await KnowledgeBaseManager.sync(client, {
+        agentName: 'test-agent',
+        agentPath: agentDir,
+        workspaceKey: 'staging',
+      });
+
+      expect(result.success).toBe(true);
+      expect(addSources).toHaveBeenCalledTimes(1);
+      expect(deleteSource).toHaveBeenCalledWith(
+        'kb_new',
+        before['staging']?.files['policy.txt']?.file_id
+      );
+      expect(deleteSource).toHaveBeenCalledWith(
+        'kb_new',
+        before['staging']?.files['faq.txt']?.file_id
+      );
+      // The new version of faq.txt is uploaded before the old one is deleted
+      const faqDelete = deleteSource.mock.calls.findIndex(
+        ([, sourceId]) => sourceId === before['staging']?.files['faq.txt']?.file_id
+      );
+      expect(addSources.mock.invocationCallOrder[0]).toBeLessThan(
+        deleteSource.mock.invocationCallOrder[faqDelete] ?? 0
+      );
+
+      const meta = await readMeta();
+      expect(Object.keys(meta['staging']?.files ?? {})).toEqual(['faq.txt']);
+      expect(meta['staging']?.files['faq.txt']?.hash).toBe(
+        KnowledgeBaseManager.calculateHash(Buffer.from('faq v2'))
+      );
+    });
+
+    it('should keep workspaces independent', async () => {
+      await fs.writeFile(path.join(knowledgeDir, 'faq.txt'), 'faq');
+      const { client } = createFakeClient();
+
+      await KnowledgeBaseManager.sync(client, {
+        agentName: 'test-agent',
+        agentPath: agentDir,
+        workspaceKey: 'staging',
+      });
+
+      const meta = await readMeta();
+      const filesResult = await KnowledgeBaseManager.listLocalFiles(agentDir);
+      expect(filesResult.success).toBe(true);
+      if (filesResult.success) {
+        const productionPlan = KnowledgeBaseManager.plan(filesResult.value, meta['production']);
+        expect(productionPlan.added.map((f) => f.name)).toEqual(['faq.txt']);
+      }
+    });
+
+    it('should not call Retell on dry run', async () => {
+      await fs.writeFile(path.join(knowledgeDir, 'faq.txt'), 'faq');
+      const { client, create, addSources } = createFakeClient();
+
+      const result = await KnowledgeBaseManager.sync(client, {
+        agentName: 'test-agent',
+        agentPath: agentDir,
+        workspaceKey: 'staging',
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.plan.added.map((f) => f.name)).toEqual(['faq.txt']);
+      }
+      expect(create).not.toHaveBeenCalled();
+      expect(addSources).not.toHaveBeenCalled();
+      expect(await readMeta()).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for logs command functionality
+ *
+ * Mutating commands append to .retell/history.jsonl; logs reads it back.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { OperationHistory, type HistoryRecord } from '../../../../src/cli/utils/operation-history';
+
+describe('Logs Command Dependencies', () => {
+  let tempDir: string;
+  let historyPath: string;
+
+  const baseRecord: HistoryRecord = {
+    action: 'push',
+    agent: 'customer-service',
+    workspace: 'staging',
+    success: true,
+    before_hash: 'sha256:aaa',
+    after_hash: 'sha256:bbb',
+    retell_version: 3,
+    summary: 'Config + KB (2 files)',
+  };
+
+  const append = async (record: Partial<HistoryRecord>, timestamp: string): Promise<void> => {
+    const result = await OperationHistory.append(
+      { ...baseRecord, ...record, timestamp, user: 'tester' },
+      historyPath
+    );
+    expect(result.success).toBe(true);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'logs-cmd-test-'));
+    historyPath = path.join(tempDir, '.retell', 'history.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('Recording', () => {
+    it('should create the history file and append one JSON line per entry', async () => {
+      await OperationHistory.record(baseRecord, historyPath);
+      await OperationHistory.record({ ...baseRecord, action: 'pull' }, historyPath);
+
+      const lines = (await fs.readFile(historyPath, 'utf-8')).trim().split('\n');
+      expect(lines).toHaveLength(2);
+
+      const entry = JSON.parse(lines[0] ?? '{}');
+      expect(entry).toMatchObject(baseRecord);
+      expect(entry.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    });
+
+    it('should attribute entries to GITHUB_ACTOR before USER', () => {
+      const original = { actor: process.env['GITHUB_ACTOR'], user: process.env['USER'] };
+      try {
+        process.env['USER'] = 'local-user';
+        delete process.env['GITHUB_ACTOR'];
+        expect(OperationHistory.getCurrentUser()).toBe('local-user');
+
+        process.env['GITHUB_ACTOR'] = 'ci-user';
+        expect(OperationHistory.getCurrentUser()).toBe('ci-user');
+      } finally {
+        if (original.actor === undefined) {
+          delete process.env['GITHUB_ACTOR'];
+        } else {
+          process.env['GITHUB_ACTOR'] = original.actor;
+        }
+        if (original.user === undefined) {
+          delete process.env['USER'];
+        } else {
+          process.env['USER'] = original.user;
+        }
+      }
+    });
+  });
+
+  describe('Reading', () => {
+    it('should treat a missing history file as empty', async () => {
+      const result = await OperationHistory.read({}, historyPath);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toEqual([]);
+      }
+    });
+
+    it('should return newest first and apply the limit', async () => {
+      await append({ summary: 'first' }, '2025-11-14T10:00:00.000Z');
+      await append({ summary: 'second' }, '2025-11-14T11:00:00.000Z');
+      await append({ summary: 'third' }, '2025-11-14T12:00:00.000Z');
+
+      const result = await OperationHistory.read({ limit: 2 }, historyPath);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.map((e) => e.summary)).toEqual(['third', 'second']);
+      }
+    });
+
+    it('should filter by agent, workspace and action', async () => {
+      await append({}, '2025-11-14T10:00:00.000Z');
+      await append({ agent: 'sales' }, '2025-11-14T11:00:00.000Z');
+      await append({ workspace: 'production' }, '2025-11-14T12:00:00.000Z');
+      await append({ action: 'pull' }, '2025-11-14T13:00:00.000Z');
+
+      const result = await OperationHistory.read(
+        { agent: 'customer-service', workspace: 'staging', action: 'push' },
+        historyPath
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.map((e) => e.timestamp)).toEqual(['2025-11-14T10:00:00.000Z']);
+      }
+    });
+
+    it('should skip malformed lines', async () => {
+      await append({}, '2025-11-14T10:00:00.000Z');
+      await fs.appendFile(historyPath, '{"action": "pu\n');
+
+      const result = await OperationHistory.read({}, historyPath);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toHaveLength(1);
+      }
+    });
+  });
+});
@@ -6,6 +6,8 @@ import { describe, expect, it, beforeEach, afterEach } from '@jest/globals';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { PhoneConfig } from '../../../../src/cli/utils/phone-config';
+import { SipTrunkInventory } from '../../../../src/cli/utils/sip-trunk';
 
 describe('Phone Command Dependencies', () => {
   let tempDir: string;
@@ -49,6 +51,87 @@ describe('Phone Command Dependencies', () => {
     });
   });
 
+  describe('Agent bindings', () => {
+    const bindings = PhoneConfig.bindingsOf([
+      { phone_number: '+15551234567', inbound_agent_id: 'agent_gone', outbound_agent_id: null },
+      { phone_number: '+15551234568', inbound_agent_id: 'agent_remote_only' },
+      {
+        phone_number: '+15551234569',
+        inbound_agent_id: 'agent_local',
+        inbound_agent_version: 2,
+        outbound_agent_id: 'agent_local',
+        outbound_agent_version: 1,
+      },
+    ]);
+
+    it('should list inbound and outbound bindings with pinned versions', () => {
+      expect(
+        bindings.map((binding) => [binding.direction, binding.agent_id, binding.version])
+      ).toEqual([
+        ['inbound', 'agent_gone', null],
+        ['inbound', 'agent_remote_only', null],
+        ['inbound', 'agent_local', 2],
+        ['outbound', 'agent_local', 1],
+      ]);
+    });
+
+    it('should flag deleted and untracked agents and unpublished versions', () => {
+      const issues = PhoneConfig.checkBindings(
+        bindings,
+        new Set(['agent_remote_only', 'agent_local']),
+        new Set(['agent_local']),
+        new Map([['agent_local', new Set([1])]])
+      );
+
+      expect(issues.map((issue) => [issue.phone_number, issue.direction, issue.issue])).toEqual([
+        ['+15551234567', 'inbound', 'deleted-agent'],
+        ['+15551234568', 'inbound', 'untracked-agent'],
+        ['+15551234569', 'inbound', 'unpublished-version'],
+      ]);
+    });
+  });
+
+  describe('SIP trunks', () => {
+    const number = {
+      phone_number: '+15551234567',
+      termination_uri: 'trunk.example.com',
+      sip_trunk_auth_username: 'heya',
+      sip_trunk_auth_password: 'old',
+      inbound_agent_id: 'agent_123',
+      outbound_agent_id: null,
+      nickname: 'Support',
+      phone_number_type: 'custom',
+      last_modification_timestamp: 1,
+    };
+
+    it('should skip numbers without a termination URI when grouping', () => {
+      const trunks = SipTrunkInventory.group([
+        number,
+        { ...number, phone_number: '+15551234560', sip_trunk_auth_username: 'other' },
+        { phone_number: '+15551234561', phone_number_type: 'retell-twilio' },
+      ]);
+
+      expect(trunks).toEqual([
+        {
+          termination_uri: 'trunk.example.com',
+          usernames: ['heya', 'other'],
+          phone_numbers: ['+15551234560', '+15551234567'],
+        },
+      ]);
+    });
+
+    it('should carry bindings over when re-importing with new credentials', () => {
+      expect(SipTrunkInventory.reimportRequest(number, { password: 'new' })).toEqual({
+        phone_number: '+15551234567',
+        termination_uri: 'trunk.example.com',
+        sip_trunk_auth_username: 'heya',
+        sip_trunk_auth_password: 'new',
+        inbound_agent_id: 'agent_123',
+        nickname: 'Support',
+      });
+    });
+  });
+
   describe('Phone number formatting', () => {
     it('should validate E.164 format', () => {
       const validNumbers = ['+15551234567', '+447911123456'];
@@ -0,0 +1,259 @@
+/**
+ * Tests for plan and apply command functionality
+ *
+ * plan writes per-agent actions to a plan file; apply re-plans each entry and
+ * refuses to run when anything differs from the file.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  AgentConfigLoader,
+  HashCalculator,
+  createAgentId,
+  createHash,
+} from '@heya/retell.controllers';
+import {
+  DeploymentPlanner,
+  type DeploymentPlan,
+  type PlanEntry,
+} from '../../../../src/cli/utils/deployment-plan';
+
+describe('Plan Command Dependencies', () => {
+  let tempDir: string;
+  let agentsDir: string;
+
+  const baseConfig = {
+    agent_name: 'Test Agent',
+    voice_id: '11labs-Adrian',
+    language: 'en-US',
+    llm_config: {
+      model: 'gpt-4o-mini',
+      general_prompt: 'You are a helpful assistant.',
+    },
+  };
+
+  const noKbChanges = { added: [], updated: [], removed: [] };
+
+  const writeAgent = async (name: string, config: unknown = baseConfig): Promise<string> => {
+    const agentDir = path.join(agentsDir, name);
+    await fs.mkdir(agentDir, { recursive: true });
+    await fs.writeFile(path.join(agentDir, 'agent.json'), JSON.stringify(config, null, 2));
+    return agentDir;
+  };
+
+  const writeMetadata = async (name: string, configHash: string | null): Promise<void> => {
+    const agentDir = path.join(agentsDir, name);
+    await fs.mkdir(agentDir, { recursive: true });
+    await fs.writeFile(
+      path.join(agentDir, 'staging.json'),
+      JSON.stringify({
+        workspace: 'staging',
+        agent_id: `agent_${name}`,
+        llm_id: `llm_${name}`,
+        kb_id: null,
+        last_sync: '2025-01-15T10:30:00.000Z',
+        config_hash: configHash,
+        retell_version: 1,
+      })
+    );
+  };
+
+  const hashOf = async (agentDir: string): Promise<string> => {
+    const configResult = await AgentConfigLoader.load(agentDir);
+    if (!configResult.success) {
+      throw configResult.error;
+    }
+    const hashResult = HashCalculator.calculateAgentHash(configResult.value);
+    if (!hashResult.success) {
+      throw hashResult.error;
+    }
+    return hashResult.value;
+  };
+
+  const planAll = async (): Promise<PlanEntry[]> => {
+    const result = await DeploymentPlanner.planAll(agentsDir, 'staging', 'single-production');
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.value;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'plan-cmd-test-'));
+    agentsDir = path.join(tempDir, 'agents');
+    await fs.mkdir(agentsDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('Planning', () => {
+    it('should plan create, update, no-op and delete actions', async () => {
+      await writeAgent('new-agent');
+
+      const changedDir = await writeAgent('changed-agent');
+      await writeMetadata('changed-agent', 'sha256:stale');
+
+      const syncedDir = await writeAgent('synced-agent');
+      await writeMetadata('synced-agent', await hashOf(syncedDir));
+
+      await writeMetadata('removed-agent', 'sha256:old');
+      await fs.mkdir(path.join(agentsDir, 'not-an-agent'));
+
+      const entries = await planAll();
+
+      expect(entries.map((entry) => [entry.agent, entry.action])).toEqual([
+        ['changed-agent', 'update'],
+        ['new-agent', 'create'],
+        ['removed-agent', 'delete'],
+        ['synced-agent', 'no-op'],
+      ]);
+      expect(entries[0]?.local_hash).toBe(await hashOf(changedDir));
+      expect(entries[0]?.synced_hash).toBe('sha256:stale');
+      expect(entries[2]?.agent_id).toBe('agent_removed-agent');
+    });
+
+    it('should plan an update when only knowledge base files changed', async () => {
+      const agentDir = await writeAgent('kb-agent');
+      await writeMetadata('kb-agent', await hashOf(agentDir));
+      await fs.mkdir(path.join(agentDir, 'knowledge'));
+      await fs.writeFile(path.join(agentDir, 'knowledge', 'faq.txt'), 'Q: Hours? A: 9-5');
+
+      const [entry] = await planAll();
+
+      expect(entry?.action).toBe('update');
+      expect(entry?.kb_changes).toEqual({ added: ['faq.txt'], updated: [], removed: [] });
+    });
+
+    it('should decide actions from hashes and metadata', () => {
+      const hash = createHash('sha256:a');
+      const agentId = createAgentId('agent_1');
+
+      expect(DeploymentPlanner.decide(hash, null, null, noKbChanges).action).toBe('create');
+      expect(DeploymentPlanner.decide(hash, agentId, null, noKbChanges).action).toBe('update');
+      expect(DeploymentPlanner.decide(hash, agentId, hash, noKbChanges)).toEqual({
+        action: 'no-op',
+        reason: 'in sync',
+      });
+    });
+
+    it('should count actions', () => {
+      const entry = (action: PlanEntry['action']): PlanEntry => ({
+        agent: action,
+        action,
+        reason: '',
+        agent_id: null,
+        llm_id: null,
+        local_hash: null,
+        synced_hash: null,
+        kb_changes: noKbChanges,
+        remote: null,
+      });
+
+      expect(
+        DeploymentPlanner.summarize([entry('create'), entry('update'), entry('update')])
+      ).toEqual({ create: 1, update: 2, 'no-op': 0, delete: 0 });
+    });
+  });
+
+  describe('Verification', () => {
+    it('should accept an unchanged entry and report local changes', async () => {
+      const agentDir = await writeAgent('support');
+      await writeMetadata('support', 'sha256:stale');
+      const [planned] = await planAll();
+      if (planned === undefined) {
+        throw new Error('expected a plan entry');
+      }
+
+      const unchanged = await DeploymentPlanner.planAgent(
+        agentsDir,
+        'support',
+        'staging',
+        'single-production'
+      );
+      expect(
+        unchanged.success && DeploymentPlanner.compareEntries(planned, unchanged.value)
+      ).toEqual([]);
+
+      await fs.writeFile(
+        path.join(agentDir, 'agent.json'),
+        JSON.stringify({ ...baseConfig, agent_name: 'Renamed Agent' })
+      );
+      const edited = await DeploymentPlanner.planAgent(
+        agentsDir,
+        'support',
+        'staging',
+        'single-production'
+      );
+      expect(edited.success && DeploymentPlanner.compareEntries(planned, edited.value)).toEqual([
+        'local config changed',
+      ]);
+    });
+
+    it('should report an agent that was created since planning', async () => {
+      await writeAgent('support');
+      const [planned] = await planAll();
+      if (planned === undefined) {
+        throw new Error('expected a plan entry');
+      }
+
+      await writeMetadata('support', planned.local_hash);
+      const current = await DeploymentPlanner.planAgent(
+        agentsDir,
+        'support',
+        'staging',
+        'single-production'
+      );
+
+      expect(current.success && DeploymentPlanner.compareEntries(planned, current.value)).toEqual([
+        "action is now 'no-op' (planned 'create')",
+        'metadata changed (pushed elsewhere?)',
+      ]);
+    });
+
+    it('should report remote agent and LLM changes', () => {
+      const planned = { agent_version: 3, agent_modified: 100, llm_version: 2, llm_modified: 90 };
+
+      expect(DeploymentPlanner.compareRemote(planned, { ...planned })).toEqual([]);
+      expect(DeploymentPlanner.compareRemote(planned, { ...planned, agent_version: 4 })).toEqual([
+        'remote agent changed',
+      ]);
+      expect(DeploymentPlanner.compareRemote(planned, { ...planned, llm_modified: 95 })).toEqual([
+        'remote LLM changed',
+      ]);
+    });
+  });
+
+  describe('Plan file', () => {
+    it('should round-trip through write and read', async () => {
+      const planFile = path.join(tempDir, 'retell-plan.json');
+      const plan: DeploymentPlan = {
+        version: DeploymentPlanner.FILE_VERSION,
+        created_at: '2025-01-15T10:30:00.000Z',
+        workspace: 'staging',
+        agents_path: './agents',
+        prompts_path: './prompts',
+        entries: [],
+      };
+
+      expect((await DeploymentPlanner.write(planFile, plan)).success).toBe(true);
+      const result = await DeploymentPlanner.read(planFile);
+
+      expect(result.success && result.value).toEqual(plan);
+    });
+
+    it('should reject files that are not plans or use another version', async () => {
+      const planFile = path.join(tempDir, 'retell-plan.json');
+
+      await fs.writeFile(planFile, JSON.stringify({ agents: [] }));
+      expect((await DeploymentPlanner.read(planFile)).success).toBe(false);
+
+      await fs.writeFile(planFile, JSON.stringify({ version: 99, entries: [] }));
+      expect((await DeploymentPlanner.read(planFile)).success).toBe(false);
+    });
+  });
+});
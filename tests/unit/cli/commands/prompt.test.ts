@@ -0,0 +1,122 @@
+/**
+ * Tests for prompt command functionality
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import { AgentTransformer, PromptBuilder, VariableResolver } from '@heya/retell.controllers';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { PromptSectionIndex } from '../../../../src/cli/utils/prompt-sections';
+
+const fixtureRoot = path.resolve(__dirname, '../../../fixtures/complete-project');
+const agentsDir = path.join(fixtureRoot, 'agents');
+const promptsDir = path.join(fixtureRoot, 'prompts');
+
+describe('Prompt Command Dependencies', () => {
+  describe('Section discovery', () => {
+    it('should list all sections as IDs relative to the prompts directory', async () => {
+      const result = await PromptSectionIndex.listSections(promptsDir);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toEqual([
+          'base/closing',
+          'base/greeting',
+          'base/tone-casual',
+          'base/tone-professional',
+          'customer-service/order-lookup',
+          'customer-service/refund-policy',
+          'sales/qualification',
+        ]);
+      }
+    });
+
+    it('should list sections in a single directory', async () => {
+      const result = await PromptSectionIndex.listSections(promptsDir, 'sales');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toEqual(['sales/qualification']);
+      }
+    });
+
+    it('should resolve section paths and check existence', async () => {
+      expect(PromptSectionIndex.getSectionPath(promptsDir, 'base/greeting')).toBe(
+        path.join(promptsDir, 'base', 'greeting.txt')
+      );
+      expect(await PromptSectionIndex.exists(promptsDir, 'base/greeting')).toBe(true);
+      expect(await PromptSectionIndex.exists(promptsDir, 'base/missing')).toBe(false);
+    });
+
+    it('should reject section IDs that escape the prompts directory', () => {
+      expect(PromptSectionIndex.isValidSectionId('base/greeting')).toBe(true);
+      expect(PromptSectionIndex.isValidSectionId('../secrets')).toBe(false);
+      expect(PromptSectionIndex.isValidSectionId('/etc/passwd')).toBe(false);
+      expect(PromptSectionIndex.isValidSectionId('base//greeting')).toBe(false);
+      expect(PromptSectionIndex.isValidSectionId('')).toBe(false);
+    });
+  });
+
+  describe('Section usage', () => {
+    it('should map sections to the agents that use them', async () => {
+      const result = await PromptSectionIndex.findUsage(agentsDir);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.get('base/greeting')).toEqual(['customer-service', 'sales-agent']);
+        expect(result.value.get('sales/qualification')).toEqual(['sales-agent']);
+        expect(result.value.has('base/unused')).toBe(false);
+      }
+    });
+
+    it('should skip directories without a valid agent.json', async () => {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompt-cmd-test-'));
+      try {
+        await fs.mkdir(path.join(tempDir, 'not-an-agent'));
+
+        const result = await PromptSectionIndex.loadAgents(tempDir);
+
+        expect(result.success).toBe(true);
+        if (result.success) {
+          expect(result.value).toEqual([]);
+        }
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Prompt build', () => {
+    it('should build the same prompt that push sends to Retell', async () => {
+      const agentsResult = await PromptSectionIndex.loadAgents(agentsDir);
+      expect(agentsResult.success).toBe(true);
+      if (!agentsResult.success) {
+        return;
+      }
+
+      const agent = agentsResult.value.find((a) => a.name === 'customer-service');
+      expect(agent).toBeDefined();
+      if (agent === undefined) {
+        return;
+      }
+
+      const promptConfig = agent.config.llm_config.prompt_config;
+      expect(promptConfig).toBeDefined();
+      if (promptConfig === undefined) {
+        return;
+      }
+
+      const llmResult = await AgentTransformer.transformToLlm(agent.config, promptsDir);
+      const buildResult = await PromptBuilder.build(promptsDir, promptConfig);
+
+      expect(llmResult.success && buildResult.success).toBe(true);
+      if (llmResult.success && buildResult.success) {
+        expect(llmResult.value.general_prompt).toBe(buildResult.value);
+        expect(VariableResolver.getUnaccountedVariables(buildResult.value, promptConfig)).toEqual(
+          []
+        );
+      }
+    });
+  });
+});
@@ -14,6 +14,15 @@ import {
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { PromptReverser, type RenderedSection } from '../../../../src/cli/utils/prompt-reverse';
+import {
+  AGENT_FIELD_MAP,
+  LLM_FIELD_MAP,
+  SERVER_MANAGED_AGENT_FIELDS,
+  SERVER_MANAGED_LLM_FIELDS,
+  transformLocalToRetell,
+  transformRetellToLocal,
+} from '../../../../src/cli/utils/retell-transform';
 
 describe('Pull Command Dependencies', () => {
   let tempDir: string;
@@ -295,4 +304,312 @@ describe('Pull Command Dependencies', () => {
       expect(loaded.staging.kb_id).toBe('kb_123');
     });
   });
+
+  describe('Prompt section reverse-engineering', () => {
+    let promptsDir: string;
+
+    const promptConfig = {
+      sections: ['base/greeting', 'base/rules', 'base/closing'],
+      variables: { company: 'Acme' },
+    };
+
+    beforeEach(async () => {
+      promptsDir = path.join(tempDir, 'prompts');
+      await fs.mkdir(path.join(promptsDir, 'base'), { recursive: true });
+      await fs.writeFile(path.join(promptsDir, 'base', 'greeting.txt'), 'Welcome to {{company}}.');
+      await fs.writeFile(path.join(promptsDir, 'base', 'rules.txt'), 'Be brief.\n\nBe polite.');
+      await fs.writeFile(path.join(promptsDir, 'base', 'closing.txt'), 'Goodbye.');
+    });
+
+    const render = async (): Promise<RenderedSection[]> => {
+      const result = await PromptReverser.renderSections(promptsDir, promptConfig);
+      if (!result.success) {
+        throw result.error;
+      }
+      return result.value;
+    };
+
+    it('should keep prompt_config when the remote prompt matches', async () => {
+      const sections = await render();
+
+      expect(sections.map((section) => section.rendered)).toEqual([
+        'Welcome to Acme.',
+        'Be brief.\n\nBe polite.',
+        'Goodbye.',
+      ]);
+      expect(
+        PromptReverser.match(sections, 'Welcome to Acme.\n\nBe brief.\n\nBe polite.\n\nGoodbye.')
+      ).toEqual({ status: 'exact' });
+    });
+
+    it('should attribute edited text to the changed section', async () => {
+      const match = PromptReverser.match(
+        await render(),
+        'Welcome to Acme.\n\nBe brief.\n\nAlways be polite.\n\nGoodbye.'
+      );
+
+      expect(match.status).toBe('changed');
+      if (match.status === 'changed') {
+        expect(match.changes).toHaveLength(1);
+        expect(match.changes[0]?.section.sectionId).toBe('base/rules');
+        expect(match.changes[0]?.remoteContent).toBe('Be brief.\n\nAlways be polite.');
+      }
+    });
+
+    it('should turn static variable values back into placeholders', async () => {
+      const match = PromptReverser.match(
+        await render(),
+        'Hello and welcome to Acme!\n\nBe brief.\n\nBe polite.\n\nGoodbye.'
+      );
+      if (match.status !== 'changed' || match.changes[0] === undefined) {
+        throw new Error('expected a changed section');
+      }
+
+      const reversed = await PromptReverser.reverseVariables(
+        promptsDir,
+        promptConfig,
+        match.changes[0]
+      );
+
+      expect(reversed.success && reversed.value.template).toBe('Hello and welcome to {{company}}!');
+    });
+
+    it('should report remote text that belongs to no section', async () => {
+      const match = PromptReverser.match(
+        await render(),
+        'Welcome to Acme.\n\nNew paragraph.\n\nBe brief.\n\nBe polite.\n\nGoodbye.'
+      );
+
+      expect(match.status).toBe('unmatched');
+    });
+
+    it('should write shared sections back as overrides', async () => {
+      const [greeting] = await render();
+      if (greeting === undefined) {
+        throw new Error('expected a section');
+      }
+      const change = { section: greeting, remoteContent: 'Hi.', template: 'Hi.' };
+
+      expect(PromptReverser.chooseTarget(change, 'test-agent', new Map())).toBe('section-file');
+      expect(
+        PromptReverser.chooseTarget(
+          change,
+          'test-agent',
+          new Map([['base/greeting', ['test-agent', 'other-agent']]])
+        )
+      ).toBe('override');
+      expect(
+        PromptReverser.chooseTarget(
+          { ...change, section: { ...greeting, isOverride: true } },
+          'test-agent',
+          new Map()
+        )
+      ).toBe('override');
+    });
+  });
+
+  describe('Field map round-trip', () => {
+    const remoteAgent: Record<string, unknown> = {
+      agent_id: 'agent_123',
+      version: 4,
+      is_published: false,
+      last_modification_timestamp: 1736935800000,
+      response_engine: { type: 'retell-llm', llm_id: 'llm_456', version: 4 },
+      agent_name: 'Support',
+      voice_id: '11labs-Adrian',
+      language: 'en-US',
+      voice_model: 'eleven_turbo_v2',
+      voice_temperature: 1,
+      voice_speed: 1.1,
+      volume: 1,
+      fallback_voice_ids: ['openai-Alloy'],
+      responsiveness: 0.8,
+      interruption_sensitivity: 0.9,
+      enable_backchannel: true,
+      backchannel_frequency: 0.5,
+      backchannel_words: ['yeah', 'uh-huh'],
+      reminder_trigger_ms: 10000,
+      reminder_max_count: 2,
+      ambient_sound: 'coffee-shop',
+      ambient_sound_volume: 0.5,
+      boosted_keywords: ['Heya', 'refund'],
+      vocab_specialization: 'general',
+      stt_mode: 'accurate',
+      denoising_mode: 'noise-cancellation',
+      pronunciation_dictionary: [{ word: 'Heya', alphabet: 'ipa', phoneme: 'heɪjə' }],
+      normalize_for_speech: true,
+      allow_user_dtmf: true,
+      user_dtmf_options: { digit_limit: 4, termination_key: '#', timeout_ms: 3000 },
+      begin_message_delay_ms: 500,
+      ring_duration_ms: 30000,
+      end_call_after_silence_ms: 600000,
+      max_call_duration_ms: 3600000,
+      enable_voicemail_detection: true,
+      voicemail_message: 'Sorry we missed you, please call back.',
+      voicemail_detection_timeout_ms: 30000,
+      voicemail_option: { action: { type: 'static_text', text: 'Please call back.' } },
+      data_storage_setting: 'everything',
+      opt_in_signed_url: false,
+      pii_config: { mode: 'post_call', categories: ['email'] },
+      post_call_analysis_data: [{ type: 'string', name: 'reason', description: 'Call reason' }],
+      post_call_analysis_model: 'gpt-4o-mini',
+      webhook_url: null,
+      webhook_timeout_ms: 10000,
+    };
+
+    const remoteLlm: Record<string, unknown> = {
+      llm_id: 'llm_456',
+      version: 4,
+      is_published: false,
+      last_modification_timestamp: 1736935800000,
+      model: 'gpt-4o-mini',
+      s2s_model: null,
+      model_high_priority: true,
+      model_temperature: 0.2,
+      tool_call_strict_mode: true,
+      start_speaker: 'user',
+      begin_after_user_silence_ms: 2000,
+      general_prompt: 'Be helpful.',
+      begin_message: 'Hi!',
+      default_dynamic_variables: { company: 'Heya' },
+      general_tools: [{ type: 'end_call', name: 'end_call' }],
+      mcps: [{ id: 'orders', name: 'Orders', url: 'https://mcp.example.com' }],
+      states: [
+        {
+          name: 'intake',
+          state_prompt: 'Collect the order number.',
+          edges: [
+            {
+              destination_state_name: 'lookup',
+              description: 'Order number collected',
+              parameters: { type: 'object', properties: { order: { type: 'string' } } },
+            },
+          ],
+          tools: [],
+        },
+        { name: 'lookup', state_prompt: 'Look up the order.' },
+      ],
+      starting_state: 'intake',
+      inbound_dynamic_variables_webhook_url: 'https://example.com/vars',
+      knowledge_base_ids: ['knowledge_base_1'],
+      kb_config: { top_k: 3, filter_score: 0.6 },
+    };
+
+    const without = (
+      object: Record<string, unknown>,
+      keys: ReadonlyArray<string>
+    ): Record<string, unknown> =>
+      Object.fromEntries(Object.entries(object).filter(([key]) => !keys.includes(key)));
+
+    // agent.json as pull writes it from the fixtures: every mapped field,
+    // LLM fields under llm_config, nulls (webhook_url, s2s_model) left out
+    const pulledAgentJson: Record<string, unknown> = {
+      agent_name: 'Support',
+      voice_id: '11labs-Adrian',
+      language: 'en-US',
+      voice_model: 'eleven_turbo_v2',
+      voice_temperature: 1,
+      voice_speed: 1.1,
+      volume: 1,
+      fallback_voice_ids: ['openai-Alloy'],
+      responsiveness: 0.8,
+      interruption_sensitivity: 0.9,
+      enable_backchannel: true,
+      backchannel_frequency: 0.5,
+      backchannel_words: ['yeah', 'uh-huh'],
+      reminder_trigger_ms: 10000,
+      reminder_max_count: 2,
+      ambient_sound: 'coffee-shop',
+      ambient_sound_volume: 0.5,
+      boosted_keywords: ['Heya', 'refund'],
+      vocab_specialization: 'general',
+      stt_mode: 'accurate',
+      denoising_mode: 'noise-cancellation',
+      pronunciation_dictionary: [{ word: 'Heya', alphabet: 'ipa', phoneme: 'heɪjə' }],
+      normalize_for_speech: true,
+      allow_user_dtmf: true,
+      user_dtmf_options: { digit_limit: 4, termination_key: '#', timeout_ms: 3000 },
+      begin_message_delay_ms: 500,
+      ring_duration_ms: 30000,
+      end_call_after_silence_ms: 600000,
+      max_call_duration_ms: 3600000,
+      enable_voicemail_detection: true,
+      voicemail_message: 'Sorry we missed you, please call back.',
+      voicemail_detection_timeout_ms: 30000,
+      voicemail_option: { action: { type: 'static_text', text: 'Please call back.' } },
+      data_storage_setting: 'everything',
+      opt_in_signed_url: false,
+      pii_config: { mode: 'post_call', categories: ['email'] },
+      post_call_analysis_data: [{ type: 'string', name: 'reason', description: 'Call reason' }],
+      post_call_analysis_model: 'gpt-4o-mini',
+      webhook_timeout_ms: 10000,
+      llm_config: {
+        model: 'gpt-4o-mini',
+        model_high_priority: true,
+        temperature: 0.2,
+        tool_call_strict_mode: true,
+        start_speaker: 'user',
+        begin_after_user_silence_ms: 2000,
+        general_prompt: 'Be helpful.',
+        begin_message: 'Hi!',
+        default_dynamic_variables: { company: 'Heya' },
+        general_tools: [{ type: 'end_call', name: 'end_call' }],
+        mcps: [{ id: 'orders', name: 'Orders', url: 'https://mcp.example.com' }],
+        states: remoteLlm['states'],
+        starting_state: 'intake',
+        inbound_dynamic_variables_webhook_url: 'https://example.com/vars',
+        knowledge_base_ids: ['knowledge_base_1'],
+        kb_config: { top_k: 3, filter_score: 0.6 },
+      },
+    };
+
+    it('should write every field of a pulled agent to agent.json', () => {
+      const local = transformRetellToLocal(remoteAgent, remoteLlm);
+
+      expect(JSON.parse(JSON.stringify(local))).toEqual(pulledAgentJson);
+    });
+
+    it('should push every field of agent.json to Retell', () => {
+      const payload = transformLocalToRetell(pulledAgentJson);
+
+      for (const [field, value] of Object.entries(remoteAgent)) {
+        if (SERVER_MANAGED_AGENT_FIELDS.includes(field) || value === null) {
+          expect(payload.agent).not.toHaveProperty(field);
+        } else {
+          expect(payload.agent[field]).toEqual(value);
+        }
+      }
+      for (const [field, value] of Object.entries(remoteLlm)) {
+        if (SERVER_MANAGED_LLM_FIELDS.includes(field) || value === null) {
+          expect(payload.llm).not.toHaveProperty(field);
+        } else {
+          expect(payload.llm[field]).toEqual(value);
+        }
+      }
+    });
+
+    it('should cover every field of the fixtures', () => {
+      const mapped = (fields: ReadonlyArray<{ remote: string }>): string[] =>
+        fields.map((field) => field.remote).sort();
+
+      expect(mapped(AGENT_FIELD_MAP)).toEqual(
+        Object.keys(without(remoteAgent, SERVER_MANAGED_AGENT_FIELDS)).sort()
+      );
+      expect(mapped(LLM_FIELD_MAP)).toEqual(
+        Object.keys(without(remoteLlm, SERVER_MANAGED_LLM_FIELDS)).sort()
+      );
+    });
+
+    it('should not send local-only keys', () => {
+      const payload = transformLocalToRetell({
+        agent_name: 'Support',
+        llm_config: {
+          model: 'gpt-4o-mini',
+          prompt_config: { sections: ['base/greeting'] },
+        },
+      });
+
+      expect(payload).toEqual({ agent: { agent_name: 'Support' }, llm: { model: 'gpt-4o-mini' } });
+    });
+  });
 });
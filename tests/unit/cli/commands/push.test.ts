@@ -13,6 +13,9 @@ import {
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { CustomLlmManager } from '../../../../src/cli/utils/custom-llm';
+import { AgentValidator } from '../../../../src/cli/utils/agent-validator';
+import { BulkRunner } from '../../../../src/cli/utils/bulk-runner';
 
 describe('Push Command Dependencies', () => {
   let tempDir: string;
@@ -131,4 +134,212 @@ describe('Push Command Dependencies', () => {
       expect(kbFiles).toContain('guide.md');
     });
   });
+
+  describe('Custom LLM agents', () => {
+    const customLlmConfig = {
+      agent_name: 'Support',
+      voice_id: '11labs-Adrian',
+      language: 'en-US',
+      response_engine: {
+        type: 'custom-llm',
+        llm_websocket_url: {
+          staging: 'wss://llm-staging.example.com/llm-websocket',
+          production: 'wss://llm.example.com/llm-websocket',
+          'production-eu': 'wss://llm-eu.example.com/llm-websocket',
+        },
+      },
+    };
+
+    async function loadConfig(config: unknown = customLlmConfig) {
+      await fs.writeFile(path.join(agentDir, 'agent.json'), JSON.stringify(config, null, 2));
+      const result = await CustomLlmManager.load(agentDir);
+      if (!result.success) {
+        throw result.error;
+      }
+      return result.value;
+    }
+
+    it('should load agent.json with a custom-llm engine instead of llm_config', async () => {
+      const config = await loadConfig();
+
+      expect(await CustomLlmManager.isCustomLlmAgent(agentDir)).toBe(true);
+      expect(config.response_engine.type).toBe('custom-llm');
+      expect(CustomLlmManager.calculateHash(config).success).toBe(true);
+    });
+
+    it('should reject an invalid WebSocket URL', async () => {
+      await fs.writeFile(
+        path.join(agentDir, 'agent.json'),
+        JSON.stringify({
+          ...customLlmConfig,
+          response_engine: { type: 'custom-llm', llm_websocket_url: 'not a url' },
+        })
+      );
+
+      const result = await CustomLlmManager.load(agentDir);
+      expect(result.success).toBe(false);
+    });
+
+    it('should resolve the WebSocket URL per workspace', async () => {
+      const config = await loadConfig();
+
+      const staging = CustomLlmManager.resolveWebsocketUrl(config, 'staging');
+      const eu = CustomLlmManager.resolveWebsocketUrl(config, 'production', 'production-eu');
+      const us = CustomLlmManager.resolveWebsocketUrl(config, 'production', 'production-us');
+
+      expect(staging.success && staging.value).toBe('wss://llm-staging.example.com/llm-websocket');
+      expect(eu.success && eu.value).toBe('wss://llm-eu.example.com/llm-websocket');
+      expect(us.success && us.value).toBe('wss://llm.example.com/llm-websocket');
+    });
+
+    it('should fail when no URL is configured for the workspace', async () => {
+      const config = await loadConfig({
+        ...customLlmConfig,
+        response_engine: {
+          type: 'custom-llm',
+          llm_websocket_url: { staging: 'wss://llm-staging.example.com/llm-websocket' },
+        },
+      });
+
+      expect(CustomLlmManager.resolveWebsocketUrl(config, 'production').success).toBe(false);
+    });
+
+    it('should only replace the pulled workspace URL when converting a remote agent', async () => {
+      const existing = await loadConfig();
+      const local = CustomLlmManager.toLocal(
+        {
+          agent_id: 'agent_1',
+          agent_name: 'Support',
+          voice_id: '11labs-Adrian',
+          language: 'en-US',
+          response_engine: {
+            type: 'custom-llm',
+            llm_websocket_url: 'wss://llm-staging-2.example.com/llm-websocket',
+          },
+        },
+        'staging',
+        existing
+      );
+
+      expect(local['agent_id']).toBeUndefined();
+      expect(local['response_engine']).toEqual({
+        type: 'custom-llm',
+        llm_websocket_url: {
+          ...customLlmConfig.response_engine.llm_websocket_url,
+          staging: 'wss://llm-staging-2.example.com/llm-websocket',
+        },
+      });
+    });
+
+    it('should diff the WebSocket URL of the compared workspace only', async () => {
+      const config = await loadConfig();
+      const remote = {
+        agent_name: 'Support',
+        voice_id: '11labs-Adrian',
+        language: 'en-US',
+        response_engine: {
+          type: 'custom-llm',
+          llm_websocket_url: 'wss://llm.example.com/llm-websocket',
+        },
+      };
+
+      expect(CustomLlmManager.diff(config, remote, 'production')).toEqual([]);
+      expect(CustomLlmManager.diff(config, remote, 'staging').map((d) => d.path)).toEqual([
+        'response_engine.llm_websocket_url',
+      ]);
+    });
+
+    it('should accept metadata without llm_id', async () => {
+      await fs.writeFile(
+        path.join(agentDir, 'staging.json'),
+        JSON.stringify({
+          workspace: 'staging',
+          agent_id: 'agent_1',
+          kb_id: null,
+          last_sync: new Date().toISOString(),
+          config_hash: 'sha256:abc',
+          retell_version: 1,
+        })
+      );
+
+      const issues = await AgentValidator.validateMetadataFile(agentDir, 'staging.json');
+      expect(issues?.errors).toEqual([]);
+    });
+  });
+
+  describe('Bulk push runner', () => {
+    const options = { concurrency: 2, maxRetries: 2, baseDelayMs: 1 };
+
+    it('should run at most `concurrency` tasks at once and keep item order', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const results = await BulkRunner.run(
+        ['a', 'b', 'c', 'd', 'e'],
+        async (item) => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise((resolve) => setTimeout(resolve, item === 'a' ? 20 : 5));
+          running--;
+          return item.toUpperCase();
+        },
+        options
+      );
+
+      expect(maxRunning).toBe(2);
+      expect(results.map((r) => (r.success ? r.value : null))).toEqual(['A', 'B', 'C', 'D', 'E']);
+    });
+
+    it('should continue past failed items', async () => {
+      const results = await BulkRunner.run(
+        ['ok', 'bad', 'ok2'],
+        async (item) => {
+          if (item === 'bad') {
+            throw new Error('Invalid config');
+          }
+          return item;
+        },
+        options
+      );
+
+      expect(results.map((r) => [r.item, r.success, r.attempts])).toEqual([
+        ['ok', true, 1],
+        ['bad', false, 1],
+        ['ok2', true, 1],
+      ]);
+    });
+
+    it('should retry rate-limited items with backoff', async () => {
+      const calls: string[] = [];
+      const retries: number[] = [];
+      const results = await BulkRunner.run(
+        ['agent'],
+        async (item) => {
+          calls.push(item);
+          if (calls.length < 3) {
+            throw Object.assign(new Error('Rate limited: Failed to update agent'), {
+              code: 'API_RATE_LIMITED',
+            });
+          }
+          return 'pushed';
+        },
+        { ...options, onRetry: (_item, _attempt, delayMs) => retries.push(delayMs) }
+      );
+
+      expect(results[0]).toMatchObject({ success: true, value: 'pushed', attempts: 3 });
+      expect(retries).toEqual([1, 2]);
+    });
+
+    it('should give up after maxRetries rate limits', async () => {
+      const rateLimited = Object.assign(new Error('429 Too Many Requests'), { status: 429 });
+      const results = await BulkRunner.run(
+        ['agent'],
+        async () => {
+          throw rateLimited;
+        },
+        options
+      );
+
+      expect(results[0]).toMatchObject({ success: false, error: rateLimited, attempts: 3 });
+    });
+  });
 });
@@ -0,0 +1,160 @@
+/**
+ * Tests for release command functionality
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from '@jest/globals';
+import {
+  MetadataManager,
+  HashCalculator,
+  type AgentConfig,
+  type MetadataFile,
+} from '@heya/retell.controllers';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { ReleaseRecorder, type ReleaseRecord } from '../../../../src/cli/utils/release-record';
+
+describe('Release Command Dependencies', () => {
+  let tempDir: string;
+  let agentDir: string;
+  let releasesDir: string;
+
+  const config: AgentConfig = {
+    agent_name: 'Test',
+    voice_id: '11labs-Adrian',
+    language: 'en-US',
+    llm_config: {
+      model: 'gpt-4o-mini',
+      general_prompt: 'Test',
+    },
+  } as AgentConfig;
+
+  const buildRecord = (agent: string, releasedAt: string): ReleaseRecord => ({
+    agent,
+    released_at: releasedAt,
+    released_by: 'tester',
+    message: null,
+    config_released: true,
+    kb_released: false,
+    staging: {
+      agent_id: 'agent_staging',
+      llm_id: 'llm_staging',
+      config_hash: 'sha256:abc',
+      retell_version: 3,
+    },
+    production: {
+      agent_id: 'agent_prod',
+      llm_id: 'llm_prod',
+      config_hash: 'sha256:abc',
+      retell_version: 2,
+      previous_version: 1,
+      published_version: null,
+    },
+    changes: [{ field: 'voice_id', staging: '11labs-Adrian', production: '11labs-Bella' }],
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'release-cmd-test-'));
+    agentDir = path.join(tempDir, 'test-agent');
+    releasesDir = path.join(tempDir, 'releases');
+    await fs.mkdir(agentDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('Staging pre-flight', () => {
+    it('should treat local config matching staging hash as releasable', async () => {
+      const hashResult = HashCalculator.calculateAgentHash(config);
+      expect(hashResult.success).toBe(true);
+      if (!hashResult.success) {
+        return;
+      }
+
+      const metadata: MetadataFile = {
+        workspace: 'staging',
+        agent_id: 'agent_123' as never,
+        llm_id: 'llm_456' as never,
+        kb_id: null,
+        last_sync: new Date().toISOString() as never,
+        config_hash: hashResult.value as never,
+        retell_version: 1,
+      };
+      await MetadataManager.write(agentDir, metadata);
+
+      const result = await MetadataManager.read(agentDir, 'staging');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(HashCalculator.compareHashes(hashResult.value, result.value.config_hash)).toBe(true);
+      }
+    });
+
+    it('should detect local changes not yet pushed to staging', async () => {
+      const stagingHash = HashCalculator.calculateAgentHash(config);
+      const localHash = HashCalculator.calculateAgentHash({
+        ...config,
+        voice_id: '11labs-Bella',
+      } as AgentConfig);
+
+      expect(stagingHash.success && localHash.success).toBe(true);
+      if (stagingHash.success && localHash.success) {
+        expect(HashCalculator.compareHashes(localHash.value, stagingHash.value)).toBe(false);
+      }
+    });
+  });
+
+  describe('Release records', () => {
+    it('should build filesystem-safe file names', () => {
+      expect(ReleaseRecorder.getFileName('test-agent', '2025-01-15T10:30:00.000Z')).toBe(
+        'test-agent-2025-01-15T10-30-00-000Z.json'
+      );
+    });
+
+    it('should write a release record and create the releases directory', async () => {
+      const record = buildRecord('test-agent', '2025-01-15T10:30:00.000Z');
+
+      const result = await ReleaseRecorder.write(releasesDir, record);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const content = JSON.parse(await fs.readFile(result.value, 'utf-8')) as ReleaseRecord;
+        expect(content).toEqual(record);
+      }
+    });
+
+    it('should list records newest first and filter by agent', async () => {
+      await ReleaseRecorder.write(
+        releasesDir,
+        buildRecord('test-agent', '2025-01-15T10:30:00.000Z')
+      );
+      await ReleaseRecorder.write(
+        releasesDir,
+        buildRecord('test-agent', '2025-02-01T08:00:00.000Z')
+      );
+      await ReleaseRecorder.write(
+        releasesDir,
+        buildRecord('other-agent', '2025-03-01T08:00:00.000Z')
+      );
+
+      const result = await ReleaseRecorder.list(releasesDir, 'test-agent');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value.map((r) => r.released_at)).toEqual([
+          '2025-02-01T08:00:00.000Z',
+          '2025-01-15T10:30:00.000Z',
+        ]);
+      }
+    });
+
+    it('should return an empty list when no releases exist', async () => {
+      const result = await ReleaseRecorder.list(path.join(tempDir, 'missing'));
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toEqual([]);
+      }
+    });
+  });
+});
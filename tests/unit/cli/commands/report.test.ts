@@ -0,0 +1,104 @@
+/**
+ * Tests for report command functionality
+ */
+
+import { describe, expect, it } from '@jest/globals';
+import type { VersionInfo } from '@heya/retell.controllers';
+import type { CallRecord } from '../../../../src/cli/utils/call-history';
+import { CallReport } from '../../../../src/cli/utils/call-report';
+
+describe('Report Command Dependencies', () => {
+  const call = (overrides: Partial<CallRecord> = {}): CallRecord => ({
+    call_id: 'call_1',
+    agent: 'support',
+    agent_id: 'agent_support',
+    agent_version: 1,
+    call_type: 'phone_call',
+    call_status: 'ended',
+    direction: 'inbound',
+    from_number: '+14155550100',
+    to_number: '+14155550199',
+    start_time: '2025-01-31T09:00:00.000Z',
+    end_time: '2025-01-31T09:01:00.000Z',
+    duration_ms: 60000,
+    disconnection_reason: 'user_hangup',
+    user_sentiment: 'Positive',
+    call_successful: true,
+    in_voicemail: false,
+    call_summary: null,
+    custom_analysis_data: {},
+    transcript: null,
+    ...overrides,
+  });
+
+  const versions: VersionInfo[] = [
+    { version: 1, isPublished: true, lastModified: new Date('2025-01-20'), agentName: 'support' },
+    { version: 2, isPublished: false, lastModified: new Date('2025-01-30'), agentName: 'support' },
+  ];
+
+  describe('Calls by version', () => {
+    it('should group calls by agent version, newest first', () => {
+      const reports = CallReport.byVersion(
+        [
+          call({ agent_version: 1, duration_ms: 30000 }),
+          call({ agent_version: 2, duration_ms: 90000, user_sentiment: 'Negative' }),
+          call({ agent_version: 1, duration_ms: 60000, call_successful: false }),
+          call({ agent_version: 1, duration_ms: 120000, call_successful: null }),
+        ],
+        versions,
+        []
+      );
+
+      expect(reports.map((report) => [report.version, report.published, report.calls])).toEqual([
+        [2, false, 1],
+        [1, true, 3],
+      ]);
+      expect(reports[1]).toMatchObject({
+        duration_ms: { average: 70000, median: 60000, total: 210000 },
+        sentiment: { Positive: 3, Neutral: 0, Negative: 0, Unknown: 0 },
+        success_rate: 0.5,
+        disconnection_reasons: { user_hangup: 3 },
+      });
+    });
+
+    it('should report versions missing from the history as unknown', () => {
+      const [report] = CallReport.byVersion([call({ agent_version: 7 })], versions, []);
+
+      expect(report).toMatchObject({ version: 7, published: null, last_modified: null });
+    });
+  });
+
+  describe('Analysis fields', () => {
+    it('should summarise declared fields by type, then undeclared ones', () => {
+      const [report] = CallReport.byVersion(
+        [
+          call({ custom_analysis_data: { issue_resolved: true, wait: 30, topic: 'billing' } }),
+          call({ custom_analysis_data: { issue_resolved: 'false', wait: '90', topic: 'billing' } }),
+          call({ custom_analysis_data: { issue_resolved: true, topic: 'shipping' } }),
+          call(),
+        ],
+        versions,
+        [
+          { name: 'issue_resolved', type: 'boolean' },
+          { name: 'wait', type: 'number' },
+        ]
+      );
+
+      expect(report?.analysis).toEqual([
+        { name: 'issue_resolved', type: 'boolean', count: 3, true_count: 2, rate: 2 / 3 },
+        { name: 'wait', type: 'number', count: 2, average: 60, min: 30, max: 90 },
+        { name: 'topic', type: 'string', count: 3, values: { billing: 2, shipping: 1 } },
+      ]);
+    });
+
+    it('should list declared fields even when no call has a value', () => {
+      const [report] = CallReport.byVersion([call()], versions, [
+        { name: 'issue_resolved', type: 'boolean' },
+      ]);
+
+      expect(report?.analysis).toEqual([
+        { name: 'issue_resolved', type: 'boolean', count: 0, true_count: 0, rate: null },
+      ]);
+    });
+  });
+});
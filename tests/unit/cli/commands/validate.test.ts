@@ -0,0 +1,336 @@
+/**
+ * Tests for validate command functionality
+ *
+ * The validate command checks agent directories offline, without an API key.
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'child_process';
+import { AgentIndex } from '../../../../src/cli/utils/agent-index';
+import { AgentValidator } from '../../../../src/cli/utils/agent-validator';
+import { GitChangeDetector } from '../../../../src/cli/utils/git-changes';
+
+describe('Validate Command Dependencies', () => {
+  let tempDir: string;
+  let agentDir: string;
+  let promptsDir: string;
+
+  const baseConfig = {
+    agent_name: 'Test Agent',
+    voice_id: '11labs-Adrian',
+    language: 'en-US',
+    llm_config: {
+      model: 'gpt-4o-mini',
+      general_prompt: 'You are a helpful assistant.',
+    },
+  };
+
+  const writeAgent = async (config: unknown): Promise<void> => {
+    await fs.writeFile(path.join(agentDir, 'agent.json'), JSON.stringify(config, null, 2));
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'validate-cmd-test-'));
+    agentDir = path.join(tempDir, 'agents', 'test-agent');
+    promptsDir = path.join(tempDir, 'prompts');
+    await fs.mkdir(agentDir, { recursive: true });
+    await fs.mkdir(path.join(promptsDir, 'base'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('agent.json', () => {
+    it('should pass a valid simple agent', async () => {
+      await writeAgent(baseConfig);
+
+      const report = await AgentValidator.validate(agentDir, promptsDir);
+
+      expect(report.errors).toEqual([]);
+      expect(report.passed).toContain('agent.json valid');
+    });
+
+    it('should report missing agent.json', async () => {
+      const report = await AgentValidator.validate(agentDir, promptsDir);
+
+      expect(report.errors).toEqual(['agent.json not found']);
+    });
+
+    it('should report invalid JSON', async () => {
+      await fs.writeFile(path.join(agentDir, 'agent.json'), '{ not json');
+
+      const report = await AgentValidator.validate(agentDir, promptsDir);
+
+      expect(report.errors[0]).toMatch(/^agent\.json: invalid JSON/);
+    });
+
+    it('should report schema errors with field paths', async () => {
+      await writeAgent({ ...baseConfig, language: 'english' });
+
+      const report = await AgentValidator.validate(agentDir, promptsDir);
+
+      expect(report.errors.some((e) => e.startsWith('agent.json: language:'))).toBe(true);
+    });
+  });
+
+  describe('Agent discovery (--all)', () => {
+    it('should list directories with an agent.json, sorted', async () => {
+      await writeAgent(baseConfig);
+      await fs.mkdir(path.join(tempDir, 'agents', 'a-agent'));
+      await fs.writeFile(path.join(tempDir, 'agents', 'a-agent', 'agent.json'), '{ invalid');
+      await fs.mkdir(path.join(tempDir, 'agents', 'empty'));
+      await fs.writeFile(path.join(tempDir, 'agents', 'notes.json'), '{}');
+
+      const result = await AgentIndex.list(path.join(tempDir, 'agents'));
+
+      expect(result).toEqual({ success: true, value: ['a-agent', 'test-agent'] });
+    });
+
+    it('should report a missing agents directory', async () => {
+      const result = await AgentIndex.list(path.join(tempDir, 'missing'));
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Prompt sections and variables', () => {
+    it('should report missing sections and unclassified variables', async () => {
+      await fs.writeFile(path.join(promptsDir, 'base', 'greeting.txt'), 'Hi from {{company}}');
+      await writeAgent({
+        ...baseConfig,
+        llm_config: {
+          model: 'gpt-4o-mini',
+          prompt_config: {
+            sections: ['base/greeting', 'base/missing'],
+            variables: { unused: 'value' },
+          },
+        },
+      });
+
+      const report = await AgentValidator.validate(agentDir, promptsDir);
+
+      expect(report.errors).toContain('Section "base/missing" not found');
+      expect(report.errors).toContain(
+        'Section "base/greeting" uses undefined variable: {{company}}'
+      );
+      expect(report.warnings).toContain('Variable "unused" is defined but not used in any section');
+    });
+
+    it('should accept static, dynamic and system variables', async () => {
+      await fs.writeFile(
+        path.join(promptsDir, 'base', 'greeting.txt'),
+        '{{company}} {{customer_name}} {{current_time_Australia/Sydney}}'
+      );
+      await writeAgent({
+        ...baseConfig,
+        llm_config: {
+          model: 'gpt-4o-mini',
+          prompt_config: {
+            sections: ['base/greeting'],
+            variables: { company: 'Acme' },
+            dynamic_variables: {
+              customer_name: { type: 'string', description: 'Customer name' },
+            },
+          },
+        },
+      });
+
+      const report = await AgentValidator.validate(agentDir, promptsDir);
+
+      expect(report.errors).toEqual([]);
+    });
+  });
+
+  describe('MCP references', () => {
+    const mcpTool = (mcpId: string): Record<string, unknown> => ({
+      type: 'mcp',
+      mcp_id: mcpId,
+      name: 'lookup_order',
+      description: 'Look up an order',
+    });
+
+    it('should accept tools that reference a defined MCP server', async () => {
+      await writeAgent({
+        ...baseConfig,
+        llm_config: {
+          ...baseConfig.llm_config,
+          mcps: [{ id: 'orders', name: 'Orders', url: 'https://mcp.example.com' }],
+          general_tools: [mcpTool('orders')],
+        },
+      });
+
+      const report = await AgentValidator.validate(agentDir, promptsDir);
+
+      expect(report.errors).toEqual([]);
+      expect(report.passed).toContain('MCP tool references valid');
+    });
+
+    it('should report tools that reference an undefined MCP server', async () => {
+      await writeAgent({
+        ...baseConfig,
+        llm_config: {
+          ...baseConfig.llm_config,
+          mcps: [{ id: 'orders', name: 'Orders', url: 'https://mcp.example.com' }],
+          general_tools: [mcpTool('billing')],
+        },
+      });
+
+      const report = await AgentValidator.validate(agentDir, promptsDir);
+
+      expect(report.errors).toContain(
+        'MCP tool "lookup_order" references undefined mcp_id "billing" (defined: orders)'
+      );
+    });
+  });
+
+  describe('Metadata files', () => {
+    it('should validate staging.json and multi-production production.json', async () => {
+      await writeAgent(baseConfig);
+      const entry = {
+        workspace: 'staging',
+        agent_id: 'agent_123',
+        llm_id: 'llm_456',
+        kb_id: null,
+        last_sync: '2025-01-15T10:30:00.000Z',
+        config_hash: 'sha256:abc',
+        retell_version: 1,
+      };
+      await fs.writeFile(path.join(agentDir, 'staging.json'), JSON.stringify(entry));
+      await fs.writeFile(
+        path.join(agentDir, 'production.json'),
+        JSON.stringify([
+          { ...entry, workspace: 'prod-1' },
+          { ...entry, workspace: 'prod-2' },
+        ])
+      );
+
+      const report = await AgentValidator.validate(agentDir, promptsDir);
+
+      expect(report.errors).toEqual([]);
+      expect(report.passed).toEqual(
+        expect.arrayContaining(['staging.json valid', 'production.json valid'])
+      );
+    });
+
+    it('should report unparseable metadata files', async () => {
+      await writeAgent(baseConfig);
+      await fs.writeFile(path.join(agentDir, 'staging.json'), '{');
+
+      const report = await AgentValidator.validate(agentDir, promptsDir);
+
+      expect(report.errors[0]).toMatch(/^staging\.json: invalid JSON/);
+    });
+  });
+
+  describe('Knowledge base', () => {
+    it('should warn about files tracked in .kb-meta.json that no longer exist', async () => {
+      await writeAgent(baseConfig);
+      await fs.mkdir(path.join(agentDir, 'knowledge'));
+      await fs.writeFile(
+        path.join(agentDir, 'knowledge', '.kb-meta.json'),
+        JSON.stringify({
+          staging: {
+            kb_id: 'kb_123',
+            files: {
+              'old.txt': {
+                file_id: 'source_1',
+                hash: 'sha256:abc',
+                size_bytes: 10,
+                last_sync: '2025-01-15T10:30:00.000Z',
+              },
+            },
+          },
+        })
+      );
+
+      const report = await AgentValidator.validate(agentDir, promptsDir);
+
+      expect(report.errors).toEqual([]);
+      expect(report.warnings).toEqual([
+        'knowledge/.kb-meta.json: file "old.txt" (staging) referenced but not found',
+      ]);
+    });
+  });
+
+  describe('Git change detection (--since)', () => {
+    const git = (...args: string[]): void => {
+      execFileSync('git', args, { cwd: tempDir, stdio: 'ignore' });
+    };
+
+    const addAgent = async (name: string, sections?: string[]): Promise<void> => {
+      const dir = path.join(tempDir, 'agents', name);
+      await fs.mkdir(dir, { recursive: true });
+      const llmConfig =
+        sections !== undefined
+          ? { model: 'gpt-4o-mini', prompt_config: { sections } }
+          : baseConfig.llm_config;
+      await fs.writeFile(
+        path.join(dir, 'agent.json'),
+        JSON.stringify({ ...baseConfig, llm_config: llmConfig })
+      );
+    };
+
+    const affected = async (since: string): Promise<string[]> => {
+      const result = await GitChangeDetector.affectedAgents(
+        since,
+        path.join(tempDir, 'agents'),
+        promptsDir
+      );
+      if (!result.success) {
+        throw result.error;
+      }
+      return result.value.map((agent) => agent.name);
+    };
+
+    beforeEach(async () => {
+      await writeAgent(baseConfig);
+      await addAgent('closer', ['base/closing']);
+      await addAgent('greeter', ['base/greeting']);
+      await fs.writeFile(path.join(promptsDir, 'base', 'closing.txt'), 'Goodbye.');
+      await fs.writeFile(path.join(promptsDir, 'base', 'greeting.txt'), 'Hello.');
+
+      git('init', '-q');
+      git('add', '-A');
+      git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-qm', 'initial');
+    });
+
+    it('should find nothing when nothing changed', async () => {
+      expect(await affected('HEAD')).toEqual([]);
+    });
+
+    it('should include agents whose directory changed', async () => {
+      await fs.writeFile(path.join(agentDir, 'knowledge.md'), '# FAQ');
+
+      expect(await affected('HEAD')).toEqual(['test-agent']);
+    });
+
+    it('should include every agent that composes a changed prompt section', async () => {
+      await fs.writeFile(path.join(promptsDir, 'base', 'closing.txt'), 'Have a great day.');
+
+      expect(await affected('HEAD')).toEqual(['closer']);
+    });
+
+    it('should report an unknown ref', async () => {
+      const result = await GitChangeDetector.affectedAgents(
+        'no-such-ref',
+        path.join(tempDir, 'agents'),
+        promptsDir
+      );
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should not pass an option-like ref through to git diff', async () => {
+      const output = path.join(tempDir, 'overwritten.txt');
+
+      const result = await GitChangeDetector.changedFiles(`--output=${output}`, tempDir);
+
+      expect(result.success).toBe(false);
+      await expect(fs.access(output)).rejects.toThrow();
+    });
+  });
+});
@@ -13,6 +13,8 @@ import { VersionController, MetadataManager } from '@heya/retell.controllers';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
+import { OperationHistory } from '../../../../src/cli/utils/operation-history';
+import { runCli } from '../../../support/run-cli';
 
 describe('Version Command Dependencies', () => {
   let originalCwd: string;
@@ -150,6 +152,35 @@ describe('Version Command Dependencies', () => {
       // Without metadata (never pushed), should fail
       expect(result.success).toBe(false);
     });
+
+    it('should record a failed publish in history', async () => {
+      await fs.mkdir(path.join(agentsDir, 'publish-test'), { recursive: true });
+      await fs.writeFile(
+        path.join(tempDir, 'workspaces.json'),
+        JSON.stringify({
+          staging: {
+            api_key: 'test_key',
+            name: 'Staging',
+            base_url: 'https://api.retellai.com',
+          },
+          production: {
+            api_key: 'prod_key',
+            name: 'Production',
+            base_url: 'https://api.retellai.com',
+          },
+        })
+      );
+
+      const result = await runCli(['version', 'publish', 'publish-test'], tempDir);
+
+      expect(result.exitCode).not.toBe(0);
+      const historyResult = await OperationHistory.read({ agent: 'publish-test' });
+      expect(historyResult.success).toBe(true);
+      if (historyResult.success) {
+        expect(historyResult.value).toHaveLength(1);
+        expect(historyResult.value[0]).toMatchObject({ action: 'publish', success: false });
+      }
+    });
   });
 
   describe('Version rollback command prerequisites', () => {
@@ -223,6 +254,36 @@ describe('Version Command Dependencies', () => {
       // Still fails because agent doesn't exist/synced
       expect(result.success).toBe(false);
     });
+
+    it('should record a failed rollback in history, but not a failed dry run', async () => {
+      await fs.mkdir(path.join(agentsDir, 'rollback-test'), { recursive: true });
+      await fs.writeFile(
+        path.join(tempDir, 'workspaces.json'),
+        JSON.stringify({
+          staging: {
+            api_key: 'test_key',
+            name: 'Staging',
+            base_url: 'https://api.retellai.com',
+          },
+          production: {
+            api_key: 'prod_key',
+            name: 'Production',
+            base_url: 'https://api.retellai.com',
+          },
+        })
+      );
+
+      await runCli(['version', 'rollback', 'rollback-test', '1', '--dry-run'], tempDir);
+      const result = await runCli(['version', 'rollback', 'rollback-test', '1'], tempDir);
+
+      expect(result.exitCode).not.toBe(0);
+      const historyResult = await OperationHistory.read({ agent: 'rollback-test' });
+      expect(historyResult.success).toBe(true);
+      if (historyResult.success) {
+        expect(historyResult.value).toHaveLength(1);
+        expect(historyResult.value[0]).toMatchObject({ action: 'rollback', success: false });
+      }
+    });
   });
 
   describe('Version drift command prerequisites', () => {
@@ -0,0 +1,236 @@
+/**
+ * Tests for workspace add/remove/rename/init functionality
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { WorkspacesFile, type WorkspacesFileJson } from '../../../../src/cli/utils/workspaces-file';
+
+describe('Workspace Command Dependencies', () => {
+  const entry = (envVar: string): { api_key_env: string; name: string; base_url: string } => ({
+    api_key_env: envVar,
+    name: envVar,
+    base_url: 'https://api.retellai.com',
+  });
+
+  const single: WorkspacesFileJson = {
+    mode: 'single-production',
+    staging: entry('RETELL_STAGING_API_KEY'),
+    production: entry('RETELL_PRODUCTION_API_KEY'),
+  };
+
+  const multi: WorkspacesFileJson = {
+    mode: 'multi-production',
+    staging: entry('RETELL_STAGING_API_KEY'),
+    production: {
+      'prod-1': entry('RETELL_PROD_1_API_KEY'),
+      'prod-2': entry('RETELL_PROD_2_API_KEY'),
+    },
+  };
+
+  const unwrap = <T>(result: { success: true; value: T } | { success: false; error: Error }): T => {
+    if (!result.success) {
+      throw result.error;
+    }
+    return result.value;
+  };
+
+  describe('Environment variable names', () => {
+    it('should derive RETELL_<NAME>_API_KEY from the workspace name', () => {
+      expect(WorkspacesFile.getEnvVarName('staging')).toBe('RETELL_STAGING_API_KEY');
+      expect(WorkspacesFile.getEnvVarName('prod-us-east')).toBe('RETELL_PROD_US_EAST_API_KEY');
+    });
+  });
+
+  describe('add', () => {
+    it('should create staging then single production in a new file', () => {
+      const withStaging = unwrap(
+        WorkspacesFile.add({}, 'staging', entry('RETELL_STAGING_API_KEY'))
+      );
+      const complete = unwrap(
+        WorkspacesFile.add(withStaging, 'production', entry('RETELL_PRODUCTION_API_KEY'))
+      );
+
+      expect(complete).toEqual(single);
+      expect(Object.keys(complete)[0]).toBe('mode');
+    });
+
+    it('should add named production workspaces in multi-production mode', () => {
+      const result = unwrap(WorkspacesFile.add(multi, 'prod-3', entry('RETELL_PROD_3_API_KEY')));
+
+      expect(WorkspacesFile.listKeys(result)).toEqual(['staging', 'prod-1', 'prod-2', 'prod-3']);
+    });
+
+    it('should key array-format production entries by id', () => {
+      const arrayConfig: WorkspacesFileJson = {
+        mode: 'multi-production',
+        staging: entry('RETELL_STAGING_API_KEY'),
+        production: [{ id: 'ws_prod_1', ...entry('RETELL_PRODUCTION_1_API_KEY') }],
+      };
+
+      const result = unwrap(WorkspacesFile.add(arrayConfig, 'ws_prod_2', entry('KEY_2')));
+
+      expect(WorkspacesFile.listKeys(result)).toEqual(['staging', 'ws_prod_1', 'ws_prod_2']);
+      expect(WorkspacesFile.getEntry(result, 'ws_prod_2')?.api_key_env).toBe('KEY_2');
+    });
+
+    it('should reject duplicates and named workspaces in single-production mode', () => {
+      expect(WorkspacesFile.add(single, 'staging', entry('X')).success).toBe(false);
+      expect(WorkspacesFile.add(single, 'prod-2', entry('X')).success).toBe(false);
+      expect(WorkspacesFile.add(multi, 'production', entry('X')).success).toBe(false);
+      expect(WorkspacesFile.add(multi, 'bad name', entry('X')).success).toBe(false);
+    });
+
+    it('should keep unknown fields such as cli_version', () => {
+      const result = unwrap(
+        WorkspacesFile.add({ ...multi, cli_version: '^1.4.0' }, 'prod-3', entry('X'))
+      );
+
+      expect(result['cli_version']).toBe('^1.4.0');
+    });
+  });
+
+  describe('remove', () => {
+    it('should remove a named production workspace', () => {
+      const result = unwrap(WorkspacesFile.remove(multi, 'prod-1'));
+
+      expect(WorkspacesFile.listKeys(result)).toEqual(['staging', 'prod-2']);
+      expect(result.mode).toBe('multi-production');
+    });
+
+    it('should drop the production section and mode when the last one is removed', () => {
+      const result = unwrap(WorkspacesFile.remove(single, 'production'));
+
+      expect(result).toEqual({ staging: single.staging });
+    });
+
+    it('should fail for unknown workspaces', () => {
+      expect(WorkspacesFile.remove(multi, 'prod-9').success).toBe(false);
+    });
+  });
+
+  describe('rename', () => {
+    it('should rename in place and optionally set the display name', () => {
+      const result = unwrap(WorkspacesFile.rename(multi, 'prod-1', 'prod-us', 'US'));
+
+      expect(WorkspacesFile.listKeys(result)).toEqual(['staging', 'prod-us', 'prod-2']);
+      expect(WorkspacesFile.getEntry(result, 'prod-us')).toEqual({
+        ...entry('RETELL_PROD_1_API_KEY'),
+        name: 'US',
+      });
+    });
+
+    it('should not rename fixed workspaces or onto existing names', () => {
+      expect(WorkspacesFile.rename(single, 'production', 'prod-1').success).toBe(false);
+      expect(WorkspacesFile.rename(multi, 'staging', 'dev').success).toBe(false);
+      expect(WorkspacesFile.rename(multi, 'prod-1', 'prod-2').success).toBe(false);
+    });
+  });
+
+  describe('generate', () => {
+    it('should reference API keys by environment variable only', () => {
+      const config = WorkspacesFile.generate('single-production', {
+        RETELL_STAGING_API_KEY: 'key_secret_staging',
+        RETELL_PRODUCTION_API_KEY: 'key_secret_production',
+      });
+
+      expect(JSON.stringify(config)).not.toContain('key_secret');
+      expect(config.staging?.api_key_env).toBe('RETELL_STAGING_API_KEY');
+      expect(WorkspacesFile.getEntry(config, 'production')?.api_key_env).toBe(
+        'RETELL_PRODUCTION_API_KEY'
+      );
+    });
+
+    it('should discover multi-production workspaces from the environment', () => {
+      const config = WorkspacesFile.generate('multi-production', {
+        RETELL_STAGING_API_KEY: 'a',
+        RETELL_PRODUCTION_US_EAST_API_KEY: 'b',
+        RETELL_PRODUCTION_EU_API_KEY: 'c',
+      });
+
+      expect(WorkspacesFile.listKeys(config)).toEqual(['staging', 'prod-eu', 'prod-us-east']);
+      expect(WorkspacesFile.getEntry(config, 'prod-eu')?.api_key_env).toBe(
+        'RETELL_PRODUCTION_EU_API_KEY'
+      );
+    });
+
+    it('should report referenced variables that are not set', () => {
+      const missing = WorkspacesFile.findMissingEnvVars(single, { RETELL_STAGING_API_KEY: 'a' });
+
+      expect(missing).toEqual(['RETELL_PRODUCTION_API_KEY']);
+    });
+  });
+
+  describe('Files', () => {
+    let tempDir: string;
+    let agentsDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-cmd-test-'));
+      agentsDir = path.join(tempDir, 'agents');
+      await fs.mkdir(path.join(agentsDir, 'support', 'knowledge'), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should treat a missing workspaces.json as empty', async () => {
+      const config = unwrap(await WorkspacesFile.read(path.join(tempDir, 'workspaces.json')));
+
+      expect(config).toEqual({});
+    });
+
+    it('should replace an existing assignment in the env file', async () => {
+      const envFile = path.join(tempDir, '.env');
+      await fs.writeFile(envFile, 'OTHER=1\nRETELL_STAGING_API_KEY=old\n');
+
+      unwrap(await WorkspacesFile.setEnvVar(envFile, 'RETELL_STAGING_API_KEY', 'new'));
+
+      expect(await fs.readFile(envFile, 'utf-8')).toBe('OTHER=1\nRETELL_STAGING_API_KEY=new\n');
+    });
+
+    it('should find and rename workspace references in agent metadata', async () => {
+      const metadata = {
+        agent_id: 'agent_1',
+        llm_id: 'llm_1',
+        kb_id: null,
+        last_sync: '2025-01-15T10:30:00.000Z',
+        config_hash: 'sha256:abc',
+        retell_version: 1,
+      };
+      await fs.writeFile(
+        path.join(agentsDir, 'support', 'production.json'),
+        JSON.stringify([
+          { workspace: 'prod-1', ...metadata },
+          { workspace: 'prod-2', ...metadata },
+        ])
+      );
+      await fs.writeFile(
+        path.join(agentsDir, 'support', 'knowledge', '.kb-meta.json'),
+        JSON.stringify({ 'prod-1': { kb_id: 'kb_1', files: {} } })
+      );
+
+      expect(await WorkspacesFile.findReferences(agentsDir, 'prod-1')).toEqual([
+        { agent: 'support', file: 'production.json' },
+      ]);
+
+      const changed = unwrap(await WorkspacesFile.renameReferences(agentsDir, 'prod-1', 'prod-us'));
+
+      expect(changed).toHaveLength(2);
+      const production = JSON.parse(
+        await fs.readFile(path.join(agentsDir, 'support', 'production.json'), 'utf-8')
+      );
+      expect(production.map((e: { workspace: string }) => e.workspace)).toEqual([
+        'prod-us',
+        'prod-2',
+      ]);
+      const kbMeta = JSON.parse(
+        await fs.readFile(path.join(agentsDir, 'support', 'knowledge', '.kb-meta.json'), 'utf-8')
+      );
+      expect(Object.keys(kbMeta)).toEqual(['prod-us']);
+    });
+  });
+});